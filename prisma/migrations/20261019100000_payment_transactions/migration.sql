@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_PAID';
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'BANK_TRANSFER', 'CARD', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "payment_transactions" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "method" "PaymentMethod" NOT NULL DEFAULT 'BANK_TRANSFER',
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_paymentId_idx" ON "payment_transactions"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: payments already marked as paid get a single transaction for the full amount
+INSERT INTO "payment_transactions" ("id", "paymentId", "amount", "date", "method", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "amount", COALESCE("paidDate", "updatedAt"), 'OTHER', CURRENT_TIMESTAMP
+FROM "payments"
+WHERE "status" = 'PAID';
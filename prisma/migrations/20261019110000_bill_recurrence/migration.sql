@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'MONTHLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "anchorDate" TIMESTAMP(3),
+ADD COLUMN     "frequency" "RecurrenceFrequency" NOT NULL DEFAULT 'MONTHLY',
+ADD COLUMN     "interval" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "monthOfYear" INTEGER;
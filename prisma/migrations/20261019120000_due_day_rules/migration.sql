@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "DueDayRule" AS ENUM ('DAY_OF_MONTH', 'LAST_DAY', 'NTH_BUSINESS_DAY');
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "dueDayRule" "DueDayRule" NOT NULL DEFAULT 'DAY_OF_MONTH';
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "BusinessDayPolicy" AS ENUM ('NONE', 'PREVIOUS_BUSINESS_DAY', 'NEXT_BUSINESS_DAY');
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "businessDayPolicy" "BusinessDayPolicy" NOT NULL DEFAULT 'NONE';
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "EstimationMode" AS ENUM ('FIXED', 'AVERAGE', 'SAME_MONTH_LAST_YEAR', 'WEIGHTED_TREND');
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "estimationMode" "EstimationMode" NOT NULL DEFAULT 'FIXED',
+ADD COLUMN     "estimationWindow" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "isEstimated" BOOLEAN NOT NULL DEFAULT false;
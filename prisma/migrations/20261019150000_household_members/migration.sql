@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "SplitMode" AS ENUM ('EQUAL', 'PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "splitMode" "SplitMode" NOT NULL DEFAULT 'EQUAL';
+
+-- AlterTable
+ALTER TABLE "payment_transactions" ADD COLUMN     "paidById" TEXT;
+
+-- CreateTable
+CREATE TABLE "members" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bill_shares" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "memberId" TEXT NOT NULL,
+    "value" DOUBLE PRECISION,
+    "excluded" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "bill_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "settlements" (
+    "id" TEXT NOT NULL,
+    "fromMemberId" TEXT NOT NULL,
+    "toMemberId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_paidById_idx" ON "payment_transactions"("paidById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "members_name_key" ON "members"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bill_shares_billId_memberId_key" ON "bill_shares"("billId", "memberId");
+
+-- CreateIndex
+CREATE INDEX "settlements_fromMemberId_idx" ON "settlements"("fromMemberId");
+
+-- CreateIndex
+CREATE INDEX "settlements_toMemberId_idx" ON "settlements"("toMemberId");
+
+-- AddForeignKey
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_shares" ADD CONSTRAINT "bill_shares_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_shares" ADD CONSTRAINT "bill_shares_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlements" ADD CONSTRAINT "settlements_fromMemberId_fkey" FOREIGN KEY ("fromMemberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlements" ADD CONSTRAINT "settlements_toMemberId_fkey" FOREIGN KEY ("toMemberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- Amounts move from DOUBLE PRECISION to integer minor units. Existing rows
+-- are COP, whose minor unit is the whole peso, so values are rounded half
+-- away from zero through NUMERIC (exact) instead of rounding the float.
+-- Values outside the INTEGER range make the cast fail and the migration
+-- roll back instead of storing a truncated amount.
+
+-- AlterTable
+ALTER TABLE "bills" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::NUMERIC)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "payments" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::NUMERIC)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "payment_transactions" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::NUMERIC)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "settlements" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"::NUMERIC)::INTEGER;
+
+-- AlterTable: "value" held a percentage or a fixed amount depending on the
+-- bill's split mode, split it into one typed column each
+ALTER TABLE "bill_shares" ADD COLUMN     "percentage" DOUBLE PRECISION,
+ADD COLUMN     "fixedAmount" INTEGER;
+
+UPDATE "bill_shares" AS s
+SET "percentage" = CASE WHEN b."splitMode" = 'PERCENTAGE' THEN s."value" END,
+    "fixedAmount" = CASE WHEN b."splitMode" = 'FIXED' THEN ROUND(s."value"::NUMERIC)::INTEGER END
+FROM "bills" AS b
+WHERE b."id" = s."billId";
+
+ALTER TABLE "bill_shares" DROP COLUMN "value";
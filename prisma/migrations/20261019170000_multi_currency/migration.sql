@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'COP';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'COP';
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_baseCurrency_quoteCurrency_date_key" ON "exchange_rates"("baseCurrency", "quoteCurrency", "date");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "bill_match_rules" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "amountTolerance" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+    "dateWindow" INTEGER NOT NULL DEFAULT 10,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bill_match_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bill_match_rules_billId_key" ON "bill_match_rules"("billId");
+
+-- AddForeignKey
+ALTER TABLE "bill_match_rules" ADD CONSTRAINT "bill_match_rules_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
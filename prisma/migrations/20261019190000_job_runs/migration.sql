@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "name" TEXT NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("name")
+);
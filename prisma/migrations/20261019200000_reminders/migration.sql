@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "reminderDays" INTEGER[] DEFAULT ARRAY[5, 1]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "reminders" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "threshold" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminders_paymentId_threshold_channel_key" ON "reminders"("paymentId", "threshold", "channel");
+
+-- AddForeignKey
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
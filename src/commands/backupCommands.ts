@@ -0,0 +1,57 @@
+import { BackupService } from '../services/backupService.js';
+import { RestoreMode, countBackupRecords } from '../utils/backup.js';
+import { formatDate } from '../utils/formatters.js';
+import { UsageError, confirmAction } from '../utils/prompt.js';
+import { toDateKey } from '../utils/holidays.js';
+import {
+  displayBackupContents,
+  displaySuccess,
+  displayCommandError,
+  displayInfo,
+} from '../utils/display.js';
+
+const backupService = new BackupService();
+
+const RESTORE_MODES: RestoreMode[] = ['merge', 'replace'];
+
+export interface RestoreCommandOptions {
+  mode?: string;
+  yes?: boolean; // Skip the confirmation of replace restores
+}
+
+export const backup = async (file?: string): Promise<void> => {
+  try {
+    const path = file ?? `house-duties-backup-${toDateKey(new Date())}.json`;
+    const document = await backupService.writeBackup(path);
+    displayBackupContents(countBackupRecords(document.data));
+    displaySuccess(`Backup written to ${path} (schema ${document.schemaVersion})`);
+  } catch (error) {
+    displayCommandError('Failed to create backup', error);
+  }
+};
+
+export const restore = async (file: string, options: RestoreCommandOptions = {}): Promise<void> => {
+  try {
+    const mode = (options.mode ?? 'merge') as RestoreMode;
+    if (!RESTORE_MODES.includes(mode)) {
+      throw new UsageError(`--mode must be one of ${RESTORE_MODES.join(', ')}`);
+    }
+
+    const document = await backupService.readBackup(file);
+    displayInfo(`Backup from ${formatDate(document.createdAt)} (schema ${document.schemaVersion})`);
+    displayBackupContents(countBackupRecords(document.data));
+
+    if (
+      mode === 'replace' &&
+      !(await confirmAction('Replace restores delete all current data first. Continue?', options.yes))
+    ) {
+      displayInfo('Restore cancelled');
+      return;
+    }
+
+    await backupService.restoreBackup(document, mode);
+    displaySuccess(`Backup restored (${mode})`);
+  } catch (error) {
+    displayCommandError('Failed to restore backup', error);
+  }
+};
@@ -1,74 +1,343 @@
-import inquirer from 'inquirer';
-import { BillType } from '@prisma/client';
-import { BillService } from '../services/billService.js';
-import { displayBills, displaySuccess, displayError, displayInfo } from '../utils/display.js';
-import { formatCurrency } from '../utils/formatters.js';
+import {
+  Bill,
+  BillType,
+  RecurrenceFrequency,
+  DueDayRule,
+  BusinessDayPolicy,
+  EstimationMode,
+} from '@prisma/client';
+import { BillService, UpdateBillInput } from '../services/billService.js';
+import { billsView, displaySuccess, displayCommandError, displayInfo } from '../utils/display.js';
+import { render } from '../utils/output.js';
+import {
+  formatCurrency,
+  formatRecurrence,
+  formatDueDay,
+  formatBusinessDayPolicy,
+} from '../utils/formatters.js';
+import {
+  DEFAULT_CURRENCY,
+  fromMajorUnits,
+  getSupportedCurrencies,
+  moneyOf,
+  toMajorUnits,
+} from '../utils/money.js';
+import { UsageError, confirmAction, isInteractive, promptFor } from '../utils/prompt.js';
+import { DEFAULT_REMINDER_DAYS, parseReminderDays } from '../utils/reminders.js';
 
 const billService = new BillService();
 
+// Option values are strings; they are parsed and validated like prompt answers
+export interface BillCommandOptions {
+  name?: string;
+  type?: string;
+  currency?: string;
+  amount?: string;
+  frequency?: string;
+  interval?: string;
+  anchorDate?: string;
+  monthOfYear?: string;
+  dueDayRule?: string;
+  dueDay?: string;
+  businessDayPolicy?: string;
+  estimationMode?: string;
+  estimationWindow?: string;
+  reminderDays?: string;
+  description?: string;
+}
+
+export interface UpdateBillCommandOptions extends BillCommandOptions {
+  bill?: string; // Name of the bill to update
+  active?: string;
+}
+
+export interface DeleteBillCommandOptions {
+  bill?: string;
+  yes?: boolean;
+}
+
+// Options that answer each group of the update prompts
+const updateFieldOptions: Record<string, Array<keyof UpdateBillCommandOptions>> = {
+  name: ['name'],
+  type: ['type'],
+  amount: ['amount', 'currency'],
+  dueDay: ['dueDayRule', 'dueDay'],
+  recurrence: ['frequency', 'interval', 'anchorDate', 'monthOfYear'],
+  businessDayPolicy: ['businessDayPolicy'],
+  estimation: ['estimationMode', 'estimationWindow'],
+  reminderDays: ['reminderDays'],
+  description: ['description'],
+  active: ['active'],
+};
+
+const billChoices = (bills: Bill[], label: (bill: Bill) => string) =>
+  bills.map((bill) => ({ name: label(bill), value: bill.id, short: bill.name }));
+
+const validateOptionalDate = (input: string): boolean | string => {
+  if (input.trim() === '') {
+    return true;
+  }
+  const date = new Date(input);
+  return !isNaN(date.getTime()) || 'Invalid date format';
+};
+
+const intervalUnits: Record<RecurrenceFrequency, string> = {
+  WEEKLY: 'weeks',
+  MONTHLY: 'months',
+  YEARLY: 'years',
+};
+
+const recurrenceQuestions = (bill?: Bill): any[] => [
+  {
+    type: 'list',
+    name: 'frequency',
+    message: 'Frequency:',
+    choices: Object.values(RecurrenceFrequency),
+    default: bill?.frequency ?? 'MONTHLY',
+    optional: true,
+  },
+  {
+    type: 'number',
+    name: 'interval',
+    message: (answers: any) =>
+      `Repeat every how many ${intervalUnits[answers.frequency as RecurrenceFrequency]}?`,
+    default: bill?.interval ?? 1,
+    optional: true,
+    validate: (input: number) =>
+      (Number.isInteger(input) && input >= 1) || 'Interval must be a whole number of at least 1',
+  },
+  {
+    type: 'input',
+    name: 'anchorDate',
+    message: (answers: any) =>
+      answers.frequency === 'WEEKLY'
+        ? 'First due date (YYYY-MM-DD):'
+        : 'First due date (YYYY-MM-DD, optional, defaults to creation date):',
+    default: bill?.anchorDate ? bill.anchorDate.toISOString().split('T')[0] : '',
+    optional: true,
+    validate: (input: string, answers: any) => {
+      if (answers.frequency === 'WEEKLY' && input.trim() === '') {
+        return 'Weekly bills need a first due date';
+      }
+      return validateOptionalDate(input);
+    },
+  },
+  {
+    type: 'number',
+    name: 'monthOfYear',
+    message: 'Month of the year (1-12):',
+    when: (answers: any) => answers.frequency === 'YEARLY',
+    default: (answers: any) =>
+      bill?.monthOfYear ??
+      (answers.anchorDate ? new Date(answers.anchorDate).getMonth() + 1 : new Date().getMonth() + 1),
+    // New yearly bills need the month, existing ones keep theirs
+    optional: bill?.monthOfYear != null,
+    validate: (input: number) =>
+      (input >= 1 && input <= 12) || 'Month must be between 1 and 12',
+  },
+];
+
+const dueDayRuleChoices = [
+  { name: 'Day of month (moved to the last day in short months)', value: 'DAY_OF_MONTH' },
+  { name: 'Last day of month', value: 'LAST_DAY' },
+  { name: 'Nth business day', value: 'NTH_BUSINESS_DAY' },
+];
+
+const dueDayQuestions = (bill?: Bill): any[] => {
+  const isWeekly = (answers: any) => (answers.frequency ?? bill?.frequency) === 'WEEKLY';
+
+  return [
+    {
+      type: 'list',
+      name: 'dueDayRule',
+      message: 'Due day rule:',
+      choices: dueDayRuleChoices,
+      default: bill?.dueDayRule ?? 'DAY_OF_MONTH',
+      optional: true,
+      when: (answers: any) => !isWeekly(answers),
+    },
+    {
+      type: 'number',
+      name: 'dueDay',
+      message: (answers: any) =>
+        answers.dueDayRule === 'NTH_BUSINESS_DAY'
+          ? 'Business day of the month (1-23):'
+          : 'Due day of month (1-31):',
+      default: bill?.dueDay,
+      optional: bill !== undefined,
+      when: (answers: any) => !isWeekly(answers) && answers.dueDayRule !== 'LAST_DAY',
+      validate: (input: number, answers: any) => {
+        const max = answers.dueDayRule === 'NTH_BUSINESS_DAY' ? 23 : 31;
+        return (input >= 1 && input <= max) || `Day must be between 1 and ${max}`;
+      },
+    },
+  ];
+};
+
+const businessDayPolicyQuestion = (bill?: Bill): any => ({
+  type: 'list',
+  name: 'businessDayPolicy',
+  message: 'When the due date falls on a weekend or holiday:',
+  choices: Object.values(BusinessDayPolicy).map((policy) => ({
+    name: formatBusinessDayPolicy(policy),
+    value: policy,
+  })),
+  default: bill?.businessDayPolicy ?? 'NONE',
+  optional: true,
+});
+
+const currencyQuestion = (bill?: Bill): any => ({
+  type: 'list',
+  name: 'currency',
+  message: 'Currency:',
+  choices: getSupportedCurrencies(),
+  default: bill?.currency ?? DEFAULT_CURRENCY,
+  optional: true,
+});
+
+const estimationModeChoices: Array<{ name: string; value: EstimationMode }> = [
+  { name: 'Fixed (always the bill amount)', value: 'FIXED' },
+  { name: 'Average of the last N paid payments', value: 'AVERAGE' },
+  { name: 'Same month last year', value: 'SAME_MONTH_LAST_YEAR' },
+  { name: 'Weighted trend of the last N paid payments', value: 'WEIGHTED_TREND' },
+];
+
+const estimationQuestions = (bill?: Bill): any[] => [
+  {
+    type: 'list',
+    name: 'estimationMode',
+    message: 'How should amounts of generated payments be estimated?',
+    choices: estimationModeChoices,
+    default: bill?.estimationMode ?? 'FIXED',
+    optional: true,
+  },
+  {
+    type: 'number',
+    name: 'estimationWindow',
+    message: 'Number of paid payments to use (N):',
+    default: bill?.estimationWindow ?? 3,
+    optional: true,
+    when: (answers: any) =>
+      answers.estimationMode === 'AVERAGE' || answers.estimationMode === 'WEIGHTED_TREND',
+    validate: (input: number) =>
+      (Number.isInteger(input) && input >= 1 && input <= 24) || 'N must be between 1 and 24',
+  },
+];
+
+const reminderDaysQuestion = (bill?: Bill): any => ({
+  type: 'input',
+  name: 'reminderDays',
+  message: 'Remind how many days before the due date (e.g. 5, 1; empty for none):',
+  default: (bill?.reminderDays ?? DEFAULT_REMINDER_DAYS).join(', '),
+  optional: true,
+  validate: (input: string) => {
+    try {
+      parseReminderDays(input);
+      return true;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  },
+});
+
+const buildDueDayInput = (answers: any): UpdateBillInput => {
+  const dueDayRule: DueDayRule = answers.dueDayRule;
+  return {
+    dueDayRule,
+    dueDay: dueDayRule === 'LAST_DAY' ? 31 : answers.dueDay,
+  };
+};
+
+const buildRecurrenceInput = (answers: any): UpdateBillInput => {
+  const anchorDate = answers.anchorDate.trim() ? new Date(answers.anchorDate) : null;
+
+  return {
+    frequency: answers.frequency,
+    interval: answers.interval,
+    anchorDate,
+    monthOfYear: answers.frequency === 'YEARLY' ? answers.monthOfYear : null,
+    // Weekly bills are driven by the anchor date, the due day mirrors it
+    ...(answers.frequency === 'WEEKLY' && anchorDate ? { dueDay: anchorDate.getDate() } : {}),
+  };
+};
+
 export const listBills = async (activeOnly: boolean = false): Promise<void> => {
   try {
     const bills = await billService.getAllBills(activeOnly);
-    displayBills(bills);
+    render(billsView, bills);
   } catch (error) {
-    displayError('Failed to fetch bills');
-    console.error(error);
+    displayCommandError('Failed to fetch bills', error);
   }
 };
 
-export const addBill = async (): Promise<void> => {
+export const addBill = async (options: BillCommandOptions = {}): Promise<void> => {
   try {
-    const answers = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'name',
-        message: 'Bill name:',
-        validate: (input) => input.trim() !== '' || 'Name is required',
-      },
-      {
-        type: 'list',
-        name: 'type',
-        message: 'Bill type:',
-        choices: Object.values(BillType),
-      },
-      {
-        type: 'number',
-        name: 'amount',
-        message: 'Amount:',
-        validate: (input) => input > 0 || 'Amount must be greater than 0',
-      },
-      {
-        type: 'number',
-        name: 'dueDay',
-        message: 'Due day of month (1-31):',
-        validate: (input) =>
-          (input >= 1 && input <= 31) || 'Day must be between 1 and 31',
-      },
-      {
-        type: 'input',
-        name: 'description',
-        message: 'Description (optional):',
-      },
-    ]);
+    const answers = await promptFor(
+      [
+        {
+          type: 'input',
+          name: 'name',
+          message: 'Bill name:',
+          validate: (input: string) => input.trim() !== '' || 'Name is required',
+        },
+        {
+          type: 'list',
+          name: 'type',
+          message: 'Bill type:',
+          choices: Object.values(BillType),
+        },
+        currencyQuestion(),
+        {
+          type: 'number',
+          name: 'amount',
+          message: 'Amount:',
+          validate: (input: number) => input > 0 || 'Amount must be greater than 0',
+        },
+        ...recurrenceQuestions(),
+        ...dueDayQuestions(),
+        businessDayPolicyQuestion(),
+        ...estimationQuestions(),
+        reminderDaysQuestion(),
+        {
+          type: 'input',
+          name: 'description',
+          message: 'Description (optional):',
+          optional: true,
+        },
+      ],
+      { ...options }
+    );
+
+    const recurrence = buildRecurrenceInput(answers);
+    const dueDay: UpdateBillInput =
+      answers.frequency === 'WEEKLY' ? {} : buildDueDayInput(answers);
 
     const bill = await billService.createBill({
       name: answers.name.trim(),
       type: answers.type,
-      amount: answers.amount,
-      dueDay: answers.dueDay,
+      amount: fromMajorUnits(answers.amount, answers.currency),
+      dueDay: recurrence.dueDay ?? dueDay.dueDay!,
+      dueDayRule: dueDay.dueDayRule,
+      businessDayPolicy: answers.businessDayPolicy,
+      frequency: recurrence.frequency,
+      interval: recurrence.interval,
+      anchorDate: recurrence.anchorDate ?? undefined,
+      monthOfYear: recurrence.monthOfYear ?? undefined,
+      estimationMode: answers.estimationMode,
+      estimationWindow: answers.estimationWindow,
+      reminderDays: parseReminderDays(answers.reminderDays),
       description: answers.description.trim() || undefined,
     });
 
     displaySuccess(
-      `Bill "${bill.name}" created successfully (${formatCurrency(bill.amount)} due on day ${bill.dueDay})`
+      `Bill "${bill.name}" created successfully (${formatCurrency(moneyOf(bill))}, ${formatRecurrence(bill).toLowerCase()}, due: ${formatDueDay(bill)})`
     );
   } catch (error) {
-    displayError('Failed to create bill');
-    console.error(error);
+    displayCommandError('Failed to create bill', error);
   }
 };
 
-export const updateBill = async (): Promise<void> => {
+export const updateBill = async (options: UpdateBillCommandOptions = {}): Promise<void> => {
   try {
     const bills = await billService.getAllBills();
 
@@ -77,35 +346,52 @@ export const updateBill = async (): Promise<void> => {
       return;
     }
 
-    const { billId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'billId',
-        message: 'Select bill to update:',
-        choices: bills.map((bill) => ({
-          name: `${bill.name} - ${formatCurrency(bill.amount)} (Due: ${bill.dueDay})`,
-          value: bill.id,
-        })),
-      },
-    ]);
+    const { billId } = await promptFor(
+      [
+        {
+          type: 'list',
+          name: 'billId',
+          message: 'Select bill to update:',
+          choices: billChoices(
+            bills,
+            (bill) => `${bill.name} - ${formatCurrency(moneyOf(bill))} (Due: ${formatDueDay(bill)})`
+          ),
+        },
+      ],
+      { billId: options.bill },
+      { billId: 'bill' }
+    );
 
     const selectedBill = bills.find((b) => b.id === billId)!;
 
-    const { fieldsToUpdate } = await inquirer.prompt([
-      {
-        type: 'checkbox',
-        name: 'fieldsToUpdate',
-        message: 'What would you like to update?',
-        choices: [
-          { name: 'Name', value: 'name' },
-          { name: 'Type', value: 'type' },
-          { name: 'Amount', value: 'amount' },
-          { name: 'Due Day', value: 'dueDay' },
-          { name: 'Description', value: 'description' },
-          { name: 'Status (Active/Inactive)', value: 'active' },
-        ],
-      },
-    ]);
+    // Field options pick the fields to update, otherwise the user is asked
+    let fieldsToUpdate = Object.keys(updateFieldOptions).filter((field) =>
+      updateFieldOptions[field].some((option) => options[option] !== undefined)
+    );
+    if (fieldsToUpdate.length === 0 && !isInteractive()) {
+      throw new UsageError('Nothing to update, pass at least one field option');
+    }
+    if (fieldsToUpdate.length === 0) {
+      ({ fieldsToUpdate } = await promptFor([
+        {
+          type: 'checkbox',
+          name: 'fieldsToUpdate',
+          message: 'What would you like to update?',
+          choices: [
+            { name: 'Name', value: 'name' },
+            { name: 'Type', value: 'type' },
+            { name: 'Amount', value: 'amount' },
+            { name: 'Due Day', value: 'dueDay' },
+            { name: 'Recurrence', value: 'recurrence' },
+            { name: 'Weekend/Holiday Policy', value: 'businessDayPolicy' },
+            { name: 'Amount Estimation', value: 'estimation' },
+            { name: 'Reminders', value: 'reminderDays' },
+            { name: 'Description', value: 'description' },
+            { name: 'Status (Active/Inactive)', value: 'active' },
+          ],
+        },
+      ]));
+    }
 
     if (fieldsToUpdate.length === 0) {
       displayInfo('No fields selected to update');
@@ -135,24 +421,33 @@ export const updateBill = async (): Promise<void> => {
     }
 
     if (fieldsToUpdate.includes('amount')) {
-      updateQuestions.push({
+      updateQuestions.push(currencyQuestion(selectedBill), {
         type: 'number',
         name: 'amount',
         message: 'New amount:',
-        default: selectedBill.amount,
+        default: toMajorUnits(moneyOf(selectedBill)),
         validate: (input: number) => input > 0 || 'Amount must be greater than 0',
       });
     }
 
+    if (fieldsToUpdate.includes('recurrence')) {
+      updateQuestions.push(...recurrenceQuestions(selectedBill));
+    }
+
     if (fieldsToUpdate.includes('dueDay')) {
-      updateQuestions.push({
-        type: 'number',
-        name: 'dueDay',
-        message: 'New due day (1-31):',
-        default: selectedBill.dueDay,
-        validate: (input: number) =>
-          (input >= 1 && input <= 31) || 'Day must be between 1 and 31',
-      });
+      updateQuestions.push(...dueDayQuestions(selectedBill));
+    }
+
+    if (fieldsToUpdate.includes('businessDayPolicy')) {
+      updateQuestions.push(businessDayPolicyQuestion(selectedBill));
+    }
+
+    if (fieldsToUpdate.includes('estimation')) {
+      updateQuestions.push(...estimationQuestions(selectedBill));
+    }
+
+    if (fieldsToUpdate.includes('reminderDays')) {
+      updateQuestions.push(reminderDaysQuestion(selectedBill));
     }
 
     if (fieldsToUpdate.includes('description')) {
@@ -173,17 +468,43 @@ export const updateBill = async (): Promise<void> => {
       });
     }
 
-    const updates = await inquirer.prompt(updateQuestions);
+    // Fields asked for but not given keep their current value
+    const answers = await promptFor(
+      updateQuestions.map((question) => ({ optional: true, ...question })),
+      { ...options }
+    );
+
+    const {
+      frequency,
+      interval,
+      anchorDate,
+      monthOfYear,
+      dueDayRule,
+      dueDay,
+      currency,
+      ...updates
+    } = answers;
+    if (updates.amount !== undefined) {
+      updates.amount = fromMajorUnits(updates.amount, currency);
+    }
+    if (updates.reminderDays !== undefined) {
+      updates.reminderDays = parseReminderDays(updates.reminderDays);
+    }
+    if (fieldsToUpdate.includes('dueDay') && dueDayRule) {
+      Object.assign(updates, buildDueDayInput({ dueDayRule, dueDay }));
+    }
+    if (fieldsToUpdate.includes('recurrence')) {
+      Object.assign(updates, buildRecurrenceInput({ frequency, interval, anchorDate, monthOfYear }));
+    }
 
     const updatedBill = await billService.updateBill(billId, updates);
     displaySuccess(`Bill "${updatedBill.name}" updated successfully`);
   } catch (error) {
-    displayError('Failed to update bill');
-    console.error(error);
+    displayCommandError('Failed to update bill', error);
   }
 };
 
-export const deleteBill = async (): Promise<void> => {
+export const deleteBill = async (options: DeleteBillCommandOptions = {}): Promise<void> => {
   try {
     const bills = await billService.getAllBills();
 
@@ -192,28 +513,25 @@ export const deleteBill = async (): Promise<void> => {
       return;
     }
 
-    const { billId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'billId',
-        message: 'Select bill to delete:',
-        choices: bills.map((bill) => ({
-          name: `${bill.name} - ${formatCurrency(bill.amount)}`,
-          value: bill.id,
-        })),
-      },
-    ]);
+    const { billId } = await promptFor(
+      [
+        {
+          type: 'list',
+          name: 'billId',
+          message: 'Select bill to delete:',
+          choices: billChoices(bills, (bill) => `${bill.name} - ${formatCurrency(moneyOf(bill))}`),
+        },
+      ],
+      { billId: options.bill },
+      { billId: 'bill' }
+    );
 
     const selectedBill = bills.find((b) => b.id === billId)!;
 
-    const { confirm } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: `Are you sure you want to delete "${selectedBill.name}"? This will also delete all associated payments.`,
-        default: false,
-      },
-    ]);
+    const confirm = await confirmAction(
+      `Are you sure you want to delete "${selectedBill.name}"? This will also delete all associated payments.`,
+      options.yes
+    );
 
     if (confirm) {
       await billService.deleteBill(billId);
@@ -222,7 +540,6 @@ export const deleteBill = async (): Promise<void> => {
       displayInfo('Deletion cancelled');
     }
   } catch (error) {
-    displayError('Failed to delete bill');
-    console.error(error);
+    displayCommandError('Failed to delete bill', error);
   }
 };
@@ -0,0 +1,33 @@
+import { writeFileSync } from 'fs';
+import { PaymentService } from '../services/paymentService.js';
+import { displayCommandError, displaySuccess } from '../utils/display.js';
+import { buildPaymentCalendar } from '../utils/icalendar.js';
+import { parseDateOption } from '../utils/prompt.js';
+
+const paymentService = new PaymentService();
+
+export interface CalendarExportOptions {
+  file?: string;
+  from?: string;
+  to?: string;
+}
+
+// Writes to the given file, or to stdout so the calendar can be piped
+export const exportCalendar = async (options: CalendarExportOptions = {}): Promise<void> => {
+  try {
+    const from = parseDateOption(options.from, 'from');
+    const to = parseDateOption(options.to, 'to');
+    await paymentService.updateOverduePayments();
+
+    const payments = await paymentService.getPaymentsBetween(from, to);
+    const content = buildPaymentCalendar(payments, { name: 'House Duties' });
+    if (options.file) {
+      writeFileSync(options.file, content, 'utf-8');
+      displaySuccess(`Exported ${payments.length} payment(s) to ${options.file}`);
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    displayCommandError('Failed to export the calendar', error);
+  }
+};
@@ -0,0 +1,65 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { CsvService, CsvExport, CsvExportOptions } from '../services/csvService.js';
+import { displayImportReport, displaySuccess, displayCommandError } from '../utils/display.js';
+import { parseDateOption } from '../utils/prompt.js';
+
+const csvService = new CsvService();
+
+export interface ExportCommandOptions {
+  file?: string;
+  columns?: string;
+  from?: string;
+  to?: string;
+}
+
+const toExportOptions = (options: ExportCommandOptions): CsvExportOptions => ({
+  columns: options.columns?.split(',').filter((column) => column.trim() !== ''),
+  from: parseDateOption(options.from, 'from'),
+  to: parseDateOption(options.to, 'to'),
+});
+
+// Writes to the given file, or to stdout so the CSV can be piped
+const writeExport = (result: CsvExport, options: ExportCommandOptions, noun: string): void => {
+  if (options.file) {
+    writeFileSync(options.file, result.content, 'utf-8');
+    displaySuccess(`Exported ${result.count} ${noun} to ${options.file}`);
+  } else {
+    process.stdout.write(result.content);
+  }
+};
+
+export const exportBills = async (options: ExportCommandOptions = {}): Promise<void> => {
+  try {
+    const result = await csvService.exportBills(toExportOptions(options));
+    writeExport(result, options, 'bill(s)');
+  } catch (error) {
+    displayCommandError('Failed to export bills', error);
+  }
+};
+
+export const exportPayments = async (options: ExportCommandOptions = {}): Promise<void> => {
+  try {
+    const result = await csvService.exportPayments(toExportOptions(options));
+    writeExport(result, options, 'payment(s)');
+  } catch (error) {
+    displayCommandError('Failed to export payments', error);
+  }
+};
+
+export const importBills = async (file: string, dryRun: boolean = false): Promise<void> => {
+  try {
+    const report = await csvService.importBills(readFileSync(file, 'utf-8'), dryRun);
+    displayImportReport(report);
+  } catch (error) {
+    displayCommandError('Failed to import bills', error);
+  }
+};
+
+export const importPayments = async (file: string, dryRun: boolean = false): Promise<void> => {
+  try {
+    const report = await csvService.importPayments(readFileSync(file, 'utf-8'), dryRun);
+    displayImportReport(report);
+  } catch (error) {
+    displayCommandError('Failed to import payments', error);
+  }
+};
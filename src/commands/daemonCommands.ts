@@ -0,0 +1,111 @@
+import { createReminderChannels } from '../services/reminderChannels.js';
+import { JobRunResult, SchedulerService, createDefaultJobs } from '../services/schedulerService.js';
+import {
+  displayCommandError,
+  displayError,
+  displayInfo,
+  displaySuccess,
+} from '../utils/display.js';
+import { formatDate } from '../utils/formatters.js';
+import { UsageError } from '../utils/prompt.js';
+import {
+  describeSchedule,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  runLoop,
+} from '../utils/schedule.js';
+
+export interface DaemonCommandOptions {
+  generateDay?: string;
+  at?: string;
+  once?: boolean;
+}
+
+// How often the daemon looks for due jobs
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+const formatDateTime = (date: Date): string =>
+  `${formatDate(date)} ${formatTimeOfDay({ hour: date.getHours(), minute: date.getMinutes() })}`;
+
+const logResult = (result: JobRunResult): void => {
+  const prefix =
+    `[${formatDateTime(new Date())}] ${result.job} (${formatDateTime(result.scheduledAt)})`;
+  if (result.error) {
+    displayError(`${prefix}: ${result.error}`);
+  } else {
+    displaySuccess(`${prefix}: ${result.message}`);
+  }
+};
+
+// Checks for due jobs every minute until Ctrl+C or SIGTERM; a running job finishes first and
+// a failed check is logged and retried on the next tick
+export const runDaemon = async (options: DaemonCommandOptions = {}): Promise<void> => {
+  try {
+    const generateDay = Number(options.generateDay ?? process.env.DAEMON_GENERATE_DAY ?? 25);
+    if (!Number.isInteger(generateDay) || generateDay < 1 || generateDay > 31) {
+      throw new UsageError('--generate-day must be a whole number between 1 and 31');
+    }
+    let time;
+    try {
+      time = parseTimeOfDay(options.at ?? process.env.DAEMON_TIME ?? '06:00');
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+
+    const reminderChannels = createReminderChannels(process.env.REMINDER_CHANNELS ?? '');
+
+    const scheduler = new SchedulerService();
+    for (const job of createDefaultJobs({ generateDay, time, reminderChannels })) {
+      scheduler.register(job);
+    }
+
+    for (const status of await scheduler.getStatus()) {
+      const lastRun = status.lastRunAt ? formatDateTime(status.lastRunAt) : 'never';
+      displayInfo(
+        `${status.name}: ${describeSchedule(status.schedule)}, last run ${lastRun}, ` +
+          `next run ${formatDateTime(status.nextRunAt)}`
+      );
+    }
+
+    if (options.once) {
+      const results = await scheduler.runDueJobs(new Date(), logResult);
+      if (results.length === 0) {
+        displayInfo('No jobs are due');
+      }
+      return;
+    }
+
+    let stopped = false;
+    let wake = (): void => {};
+    const stop = (): void => {
+      stopped = true;
+      wake();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    displaySuccess('Daemon started, press Ctrl+C to stop');
+    await runLoop(
+      () => scheduler.runDueJobs(new Date(), logResult),
+      (error) =>
+        displayError(
+          `[${formatDateTime(new Date())}] Checking for due jobs failed: ` +
+            `${error instanceof Error ? error.message : String(error)}`
+        ),
+      {
+        isStopped: () => stopped,
+        wait: () =>
+          new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, CHECK_INTERVAL_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          }),
+      }
+    );
+    displayInfo('Daemon stopped');
+  } catch (error) {
+    displayCommandError('Failed to run the daemon', error);
+  }
+};
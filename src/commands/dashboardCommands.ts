@@ -0,0 +1,35 @@
+import { randomBytes } from 'crypto';
+import { ApiServer } from '../services/apiServer.js';
+import { displayCommandError, displayInfo, displaySuccess } from '../utils/display.js';
+import { UsageError } from '../utils/prompt.js';
+
+export interface DashboardCommandOptions {
+  port?: string;
+  host?: string;
+}
+
+// A fresh token per run: the page hands it to the browser, so it must not be API_TOKEN.
+// The page itself needs the key of the printed URL, also new on every run.
+export const dashboard = async (options: DashboardCommandOptions = {}): Promise<void> => {
+  try {
+    const port = Number(options.port ?? process.env.DASHBOARD_PORT ?? 3001);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new UsageError('--port must be a whole number between 0 and 65535');
+    }
+
+    const dashboardKey = randomBytes(16).toString('hex');
+    const server = new ApiServer(randomBytes(32).toString('hex'), { dashboardKey });
+    const address = await server.listen(port, options.host ?? '127.0.0.1');
+    displaySuccess(`Dashboard at http://${address.address}:${address.port}/?key=${dashboardKey}`);
+    displayInfo('Press Ctrl+C to stop');
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    await server.close();
+    displayInfo('Dashboard stopped');
+  } catch (error) {
+    displayCommandError('Failed to run the dashboard', error);
+  }
+};
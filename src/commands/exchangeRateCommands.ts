@@ -0,0 +1,41 @@
+import inquirer from 'inquirer';
+import { ExchangeRateService } from '../services/exchangeRateService.js';
+import { exchangeRatesView, displaySuccess, displayCommandError } from '../utils/display.js';
+import { render } from '../utils/output.js';
+import { UsageError, isInteractive } from '../utils/prompt.js';
+
+const exchangeRateService = new ExchangeRateService();
+
+export const listExchangeRates = async (): Promise<void> => {
+  try {
+    const rates = await exchangeRateService.getAllRates();
+    render(exchangeRatesView, rates);
+  } catch (error) {
+    displayCommandError('Failed to fetch exchange rates', error);
+  }
+};
+
+export const importExchangeRates = async (filePath?: string): Promise<void> => {
+  try {
+    let path = filePath;
+    if (!path && !isInteractive()) {
+      throw new UsageError('Pass the exchange rate file: rates:import <file>');
+    }
+    if (!path) {
+      const answers = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'path',
+          message: 'CSV file with exchange rates (date,base,quote,rate):',
+          validate: (input: string) => input.trim() !== '' || 'File path is required',
+        },
+      ]);
+      path = answers.path.trim() as string;
+    }
+
+    const count = await exchangeRateService.importRatesFromCsv(path);
+    displaySuccess(`Imported ${count} exchange rate(s)`);
+  } catch (error) {
+    displayCommandError('Failed to import exchange rates', error);
+  }
+};
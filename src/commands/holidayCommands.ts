@@ -0,0 +1,13 @@
+import { getHolidayCalendar } from '../services/holidayCalendar.js';
+import { holidaysView, displayCommandError } from '../utils/display.js';
+import { render } from '../utils/output.js';
+
+export const listHolidays = async (year?: number): Promise<void> => {
+  try {
+    const calendar = getHolidayCalendar();
+    const targetYear = year ?? new Date().getFullYear();
+    render(holidaysView(calendar.name, targetYear), calendar.getHolidays(targetYear));
+  } catch (error) {
+    displayCommandError('Failed to load holidays', error);
+  }
+};
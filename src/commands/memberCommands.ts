@@ -0,0 +1,338 @@
+import inquirer from 'inquirer';
+import { SplitMode } from '@prisma/client';
+import { MemberService, BillShareInput } from '../services/memberService.js';
+import { BillService } from '../services/billService.js';
+import { PaymentService } from '../services/paymentService.js';
+import {
+  membersView,
+  balancesView,
+  displaySuccess,
+  displayCommandError,
+  displayInfo,
+} from '../utils/display.js';
+import { formatCurrency } from '../utils/formatters.js';
+import { DEFAULT_CURRENCY, fromMajorUnits, money, moneyOf, toMajorUnits } from '../utils/money.js';
+import { UsageError, isInteractive, promptFor } from '../utils/prompt.js';
+import { render } from '../utils/output.js';
+
+const memberService = new MemberService();
+const billService = new BillService();
+const paymentService = new PaymentService();
+
+// Option values are strings; they are parsed and validated like prompt answers
+export interface AddMemberCommandOptions {
+  name?: string;
+  joinedAt?: string;
+}
+
+export interface UpdateMemberCommandOptions extends AddMemberCommandOptions {
+  member?: string; // Name of the member to update
+  leftAt?: string;
+}
+
+export interface SplitBillCommandOptions {
+  bill?: string;
+  mode?: string;
+  exclude?: string; // Comma-separated member names
+  shares?: string; // Comma-separated name=value pairs, e.g. "Ana=60,Luis=40"
+}
+
+export interface BalancesCommandOptions {
+  settle?: boolean; // Record the suggested transfers without asking
+}
+
+// Values of --shares keyed by lowercase member name
+const parseShares = (value: string): Map<string, string> => {
+  const shares = new Map<string, string>();
+  for (const pair of value.split(',').filter((item) => item.trim() !== '')) {
+    const [name, share] = pair.split('=');
+    if (share === undefined || name.trim() === '') {
+      throw new UsageError(`--shares must look like "Ana=60,Luis=40", got "${pair}"`);
+    }
+    shares.set(name.trim().toLowerCase(), share.trim());
+  }
+  return shares;
+};
+
+const validateDate = (input: string): boolean | string => {
+  const date = new Date(input);
+  return !isNaN(date.getTime()) || 'Invalid date format';
+};
+
+export const listMembers = async (): Promise<void> => {
+  try {
+    const members = await memberService.getAllMembers();
+    render(membersView, members);
+  } catch (error) {
+    displayCommandError('Failed to fetch members', error);
+  }
+};
+
+export const addMember = async (options: AddMemberCommandOptions = {}): Promise<void> => {
+  try {
+    const answers = await promptFor(
+      [
+        {
+          type: 'input',
+          name: 'name',
+          message: 'Member name:',
+          validate: (input: string) => input.trim() !== '' || 'Name is required',
+        },
+        {
+          type: 'input',
+          name: 'joinedAt',
+          message: 'Joined the household on (YYYY-MM-DD):',
+          default: new Date().toISOString().split('T')[0],
+          optional: true,
+          validate: validateDate,
+        },
+      ],
+      { ...options }
+    );
+
+    const member = await memberService.createMember({
+      name: answers.name.trim(),
+      joinedAt: new Date(answers.joinedAt),
+    });
+
+    displaySuccess(`Member "${member.name}" added successfully`);
+  } catch (error) {
+    displayCommandError('Failed to add member', error);
+  }
+};
+
+export const updateMember = async (options: UpdateMemberCommandOptions = {}): Promise<void> => {
+  try {
+    const members = await memberService.getAllMembers();
+
+    if (members.length === 0) {
+      displayInfo('No members available to update');
+      return;
+    }
+
+    const { memberId } = await promptFor(
+      [
+        {
+          type: 'list',
+          name: 'memberId',
+          message: 'Select member to update:',
+          choices: members.map((member) => ({
+            name: member.leftAt ? `${member.name} (moved out)` : member.name,
+            value: member.id,
+            short: member.name,
+          })),
+        },
+      ],
+      { memberId: options.member },
+      { memberId: 'member' }
+    );
+
+    const selectedMember = members.find((m) => m.id === memberId)!;
+
+    const answers = await promptFor(
+      [
+        {
+          type: 'input',
+          name: 'name',
+          message: 'Name:',
+          default: selectedMember.name,
+          optional: true,
+          validate: (input: string) => input.trim() !== '' || 'Name is required',
+        },
+        {
+          type: 'input',
+          name: 'joinedAt',
+          message: 'Joined the household on (YYYY-MM-DD):',
+          default: selectedMember.joinedAt.toISOString().split('T')[0],
+          optional: true,
+          validate: validateDate,
+        },
+        {
+          type: 'input',
+          name: 'leftAt',
+          message: 'Moved out on (YYYY-MM-DD, empty if still living here):',
+          default: selectedMember.leftAt ? selectedMember.leftAt.toISOString().split('T')[0] : '',
+          optional: true,
+          validate: (input: string) => input.trim() === '' || validateDate(input),
+        },
+      ],
+      { name: options.name, joinedAt: options.joinedAt, leftAt: options.leftAt }
+    );
+
+    await memberService.updateMember(memberId, {
+      name: answers.name.trim(),
+      joinedAt: new Date(answers.joinedAt),
+      leftAt: answers.leftAt.trim() ? new Date(answers.leftAt) : null,
+    });
+
+    displaySuccess(`Member "${answers.name.trim()}" updated successfully`);
+  } catch (error) {
+    displayCommandError('Failed to update member', error);
+  }
+};
+
+export const splitBill = async (options: SplitBillCommandOptions = {}): Promise<void> => {
+  try {
+    const [bills, members] = await Promise.all([
+      billService.getAllBills(true),
+      memberService.getAllMembers(true),
+    ]);
+
+    if (bills.length === 0 || members.length === 0) {
+      displayInfo('You need at least one active bill and one member to set up a split');
+      return;
+    }
+
+    const { billId, splitMode } = await promptFor(
+      [
+        {
+          type: 'list',
+          name: 'billId',
+          message: 'Select bill:',
+          choices: bills.map((bill) => ({
+            name: `${bill.name} - ${formatCurrency(moneyOf(bill))} (${bill.splitMode})`,
+            value: bill.id,
+            short: bill.name,
+          })),
+        },
+        {
+          type: 'list',
+          name: 'splitMode',
+          message: 'How should this bill be split?',
+          choices: [
+            { name: 'Equally among household members', value: 'EQUAL' },
+            { name: 'By percentage', value: 'PERCENTAGE' },
+            { name: 'Fixed amount per member, rest split equally', value: 'FIXED' },
+          ],
+          default: (answers: any) => bills.find((b) => b.id === answers.billId)!.splitMode,
+          optional: true,
+        },
+      ],
+      { billId: options.bill, splitMode: options.mode },
+      { billId: 'bill', splitMode: 'mode' }
+    );
+
+    const mode = splitMode as SplitMode;
+    const currentShares = await memberService.getBillShares(billId);
+    const currentShare = (memberId: string) => currentShares.find((s) => s.memberId === memberId);
+
+    const { excludedIds } = await promptFor(
+      [
+        {
+          type: 'checkbox',
+          name: 'excludedIds',
+          message: 'Members excluded from this bill:',
+          choices: members.map((member) => ({
+            name: member.name,
+            value: member.id,
+            checked: currentShare(member.id)?.excluded ?? false,
+          })),
+          default: members
+            .filter((member) => currentShare(member.id)?.excluded)
+            .map((member) => member.id),
+          optional: true,
+        },
+      ],
+      { excludedIds: options.exclude },
+      { excludedIds: 'exclude' }
+    );
+
+    const shares: BillShareInput[] = (excludedIds as string[]).map((memberId) => ({
+      memberId,
+      excluded: true,
+    }));
+
+    if (mode !== 'EQUAL') {
+      const participants = members.filter((member) => !excludedIds.includes(member.id));
+      const givenShares = parseShares(options.shares ?? '');
+      const unknown = [...givenShares.keys()].filter(
+        (name) => !participants.some((member) => member.name.toLowerCase() === name)
+      );
+      if (unknown.length > 0) {
+        throw new UsageError(`--shares names members not sharing this bill: ${unknown.join(', ')}`);
+      }
+
+      const values = await promptFor(
+        participants.map((member) => ({
+          type: 'number',
+          name: member.id,
+          message:
+            mode === 'PERCENTAGE'
+              ? `${member.name} percentage (0 for none):`
+              : `${member.name} fixed amount in ${DEFAULT_CURRENCY} (0 to share the rest):`,
+          default:
+            mode === 'PERCENTAGE'
+              ? currentShare(member.id)?.percentage ?? 0
+              : toMajorUnits(money(currentShare(member.id)?.fixedAmount ?? 0)),
+          optional: true,
+          validate: (input: number) => input >= 0 || 'Value cannot be negative',
+        })),
+        Object.fromEntries(
+          participants.map((member) => [member.id, givenShares.get(member.name.toLowerCase())])
+        ),
+        Object.fromEntries(participants.map((member) => [member.id, 'shares']))
+      );
+
+      if (mode === 'PERCENTAGE') {
+        const total = Object.values(values as Record<string, number>).reduce((a, b) => a + b, 0);
+        if (Math.abs(total - 100) > 0.01) {
+          throw new UsageError(`Percentages add up to ${total}%, they must add up to 100%`);
+        }
+      }
+
+      Object.entries(values as Record<string, number>)
+        .filter(([, value]) => value > 0)
+        .forEach(([memberId, value]) =>
+          shares.push(
+            mode === 'PERCENTAGE'
+              ? { memberId, percentage: value }
+              : { memberId, fixedAmount: fromMajorUnits(value) }
+          )
+        );
+    }
+
+    await memberService.setBillSplit(billId, mode, shares);
+    displaySuccess('Bill split updated successfully');
+  } catch (error) {
+    displayCommandError('Failed to update bill split', error);
+  }
+};
+
+export const showBalances = async (options: BalancesCommandOptions = {}): Promise<void> => {
+  try {
+    const householdBalances = await paymentService.getHouseholdBalances();
+    render(balancesView, householdBalances);
+
+    if (householdBalances.transfers.length === 0 || (!options.settle && !isInteractive())) {
+      return;
+    }
+
+    const { settle } = options.settle
+      ? { settle: true }
+      : await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'settle',
+            message: 'Record the suggested transfers as settled?',
+            default: false,
+          },
+        ]);
+
+    if (!settle) {
+      return;
+    }
+
+    const date = new Date();
+    for (const transfer of householdBalances.transfers) {
+      await memberService.createSettlement({
+        fromMemberId: transfer.from.id,
+        toMemberId: transfer.to.id,
+        amount: transfer.amount,
+        date,
+      });
+    }
+    displaySuccess(`Recorded ${householdBalances.transfers.length} settlement(s)`);
+  } catch (error) {
+    displayCommandError('Failed to calculate balances', error);
+  }
+};
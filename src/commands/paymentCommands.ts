@@ -1,44 +1,262 @@
 import inquirer from 'inquirer';
-import { PaymentStatus } from '@prisma/client';
-import { PaymentService } from '../services/paymentService.js';
+import { BillType, PaymentMethod, PaymentStatus } from '@prisma/client';
+import { PaymentService, PaymentWithBill } from '../services/paymentService.js';
 import { BillService } from '../services/billService.js';
+import { MemberService } from '../services/memberService.js';
+import { ExchangeRateService, getReportingCurrency } from '../services/exchangeRateService.js';
 import {
-  displayPayments,
+  paymentsView,
+  monthReportView,
+  paymentComparisonView,
   displaySuccess,
-  displayError,
+  displayCommandError,
   displayInfo,
-  displaySummary,
-  displayPaymentComparison,
+  displayWarning,
+  anomaliesView,
+  trendsView,
 } from '../utils/display.js';
 import { formatCurrency, formatMonth } from '../utils/formatters.js';
+import { getOutstandingAmount } from '../utils/balance.js';
+import { toDateKey } from '../utils/holidays.js';
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  fromMajorUnits,
+  money,
+  moneyOf,
+  toMajorUnits,
+} from '../utils/money.js';
+import {
+  Choice,
+  UsageError,
+  confirmAction,
+  currentMonth,
+  isInteractive,
+  parseChoice,
+  parseChoiceList,
+  parseDateOption,
+  parseMonth,
+  promptFor,
+} from '../utils/prompt.js';
+import {
+  MAX_QUERY_LIMIT,
+  PAYMENT_SORT_FIELDS,
+  PaymentQuery,
+  PaymentSortField,
+  SortOrder,
+} from '../utils/paymentQuery.js';
+import { MAX_COMPARISON_PERIODS } from '../utils/report.js';
+import { describeAnomaly, getAnomalyWindowStart } from '../utils/anomalies.js';
+import { render } from '../utils/output.js';
 
 const paymentService = new PaymentService();
 const billService = new BillService();
+const memberService = new MemberService();
+const exchangeRateService = new ExchangeRateService();
+
+// Option values are strings; they are parsed and validated like prompt answers
+export interface PaymentSelectorOptions {
+  bill?: string; // Bill name of the payment
+  month?: string; // Due month, YYYY-MM
+  due?: string; // Due date, YYYY-MM-DD, for bills with several payments a month
+}
+
+export interface AddPaymentCommandOptions {
+  bill?: string;
+  amount?: string;
+  dueDate?: string;
+  notes?: string;
+}
+
+export interface UpdatePaymentCommandOptions extends PaymentSelectorOptions {
+  amount?: string;
+  status?: string;
+  paidDate?: string;
+  notes?: string;
+}
+
+export interface MarkPaidCommandOptions extends PaymentSelectorOptions {
+  paidDate?: string;
+  paidBy?: string; // Member name
+}
+
+export interface RecordTransactionCommandOptions extends PaymentSelectorOptions {
+  amount?: string;
+  date?: string;
+  method?: string;
+  reference?: string;
+  paidBy?: string;
+}
+
+export interface DeletePaymentCommandOptions extends PaymentSelectorOptions {
+  yes?: boolean;
+}
+
+// Lists are comma-separated; amounts are major units of --currency
+export interface SearchPaymentsCommandOptions {
+  bill?: string;
+  type?: string;
+  status?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  paidFrom?: string;
+  paidTo?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  currency?: string;
+  notes?: string;
+  sort?: string;
+  order?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+export interface MonthCommandOptions {
+  month?: string;
+  currency?: string;
+}
+
+export interface CompareCommandOptions extends MonthCommandOptions {
+  months?: string; // Number of months, or of years with yearOverYear
+  yearOverYear?: boolean;
+}
+
+export interface TrendsCommandOptions extends MonthCommandOptions {
+  months?: string; // DEFAULT_TREND_MONTHS unless given
+  ascii?: boolean;
+}
+
+const DEFAULT_TREND_MONTHS = 12;
+
+const isDueInMonth = (payment: PaymentWithBill, month: string): boolean => {
+  const { year, month: monthNumber } = parseMonth(month);
+  return (
+    payment.dueDate.getFullYear() === year && payment.dueDate.getMonth() + 1 === monthNumber
+  );
+};
 
-export const listPayments = async (month?: number, year?: number): Promise<void> => {
-  try {
-    let payments;
+const getUnpaidPayments = async (month?: string): Promise<PaymentWithBill[]> => {
+  const pendingPayments = await paymentService.getPaymentsByStatus('PENDING');
+  const partialPayments = await paymentService.getPaymentsByStatus('PARTIALLY_PAID');
+  const overduePayments = await paymentService.getPaymentsByStatus('OVERDUE');
+  const payments = [...pendingPayments, ...partialPayments, ...overduePayments];
+  return month ? payments.filter((payment) => isDueInMonth(payment, month)) : payments;
+};
 
-    if (month && year) {
-      payments = await paymentService.getPaymentsByMonth(year, month);
-      console.log(`\nPayments for ${formatMonth(new Date(year, month - 1))}`);
-    } else {
-      const now = new Date();
-      payments = await paymentService.getPaymentsByMonth(
-        now.getFullYear(),
-        now.getMonth() + 1
-      );
-      console.log(`\nPayments for ${formatMonth(now)}`);
+const getMonthPayments = async (month: string = currentMonth()): Promise<PaymentWithBill[]> => {
+  const { year, month: monthNumber } = parseMonth(month);
+  return paymentService.getPaymentsByMonth(year, monthNumber);
+};
+
+// Month whose payments a selector picks from; --due implies its month
+const getSelectorMonth = (options: PaymentSelectorOptions): string | undefined => {
+  const due = parseDateOption(options.due, 'due');
+  return options.month ?? (due ? toDateKey(due).slice(0, 7) : undefined);
+};
+
+// --bill picks a payment by bill name; --month and --due narrow the list first
+const selectPayment = async (
+  payments: PaymentWithBill[],
+  message: string,
+  label: (payment: PaymentWithBill) => string,
+  options: PaymentSelectorOptions
+): Promise<PaymentWithBill> => {
+  const due = parseDateOption(options.due, 'due');
+  const candidates = due
+    ? payments.filter((payment) => toDateKey(payment.dueDate) === toDateKey(due))
+    : payments;
+  if (candidates.length === 0) {
+    throw new UsageError(`No matching payment is due on ${options.due}`);
+  }
+
+  const { paymentId } = await promptFor(
+    [
+      {
+        type: 'list',
+        name: 'paymentId',
+        message,
+        choices: candidates.map((payment) => ({
+          name: label(payment),
+          value: payment.id,
+          short: payment.bill.name,
+        })),
+      },
+    ],
+    { paymentId: options.bill },
+    { paymentId: 'bill' }
+  );
+  return payments.find((payment) => payment.id === paymentId)!;
+};
+
+const askPayer = async (paidBy?: string): Promise<string | undefined> => {
+  const members = await memberService.getAllMembers(true);
+  if (members.length === 0) {
+    return undefined;
+  }
+
+  const { paidById } = await promptFor(
+    [
+      {
+        type: 'list',
+        name: 'paidById',
+        message: 'Paid by:',
+        choices: [
+          ...members.map((member) => ({ name: member.name, value: member.id })),
+          { name: 'Not specified', value: '' },
+        ],
+        default: '',
+        optional: true,
+      },
+    ],
+    { paidById: paidBy },
+    { paidById: 'paid-by' }
+  );
+
+  return paidById || undefined;
+};
+
+const monthQuestion = (message: string): any => ({
+  type: 'input',
+  name: 'month',
+  message,
+  default: currentMonth,
+  validate: (input: string) => {
+    const regex = /^\d{4}-\d{2}$/;
+    if (!regex.test(input)) {
+      return 'Invalid format. Use YYYY-MM';
     }
 
-    displayPayments(payments);
+    const month = parseInt(input.split('-')[1]);
+    return (month >= 1 && month <= 12) || 'Month must be between 1 and 12';
+  },
+});
+
+const warnAboutAnomaly = async (paymentId: string): Promise<void> => {
+  const anomaly = await paymentService.getPaymentAnomaly(paymentId);
+  if (anomaly) {
+    displayWarning(`Unusual amount for ${anomaly.payment.bill.name}: ${describeAnomaly(anomaly)}`);
+  }
+};
+
+const formatUnpaidChoice = (payment: PaymentWithBill): string => {
+  const outstanding = getOutstandingAmount(payment.amount, payment.transactions);
+  return `${payment.bill.name} - ${formatCurrency(money(outstanding, payment.currency))} of ${formatCurrency(moneyOf(payment))} - ${payment.status}`;
+};
+
+// Payments due in --month, the current month unless given
+export const listPayments = async (options: MonthCommandOptions = {}): Promise<void> => {
+  try {
+    const { year, month } = parseMonth(options.month ?? currentMonth());
+    const payments = await paymentService.getPaymentsByMonth(year, month);
+    const title = `Payments for ${formatMonth(new Date(year, month - 1))}`;
+
+    render(paymentsView(title, await paymentService.getAnomalies(payments)), payments);
   } catch (error) {
-    displayError('Failed to fetch payments');
-    console.error(error);
+    displayCommandError('Failed to fetch payments', error);
   }
 };
 
-export const addPayment = async (): Promise<void> => {
+export const addPayment = async (options: AddPaymentCommandOptions = {}): Promise<void> => {
   try {
     const bills = await billService.getAllBills(true);
 
@@ -47,102 +265,112 @@ export const addPayment = async (): Promise<void> => {
       return;
     }
 
-    const answers = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'billId',
-        message: 'Select bill:',
-        choices: bills.map((bill) => ({
-          name: `${bill.name} - ${formatCurrency(bill.amount)}`,
-          value: bill.id,
-        })),
-      },
-      {
-        type: 'number',
-        name: 'amount',
-        message: 'Payment amount:',
-        default: (answers: any) => {
-          const bill = bills.find((b) => b.id === answers.billId);
-          return bill?.amount || 0;
+    const answers = await promptFor(
+      [
+        {
+          type: 'list',
+          name: 'billId',
+          message: 'Select bill:',
+          choices: bills.map((bill) => ({
+            name: `${bill.name} - ${formatCurrency(moneyOf(bill))}`,
+            value: bill.id,
+            short: bill.name,
+          })),
         },
-        validate: (input) => input > 0 || 'Amount must be greater than 0',
-      },
-      {
-        type: 'input',
-        name: 'dueDate',
-        message: 'Due date (YYYY-MM-DD):',
-        default: () => {
-          const now = new Date();
-          return now.toISOString().split('T')[0];
+        {
+          type: 'number',
+          name: 'amount',
+          message: (answers: any) =>
+            `Payment amount (${bills.find((b) => b.id === answers.billId)?.currency}):`,
+          default: (answers: any) => {
+            const bill = bills.find((b) => b.id === answers.billId);
+            return bill ? toMajorUnits(moneyOf(bill)) : 0;
+          },
+          optional: true,
+          validate: (input: number) => input > 0 || 'Amount must be greater than 0',
         },
-        validate: (input) => {
-          const date = new Date(input);
-          return !isNaN(date.getTime()) || 'Invalid date format';
+        {
+          type: 'input',
+          name: 'dueDate',
+          message: 'Due date (YYYY-MM-DD):',
+          default: () => {
+            const now = new Date();
+            return now.toISOString().split('T')[0];
+          },
+          validate: (input: string) => {
+            const date = new Date(input);
+            return !isNaN(date.getTime()) || 'Invalid date format';
+          },
         },
-      },
-      {
-        type: 'input',
-        name: 'notes',
-        message: 'Notes (optional):',
-      },
-    ]);
+        {
+          type: 'input',
+          name: 'notes',
+          message: 'Notes (optional):',
+          optional: true,
+        },
+      ],
+      { billId: options.bill, amount: options.amount, dueDate: options.dueDate, notes: options.notes },
+      { billId: 'bill' }
+    );
 
     const payment = await paymentService.createPayment({
       billId: answers.billId,
-      amount: answers.amount,
+      amount: fromMajorUnits(
+        answers.amount,
+        bills.find((b) => b.id === answers.billId)!.currency
+      ),
       dueDate: new Date(answers.dueDate),
       notes: answers.notes.trim() || undefined,
     });
 
     displaySuccess(
-      `Payment created successfully (${formatCurrency(payment.amount)})`
+      `Payment created successfully (${formatCurrency(moneyOf(payment))})`
     );
+    await warnAboutAnomaly(payment.id);
   } catch (error) {
-    displayError('Failed to create payment');
-    console.error(error);
+    displayCommandError('Failed to create payment', error);
   }
 };
 
-export const updatePayment = async (): Promise<void> => {
+export const updatePayment = async (options: UpdatePaymentCommandOptions = {}): Promise<void> => {
   try {
-    const now = new Date();
-    const payments = await paymentService.getPaymentsByMonth(
-      now.getFullYear(),
-      now.getMonth() + 1
-    );
+    const payments = await getMonthPayments(getSelectorMonth(options));
 
     if (payments.length === 0) {
       displayInfo('No payments available for this month');
       return;
     }
 
-    const { paymentId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'paymentId',
-        message: 'Select payment to update:',
-        choices: payments.map((payment) => ({
-          name: `${payment.bill.name} - ${formatCurrency(payment.amount)} - ${payment.status}`,
-          value: payment.id,
-        })),
-      },
-    ]);
-
-    const selectedPayment = payments.find((p) => p.id === paymentId)!;
+    const selectedPayment = await selectPayment(
+      payments,
+      'Select payment to update:',
+      (payment) =>
+        `${payment.bill.name} - ${formatCurrency(moneyOf(payment))}${payment.isEstimated ? ' (estimated)' : ''} - ${payment.status}`,
+      options
+    );
+    const paymentId = selectedPayment.id;
 
-    const { fieldsToUpdate } = await inquirer.prompt([
-      {
-        type: 'checkbox',
-        name: 'fieldsToUpdate',
-        message: 'What would you like to update?',
-        choices: [
-          { name: 'Amount', value: 'amount' },
-          { name: 'Status', value: 'status' },
-          { name: 'Paid Date', value: 'paidDate' },
-          { name: 'Notes', value: 'notes' },
-        ],
-      },
-    ]);
+    // Field options pick the fields to update, otherwise the user is asked
+    const fieldOptions = ['amount', 'status', 'paidDate', 'notes'] as const;
+    let fieldsToUpdate: string[] = fieldOptions.filter((field) => options[field] !== undefined);
+    if (fieldsToUpdate.length === 0) {
+      if (!isInteractive()) {
+        throw new UsageError('Nothing to update, pass --amount, --status, --paid-date or --notes');
+      }
+      ({ fieldsToUpdate } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'fieldsToUpdate',
+          message: 'What would you like to update?',
+          choices: [
+            { name: 'Amount', value: 'amount' },
+            { name: 'Status', value: 'status' },
+            { name: 'Paid Date', value: 'paidDate' },
+            { name: 'Notes', value: 'notes' },
+          ],
+        },
+      ]));
+    }
 
     if (fieldsToUpdate.length === 0) {
       displayInfo('No fields selected to update');
@@ -155,8 +383,10 @@ export const updatePayment = async (): Promise<void> => {
       updateQuestions.push({
         type: 'number',
         name: 'amount',
-        message: 'New amount:',
-        default: selectedPayment.amount,
+        message: selectedPayment.isEstimated
+          ? 'Statement amount (confirms the estimate):'
+          : 'New amount:',
+        default: toMajorUnits(moneyOf(selectedPayment)),
         validate: (input: number) => input > 0 || 'Amount must be greater than 0',
       });
     }
@@ -165,8 +395,8 @@ export const updatePayment = async (): Promise<void> => {
       updateQuestions.push({
         type: 'list',
         name: 'status',
-        message: 'New status:',
-        choices: Object.values(PaymentStatus),
+        message: 'New status (use "Record Transaction" to register payments):',
+        choices: ['PENDING', 'OVERDUE'],
         default: selectedPayment.status,
       });
     }
@@ -195,131 +425,203 @@ export const updatePayment = async (): Promise<void> => {
       });
     }
 
-    const updates = await inquirer.prompt(updateQuestions);
+    const updates = await promptFor(updateQuestions, { ...options });
 
+    if (updates.amount !== undefined) {
+      updates.amount = fromMajorUnits(updates.amount, selectedPayment.currency);
+    }
     if (updates.paidDate) {
       updates.paidDate = new Date(updates.paidDate);
     }
 
     await paymentService.updatePayment(paymentId, updates);
     displaySuccess('Payment updated successfully');
+    if (updates.amount !== undefined) {
+      await warnAboutAnomaly(paymentId);
+    }
   } catch (error) {
-    displayError('Failed to update payment');
-    console.error(error);
+    displayCommandError('Failed to update payment', error);
   }
 };
 
-export const markPaymentAsPaid = async (): Promise<void> => {
+export const markPaymentAsPaid = async (options: MarkPaidCommandOptions = {}): Promise<void> => {
   try {
-    const pendingPayments = await paymentService.getPaymentsByStatus('PENDING');
-    const overduePayments = await paymentService.getPaymentsByStatus('OVERDUE');
-    const unpaidPayments = [...pendingPayments, ...overduePayments];
+    const unpaidPayments = await getUnpaidPayments(getSelectorMonth(options));
 
     if (unpaidPayments.length === 0) {
       displayInfo('No unpaid payments found');
       return;
     }
 
-    const { paymentId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'paymentId',
-        message: 'Select payment to mark as paid:',
-        choices: unpaidPayments.map((payment) => ({
-          name: `${payment.bill.name} - ${formatCurrency(payment.amount)} - ${payment.status}`,
-          value: payment.id,
-        })),
-      },
-    ]);
+    const selectedPayment = await selectPayment(
+      unpaidPayments,
+      'Select payment to mark as paid:',
+      formatUnpaidChoice,
+      options
+    );
 
-    const { paidDate } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'paidDate',
-        message: 'Paid date (YYYY-MM-DD):',
-        default: new Date().toISOString().split('T')[0],
-        validate: (input) => {
-          const date = new Date(input);
-          return !isNaN(date.getTime()) || 'Invalid date format';
+    const { paidDate } = await promptFor(
+      [
+        {
+          type: 'input',
+          name: 'paidDate',
+          message: 'Paid date (YYYY-MM-DD):',
+          default: new Date().toISOString().split('T')[0],
+          optional: true,
+          validate: (input: string) => {
+            const date = new Date(input);
+            return !isNaN(date.getTime()) || 'Invalid date format';
+          },
         },
-      },
-    ]);
+      ],
+      { paidDate: options.paidDate }
+    );
+
+    const paidById = await askPayer(options.paidBy);
 
-    await paymentService.markAsPaid(paymentId, new Date(paidDate));
+    await paymentService.markAsPaid(selectedPayment.id, new Date(paidDate), paidById);
     displaySuccess('Payment marked as paid');
   } catch (error) {
-    displayError('Failed to mark payment as paid');
-    console.error(error);
+    displayCommandError('Failed to mark payment as paid', error);
   }
 };
 
-export const deletePayment = async (): Promise<void> => {
+export const recordTransaction = async (
+  options: RecordTransactionCommandOptions = {}
+): Promise<void> => {
   try {
-    const now = new Date();
-    const payments = await paymentService.getPaymentsByMonth(
-      now.getFullYear(),
-      now.getMonth() + 1
+    const unpaidPayments = await getUnpaidPayments(getSelectorMonth(options));
+
+    if (unpaidPayments.length === 0) {
+      displayInfo('No unpaid payments found');
+      return;
+    }
+
+    const selectedPayment = await selectPayment(
+      unpaidPayments,
+      'Select payment:',
+      formatUnpaidChoice,
+      options
+    );
+    const paymentId = selectedPayment.id;
+    const outstanding = getOutstandingAmount(
+      selectedPayment.amount,
+      selectedPayment.transactions
+    );
+
+    const answers = await promptFor(
+      [
+        {
+          type: 'number',
+          name: 'amount',
+          message: 'Transaction amount:',
+          default: toMajorUnits(money(outstanding, selectedPayment.currency)),
+          optional: true,
+          validate: (input: number) => {
+            if (!(input > 0)) {
+              return 'Amount must be greater than 0';
+            }
+            return (
+              fromMajorUnits(input, selectedPayment.currency).amount <= outstanding ||
+              `Amount cannot exceed the outstanding balance (${formatCurrency(money(outstanding, selectedPayment.currency))})`
+            );
+          },
+        },
+        {
+          type: 'input',
+          name: 'date',
+          message: 'Transaction date (YYYY-MM-DD):',
+          default: new Date().toISOString().split('T')[0],
+          optional: true,
+          validate: (input: string) => {
+            const date = new Date(input);
+            return !isNaN(date.getTime()) || 'Invalid date format';
+          },
+        },
+        {
+          type: 'list',
+          name: 'method',
+          message: 'Payment method:',
+          choices: Object.values(PaymentMethod),
+          default: 'BANK_TRANSFER',
+          optional: true,
+        },
+        {
+          type: 'input',
+          name: 'reference',
+          message: 'Reference (optional):',
+          optional: true,
+        },
+      ],
+      {
+        amount: options.amount,
+        date: options.date,
+        method: options.method,
+        reference: options.reference,
+      }
     );
 
+    const paidById = await askPayer(options.paidBy);
+    const amount = fromMajorUnits(answers.amount, selectedPayment.currency);
+
+    const payment = await paymentService.recordTransaction(paymentId, {
+      amount,
+      date: new Date(answers.date),
+      method: answers.method,
+      reference: answers.reference.trim() || undefined,
+      paidById,
+    });
+
+    if (payment.status === 'PAID') {
+      displaySuccess(`Transaction recorded. "${selectedPayment.bill.name}" is now fully paid`);
+    } else {
+      displaySuccess(
+        `Transaction recorded. Outstanding balance: ${formatCurrency(money(outstanding - amount.amount, amount.currency))}`
+      );
+    }
+  } catch (error) {
+    displayCommandError('Failed to record transaction', error);
+  }
+};
+
+export const deletePayment = async (options: DeletePaymentCommandOptions = {}): Promise<void> => {
+  try {
+    const payments = await getMonthPayments(getSelectorMonth(options));
+
     if (payments.length === 0) {
       displayInfo('No payments available to delete');
       return;
     }
 
-    const { paymentId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'paymentId',
-        message: 'Select payment to delete:',
-        choices: payments.map((payment) => ({
-          name: `${payment.bill.name} - ${formatCurrency(payment.amount)}`,
-          value: payment.id,
-        })),
-      },
-    ]);
-
-    const selectedPayment = payments.find((p) => p.id === paymentId)!;
+    const selectedPayment = await selectPayment(
+      payments,
+      'Select payment to delete:',
+      (payment) => `${payment.bill.name} - ${formatCurrency(moneyOf(payment))}`,
+      options
+    );
 
-    const { confirm } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: `Are you sure you want to delete this payment for "${selectedPayment.bill.name}"?`,
-        default: false,
-      },
-    ]);
+    const confirm = await confirmAction(
+      `Are you sure you want to delete this payment for "${selectedPayment.bill.name}"?`,
+      options.yes
+    );
 
     if (confirm) {
-      await paymentService.deletePayment(paymentId);
+      await paymentService.deletePayment(selectedPayment.id);
       displaySuccess('Payment deleted successfully');
     } else {
       displayInfo('Deletion cancelled');
     }
   } catch (error) {
-    displayError('Failed to delete payment');
-    console.error(error);
+    displayCommandError('Failed to delete payment', error);
   }
 };
 
-export const generateMonthlyPayments = async (): Promise<void> => {
+export const generateMonthlyPayments = async (options: MonthCommandOptions = {}): Promise<void> => {
   try {
-    const { monthYear } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'monthYear',
-        message: 'Enter month and year (YYYY-MM):',
-        default: () => {
-          const now = new Date();
-          return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-        },
-        validate: (input) => {
-          const regex = /^\d{4}-\d{2}$/;
-          return regex.test(input) || 'Invalid format. Use YYYY-MM';
-        },
-      },
-    ]);
-
-    const [year, month] = monthYear.split('-').map(Number);
+    const answers = await promptFor([monthQuestion('Enter month and year (YYYY-MM):')], {
+      month: options.month,
+    });
+    const { year, month } = parseMonth(answers.month);
 
     const payments = await paymentService.generateMonthlyPayments(year, month);
 
@@ -331,84 +633,174 @@ export const generateMonthlyPayments = async (): Promise<void> => {
       );
     }
   } catch (error) {
-    displayError('Failed to generate monthly payments');
-    console.error(error);
+    displayCommandError('Failed to generate monthly payments', error);
   }
 };
 
-export const showMonthlySummary = async (): Promise<void> => {
+export const showMonthlySummary = async (options: MonthCommandOptions = {}): Promise<void> => {
   try {
-    const { monthYear } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'monthYear',
-        message: 'Enter month and year (YYYY-MM):',
-        default: () => {
-          const now = new Date();
-          return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-        },
-        validate: (input) => {
-          const regex = /^\d{4}-\d{2}$/;
-          return regex.test(input) || 'Invalid format. Use YYYY-MM';
-        },
-      },
-    ]);
+    const reportingCurrency = getReportingCurrency(options.currency);
 
-    const [year, month] = monthYear.split('-').map(Number);
+    const answers = await promptFor([monthQuestion('Enter month and year (YYYY-MM):')], {
+      month: options.month,
+    });
+    const { year, month } = parseMonth(answers.month);
 
     // Update overdue payments first
     await paymentService.updateOverduePayments();
 
-    const summary = await paymentService.getPaymentsSummary(year, month);
+    const summary = await paymentService.getPaymentsSummary(year, month, reportingCurrency);
     const payments = await paymentService.getPaymentsByMonth(year, month);
+    const convert = await exchangeRateService.getConverter();
 
-    console.log(`\n${formatMonth(new Date(year, month - 1))}`);
-    displayPayments(payments);
-    displaySummary(summary.total, summary.paid, summary.pending, summary.overdue);
+    render(monthReportView, {
+      summary: { ...summary, year, month, monthLabel: formatMonth(new Date(year, month - 1)) },
+      payments,
+      convert: (value, date) => convert(value, reportingCurrency, date),
+      anomalies: await paymentService.getAnomalies(payments),
+    });
   } catch (error) {
-    displayError('Failed to show monthly summary');
-    console.error(error);
+    displayCommandError('Failed to show monthly summary', error);
+  }
+};
+
+const parsePeriods = (value: string | undefined): number | undefined => {
+  const periods = value !== undefined ? Number(value) : undefined;
+  if (
+    periods !== undefined &&
+    (!Number.isInteger(periods) || periods < 2 || periods > MAX_COMPARISON_PERIODS)
+  ) {
+    throw new UsageError(
+      `--months must be a whole number between 2 and ${MAX_COMPARISON_PERIODS}`
+    );
   }
+  return periods;
 };
 
-export const comparePayments = async (): Promise<void> => {
+export const comparePayments = async (options: CompareCommandOptions = {}): Promise<void> => {
   try {
-    const { monthYear } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'monthYear',
-        message: 'Enter the most recent month to compare (YYYY-MM):',
-        default: () => {
-          const now = new Date();
-          return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-        },
-        validate: (input) => {
-          const regex = /^\d{4}-\d{2}$/;
-          if (!regex.test(input)) {
-            return 'Invalid format. Use YYYY-MM';
-          }
+    const reportingCurrency = getReportingCurrency(options.currency);
 
-          const monthStr = input.split('-')[1];
-          const month = parseInt(monthStr);
+    const answers = await promptFor(
+      [monthQuestion('Enter the most recent month to compare (YYYY-MM):')],
+      { month: options.month }
+    );
+    const { year, month } = parseMonth(answers.month);
+    const periods = parsePeriods(options.months);
 
-          if (month < 1 || month > 12) {
-            return 'Month must be between 1 and 12';
-          }
+    // Update overdue payments first
+    await paymentService.updateOverduePayments();
 
-          return true;
-        },
-      },
-    ]);
+    const comparison = await paymentService.getPaymentComparison(year, month, reportingCurrency, {
+      periods,
+      mode: options.yearOverYear ? 'year-over-year' : 'months',
+    });
+    render(paymentComparisonView, comparison);
+  } catch (error) {
+    displayCommandError('Failed to generate payment comparison', error);
+  }
+};
 
-    const [year, month] = monthYear.split('-').map(Number);
+// Charts of the months up to --month, the current month unless given
+export const showTrends = async (options: TrendsCommandOptions = {}): Promise<void> => {
+  try {
+    const reportingCurrency = getReportingCurrency(options.currency);
+    const { year, month } = parseMonth(options.month ?? currentMonth());
+    const periods = parsePeriods(options.months) ?? DEFAULT_TREND_MONTHS;
 
     // Update overdue payments first
     await paymentService.updateOverduePayments();
 
-    const comparison = await paymentService.getPaymentComparison(year, month);
-    displayPaymentComparison(comparison);
+    const comparison = await paymentService.getPaymentComparison(year, month, reportingCurrency, {
+      periods,
+    });
+    render(trendsView({ ascii: options.ascii }), comparison);
+  } catch (error) {
+    displayCommandError('Failed to show spending trends', error);
+  }
+};
+
+const parseAmountOption = (
+  value: string | undefined,
+  option: string,
+  currency: string
+): Money | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const amount = Number(value);
+  if (value.trim() === '' || !Number.isFinite(amount) || amount < 0) {
+    throw new UsageError(`--${option} must be a positive number`);
+  }
+  return fromMajorUnits(amount, currency);
+};
+
+const toPaymentQuery = async (options: SearchPaymentsCommandOptions): Promise<PaymentQuery> => {
+  const bills = options.bill ? await billService.getAllBills() : [];
+  const billChoices = bills.map((bill) => ({ name: bill.name, value: bill.id }));
+  const currency = options.currency?.toUpperCase() ?? DEFAULT_CURRENCY;
+
+  const sortBy = options.sort
+    ? (parseChoice(options.sort, PAYMENT_SORT_FIELDS, '--sort') as PaymentSortField)
+    : undefined;
+  const order = options.order
+    ? (parseChoice(options.order, ['asc', 'desc'], '--order') as SortOrder)
+    : undefined;
+  const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT)) {
+    throw new UsageError(`--limit must be a whole number between 1 and ${MAX_QUERY_LIMIT}`);
+  }
+
+  const list = <T>(value: string | undefined, choices: Choice[], flag: string): T[] =>
+    value ? (parseChoiceList(value, choices, flag) as T[]) : [];
+
+  return {
+    billIds: list<string>(options.bill, billChoices, '--bill'),
+    billTypes: list<BillType>(options.type, Object.values(BillType), '--type'),
+    statuses: list<PaymentStatus>(options.status, Object.values(PaymentStatus), '--status'),
+    dueFrom: parseDateOption(options.dueFrom, 'due-from'),
+    dueTo: parseDateOption(options.dueTo, 'due-to'),
+    paidFrom: parseDateOption(options.paidFrom, 'paid-from'),
+    paidTo: parseDateOption(options.paidTo, 'paid-to'),
+    minAmount: parseAmountOption(options.minAmount, 'min-amount', currency),
+    maxAmount: parseAmountOption(options.maxAmount, 'max-amount', currency),
+    notes: options.notes,
+    sortBy,
+    order,
+    limit,
+    cursor: options.cursor,
+  };
+};
+
+export const searchPayments = async (options: SearchPaymentsCommandOptions = {}): Promise<void> => {
+  try {
+    const query = await toPaymentQuery(options);
+    await paymentService.updateOverduePayments();
+
+    const { payments, nextCursor } = await paymentService.query(query);
+    const anomalies = await paymentService.getAnomalies(payments);
+    render(paymentsView(`Found ${payments.length} payment(s)`, anomalies), payments);
+    if (nextCursor) {
+      displayInfo(`More payments match, continue with --cursor ${nextCursor}`);
+    }
+  } catch (error) {
+    displayCommandError('Failed to search payments', error);
+  }
+};
+
+export interface AnomaliesCommandOptions {
+  from?: string; // Defaults to the start of the anomaly window before today
+  to?: string;
+}
+
+export const listAnomalies = async (options: AnomaliesCommandOptions = {}): Promise<void> => {
+  try {
+    const from = parseDateOption(options.from, 'from') ?? getAnomalyWindowStart(new Date());
+    const to = parseDateOption(options.to, 'to');
+
+    const payments = await paymentService.getPaymentsBetween(from, to);
+    render(anomaliesView, await paymentService.getAnomalies(payments));
   } catch (error) {
-    displayError('Failed to generate payment comparison');
-    console.error(error);
+    displayCommandError('Failed to find unusual payments', error);
   }
 };
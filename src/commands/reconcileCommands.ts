@@ -0,0 +1,92 @@
+import inquirer from 'inquirer';
+import { ReconcileService, ReconcileOptions } from '../services/reconcileService.js';
+import {
+  displayReconcileMatches,
+  displaySuccess,
+  displayCommandError,
+  displayInfo,
+  displayWarning,
+} from '../utils/display.js';
+import { formatCurrency, formatDate } from '../utils/formatters.js';
+import { ReconcileMatch } from '../utils/reconcile.js';
+import { getCurrencyRule } from '../utils/money.js';
+import { UsageError, isInteractive } from '../utils/prompt.js';
+
+const reconcileService = new ReconcileService();
+
+export interface ReconcileCommandOptions {
+  currency?: string;
+  tolerance?: string; // Percent of the amount
+  window?: string; // Days
+  yes?: boolean; // Accept every proposed match
+}
+
+const toReconcileOptions = (options: ReconcileCommandOptions): ReconcileOptions => {
+  const tolerance = options.tolerance !== undefined ? Number(options.tolerance) : undefined;
+  if (tolerance !== undefined && (!Number.isFinite(tolerance) || tolerance < 0 || tolerance > 100)) {
+    throw new UsageError('--tolerance must be a percentage between 0 and 100');
+  }
+  const window = options.window !== undefined ? Number(options.window) : undefined;
+  if (window !== undefined && (!Number.isInteger(window) || window < 0 || window > 60)) {
+    throw new UsageError('--window must be a whole number of days between 0 and 60');
+  }
+
+  return {
+    currency: options.currency ? getCurrencyRule(options.currency).code : undefined,
+    amountTolerance: tolerance !== undefined ? tolerance / 100 : undefined,
+    dateWindow: window,
+  };
+};
+
+export const reconcilePayments = async (
+  file: string,
+  options: ReconcileCommandOptions = {}
+): Promise<void> => {
+  try {
+    const preview = await reconcileService.previewStatement(file, toReconcileOptions(options));
+    if (preview.alreadyRecorded > 0) {
+      displayInfo(`${preview.alreadyRecorded} transaction(s) were already reconciled`);
+    }
+    displayReconcileMatches(preview.matches);
+
+    const unmatched = preview.transactions.length - preview.matches.length;
+    if (unmatched > 0) {
+      displayWarning(`${unmatched} statement transaction(s) without a matching payment`);
+    }
+    if (preview.matches.length === 0) {
+      return;
+    }
+
+    let confirmed: ReconcileMatch[] = preview.matches;
+    if (!options.yes && !isInteractive()) {
+      throw new UsageError('Pass --yes to accept the proposed matches without a terminal');
+    }
+    if (!options.yes) {
+      const { selected } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'selected',
+          message: 'Mark these payments as paid:',
+          choices: preview.matches.map((match, index) => ({
+            name: `${match.candidate.billName} (${formatDate(match.candidate.dueDate)}) ← ${formatCurrency(match.transaction.amount)} on ${formatDate(match.transaction.date)}`,
+            value: index,
+            checked: true,
+          })),
+        },
+      ]);
+      confirmed = (selected as number[]).map((index) => preview.matches[index]);
+    }
+
+    if (confirmed.length === 0) {
+      displayInfo('No payments were marked as paid');
+      return;
+    }
+
+    for (const match of confirmed) {
+      await reconcileService.applyMatch(match);
+    }
+    displaySuccess(`Recorded ${confirmed.length} bank transaction(s)`);
+  } catch (error) {
+    displayCommandError('Failed to reconcile payments', error);
+  }
+};
@@ -0,0 +1,100 @@
+import {
+  ReminderChannel,
+  createReminderChannels,
+  getReminderChannelNames,
+} from '../services/reminderChannels.js';
+import { ReminderResult, ReminderService } from '../services/reminderService.js';
+import {
+  displayCommandError,
+  displayError,
+  displayInfo,
+  displaySuccess,
+  displayWarning,
+  dueRemindersView,
+} from '../utils/display.js';
+import { render } from '../utils/output.js';
+import { UsageError } from '../utils/prompt.js';
+import { buildReminderMessage } from '../utils/reminders.js';
+
+const reminderService = new ReminderService();
+
+export interface ReminderCommandOptions {
+  channels?: string; // Comma-separated, defaults to REMINDER_CHANNELS
+  dryRun?: boolean;
+}
+
+const getChannels = (names?: string): ReminderChannel[] => {
+  let channels: ReminderChannel[];
+  try {
+    channels = createReminderChannels(names ?? process.env.REMINDER_CHANNELS ?? '');
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  if (channels.length === 0) {
+    throw new UsageError(
+      `Set REMINDER_CHANNELS or pass --channels (${getReminderChannelNames().join(', ')})`
+    );
+  }
+  return channels;
+};
+
+const displayResult = (result: ReminderResult): void => {
+  const label = `${result.reminder.bill} (${result.reminder.threshold}) via ${result.channel}`;
+  if (result.error) {
+    displayError(`${label}: ${result.error}`);
+  } else {
+    displaySuccess(label);
+  }
+};
+
+export const sendReminders = async (options: ReminderCommandOptions = {}): Promise<void> => {
+  try {
+    const channels = getChannels(options.channels);
+
+    if (options.dryRun) {
+      const due = await reminderService.getDueReminders(channels.map((channel) => channel.name));
+      render(dueRemindersView, due);
+      return;
+    }
+
+    const results = await reminderService.sendReminders(channels, new Date(), displayResult);
+    const failed = results.filter((result) => result.error).length;
+    if (results.length === 0) {
+      displayInfo('No reminders are due');
+    } else if (failed > 0) {
+      process.exitCode = 1;
+      displayWarning(`${results.length - failed} sent, ${failed} failed and will be retried`);
+    }
+  } catch (error) {
+    displayCommandError('Failed to send reminders', error);
+  }
+};
+
+// Sends a sample reminder through each channel to check its settings
+export const testReminderChannels = async (
+  options: ReminderCommandOptions = {}
+): Promise<void> => {
+  try {
+    const message = buildReminderMessage({
+      paymentId: 'test',
+      bill: 'Test bill',
+      billType: 'OTHER',
+      outstanding: { amount: 100000, currency: 'COP' },
+      dueDate: new Date(),
+      daysUntilDue: 0,
+      threshold: '0d',
+    });
+
+    for (const channel of getChannels(options.channels)) {
+      try {
+        await channel.send(message);
+        displaySuccess(`Test reminder sent via ${channel.name}`);
+      } catch (error) {
+        process.exitCode = 1;
+        displayError(`${channel.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } catch (error) {
+    displayCommandError('Failed to test reminder channels', error);
+  }
+};
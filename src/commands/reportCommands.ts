@@ -0,0 +1,138 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { PaymentService } from '../services/paymentService.js';
+import { MemberService } from '../services/memberService.js';
+import { getReportingCurrency } from '../services/exchangeRateService.js';
+import {
+  displayCommandError,
+  displaySuccess,
+  forecastView,
+  yearReportView,
+} from '../utils/display.js';
+import { DEFAULT_FORECAST_MONTHS, MAX_FORECAST_MONTHS } from '../utils/forecast.js';
+import { render } from '../utils/output.js';
+import { UsageError, currentMonth, parseChoice, parseMonth } from '../utils/prompt.js';
+import {
+  DEFAULT_HTML_TEMPLATE,
+  DEFAULT_PDF_TEMPLATE,
+  STATEMENT_FORMATS,
+  StatementFormat,
+  buildStatement,
+  getStatementMembers,
+  renderStatementHtml,
+  renderStatementPdf,
+} from '../utils/statement.js';
+
+const paymentService = new PaymentService();
+const memberService = new MemberService();
+
+export interface YearReportCommandOptions {
+  year?: string; // Defaults to the current year
+  currency?: string;
+}
+
+export interface ForecastCommandOptions {
+  months?: string; // Defaults to DEFAULT_FORECAST_MONTHS
+  currency?: string;
+}
+
+export interface StatementCommandOptions {
+  month?: string; // YYYY-MM, defaults to the current month
+  format?: string; // html unless given
+  file?: string;
+  template?: string; // File with a custom template for the format
+  printTemplate?: boolean; // Print the default template to start a custom one from
+  currency?: string;
+}
+
+const parseYear = (value: string | undefined): number => {
+  if (value === undefined) {
+    return new Date().getFullYear();
+  }
+  const year = Number(value);
+  if (!/^\d{4}$/.test(value.trim()) || year < 1970) {
+    throw new UsageError(`--year must be a four-digit year, got "${value}"`);
+  }
+  return year;
+};
+
+export const showYearReport = async (options: YearReportCommandOptions = {}): Promise<void> => {
+  try {
+    const year = parseYear(options.year);
+    const currency = getReportingCurrency(options.currency);
+
+    // Update overdue payments first
+    await paymentService.updateOverduePayments();
+
+    render(yearReportView, await paymentService.getYearReport(year, currency));
+  } catch (error) {
+    displayCommandError('Failed to show the year report', error);
+  }
+};
+
+export const showForecast = async (options: ForecastCommandOptions = {}): Promise<void> => {
+  try {
+    const months = options.months !== undefined ? Number(options.months) : DEFAULT_FORECAST_MONTHS;
+    if (!Number.isInteger(months) || months < 1 || months > MAX_FORECAST_MONTHS) {
+      throw new UsageError(`--months must be a whole number between 1 and ${MAX_FORECAST_MONTHS}`);
+    }
+    const currency = getReportingCurrency(options.currency);
+
+    // Update overdue payments first
+    await paymentService.updateOverduePayments();
+
+    render(forecastView, await paymentService.getCashFlowForecast(months, currency));
+  } catch (error) {
+    displayCommandError('Failed to show the forecast', error);
+  }
+};
+
+/**
+ * Writes to the given file, or to stdout so the statement can be piped. A
+ * PDF is not written to a terminal.
+ */
+export const showStatement = async (options: StatementCommandOptions = {}): Promise<void> => {
+  try {
+    const format = parseChoice(
+      options.format ?? 'html',
+      STATEMENT_FORMATS,
+      '--format'
+    ) as StatementFormat;
+    if (options.printTemplate) {
+      process.stdout.write(format === 'pdf' ? DEFAULT_PDF_TEMPLATE : DEFAULT_HTML_TEMPLATE);
+      return;
+    }
+    if (format === 'pdf' && !options.file && process.stdout.isTTY) {
+      throw new UsageError('Give --file to save the PDF, or pipe the output');
+    }
+    const { year, month } = parseMonth(options.month ?? currentMonth());
+    const currency = getReportingCurrency(options.currency);
+    const template = options.template ? readFileSync(options.template, 'utf-8') : undefined;
+
+    // Update overdue payments first
+    await paymentService.updateOverduePayments();
+
+    const [payments, summary, members] = await Promise.all([
+      paymentService.getPaymentsByMonth(year, month),
+      paymentService.getPaymentsSummary(year, month, currency),
+      memberService.getAllMembers(),
+    ]);
+    const statement = buildStatement(year, month, payments, summary, {
+      name: process.env.HOUSEHOLD_NAME || 'House Duties',
+      address: process.env.HOUSEHOLD_ADDRESS || null,
+      members: getStatementMembers(members, year, month),
+    });
+
+    const content =
+      format === 'pdf'
+        ? renderStatementPdf(statement, template)
+        : renderStatementHtml(statement, template);
+    if (options.file) {
+      writeFileSync(options.file, content);
+      displaySuccess(`Wrote the statement of ${payments.length} payment(s) to ${options.file}`);
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    displayCommandError('Failed to create the statement', error);
+  }
+};
@@ -0,0 +1,39 @@
+import { ApiServer } from '../services/apiServer.js';
+import { getFeedToken } from '../utils/api.js';
+import { displayCommandError, displayInfo, displaySuccess } from '../utils/display.js';
+import { UsageError } from '../utils/prompt.js';
+
+export interface ServeCommandOptions {
+  port?: string;
+  host?: string;
+}
+
+// Resolves once the server stops on Ctrl+C or SIGTERM
+export const serve = async (options: ServeCommandOptions = {}): Promise<void> => {
+  try {
+    const token = process.env.API_TOKEN?.trim();
+    if (!token) {
+      throw new UsageError('Set API_TOKEN to the token clients must send');
+    }
+    const port = Number(options.port ?? process.env.API_PORT ?? 3000);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new UsageError('--port must be a whole number between 0 and 65535');
+    }
+
+    const server = new ApiServer(token);
+    const address = await server.listen(port, options.host ?? '127.0.0.1');
+    const baseUrl = `http://${address.address}:${address.port}/api`;
+    displaySuccess(`API listening on ${baseUrl}`);
+    displayInfo(`OpenAPI document at ${baseUrl}/openapi.json`);
+    displayInfo(`Calendar feed at ${baseUrl}/calendar.ics?token=${getFeedToken(token)}`);
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    await server.close();
+    displayInfo('API server stopped');
+  } catch (error) {
+    displayCommandError('Failed to run the API server', error);
+  }
+};
@@ -1,11 +1,12 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
 import { disconnectDatabase } from './services/database.js';
 import { getVersion } from './utils/version.js';
+import { OUTPUT_FORMATS, parseOutputFormat, setOutputFormat } from './utils/output.js';
 import {
   listBills,
   addBill,
@@ -14,14 +15,41 @@ import {
 } from './commands/billCommands.js';
 import {
   listPayments,
+  searchPayments,
   addPayment,
   updatePayment,
   markPaymentAsPaid,
+  recordTransaction,
   deletePayment,
   generateMonthlyPayments,
   showMonthlySummary,
   comparePayments,
+  listAnomalies,
+  showTrends,
 } from './commands/paymentCommands.js';
+import { listHolidays } from './commands/holidayCommands.js';
+import { listExchangeRates, importExchangeRates } from './commands/exchangeRateCommands.js';
+import { backup, restore } from './commands/backupCommands.js';
+import { reconcilePayments } from './commands/reconcileCommands.js';
+import { serve } from './commands/serveCommands.js';
+import { dashboard } from './commands/dashboardCommands.js';
+import { runDaemon } from './commands/daemonCommands.js';
+import { sendReminders, testReminderChannels } from './commands/reminderCommands.js';
+import { exportCalendar } from './commands/calendarCommands.js';
+import { showForecast, showStatement, showYearReport } from './commands/reportCommands.js';
+import {
+  exportBills,
+  exportPayments,
+  importBills,
+  importPayments,
+} from './commands/csvCommands.js';
+import {
+  listMembers,
+  addMember,
+  updateMember,
+  splitBill,
+  showBalances,
+} from './commands/memberCommands.js';
 
 // Load environment variables
 dotenv.config();
@@ -33,7 +61,15 @@ const version = getVersion();
 program
   .name('house-duties')
   .description('Console application to track rent and utility bills')
-  .version(version);
+  .version(version)
+  .addOption(
+    new Option('-o, --output <format>', 'Output format of lists, summaries and comparisons')
+      .choices(OUTPUT_FORMATS)
+      .default('table')
+  )
+  .hook('preAction', () => {
+    setOutputFormat(parseOutputFormat(program.opts().output));
+  });
 
 // Interactive menu
 const showMainMenu = async (): Promise<void> => {
@@ -59,10 +95,24 @@ const showMainMenu = async (): Promise<void> => {
         { name: '� Add Payment', value: 'add-payment' },
         { name: '  Update Payment', value: 'update-payment' },
         { name: ' Mark Payment as Paid', value: 'mark-paid' },
+        { name: '💵 Record Transaction', value: 'record-transaction' },
         { name: '=�  Delete Payment', value: 'delete-payment' },
         new inquirer.Separator(),
         { name: '= Generate Monthly Payments', value: 'generate-payments' },
         { name: '📊 Compare Payments (Last 3 Months)', value: 'compare-payments' },
+        { name: '📈 Year Report', value: 'year-report' },
+        { name: '📉 Spending Trends', value: 'trends' },
+        { name: '🔮 Cash-Flow Forecast', value: 'forecast' },
+        { name: '🚨 Unusual Payment Amounts', value: 'anomalies' },
+        { name: '📅 List Holidays', value: 'list-holidays' },
+        { name: '💱 List Exchange Rates', value: 'list-rates' },
+        { name: '📥 Import Exchange Rates', value: 'import-rates' },
+        new inquirer.Separator(),
+        { name: '👥 List Members', value: 'list-members' },
+        { name: '👤 Add Member', value: 'add-member' },
+        { name: '✏️  Update Member', value: 'update-member' },
+        { name: '➗ Split Bill', value: 'split-bill' },
+        { name: '⚖️  Show Balances', value: 'balances' },
         new inquirer.Separator(),
         { name: chalk.red('=� Exit'), value: 'exit' },
       ],
@@ -98,6 +148,9 @@ const showMainMenu = async (): Promise<void> => {
     case 'mark-paid':
       await markPaymentAsPaid();
       break;
+    case 'record-transaction':
+      await recordTransaction();
+      break;
     case 'delete-payment':
       await deletePayment();
       break;
@@ -107,6 +160,42 @@ const showMainMenu = async (): Promise<void> => {
     case 'compare-payments':
       await comparePayments();
       break;
+    case 'year-report':
+      await showYearReport();
+      break;
+    case 'trends':
+      await showTrends();
+      break;
+    case 'forecast':
+      await showForecast();
+      break;
+    case 'anomalies':
+      await listAnomalies();
+      break;
+    case 'list-holidays':
+      await listHolidays();
+      break;
+    case 'list-rates':
+      await listExchangeRates();
+      break;
+    case 'import-rates':
+      await importExchangeRates();
+      break;
+    case 'list-members':
+      await listMembers();
+      break;
+    case 'add-member':
+      await addMember();
+      break;
+    case 'update-member':
+      await updateMember();
+      break;
+    case 'split-bill':
+      await splitBill();
+      break;
+    case 'balances':
+      await showBalances();
+      break;
     case 'exit':
       console.log(chalk.cyan('\nGoodbye! =K\n'));
       await disconnectDatabase();
@@ -165,9 +254,33 @@ program
 program
   .command('bills:add')
   .description('Add a new bill')
-  .action(async () => {
+  .option('--name <name>', 'Bill name')
+  .option('--type <type>', 'RENT, ELECTRICITY, WATER, GAS, INTERNET, PHONE or OTHER')
+  .option('--currency <code>', 'COP, USD or EUR (default: COP)')
+  .option('--amount <amount>', 'Amount in major units (e.g. 12.50)')
+  .option('--frequency <frequency>', 'WEEKLY, MONTHLY or YEARLY (default: MONTHLY)')
+  .option('--interval <n>', 'Repeat every N weeks, months or years (default: 1)')
+  .option('--anchor-date <date>', 'First due date (YYYY-MM-DD), required for weekly bills')
+  .option('--month-of-year <month>', 'Month (1-12) of yearly bills')
+  .option(
+    '--due-day-rule <rule>',
+    'DAY_OF_MONTH, LAST_DAY or NTH_BUSINESS_DAY (default: DAY_OF_MONTH)'
+  )
+  .option('--due-day <day>', 'Day of the month or business day number')
+  .option(
+    '--business-day-policy <policy>',
+    'NONE, PREVIOUS_BUSINESS_DAY or NEXT_BUSINESS_DAY (default: NONE)'
+  )
+  .option(
+    '--estimation-mode <mode>',
+    'FIXED, AVERAGE, SAME_MONTH_LAST_YEAR or WEIGHTED_TREND (default: FIXED)'
+  )
+  .option('--estimation-window <n>', 'Paid payments used by estimates (1-24, default: 3)')
+  .option('--reminder-days <days>', 'Days before the due date to remind (default: "5,1")')
+  .option('--description <text>', 'Description (optional)')
+  .action(async (options) => {
     try {
-      await addBill();
+      await addBill(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -178,10 +291,27 @@ program
 
 program
   .command('bills:update')
-  .description('Update a bill')
-  .action(async () => {
+  .description('Update a bill; options not given keep their current value')
+  .option('--bill <name>', 'Bill to update')
+  .option('--name <name>', 'New bill name')
+  .option('--type <type>', 'RENT, ELECTRICITY, WATER, GAS, INTERNET, PHONE or OTHER')
+  .option('--currency <code>', 'COP, USD or EUR')
+  .option('--amount <amount>', 'Amount in major units (e.g. 12.50)')
+  .option('--frequency <frequency>', 'WEEKLY, MONTHLY or YEARLY')
+  .option('--interval <n>', 'Repeat every N weeks, months or years')
+  .option('--anchor-date <date>', 'First due date (YYYY-MM-DD)')
+  .option('--month-of-year <month>', 'Month (1-12) of yearly bills')
+  .option('--due-day-rule <rule>', 'DAY_OF_MONTH, LAST_DAY or NTH_BUSINESS_DAY')
+  .option('--due-day <day>', 'Day of the month or business day number')
+  .option('--business-day-policy <policy>', 'NONE, PREVIOUS_BUSINESS_DAY or NEXT_BUSINESS_DAY')
+  .option('--estimation-mode <mode>', 'FIXED, AVERAGE, SAME_MONTH_LAST_YEAR or WEIGHTED_TREND')
+  .option('--estimation-window <n>', 'Paid payments used by estimates (1-24)')
+  .option('--reminder-days <days>', 'Days before the due date to remind, e.g. "5,1"')
+  .option('--description <text>', 'Description')
+  .option('--active <boolean>', 'true or false')
+  .action(async (options) => {
     try {
-      await updateBill();
+      await updateBill(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -193,9 +323,11 @@ program
 program
   .command('bills:delete')
   .description('Delete a bill')
-  .action(async () => {
+  .option('--bill <name>', 'Bill to delete')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(async (options) => {
     try {
-      await deleteBill();
+      await deleteBill(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -206,14 +338,40 @@ program
 
 program
   .command('payments:list')
-  .description('List payments for current month')
-  .option('-m, --month <month>', 'Month (1-12)')
-  .option('-y, --year <year>', 'Year')
+  .description('List the payments of a month')
+  .option('--month <month>', 'Month (YYYY-MM, default: current month)')
   .action(async (options) => {
     try {
-      const month = options.month ? parseInt(options.month) : undefined;
-      const year = options.year ? parseInt(options.year) : undefined;
-      await listPayments(month, year);
+      await listPayments(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('payments:search')
+  .description('Search payments with filters, sorting and paging')
+  .option('--bill <names>', 'Bill names, comma-separated')
+  .option('--type <types>', 'Bill types, comma-separated (e.g. internet,phone)')
+  .option('--status <statuses>', 'Statuses, comma-separated (e.g. pending,overdue)')
+  .option('--due-from <date>', 'Due on or after this date (YYYY-MM-DD)')
+  .option('--due-to <date>', 'Due on or before this date (YYYY-MM-DD)')
+  .option('--paid-from <date>', 'Paid on or after this date (YYYY-MM-DD)')
+  .option('--paid-to <date>', 'Paid on or before this date (YYYY-MM-DD)')
+  .option('--min-amount <amount>', 'Smallest amount in major units of --currency')
+  .option('--max-amount <amount>', 'Largest amount in major units of --currency')
+  .option('--currency <code>', 'Currency of the amount range (default: COP)')
+  .option('--notes <text>', 'Text the notes contain')
+  .option('--sort <field>', 'Sort by dueDate, paidDate, amount or bill (default: dueDate)')
+  .option('--order <order>', 'asc or desc (default: asc)')
+  .option('--limit <count>', 'Payments per page (default: 50)')
+  .option('--cursor <cursor>', 'Continue from where the previous page stopped')
+  .action(async (options) => {
+    try {
+      await searchPayments(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -225,9 +383,13 @@ program
 program
   .command('payments:add')
   .description('Add a new payment')
-  .action(async () => {
+  .option('--bill <name>', 'Bill of the payment')
+  .option('--amount <amount>', 'Amount in major units of the bill currency (default: bill amount)')
+  .option('--due-date <date>', 'Due date (YYYY-MM-DD)')
+  .option('--notes <text>', 'Notes (optional)')
+  .action(async (options) => {
     try {
-      await addPayment();
+      await addPayment(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -239,9 +401,16 @@ program
 program
   .command('payments:update')
   .description('Update a payment')
-  .action(async () => {
+  .option('--bill <name>', 'Bill of the payment')
+  .option('--month <month>', 'Due month of the payment (YYYY-MM, default: current month)')
+  .option('--due <date>', 'Due date of the payment (YYYY-MM-DD), for weekly bills')
+  .option('--amount <amount>', 'Confirmed amount in major units')
+  .option('--status <status>', 'PENDING or OVERDUE')
+  .option('--paid-date <date>', 'Paid date (YYYY-MM-DD)')
+  .option('--notes <text>', 'Notes')
+  .action(async (options) => {
     try {
-      await updatePayment();
+      await updatePayment(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -253,9 +422,36 @@ program
 program
   .command('payments:mark-paid')
   .description('Mark a payment as paid')
-  .action(async () => {
+  .option('--bill <name>', 'Bill of the payment')
+  .option('--month <month>', 'Due month of the payment (YYYY-MM)')
+  .option('--due <date>', 'Due date of the payment (YYYY-MM-DD), for weekly bills')
+  .option('--paid-date <date>', 'Paid date (YYYY-MM-DD, default: today)')
+  .option('--paid-by <member>', 'Member who paid (optional)')
+  .action(async (options) => {
     try {
-      await markPaymentAsPaid();
+      await markPaymentAsPaid(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('payments:record-transaction')
+  .description('Record a full or partial transaction against a payment')
+  .option('--bill <name>', 'Bill of the payment')
+  .option('--month <month>', 'Due month of the payment (YYYY-MM)')
+  .option('--due <date>', 'Due date of the payment (YYYY-MM-DD), for weekly bills')
+  .option('--amount <amount>', 'Amount in major units (default: the outstanding balance)')
+  .option('--date <date>', 'Transaction date (YYYY-MM-DD, default: today)')
+  .option('--method <method>', 'CASH, BANK_TRANSFER, CARD or OTHER (default: BANK_TRANSFER)')
+  .option('--reference <text>', 'Reference (optional)')
+  .option('--paid-by <member>', 'Member who paid (optional)')
+  .action(async (options) => {
+    try {
+      await recordTransaction(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -267,9 +463,13 @@ program
 program
   .command('payments:delete')
   .description('Delete a payment')
-  .action(async () => {
+  .option('--bill <name>', 'Bill of the payment')
+  .option('--month <month>', 'Due month of the payment (YYYY-MM, default: current month)')
+  .option('--due <date>', 'Due date of the payment (YYYY-MM-DD), for weekly bills')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(async (options) => {
     try {
-      await deletePayment();
+      await deletePayment(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -281,9 +481,10 @@ program
 program
   .command('payments:generate')
   .description('Generate monthly payments from active bills')
-  .action(async () => {
+  .option('--month <month>', 'Month to generate (YYYY-MM)')
+  .action(async (options) => {
     try {
-      await generateMonthlyPayments();
+      await generateMonthlyPayments(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -295,9 +496,11 @@ program
 program
   .command('summary')
   .description('Show monthly summary')
-  .action(async () => {
+  .option('-c, --currency <code>', 'Reporting currency (defaults to REPORTING_CURRENCY)')
+  .option('--month <month>', 'Month (YYYY-MM)')
+  .action(async (options) => {
     try {
-      await showMonthlySummary();
+      await showMonthlySummary(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
@@ -308,10 +511,441 @@ program
 
 program
   .command('payments:compare')
-  .description('Compare payment summaries for the last 3 months')
+  .description('Compare payment summaries of recent months, overall and per bill')
+  .option('-c, --currency <code>', 'Reporting currency (defaults to REPORTING_CURRENCY)')
+  .option('--month <month>', 'Most recent month to compare (YYYY-MM)')
+  .option('--months <count>', 'Number of months, or years with --year-over-year (default: 3)')
+  .option('--year-over-year', 'Compare the same month of previous years instead')
+  .action(async (options) => {
+    try {
+      await comparePayments(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('report:year')
+  .description('Annual report with totals per type, per bill and per month')
+  .option('-y, --year <year>', 'Year (default: current year)')
+  .option('-c, --currency <code>', 'Reporting currency (defaults to REPORTING_CURRENCY)')
+  .action(async (options) => {
+    try {
+      await showYearReport(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('report:statement')
+  .description('Printable monthly statement with the household, payments and totals')
+  .option('--month <month>', 'Month (YYYY-MM, default: current month)')
+  .option('--format <format>', 'html or pdf (default: html)')
+  .option('-f, --file <file>', 'Write to a file instead of stdout')
+  .option('--template <file>', 'Custom template for the format')
+  .option('--print-template', 'Print the default template of the format and exit')
+  .option('-c, --currency <code>', 'Currency of the totals (defaults to REPORTING_CURRENCY)')
+  .action(async (options) => {
+    try {
+      await showStatement(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('forecast')
+  .description('Project what is still to pay in the coming months, without creating payments')
+  .option('-m, --months <count>', 'Number of months from the current one (default: 6)')
+  .option('-c, --currency <code>', 'Reporting currency (defaults to REPORTING_CURRENCY)')
+  .action(async (options) => {
+    try {
+      await showForecast(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('trends')
+  .description('Charts of spending per bill type, per bill and paid, pending and overdue per month')
+  .option('--month <month>', 'Most recent month (YYYY-MM, default: current month)')
+  .option('--months <count>', 'Number of months (default: 12)')
+  .option('-c, --currency <code>', 'Reporting currency (defaults to REPORTING_CURRENCY)')
+  .option('--ascii', 'Draw with ASCII characters only')
+  .action(async (options) => {
+    try {
+      await showTrends(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('anomalies')
+  .description('List payments whose amount is unusual for their bill, and why')
+  .option('--from <date>', 'Due on or after this date (default: 6 months ago)')
+  .option('--to <date>', 'Due on or before this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await listAnomalies(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('bills:split')
+  .description('Set how a bill is split among household members')
+  .option('--bill <name>', 'Bill to split')
+  .option('--mode <mode>', 'EQUAL, PERCENTAGE or FIXED (default: the current mode)')
+  .option('--exclude <members>', 'Comma-separated excluded members (default: the current ones)')
+  .option(
+    '--shares <shares>',
+    'Percentages or fixed amounts, e.g. "Ana=60,Luis=40" (default: the current shares)'
+  )
+  .action(async (options) => {
+    try {
+      await splitBill(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('members:list')
+  .description('List household members')
   .action(async () => {
     try {
-      await comparePayments();
+      await listMembers();
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('members:add')
+  .description('Add a household member')
+  .option('--name <name>', 'Member name')
+  .option('--joined-at <date>', 'Joined the household on (YYYY-MM-DD, default: today)')
+  .action(async (options) => {
+    try {
+      await addMember(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('members:update')
+  .description('Update a household member; options not given keep their current value')
+  .option('--member <name>', 'Member to update')
+  .option('--name <name>', 'New name')
+  .option('--joined-at <date>', 'Joined the household on (YYYY-MM-DD)')
+  .option('--left-at <date>', 'Moved out on (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await updateMember(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('balances')
+  .description('Show who owes what and suggest transfers to settle up')
+  .option('--settle', 'Record the suggested transfers as settled')
+  .action(async (options) => {
+    try {
+      await showBalances(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('holidays:list')
+  .description('List the holidays used to shift due dates')
+  .option('-y, --year <year>', 'Year')
+  .action(async (options) => {
+    try {
+      const year = options.year ? parseInt(options.year) : undefined;
+      await listHolidays(year);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('bills:export')
+  .description('Export bills to CSV')
+  .option('-f, --file <file>', 'Write to a file instead of stdout')
+  .option('--columns <columns>', 'Comma-separated columns to export')
+  .option('--from <date>', 'Bills created on or after this date (YYYY-MM-DD)')
+  .option('--to <date>', 'Bills created on or before this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await exportBills(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('bills:import <file>')
+  .description('Import bills from CSV, matching existing bills by name')
+  .option('--dry-run', 'Validate and preview the import without writing')
+  .action(async (file, options) => {
+    try {
+      await importBills(file, options.dryRun);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('payments:reconcile <file>')
+  .description('Match a bank statement (OFX or CSV) to open payments and mark them paid')
+  .option('-c, --currency <code>', 'Currency of CSV statements (OFX files declare their own)')
+  .option('--tolerance <percent>', 'Allowed amount difference, overrides the saved bill rules')
+  .option('--window <days>', 'Days around the due date, overrides the saved bill rules')
+  .option('-y, --yes', 'Accept every proposed match without asking')
+  .action(async (file, options) => {
+    try {
+      await reconcilePayments(file, options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('payments:export')
+  .description('Export payments to CSV')
+  .option('-f, --file <file>', 'Write to a file instead of stdout')
+  .option('--columns <columns>', 'Comma-separated columns to export')
+  .option('--from <date>', 'Payments due on or after this date (YYYY-MM-DD)')
+  .option('--to <date>', 'Payments due on or before this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await exportPayments(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('payments:import <file>')
+  .description('Import payments from CSV, skipping ones already imported')
+  .option('--dry-run', 'Validate and preview the import without writing')
+  .action(async (file, options) => {
+    try {
+      await importPayments(file, options.dryRun);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('backup')
+  .description('Write every bill, payment and related record to a JSON backup')
+  .option('-f, --file <file>', 'Backup file (default: house-duties-backup-<date>.json)')
+  .action(async (options) => {
+    try {
+      await backup(options.file);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('restore <file>')
+  .description('Restore a JSON backup in one transaction')
+  .option('-m, --mode <mode>', 'merge keeps existing records, replace deletes them first', 'merge')
+  .option('-y, --yes', 'Do not ask for confirmation before a replace restore')
+  .action(async (file, options) => {
+    try {
+      await restore(file, options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rates:list')
+  .description('List exchange rates')
+  .action(async () => {
+    try {
+      await listExchangeRates();
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rates:import [file]')
+  .description('Import exchange rates from a CSV file (date,base,quote,rate)')
+  .action(async (file) => {
+    try {
+      await importExchangeRates(file);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('serve')
+  .description('Start the JSON API server (needs API_TOKEN)')
+  .option('-p, --port <port>', 'Port (default: API_PORT or 3000)')
+  .option('--host <host>', 'Interface to listen on (default: 127.0.0.1)')
+  .action(async (options) => {
+    try {
+      await serve(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('dashboard')
+  .description('Serve the browser dashboard on localhost')
+  .option('-p, --port <port>', 'Port (default: DASHBOARD_PORT or 3001)')
+  .option('--host <host>', 'Interface to listen on (default: 127.0.0.1)')
+  .action(async (options) => {
+    try {
+      await dashboard(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('reminders:send')
+  .description('Send due-date and overdue reminders that have not been sent yet')
+  .option('--channels <names>', 'Comma-separated channels (default: REMINDER_CHANNELS)')
+  .option('--dry-run', 'List the due reminders without sending them')
+  .action(async (options) => {
+    try {
+      await sendReminders(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('reminders:test')
+  .description('Send a sample reminder through each channel')
+  .option('--channels <names>', 'Comma-separated channels (default: REMINDER_CHANNELS)')
+  .action(async (options) => {
+    try {
+      await testReminderChannels(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('daemon')
+  .description('Run scheduled jobs: payment generation and overdue updates')
+  .option(
+    '--generate-day <day>',
+    "Day to generate next month's payments (default: DAEMON_GENERATE_DAY or 25)"
+  )
+  .option('--at <time>', 'Time the jobs run, HH:MM (default: DAEMON_TIME or 06:00)')
+  .option('--once', 'Run the due jobs, including missed runs, and exit')
+  .action(async (options) => {
+    try {
+      await runDaemon(options);
+      await disconnectDatabase();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('calendar:export')
+  .description('Export payment due dates as an iCalendar (.ics) file')
+  .option('-f, --file <file>', 'Write to a file instead of stdout')
+  .option('--from <date>', 'Payments due on or after this date (YYYY-MM-DD)')
+  .option('--to <date>', 'Payments due on or before this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await exportCalendar(options);
       await disconnectDatabase();
     } catch (error) {
       console.error(chalk.red('Error:'), error);
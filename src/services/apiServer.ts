@@ -0,0 +1,438 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { networkInterfaces } from 'os';
+import { Prisma, PaymentStatus } from '@prisma/client';
+import { BillService } from './billService.js';
+import { PaymentService } from './paymentService.js';
+import { getReportingCurrency } from './exchangeRateService.js';
+import {
+  ApiError,
+  decodePathParams,
+  getDashboardHosts,
+  isAllowedHost,
+  isValidDashboardKey,
+  paginate,
+  parseCreateBillBody,
+  parseComparisonQuery,
+  parseCreatePaymentBody,
+  parseEnumQuery,
+  parseMarkPaidBody,
+  parseMonthQuery,
+  parsePaging,
+  parseTransactionBody,
+  parseUpdateBillBody,
+  parseUpdatePaymentBody,
+  isValidFeedToken,
+  isValidToken,
+  toErrorBody,
+} from '../utils/api.js';
+import { createOpenApiDocument } from '../utils/openapi.js';
+import { renderDashboardPage } from '../utils/dashboardPage.js';
+import { buildPaymentCalendar } from '../utils/icalendar.js';
+import {
+  toBillRecord,
+  toMonthSummaryRecord,
+  toPaymentComparisonRecord,
+  toPaymentRecord,
+} from '../utils/outputRecords.js';
+import { formatMonth } from '../utils/formatters.js';
+import { getVersion } from '../utils/version.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const FEED_HISTORY_MONTHS = 12;
+
+interface ApiRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: () => Promise<unknown>;
+}
+
+interface ApiResponse {
+  status: number;
+  body?: unknown; // Sent as JSON unless it is an HTML page or a calendar
+  html?: string;
+  calendar?: string;
+}
+
+export interface ApiServerOptions {
+  dashboardKey?: string; // Serve the dashboard page at /?key=<dashboardKey>
+}
+
+type Handler = (request: ApiRequest) => Promise<ApiResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+  public?: boolean; // Served without a token
+}
+
+const readJson = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, 'body_too_large', 'Request body is larger than 1 MB'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      if (text.trim() === '') {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new ApiError(400, 'invalid_json', 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+// Errors thrown by the services themselves are broken business rules
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return new ApiError(404, 'not_found', 'Record not found');
+    }
+    if (error.code === 'P2003') {
+      return new ApiError(409, 'conflict', 'A referenced record does not exist');
+    }
+  }
+  if (error instanceof Error && error.constructor === Error) {
+    return new ApiError(409, 'conflict', error.message);
+  }
+  return new ApiError(500, 'internal_error', 'Unexpected server error');
+};
+
+/**
+ * JSON API over the bill and payment services for the `serve` command.
+ * Every route but the OpenAPI document, the dashboard page and the calendar
+ * feed needs `Authorization: Bearer <token>`. Dashboard servers also only
+ * answer requests for localhost or the address they listen on.
+ */
+export class ApiServer {
+  private billService = new BillService();
+  private paymentService = new PaymentService();
+  private server: Server;
+  private routes: Route[];
+  private allowedHosts?: string[];
+
+  constructor(
+    private token: string,
+    private options: ApiServerOptions = {}
+  ) {
+    this.routes = [
+      { method: 'GET', pattern: /^\/api\/openapi\.json$/, handler: this.getOpenApi, public: true },
+      { method: 'GET', pattern: /^\/api\/bills$/, handler: this.listBills },
+      { method: 'POST', pattern: /^\/api\/bills$/, handler: this.createBill },
+      { method: 'GET', pattern: /^\/api\/bills\/([^/]+)$/, handler: this.getBill },
+      { method: 'PATCH', pattern: /^\/api\/bills\/([^/]+)$/, handler: this.updateBill },
+      { method: 'DELETE', pattern: /^\/api\/bills\/([^/]+)$/, handler: this.deleteBill },
+      { method: 'GET', pattern: /^\/api\/payments$/, handler: this.listPayments },
+      { method: 'POST', pattern: /^\/api\/payments$/, handler: this.createPayment },
+      { method: 'GET', pattern: /^\/api\/payments\/([^/]+)$/, handler: this.getPayment },
+      { method: 'PATCH', pattern: /^\/api\/payments\/([^/]+)$/, handler: this.updatePayment },
+      { method: 'DELETE', pattern: /^\/api\/payments\/([^/]+)$/, handler: this.deletePayment },
+      {
+        method: 'POST',
+        pattern: /^\/api\/payments\/([^/]+)\/transactions$/,
+        handler: this.recordTransaction,
+      },
+      { method: 'POST', pattern: /^\/api\/payments\/([^/]+)\/mark-paid$/, handler: this.markPaid },
+      { method: 'GET', pattern: /^\/api\/summary$/, handler: this.getSummary },
+      { method: 'GET', pattern: /^\/api\/comparison$/, handler: this.getComparison },
+      // Checks its own ?token=, since calendar apps cannot send headers
+      {
+        method: 'GET',
+        pattern: /^\/api\/calendar\.ics$/,
+        handler: this.getCalendarFeed,
+        public: true,
+      },
+    ];
+    if (options.dashboardKey) {
+      this.routes.push({
+        method: 'GET',
+        pattern: /^\/$/,
+        handler: this.getDashboard,
+        public: true,
+      });
+    }
+    this.server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+  }
+
+  listen(port: number, host: string): Promise<AddressInfo> {
+    if (this.options.dashboardKey) {
+      const addresses = Object.values(networkInterfaces()).flatMap((entries) =>
+        (entries ?? []).map((entry) => entry.address)
+      );
+      this.allowedHosts = getDashboardHosts(host, addresses);
+    }
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve(this.server.address() as AddressInfo));
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    let result: ApiResponse;
+    try {
+      result = await this.dispatch(request);
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.status === 500) {
+        console.error(error);
+      }
+      result = { status: apiError.status, body: toErrorBody(apiError) };
+    }
+
+    response.statusCode = result.status;
+    if (result.html !== undefined) {
+      response.setHeader('Content-Type', 'text/html; charset=utf-8');
+      response.setHeader('Cache-Control', 'no-store');
+      response.end(result.html);
+      return;
+    }
+    if (result.calendar !== undefined) {
+      response.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      response.setHeader('Cache-Control', 'no-store');
+      response.end(result.calendar);
+      return;
+    }
+    if (result.body === undefined) {
+      response.end();
+      return;
+    }
+    response.setHeader('Content-Type', 'application/json; charset=utf-8');
+    response.end(JSON.stringify(result.body));
+  }
+
+  private async dispatch(request: IncomingMessage): Promise<ApiResponse> {
+    if (this.allowedHosts && !isAllowedHost(request.headers.host, this.allowedHosts)) {
+      throw new ApiError(403, 'forbidden_host', 'Host is not served here');
+    }
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const matching = this.routes.filter((route) => route.pattern.test(url.pathname));
+    if (matching.length === 0) {
+      throw new ApiError(404, 'not_found', `No route for ${url.pathname}`);
+    }
+    const route = matching.find((candidate) => candidate.method === request.method);
+    if (!route) {
+      throw new ApiError(405, 'method_not_allowed', `${request.method} is not allowed here`);
+    }
+    if (!route.public && !isValidToken(this.token, request.headers.authorization)) {
+      throw new ApiError(401, 'unauthorized', 'Missing or invalid bearer token');
+    }
+
+    const params = decodePathParams(url.pathname.match(route.pattern)!.slice(1));
+    return route.handler.call(this, {
+      params,
+      query: url.searchParams,
+      body: () => readJson(request),
+    });
+  }
+
+  private async findPayment(id: string) {
+    const payment = await this.paymentService.getPaymentById(id);
+    if (!payment) {
+      throw new ApiError(404, 'not_found', 'Payment not found');
+    }
+    return payment;
+  }
+
+  private async findBill(id: string) {
+    const bill = await this.billService.getBillById(id);
+    if (!bill) {
+      throw new ApiError(404, 'not_found', 'Bill not found');
+    }
+    return bill;
+  }
+
+  private async paymentRecord(id: string) {
+    return toPaymentRecord(await this.findPayment(id));
+  }
+
+  private async getOpenApi(): Promise<ApiResponse> {
+    return { status: 200, body: createOpenApiDocument(getVersion()) };
+  }
+
+  // The page carries the token, so it only goes out with the key of the printed URL
+  private async getDashboard({ query }: ApiRequest): Promise<ApiResponse> {
+    if (!isValidDashboardKey(this.options.dashboardKey!, query.get('key'))) {
+      throw new ApiError(401, 'unauthorized', 'Open the dashboard URL printed by the command');
+    }
+    return {
+      status: 200,
+      html: renderDashboardPage({ token: this.token, currency: getReportingCurrency() }),
+    };
+  }
+
+  private async listBills({ query }: ApiRequest): Promise<ApiResponse> {
+    const paging = parsePaging(query);
+    const active = query.get('active');
+    if (active !== null && active !== 'true' && active !== 'false') {
+      throw new ApiError(400, 'invalid_query', '"active" must be true or false');
+    }
+    let bills = await this.billService.getAllBills(active === 'true');
+    if (active === 'false') {
+      bills = bills.filter((bill) => !bill.active);
+    }
+    return { status: 200, body: paginate(bills.map(toBillRecord), paging) };
+  }
+
+  private async createBill({ body }: ApiRequest): Promise<ApiResponse> {
+    const bill = await this.billService.createBill(parseCreateBillBody(await body()));
+    return { status: 201, body: toBillRecord(bill) };
+  }
+
+  private async getBill({ params }: ApiRequest): Promise<ApiResponse> {
+    return { status: 200, body: toBillRecord(await this.findBill(params[0])) };
+  }
+
+  private async updateBill({ params, body }: ApiRequest): Promise<ApiResponse> {
+    const input = parseUpdateBillBody(await body());
+    await this.findBill(params[0]);
+    return { status: 200, body: toBillRecord(await this.billService.updateBill(params[0], input)) };
+  }
+
+  private async deleteBill({ params }: ApiRequest): Promise<ApiResponse> {
+    await this.findBill(params[0]);
+    await this.billService.deleteBill(params[0]);
+    return { status: 204 };
+  }
+
+  private async listPayments({ query }: ApiRequest): Promise<ApiResponse> {
+    const paging = parsePaging(query);
+    const status = parseEnumQuery(query, 'status', PaymentStatus);
+    await this.paymentService.updateOverduePayments();
+
+    let payments;
+    if (query.has('month')) {
+      const { year, month } = parseMonthQuery(query);
+      payments = await this.paymentService.getPaymentsByMonth(year, month);
+    } else {
+      payments = await this.paymentService.getAllPayments();
+    }
+    if (status) {
+      payments = payments.filter((payment) => payment.status === status);
+    }
+    return { status: 200, body: paginate(payments.map(toPaymentRecord), paging) };
+  }
+
+  private async createPayment({ body }: ApiRequest): Promise<ApiResponse> {
+    const input = parseCreatePaymentBody(await body());
+    await this.findBill(input.billId);
+    const payment = await this.paymentService.createPayment(input);
+    return { status: 201, body: await this.paymentRecord(payment.id) };
+  }
+
+  private async getPayment({ params }: ApiRequest): Promise<ApiResponse> {
+    return { status: 200, body: await this.paymentRecord(params[0]) };
+  }
+
+  private async updatePayment({ params, body }: ApiRequest): Promise<ApiResponse> {
+    const input = parseUpdatePaymentBody(await body());
+    await this.findPayment(params[0]);
+    await this.paymentService.updatePayment(params[0], input);
+    return { status: 200, body: await this.paymentRecord(params[0]) };
+  }
+
+  private async deletePayment({ params }: ApiRequest): Promise<ApiResponse> {
+    await this.findPayment(params[0]);
+    await this.paymentService.deletePayment(params[0]);
+    return { status: 204 };
+  }
+
+  private async recordTransaction({ params, body }: ApiRequest): Promise<ApiResponse> {
+    const input = parseTransactionBody(await body());
+    await this.findPayment(params[0]);
+    await this.paymentService.recordTransaction(params[0], input);
+    return { status: 201, body: await this.paymentRecord(params[0]) };
+  }
+
+  private async markPaid({ params, body }: ApiRequest): Promise<ApiResponse> {
+    const { paidDate, paidById } = parseMarkPaidBody(await body());
+    await this.findPayment(params[0]);
+    await this.paymentService.markAsPaid(params[0], paidDate, paidById);
+    return { status: 200, body: await this.paymentRecord(params[0]) };
+  }
+
+  private getCurrency(query: URLSearchParams): string {
+    try {
+      return getReportingCurrency(query.get('currency') ?? undefined);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ApiError(400, 'invalid_query', message);
+    }
+  }
+
+  private async getSummary({ query }: ApiRequest): Promise<ApiResponse> {
+    const { year, month } = parseMonthQuery(query);
+    const currency = this.getCurrency(query);
+    await this.paymentService.updateOverduePayments();
+
+    const [summary, payments] = await Promise.all([
+      this.paymentService.getPaymentsSummary(year, month, currency),
+      this.paymentService.getPaymentsByMonth(year, month),
+    ]);
+    const monthLabel = formatMonth(new Date(year, month - 1));
+    return {
+      status: 200,
+      body: {
+        ...toMonthSummaryRecord({ ...summary, year, month, monthLabel }),
+        payments: payments.map(toPaymentRecord),
+      },
+    };
+  }
+
+  // Payments from the last year on, so old months do not pile up in calendar apps
+  private async getCalendarFeed({ query }: ApiRequest): Promise<ApiResponse> {
+    if (!isValidFeedToken(this.token, query.get('token'))) {
+      throw new ApiError(401, 'unauthorized', 'Missing or invalid feed token');
+    }
+    await this.paymentService.updateOverduePayments();
+
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth() - FEED_HISTORY_MONTHS, 1);
+    const payments = await this.paymentService.getPaymentsBetween(from);
+    return {
+      status: 200,
+      calendar: buildPaymentCalendar(payments, {
+        name: 'House Duties',
+        now,
+        refreshInterval: 'PT1H',
+      }),
+    };
+  }
+
+  private async getComparison({ query }: ApiRequest): Promise<ApiResponse> {
+    const { year, month } = parseMonthQuery(query);
+    const currency = this.getCurrency(query);
+    await this.paymentService.updateOverduePayments();
+
+    const comparison = await this.paymentService.getPaymentComparison(
+      year,
+      month,
+      currency,
+      parseComparisonQuery(query)
+    );
+    return { status: 200, body: toPaymentComparisonRecord(comparison) };
+  }
+}
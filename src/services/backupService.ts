@@ -0,0 +1,207 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from './database.js';
+import {
+  BackupData,
+  BackupDocument,
+  RestoreMode,
+  createBackupDocument,
+  parseBackup,
+  serializeBackup,
+  toBackupRows,
+} from '../utils/backup.js';
+
+// Interactive transactions default to 5 seconds, too short for large restores
+const RESTORE_TIMEOUT_MS = 120_000;
+
+export class BackupService {
+  private prisma = getPrismaClient();
+
+  // Name of the latest migration applied to the database
+  async getSchemaVersion(): Promise<string> {
+    const rows = await this.prisma.$queryRaw<Array<{ migration_name: string }>>`
+      SELECT migration_name FROM _prisma_migrations
+      WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL
+      ORDER BY migration_name DESC
+      LIMIT 1
+    `;
+    if (rows.length === 0) {
+      throw new Error('The database has no applied migrations, run "pnpm db:migrate" first');
+    }
+    return rows[0].migration_name;
+  }
+
+  async createBackup(): Promise<BackupDocument> {
+    const [members, bills, payments, settlements, exchangeRates, jobRuns] =
+      await this.prisma.$transaction([
+        this.prisma.member.findMany({ orderBy: { createdAt: 'asc' } }),
+        this.prisma.bill.findMany({
+          include: { shares: { orderBy: { id: 'asc' } }, matchRule: true },
+          orderBy: { createdAt: 'asc' },
+        }),
+        this.prisma.payment.findMany({
+          include: {
+            transactions: { orderBy: { date: 'asc' } },
+            reminders: { orderBy: { sentAt: 'asc' } },
+          },
+          orderBy: { dueDate: 'asc' },
+        }),
+        this.prisma.settlement.findMany({ orderBy: { date: 'asc' } }),
+        this.prisma.exchangeRate.findMany({ orderBy: { date: 'asc' } }),
+        this.prisma.jobRun.findMany({ orderBy: { name: 'asc' } }),
+      ]);
+
+    return createBackupDocument(
+      { members, bills, payments, settlements, exchangeRates, jobRuns },
+      await this.getSchemaVersion()
+    );
+  }
+
+  async writeBackup(path: string): Promise<BackupDocument> {
+    const document = await this.createBackup();
+    writeFileSync(path, serializeBackup(document), 'utf-8');
+    return document;
+  }
+
+  async readBackup(path: string): Promise<BackupDocument> {
+    let content: string;
+    try {
+      content = readFileSync(path, 'utf-8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read backup file "${path}": ${message}`);
+    }
+    return parseBackup(content, await this.getSchemaVersion());
+  }
+
+  /**
+   * Restores a backup in one transaction, so a failure leaves the database
+   * untouched. Replace deletes everything first; merge keeps existing records
+   * and overwrites the ones the backup also has.
+   */
+  async restoreBackup(document: BackupDocument, mode: RestoreMode): Promise<void> {
+    await this.prisma.$transaction(
+      async (tx) => {
+        if (mode === 'replace') {
+          await this.clearData(tx);
+          await this.insertData(tx, document.data);
+        } else {
+          await this.mergeData(tx, document.data);
+        }
+      },
+      { timeout: RESTORE_TIMEOUT_MS }
+    );
+  }
+
+  private async clearData(tx: Prisma.TransactionClient): Promise<void> {
+    await tx.settlement.deleteMany();
+    await tx.reminder.deleteMany();
+    await tx.paymentTransaction.deleteMany();
+    await tx.payment.deleteMany();
+    await tx.billShare.deleteMany();
+    await tx.billMatchRule.deleteMany();
+    await tx.bill.deleteMany();
+    await tx.member.deleteMany();
+    await tx.exchangeRate.deleteMany();
+    await tx.jobRun.deleteMany();
+  }
+
+  private async insertData(tx: Prisma.TransactionClient, data: BackupData): Promise<void> {
+    const rows = toBackupRows(data);
+    await tx.member.createMany({ data: rows.members });
+    await tx.exchangeRate.createMany({ data: rows.exchangeRates });
+    await tx.bill.createMany({ data: rows.bills });
+    await tx.billShare.createMany({ data: rows.shares });
+    await tx.billMatchRule.createMany({ data: rows.matchRules });
+    await tx.payment.createMany({ data: rows.payments });
+    await tx.paymentTransaction.createMany({ data: rows.transactions });
+    await tx.reminder.createMany({ data: rows.reminders });
+    await tx.settlement.createMany({ data: rows.settlements });
+    await tx.jobRun.createMany({ data: rows.jobRuns });
+  }
+
+  // Records are matched by id; members also by name, since names are unique
+  private async mergeData(tx: Prisma.TransactionClient, data: BackupData): Promise<void> {
+    const memberIds = new Map<string, string>();
+    for (const { id, ...member } of data.members) {
+      const existing =
+        (await tx.member.findUnique({ where: { id } })) ??
+        (await tx.member.findUnique({ where: { name: member.name } }));
+      const saved = existing
+        ? await tx.member.update({ where: { id: existing.id }, data: member })
+        : await tx.member.create({ data: { id, ...member } });
+      memberIds.set(id, saved.id);
+    }
+    const memberId = (id: string): string => memberIds.get(id) ?? id;
+    const optionalMemberId = (id: string | null): string | null => (id ? memberId(id) : null);
+
+    for (const { id: _id, ...rate } of data.exchangeRates) {
+      await tx.exchangeRate.upsert({
+        where: {
+          baseCurrency_quoteCurrency_date: {
+            baseCurrency: rate.baseCurrency,
+            quoteCurrency: rate.quoteCurrency,
+            date: rate.date,
+          },
+        },
+        create: rate,
+        update: { rate: rate.rate },
+      });
+    }
+
+    for (const { id, shares, matchRule, ...bill } of data.bills) {
+      await tx.bill.upsert({ where: { id }, create: { id, ...bill }, update: bill });
+      if (matchRule) {
+        const { id: _ruleId, ...rule } = matchRule;
+        await tx.billMatchRule.upsert({ where: { billId: id }, create: rule, update: rule });
+      }
+      for (const { id: _shareId, ...share } of shares) {
+        const fields = { ...share, memberId: memberId(share.memberId) };
+        await tx.billShare.upsert({
+          where: { billId_memberId: { billId: id, memberId: fields.memberId } },
+          create: fields,
+          update: fields,
+        });
+      }
+    }
+
+    for (const { id, transactions, reminders, ...payment } of data.payments) {
+      await tx.payment.upsert({ where: { id }, create: { id, ...payment }, update: payment });
+      // A reminder sent from either database stays sent
+      for (const { id: _reminderId, ...reminder } of reminders) {
+        await tx.reminder.upsert({
+          where: {
+            paymentId_threshold_channel: {
+              paymentId: id,
+              threshold: reminder.threshold,
+              channel: reminder.channel,
+            },
+          },
+          create: reminder,
+          update: {},
+        });
+      }
+      for (const { id: transactionId, ...transaction } of transactions) {
+        const fields = { ...transaction, paidById: optionalMemberId(transaction.paidById) };
+        await tx.paymentTransaction.upsert({
+          where: { id: transactionId },
+          create: { id: transactionId, ...fields },
+          update: fields,
+        });
+      }
+    }
+
+    for (const { id, ...settlement } of data.settlements) {
+      const fields = {
+        ...settlement,
+        fromMemberId: memberId(settlement.fromMemberId),
+        toMemberId: memberId(settlement.toMemberId),
+      };
+      await tx.settlement.upsert({ where: { id }, create: { id, ...fields }, update: fields });
+    }
+
+    for (const { name, ...jobRun } of data.jobRuns) {
+      await tx.jobRun.upsert({ where: { name }, create: { name, ...jobRun }, update: jobRun });
+    }
+  }
+}
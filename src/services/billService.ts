@@ -1,19 +1,46 @@
-import { BillType, Bill } from '@prisma/client';
+import {
+  BillType,
+  Bill,
+  RecurrenceFrequency,
+  DueDayRule,
+  BusinessDayPolicy,
+  EstimationMode,
+} from '@prisma/client';
 import { getPrismaClient } from './database.js';
+import { Money } from '../utils/money.js';
 
 export interface CreateBillInput {
   name: string;
   type: BillType;
-  amount: number;
+  amount: Money;
   dueDay: number;
+  dueDayRule?: DueDayRule;
+  businessDayPolicy?: BusinessDayPolicy;
+  frequency?: RecurrenceFrequency;
+  interval?: number;
+  anchorDate?: Date;
+  monthOfYear?: number;
+  estimationMode?: EstimationMode;
+  estimationWindow?: number;
+  reminderDays?: number[]; // Days before the due date, see src/utils/reminders.ts
   description?: string;
+  active?: boolean;
 }
 
 export interface UpdateBillInput {
   name?: string;
   type?: BillType;
-  amount?: number;
+  amount?: Money;
   dueDay?: number;
+  dueDayRule?: DueDayRule;
+  businessDayPolicy?: BusinessDayPolicy;
+  frequency?: RecurrenceFrequency;
+  interval?: number;
+  anchorDate?: Date | null;
+  monthOfYear?: number | null;
+  estimationMode?: EstimationMode;
+  estimationWindow?: number;
+  reminderDays?: number[];
   description?: string;
   active?: boolean;
 }
@@ -23,7 +50,7 @@ export class BillService {
 
   async createBill(input: CreateBillInput): Promise<Bill> {
     return this.prisma.bill.create({
-      data: input,
+      data: { ...input, amount: input.amount.amount, currency: input.amount.currency },
     });
   }
 
@@ -47,9 +74,13 @@ export class BillService {
   }
 
   async updateBill(id: string, input: UpdateBillInput): Promise<Bill> {
+    const { amount, ...fields } = input;
     return this.prisma.bill.update({
       where: { id },
-      data: input,
+      data:
+        amount !== undefined
+          ? { ...fields, amount: amount.amount, currency: amount.currency }
+          : fields,
     });
   }
 
@@ -0,0 +1,211 @@
+import { Bill } from '@prisma/client';
+import { getPrismaClient } from './database.js';
+import { BillService, CreateBillInput } from './billService.js';
+import { PaymentService, CreatePaymentInput } from './paymentService.js';
+import { parseCsv } from '../utils/csv.js';
+import {
+  BILL_CSV_COLUMNS,
+  PAYMENT_CSV_COLUMNS,
+  formatCsv,
+  hasBillChanges,
+  parseBillRow,
+  parsePaymentRow,
+  selectColumns,
+} from '../utils/csvMapping.js';
+import { toDateKey } from '../utils/holidays.js';
+import { fromMajorUnits } from '../utils/money.js';
+
+export interface CsvExportOptions {
+  columns?: string[];
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+}
+
+export interface CsvExport {
+  content: string;
+  count: number;
+}
+
+export type CsvImportAction = 'create' | 'update' | 'skip';
+
+export interface CsvImportRow {
+  line: number;
+  label: string;
+  action: CsvImportAction;
+}
+
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+export interface CsvImportReport {
+  dryRun: boolean;
+  applied: boolean; // False for dry runs and files with errors
+  rows: CsvImportRow[];
+  errors: CsvRowError[];
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export class CsvService {
+  private prisma = getPrismaClient();
+  private billService = new BillService();
+  private paymentService = new PaymentService();
+
+  // Bills are filtered by creation date
+  async exportBills(options: CsvExportOptions = {}): Promise<CsvExport> {
+    const columns = selectColumns(BILL_CSV_COLUMNS, options.columns);
+    const bills = await this.prisma.bill.findMany({
+      where: {
+        createdAt: {
+          gte: options.from,
+          lt: options.to
+            ? new Date(options.to.getFullYear(), options.to.getMonth(), options.to.getDate() + 1)
+            : undefined,
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return { content: formatCsv(BILL_CSV_COLUMNS, columns, bills), count: bills.length };
+  }
+
+  // Payments are filtered by due date
+  async exportPayments(options: CsvExportOptions = {}): Promise<CsvExport> {
+    const columns = selectColumns(PAYMENT_CSV_COLUMNS, options.columns);
+    const payments = await this.paymentService.getPaymentsBetween(options.from, options.to);
+
+    return { content: formatCsv(PAYMENT_CSV_COLUMNS, columns, payments), count: payments.length };
+  }
+
+  /**
+   * Creates bills that do not exist yet and updates the ones matched by
+   * name, so importing the same file twice changes nothing the second time.
+   * Nothing is written when any row is invalid, and the rows are written in
+   * one transaction.
+   */
+  async importBills(content: string, dryRun: boolean = false): Promise<CsvImportReport> {
+    const report: CsvImportReport = { dryRun, applied: false, rows: [], errors: [] };
+    const planned: Array<{ input: CreateBillInput; existing: Bill | null }> = [];
+    const names = new Set<string>();
+
+    for (const record of parseCsv(content).records) {
+      try {
+        const input = parseBillRow(record.values);
+        if (names.has(input.name)) {
+          throw new Error(`Bill "${input.name}" appears more than once in the file`);
+        }
+        names.add(input.name);
+
+        const existing = await this.billService.getBillByName(input.name);
+        const action: CsvImportAction = !existing
+          ? 'create'
+          : hasBillChanges(existing, input)
+            ? 'update'
+            : 'skip';
+
+        report.rows.push({ line: record.line, label: input.name, action });
+        if (action !== 'skip') {
+          planned.push({ input, existing });
+        }
+      } catch (error) {
+        report.errors.push({ line: record.line, message: errorMessage(error) });
+      }
+    }
+
+    if (dryRun || report.errors.length > 0) {
+      return report;
+    }
+
+    await this.prisma.$transaction(
+      planned.map(({ input, existing }) => {
+        const data = { ...input, amount: input.amount.amount, currency: input.amount.currency };
+        return existing
+          ? this.prisma.bill.update({ where: { id: existing.id }, data })
+          : this.prisma.bill.create({ data });
+      })
+    );
+    report.applied = true;
+    return report;
+  }
+
+  /**
+   * Creates payments for bills matched by name. A payment of the same bill
+   * due the same day is treated as already imported and skipped. Nothing is
+   * written when any row is invalid, and the rows are written in one
+   * transaction.
+   */
+  async importPayments(content: string, dryRun: boolean = false): Promise<CsvImportReport> {
+    const report: CsvImportReport = { dryRun, applied: false, rows: [], errors: [] };
+    const planned: CreatePaymentInput[] = [];
+    const bills = new Map<string, Bill | null>();
+    const keys = new Set<string>();
+
+    for (const record of parseCsv(content).records) {
+      try {
+        const row = parsePaymentRow(record.values);
+
+        if (!bills.has(row.billName)) {
+          bills.set(row.billName, await this.billService.getBillByName(row.billName));
+        }
+        const bill = bills.get(row.billName);
+        if (!bill) {
+          throw new Error(`Bill "${row.billName}" not found`);
+        }
+        if (row.currency && row.currency !== bill.currency) {
+          throw new Error(`Currency ${row.currency} does not match the bill currency ${bill.currency}`);
+        }
+
+        const key = `${bill.id}:${toDateKey(row.dueDate)}`;
+        const existing = keys.has(key) || (await this.hasPaymentOn(bill.id, row.dueDate));
+        keys.add(key);
+
+        report.rows.push({
+          line: record.line,
+          label: `${bill.name} (${toDateKey(row.dueDate)})`,
+          action: existing ? 'skip' : 'create',
+        });
+        if (!existing) {
+          planned.push({
+            billId: bill.id,
+            amount: fromMajorUnits(row.amount, bill.currency),
+            dueDate: row.dueDate,
+            notes: row.notes,
+            isEstimated: row.isEstimated,
+          });
+        }
+      } catch (error) {
+        report.errors.push({ line: record.line, message: errorMessage(error) });
+      }
+    }
+
+    if (dryRun || report.errors.length > 0) {
+      return report;
+    }
+
+    await this.prisma.$transaction(
+      planned.map((input) =>
+        this.prisma.payment.create({
+          data: { ...input, amount: input.amount.amount, currency: input.amount.currency },
+        })
+      )
+    );
+    report.applied = true;
+    return report;
+  }
+
+  private async hasPaymentOn(billId: string, date: Date): Promise<boolean> {
+    const payment = await this.prisma.payment.findFirst({
+      where: {
+        billId,
+        dueDate: {
+          gte: date,
+          lt: new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1),
+        },
+      },
+    });
+    return payment !== null;
+  }
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from 'fs';
+import { ExchangeRate } from '@prisma/client';
+import { getPrismaClient } from './database.js';
+import {
+  CurrencyConverter,
+  ExchangeRateEntry,
+  createCurrencyConverter,
+  parseExchangeRatesCsv,
+} from '../utils/exchange.js';
+import { CurrencyCode, DEFAULT_CURRENCY, getCurrencyRule } from '../utils/money.js';
+
+// An explicit currency (e.g. --currency) wins over REPORTING_CURRENCY
+export const getReportingCurrency = (currency?: string): CurrencyCode => {
+  return getCurrencyRule(currency || process.env.REPORTING_CURRENCY || DEFAULT_CURRENCY).code;
+};
+
+export class ExchangeRateService {
+  private prisma = getPrismaClient();
+
+  async getAllRates(): Promise<ExchangeRate[]> {
+    return this.prisma.exchangeRate.findMany({
+      orderBy: [{ date: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+    });
+  }
+
+  // Rates for a pair and date that already exist are replaced
+  async importRates(entries: ExchangeRateEntry[]): Promise<number> {
+    await this.prisma.$transaction(
+      entries.map((entry) =>
+        this.prisma.exchangeRate.upsert({
+          where: {
+            baseCurrency_quoteCurrency_date: {
+              baseCurrency: entry.baseCurrency,
+              quoteCurrency: entry.quoteCurrency,
+              date: entry.date,
+            },
+          },
+          create: entry,
+          update: { rate: entry.rate },
+        })
+      )
+    );
+    return entries.length;
+  }
+
+  async importRatesFromCsv(path: string): Promise<number> {
+    let entries: ExchangeRateEntry[];
+    try {
+      entries = parseExchangeRatesCsv(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load exchange rate file "${path}": ${message}`);
+    }
+    return this.importRates(entries);
+  }
+
+  async getConverter(): Promise<CurrencyConverter> {
+    return createCurrencyConverter(await this.getAllRates());
+  }
+}
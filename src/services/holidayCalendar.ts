@@ -0,0 +1,58 @@
+import { readFileSync } from 'fs';
+import {
+  HolidayCalendar,
+  colombianCalendar,
+  combineCalendars,
+  createFileCalendar,
+  validateHolidayFile,
+  isHoliday,
+} from '../utils/holidays.js';
+import { isWeekend, BusinessDayPredicate } from '../utils/dueDate.js';
+
+const builtInCalendars: Record<string, HolidayCalendar> = {
+  CO: colombianCalendar,
+};
+
+let calendar: HolidayCalendar;
+
+export const loadHolidayFile = (path: string): HolidayCalendar => {
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    return createFileCalendar(validateHolidayFile(data));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load holiday file "${path}": ${message}`);
+  }
+};
+
+// HOLIDAY_CALENDAR picks the built-in calendar (CO by default, NONE to disable)
+// and HOLIDAY_FILES adds comma-separated user holiday files on top of it
+export const getHolidayCalendar = (): HolidayCalendar => {
+  if (!calendar) {
+    const code = (process.env.HOLIDAY_CALENDAR || 'CO').toUpperCase();
+    const calendars: HolidayCalendar[] = [];
+
+    if (code !== 'NONE') {
+      const builtIn = builtInCalendars[code];
+      if (!builtIn) {
+        throw new Error(
+          `Unknown holiday calendar "${code}". Available: ${Object.keys(builtInCalendars).join(', ')}, NONE`
+        );
+      }
+      calendars.push(builtIn);
+    }
+
+    (process.env.HOLIDAY_FILES || '')
+      .split(',')
+      .map((path) => path.trim())
+      .filter((path) => path !== '')
+      .forEach((path) => calendars.push(loadHolidayFile(path)));
+
+    const name = calendars.map((c) => c.name).join(' + ') || 'None';
+    calendar = combineCalendars(name, calendars);
+  }
+  return calendar;
+};
+
+export const isBusinessDay: BusinessDayPredicate = (date) =>
+  !isWeekend(date) && !isHoliday(date, getHolidayCalendar());
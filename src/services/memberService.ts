@@ -0,0 +1,101 @@
+import { Member, BillShare, Settlement, SplitMode } from '@prisma/client';
+import { getPrismaClient } from './database.js';
+import { Money, getMinorUnits } from '../utils/money.js';
+
+export interface CreateMemberInput {
+  name: string;
+  joinedAt?: Date;
+}
+
+export interface UpdateMemberInput {
+  name?: string;
+  joinedAt?: Date;
+  leftAt?: Date | null;
+}
+
+export interface BillShareInput {
+  memberId: string;
+  percentage?: number | null;
+  fixedAmount?: Money | null;
+  excluded?: boolean;
+}
+
+export interface CreateSettlementInput {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: Money;
+  date: Date;
+  notes?: string;
+}
+
+export class MemberService {
+  private prisma = getPrismaClient();
+
+  async createMember(input: CreateMemberInput): Promise<Member> {
+    return this.prisma.member.create({
+      data: input,
+    });
+  }
+
+  async getAllMembers(currentOnly: boolean = false): Promise<Member[]> {
+    return this.prisma.member.findMany({
+      where: currentOnly ? { leftAt: null } : undefined,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getMemberById(id: string): Promise<Member | null> {
+    return this.prisma.member.findUnique({
+      where: { id },
+    });
+  }
+
+  async getMemberByName(name: string): Promise<Member | null> {
+    return this.prisma.member.findUnique({
+      where: { name },
+    });
+  }
+
+  async updateMember(id: string, input: UpdateMemberInput): Promise<Member> {
+    return this.prisma.member.update({
+      where: { id },
+      data: input,
+    });
+  }
+
+  async getBillShares(billId: string): Promise<BillShare[]> {
+    return this.prisma.billShare.findMany({
+      where: { billId },
+    });
+  }
+
+  // Replaces the split rule of a bill in one go
+  async setBillSplit(billId: string, splitMode: SplitMode, shares: BillShareInput[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.billShare.deleteMany({ where: { billId } }),
+      this.prisma.bill.update({ where: { id: billId }, data: { splitMode } }),
+      this.prisma.billShare.createMany({
+        data: shares.map(({ fixedAmount, ...share }) => ({
+          billId,
+          ...share,
+          fixedAmount: fixedAmount ? getMinorUnits(fixedAmount) : null,
+        })),
+      }),
+    ]);
+  }
+
+  async createSettlement(input: CreateSettlementInput): Promise<Settlement> {
+    if (input.fromMemberId === input.toMemberId) {
+      throw new Error('A member cannot settle with themselves');
+    }
+    return this.prisma.settlement.create({
+      data: { ...input, amount: getMinorUnits(input.amount) },
+    });
+  }
+
+  async getAllSettlements(): Promise<Settlement[]> {
+    return this.prisma.settlement.findMany({
+      orderBy: { date: 'asc' },
+    });
+  }
+}
@@ -1,65 +1,202 @@
-import { PaymentStatus, Payment, Bill } from '@prisma/client';
+import {
+  BillType,
+  PaymentStatus,
+  PaymentMethod,
+  Payment,
+  Bill,
+  PaymentTransaction,
+  Member,
+  BillShare,
+  Prisma,
+} from '@prisma/client';
 import { getPrismaClient } from './database.js';
-import { formatMonth } from '../utils/formatters.js';
+import {
+  getOutstandingAmount,
+  getLastTransactionDate,
+  resolvePaymentStatus,
+} from '../utils/balance.js';
+import { getOccurrences } from '../utils/recurrence.js';
+import { adjustToBusinessDay } from '../utils/dueDate.js';
+import { estimateAmount } from '../utils/estimation.js';
+import {
+  DEFAULT_COMPARISON_PERIODS,
+  MAX_COMPARISON_PERIODS,
+  YearReport,
+  buildPaymentComparison,
+  buildYearReport,
+  getComparisonPeriods,
+  summarizePayments,
+} from '../utils/report.js';
+import {
+  AmountAnomaly,
+  AnomalyThreshold,
+  detectAnomaly,
+  getAnomalyWindowStart,
+  parseAnomalyThresholds,
+} from '../utils/anomalies.js';
+import {
+  CashFlowForecast,
+  DEFAULT_FORECAST_MONTHS,
+  MAX_FORECAST_MONTHS,
+  buildCashFlowForecast,
+  getForecastPeriods,
+} from '../utils/forecast.js';
+import {
+  DEFAULT_QUERY_LIMIT,
+  MAX_QUERY_LIMIT,
+  PaymentQuery,
+  buildCursorFilter,
+  buildPaymentFilter,
+  encodeCursor,
+  getPaymentOrderBy,
+} from '../utils/paymentQuery.js';
+import {
+  calculateSplit,
+  calculateMemberNets,
+  suggestTransfers,
+  isMemberOfHousehold,
+  MemberNet,
+} from '../utils/split.js';
+import { isBusinessDay } from './holidayCalendar.js';
+import { ExchangeRateService, getReportingCurrency } from './exchangeRateService.js';
+import {
+  CurrencyCode,
+  DEFAULT_CURRENCY,
+  Money,
+  money,
+  moneyOf,
+  getMinorUnits,
+} from '../utils/money.js';
 
 export interface CreatePaymentInput {
   billId: string;
-  amount: number;
+  amount: Money;
   dueDate: Date;
   notes?: string;
+  isEstimated?: boolean;
 }
 
 export interface UpdatePaymentInput {
-  amount?: number;
+  amount?: Money;
   status?: PaymentStatus;
   paidDate?: Date;
   notes?: string;
 }
 
+export interface RecordTransactionInput {
+  amount: Money;
+  date: Date;
+  method?: PaymentMethod;
+  reference?: string;
+  paidById?: string;
+}
+
 export interface PaymentWithBill extends Payment {
   bill: Bill;
+  transactions: PaymentTransaction[];
 }
 
-export interface MonthSummary {
+export interface PaymentPage {
+  payments: PaymentWithBill[];
+  nextCursor: string | null; // Null on the last page
+}
+
+// Amounts are converted into the reporting currency at the rate of each due date
+export interface PaymentsSummary {
+  currency: CurrencyCode;
+  originalTotals: Money[]; // Total per original currency, before conversion
+  total: Money;
+  paid: Money;
+  outstanding: Money;
+  pending: Money;
+  overdue: Money;
+  estimated: Money;
+  confirmed: Money;
+  byType: Record<BillType, Money>; // Total per bill type
+}
+
+export interface MonthSummary extends PaymentsSummary {
   year: number;
   month: number;
   monthLabel: string;
-  total: number;
-  paid: number;
-  pending: number;
-  overdue: number;
 }
 
+// Change, percentageChange and trend compare the last value with the one before it
 export interface ComparisonMetric {
   metricName: string;
-  values: number[];
-  change: number;
+  values: Money[]; // One per period, oldest first
+  change: Money;
   percentageChange: number | null;
   trend: 'up' | 'down' | 'stable';
 }
 
+export interface BillComparison extends ComparisonMetric {
+  billId: string;
+  billType: BillType;
+}
+
+// Consecutive months, or the same month of consecutive years
+export type ComparisonMode = 'months' | 'year-over-year';
+
+export interface ComparisonOptions {
+  periods?: number; // How many months or years, DEFAULT_COMPARISON_PERIODS unless given
+  mode?: ComparisonMode;
+}
+
 export interface PaymentComparison {
-  months: MonthSummary[];
+  mode: ComparisonMode;
+  months: MonthSummary[]; // Oldest first
   metrics: {
     total: ComparisonMetric;
     paid: ComparisonMetric;
     pending: ComparisonMetric;
     overdue: ComparisonMetric;
   };
+  bills: BillComparison[]; // Total of each bill per period
+}
+
+export interface PaymentAnomaly extends AmountAnomaly {
+  payment: PaymentWithBill;
+}
+
+// ANOMALY_THRESHOLDS overrides the thresholds of some bill types, e.g. "WATER=30,GAS=60/2.5"
+export const getAnomalyThresholds = (
+  value: string = process.env.ANOMALY_THRESHOLDS ?? ''
+): Record<BillType, AnomalyThreshold> => parseAnomalyThresholds(value);
+
+const paymentInclude = {
+  bill: true,
+  transactions: { orderBy: { date: 'asc' } },
+} as const;
+
+export interface MemberBalance extends MemberNet {
+  member: Member;
+}
+
+export interface SuggestedTransfer {
+  from: Member;
+  to: Member;
+  amount: Money;
+}
+
+export interface HouseholdBalances {
+  balances: MemberBalance[];
+  transfers: SuggestedTransfer[];
 }
 
 export class PaymentService {
   private prisma = getPrismaClient();
+  private exchangeRateService = new ExchangeRateService();
 
   async createPayment(input: CreatePaymentInput): Promise<Payment> {
     return this.prisma.payment.create({
-      data: input,
+      data: { ...input, amount: input.amount.amount, currency: input.amount.currency },
     });
   }
 
   async getAllPayments(): Promise<PaymentWithBill[]> {
     return this.prisma.payment.findMany({
-      include: { bill: true },
+      include: paymentInclude,
       orderBy: { dueDate: 'desc' },
     });
   }
@@ -67,7 +204,7 @@ export class PaymentService {
   async getPaymentById(id: string): Promise<PaymentWithBill | null> {
     return this.prisma.payment.findUnique({
       where: { id },
-      include: { bill: true },
+      include: paymentInclude,
     });
   }
 
@@ -82,30 +219,161 @@ export class PaymentService {
           lte: endDate,
         },
       },
-      include: { bill: true },
+      include: paymentInclude,
       orderBy: { dueDate: 'asc' },
     });
   }
 
+  // Both dates are optional and inclusive
+  async getPaymentsBetween(from?: Date, to?: Date): Promise<PaymentWithBill[]> {
+    return this.prisma.payment.findMany({
+      where: {
+        dueDate: {
+          gte: from,
+          lt: to ? new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1) : undefined,
+        },
+      },
+      include: paymentInclude,
+      orderBy: [{ dueDate: 'asc' }, { bill: { name: 'asc' } }],
+    });
+  }
+
+  async query(query: PaymentQuery = {}): Promise<PaymentPage> {
+    const sortBy = query.sortBy ?? 'dueDate';
+    const order = query.order ?? 'asc';
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+      throw new Error(`The limit must be a whole number between 1 and ${MAX_QUERY_LIMIT}`);
+    }
+
+    const filters = [buildPaymentFilter(query)];
+    if (query.cursor) {
+      filters.push(buildCursorFilter(query.cursor, sortBy, order));
+    }
+    // One extra row tells whether there is a next page
+    const payments = await this.prisma.payment.findMany({
+      where: { AND: filters },
+      include: paymentInclude,
+      orderBy: getPaymentOrderBy(sortBy, order),
+      take: limit + 1,
+    });
+
+    const page = payments.slice(0, limit);
+    const hasMore = payments.length > limit;
+    return {
+      payments: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1], sortBy, order) : null,
+    };
+  }
+
   async getPaymentsByStatus(status: PaymentStatus): Promise<PaymentWithBill[]> {
     return this.prisma.payment.findMany({
       where: { status },
-      include: { bill: true },
+      include: paymentInclude,
       orderBy: { dueDate: 'asc' },
     });
   }
 
   async updatePayment(id: string, input: UpdatePaymentInput): Promise<Payment> {
-    return this.prisma.payment.update({
+    const { amount, ...fields } = input;
+
+    // Transactions are recorded in the payment currency, which fixes it
+    if (amount !== undefined) {
+      const existing = await this.getPaymentById(id);
+      if (existing && existing.currency !== amount.currency && existing.transactions.length > 0) {
+        throw new Error('Cannot change the currency of a payment with transactions');
+      }
+    }
+
+    // Entering an amount confirms the real statement amount
+    const payment = await this.prisma.payment.update({
       where: { id },
-      data: input,
+      data:
+        amount !== undefined
+          ? { ...fields, amount: amount.amount, currency: amount.currency, isEstimated: false }
+          : fields,
     });
+
+    // A new amount can settle or reopen the balance
+    if (amount !== undefined) {
+      return this.syncPaymentStatus(id);
+    }
+
+    return payment;
+  }
+
+  async markAsPaid(id: string, paidDate?: Date, paidById?: string): Promise<Payment> {
+    const payment = await this.getPaymentById(id);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    const outstanding = getOutstandingAmount(payment.amount, payment.transactions);
+    if (outstanding === 0) {
+      return payment;
+    }
+
+    // Settle the remaining balance with a single transaction
+    return this.recordTransaction(id, {
+      amount: money(outstanding, payment.currency),
+      date: paidDate || new Date(),
+      paidById,
+    });
+  }
+
+  async recordTransaction(id: string, input: RecordTransactionInput): Promise<Payment> {
+    const payment = await this.getPaymentById(id);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    const amount = getMinorUnits(input.amount, payment.currency);
+    const outstanding = getOutstandingAmount(payment.amount, payment.transactions);
+    if (amount > outstanding) {
+      throw new Error('Transaction amount exceeds outstanding balance');
+    }
+
+    await this.prisma.paymentTransaction.create({
+      data: {
+        paymentId: id,
+        ...input,
+        amount,
+      },
+    });
+
+    return this.syncPaymentStatus(id);
+  }
+
+  async deleteTransaction(transactionId: string): Promise<Payment> {
+    const transaction = await this.prisma.paymentTransaction.delete({
+      where: { id: transactionId },
+    });
+
+    return this.syncPaymentStatus(transaction.paymentId);
   }
 
-  async markAsPaid(id: string, paidDate?: Date): Promise<Payment> {
-    return this.updatePayment(id, {
-      status: 'PAID',
-      paidDate: paidDate || new Date(),
+  // Status and paid date from the recorded transactions; `client` may be a transaction
+  async syncPaymentStatus(
+    id: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Payment> {
+    const payment = await client.payment.findUnique({ where: { id }, include: paymentInclude });
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    const status = resolvePaymentStatus(
+      payment.amount,
+      payment.transactions,
+      this.getEffectiveDueDate(payment)
+    );
+
+    return client.payment.update({
+      where: { id },
+      data: {
+        status,
+        paidDate: status === 'PAID' ? getLastTransactionDate(payment.transactions) : null,
+      },
     });
   }
 
@@ -123,39 +391,77 @@ export class PaymentService {
     const payments: Payment[] = [];
 
     for (const bill of bills) {
-      // Check if payment already exists for this month
-      const existingPayment = await this.prisma.payment.findFirst({
-        where: {
-          billId: bill.id,
-          dueDate: {
-            gte: new Date(year, month - 1, 1),
-            lt: new Date(year, month, 1),
+      const dueDates = this.getDueDates(bill, year, month);
+      if (dueDates.length === 0) {
+        continue;
+      }
+
+      const isEstimated = bill.estimationMode !== 'FIXED';
+      const amount = isEstimated
+        ? await this.getEstimatedAmount(bill, year, month)
+        : bill.amount;
+
+      for (const dueDate of dueDates) {
+        // Weekly bills can have several payments per month, so they are
+        // matched by day; everything else is matched by month
+        const existingPayment = await this.prisma.payment.findFirst({
+          where: {
+            billId: bill.id,
+            dueDate:
+              bill.frequency === 'WEEKLY'
+                ? {
+                    gte: dueDate,
+                    lt: new Date(year, month - 1, dueDate.getDate() + 1),
+                  }
+                : {
+                    gte: new Date(year, month - 1, 1),
+                    lt: new Date(year, month, 1),
+                  },
           },
-        },
-      });
-
-      if (!existingPayment) {
-        const dueDate = new Date(year, month - 1, bill.dueDay);
-        const payment = await this.createPayment({
-          billId: bill.id,
-          amount: bill.amount,
-          dueDate,
         });
-        payments.push(payment);
+
+        if (!existingPayment) {
+          const payment = await this.createPayment({
+            billId: bill.id,
+            amount: money(amount, bill.currency),
+            dueDate,
+            isEstimated,
+          });
+          payments.push(payment);
+        }
       }
     }
 
     return payments;
   }
 
+  // Pending and partially paid payments past their due date become overdue
   async updateOverduePayments(): Promise<number> {
-    const result = await this.prisma.payment.updateMany({
+    const now = new Date();
+    // Previous-business-day policies can pull a due date a few days earlier
+    const lookahead = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7);
+    const candidates = await this.prisma.payment.findMany({
       where: {
-        status: 'PENDING',
+        status: { in: ['PENDING', 'PARTIALLY_PAID'] },
         dueDate: {
-          lt: new Date(),
+          lt: lookahead,
         },
       },
+      include: paymentInclude,
+    });
+
+    // A due date on a weekend or holiday only counts once the bill's
+    // business-day policy has moved it
+    const overdueIds = candidates
+      .filter((payment) => this.getEffectiveDueDate(payment) < now)
+      .map((payment) => payment.id);
+
+    if (overdueIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.payment.updateMany({
+      where: { id: { in: overdueIds } },
       data: {
         status: 'OVERDUE',
       },
@@ -164,125 +470,242 @@ export class PaymentService {
     return result.count;
   }
 
-  async getPaymentsSummary(year: number, month: number): Promise<{
-    total: number;
-    paid: number;
-    pending: number;
-    overdue: number;
-  }> {
-    const payments = await this.getPaymentsByMonth(year, month);
-
-    const summary = {
-      total: 0,
-      paid: 0,
-      pending: 0,
-      overdue: 0,
-    };
+  /**
+   * Payments whose amount is unusual for their bill, in the order given.
+   * Estimated amounts come from the history already, so only confirmed
+   * amounts are checked, and only confirmed amounts make up the history.
+   */
+  async getAnomalies(
+    payments: PaymentWithBill[],
+    thresholds: Record<BillType, AnomalyThreshold> = getAnomalyThresholds()
+  ): Promise<PaymentAnomaly[]> {
+    const checked = payments.filter((payment) => !payment.isEstimated);
+    if (checked.length === 0) {
+      return [];
+    }
 
-    payments.forEach((payment) => {
-      summary.total += payment.amount;
-      if (payment.status === 'PAID') {
-        summary.paid += payment.amount;
-      } else if (payment.status === 'PENDING') {
-        summary.pending += payment.amount;
-      } else if (payment.status === 'OVERDUE') {
-        summary.overdue += payment.amount;
-      }
+    const dueTimes = checked.map((payment) => payment.dueDate.getTime());
+    const history = await this.prisma.payment.findMany({
+      where: {
+        billId: { in: [...new Set(checked.map((payment) => payment.billId))] },
+        isEstimated: false,
+        dueDate: {
+          gte: getAnomalyWindowStart(new Date(Math.min(...dueTimes))),
+          lt: new Date(Math.max(...dueTimes)),
+        },
+      },
+      select: { id: true, billId: true, amount: true, currency: true, dueDate: true },
     });
 
-    return summary;
+    return checked.flatMap((payment) => {
+      const windowStart = getAnomalyWindowStart(payment.dueDate);
+      const anomaly = detectAnomaly(
+        moneyOf(payment),
+        history.filter(
+          (entry) =>
+            entry.billId === payment.billId &&
+            entry.currency === payment.currency &&
+            entry.id !== payment.id &&
+            entry.dueDate >= windowStart &&
+            entry.dueDate < payment.dueDate
+        ),
+        thresholds[payment.bill.type]
+      );
+      return anomaly ? [{ ...anomaly, payment }] : [];
+    });
+  }
+
+  // Checks a payment after its amount was entered or changed
+  async getPaymentAnomaly(id: string): Promise<PaymentAnomaly | null> {
+    const payment = await this.getPaymentById(id);
+    if (!payment) {
+      return null;
+    }
+    const [anomaly] = await this.getAnomalies([payment]);
+    return anomaly ?? null;
   }
 
-  async getPaymentComparison(year: number, month: number): Promise<PaymentComparison> {
-    // Calculate the 3 months to compare
-    const months = this.calculatePreviousMonths(year, month, 3);
-
-    // Fetch summaries for all 3 months in parallel
-    const summaries = await Promise.all(
-      months.map(async ({ year, month }) => {
-        const summary = await this.getPaymentsSummary(year, month);
-        return {
-          year,
-          month,
-          monthLabel: formatMonth(new Date(year, month - 1)),
-          ...summary,
-        };
-      })
+  private getDueDates(bill: Bill, year: number, month: number): Date[] {
+    return getOccurrences(bill, year, month, isBusinessDay).map((date) =>
+      adjustToBusinessDay(date, bill.businessDayPolicy, isBusinessDay)
     );
+  }
 
-    // Calculate comparison metrics
-    const metrics = this.calculateComparisonMetrics(summaries);
+  // Enough history for the estimation window and the same month last year
+  private async getPaidHistory(bill: Bill, before: Date): Promise<Payment[]> {
+    return this.prisma.payment.findMany({
+      where: {
+        billId: bill.id,
+        currency: bill.currency,
+        status: 'PAID',
+        dueDate: { lt: before },
+      },
+      orderBy: { dueDate: 'desc' },
+      take: Math.max(bill.estimationWindow, 12),
+    });
+  }
 
-    return {
-      months: summaries,
-      metrics,
-    };
+  private async getEstimatedAmount(bill: Bill, year: number, month: number): Promise<number> {
+    const history = await this.getPaidHistory(bill, new Date(year, month - 1, 1));
+    return estimateAmount(bill, history, year, month);
   }
 
-  private calculatePreviousMonths(
+  private getEffectiveDueDate(payment: PaymentWithBill): Date {
+    return adjustToBusinessDay(payment.dueDate, payment.bill.businessDayPolicy, isBusinessDay);
+  }
+
+  async getPaymentsSummary(
     year: number,
     month: number,
-    count: number
-  ): Array<{ year: number; month: number }> {
-    const months: Array<{ year: number; month: number }> = [];
-
-    for (let i = count - 1; i >= 0; i--) {
-      let targetMonth = month - i;
-      let targetYear = year;
-
-      // Handle year boundary
-      while (targetMonth < 1) {
-        targetMonth += 12;
-        targetYear -= 1;
-      }
+    currency: CurrencyCode = getReportingCurrency()
+  ): Promise<PaymentsSummary> {
+    const [payments, convert] = await Promise.all([
+      this.getPaymentsByMonth(year, month),
+      this.exchangeRateService.getConverter(),
+    ]);
+
+    return summarizePayments(payments, currency, convert);
+  }
 
-      months.push({ year: targetYear, month: targetMonth });
+  // On-time rates compare with the due date after the bill's business-day policy
+  async getYearReport(
+    year: number,
+    currency: CurrencyCode = getReportingCurrency()
+  ): Promise<YearReport> {
+    const [payments, convert] = await Promise.all([
+      this.getPaymentsBetween(new Date(year, 0, 1), new Date(year, 11, 31)),
+      this.exchangeRateService.getConverter(),
+    ]);
+    return buildYearReport(year, payments, currency, convert, (payment) =>
+      this.getEffectiveDueDate(payment)
+    );
+  }
+
+  /**
+   * What is still to pay from this month on, without creating payments.
+   * Only estimated bills need their paid history.
+   */
+  async getCashFlowForecast(
+    months: number = DEFAULT_FORECAST_MONTHS,
+    currency: CurrencyCode = getReportingCurrency(),
+    now: Date = new Date()
+  ): Promise<CashFlowForecast> {
+    if (!Number.isInteger(months) || months < 1 || months > MAX_FORECAST_MONTHS) {
+      throw new Error(`Forecast between 1 and ${MAX_FORECAST_MONTHS} months`);
     }
 
-    return months;
+    const periods = getForecastPeriods(now.getFullYear(), now.getMonth() + 1, months);
+    const last = periods[periods.length - 1];
+    const start = new Date(periods[0].year, periods[0].month - 1, 1);
+    const end = new Date(last.year, last.month, 1);
+
+    const [bills, payments, convert] = await Promise.all([
+      this.prisma.bill.findMany({ where: { active: true }, orderBy: { name: 'asc' } }),
+      this.prisma.payment.findMany({
+        where: {
+          OR: [
+            { dueDate: { gte: start, lt: end } },
+            { dueDate: { lt: start }, status: { not: 'PAID' } },
+          ],
+        },
+        include: paymentInclude,
+      }),
+      this.exchangeRateService.getConverter(),
+    ]);
+    const forecastBills = await Promise.all(
+      bills.map(async (bill) => ({
+        bill,
+        history: bill.estimationMode === 'FIXED' ? [] : await this.getPaidHistory(bill, start),
+      }))
+    );
+
+    return buildCashFlowForecast(
+      periods,
+      forecastBills,
+      payments,
+      currency,
+      convert,
+      (bill, year, month) => this.getDueDates(bill, year, month)
+    );
   }
 
-  private calculateComparisonMetrics(
-    summaries: MonthSummary[]
-  ): PaymentComparison['metrics'] {
-    const createMetric = (
-      metricName: string,
-      values: number[]
-    ): ComparisonMetric => {
-      const previousValue = values[1];
-      const currentValue = values[2];
-      const change = currentValue - previousValue;
-
-      // Calculate percentage change (avoid division by zero)
-      let percentageChange: number | null = null;
-      if (previousValue !== 0) {
-        percentageChange = (change / previousValue) * 100;
-      }
+  async getHouseholdBalances(): Promise<HouseholdBalances> {
+    const [payments, members, shares, settlements, convert] = await Promise.all([
+      this.getAllPayments(),
+      this.prisma.member.findMany({ orderBy: { name: 'asc' } }),
+      this.prisma.billShare.findMany(),
+      this.prisma.settlement.findMany(),
+      this.exchangeRateService.getConverter(),
+    ]);
+
+    const sharesByBill = new Map<string, BillShare[]>();
+    shares.forEach((share) => {
+      sharesByBill.set(share.billId, [...(sharesByBill.get(share.billId) ?? []), share]);
+    });
 
-      // Determine trend
-      let trend: 'up' | 'down' | 'stable';
-      if (Math.abs(change) < 0.01) {
-        trend = 'stable';
-      } else if (change > 0) {
-        trend = 'up';
-      } else {
-        trend = 'down';
-      }
+    // Each payment is split among the members living in the household when it
+    // was due. Balances, fixed shares and settlements use the default currency
+    const splitPayments = payments.map((payment) => {
+      const toDefault = (amount: number): number =>
+        convert(money(amount, payment.currency), DEFAULT_CURRENCY, payment.dueDate).amount;
+      const amount = toDefault(payment.amount);
 
       return {
-        metricName,
-        values,
-        change,
-        percentageChange,
-        trend,
+        amount,
+        shares: calculateSplit(
+          amount,
+          payment.bill.splitMode,
+          sharesByBill.get(payment.billId) ?? [],
+          members
+            .filter((member) => isMemberOfHousehold(member, payment.dueDate))
+            .map((member) => member.id)
+        ),
+        transactions: payment.transactions.map((transaction) => ({
+          amount: toDefault(transaction.amount),
+          paidById: transaction.paidById,
+        })),
       };
-    };
+    });
+
+    const nets = calculateMemberNets(
+      members.map((member) => member.id),
+      splitPayments,
+      settlements
+    );
+    const membersById = new Map(members.map((member) => [member.id, member]));
 
     return {
-      total: createMetric('Total', summaries.map((s) => s.total)),
-      paid: createMetric('Paid', summaries.map((s) => s.paid)),
-      pending: createMetric('Pending', summaries.map((s) => s.pending)),
-      overdue: createMetric('Overdue', summaries.map((s) => s.overdue)),
+      balances: nets.map((net) => ({ ...net, member: membersById.get(net.memberId)! })),
+      transfers: suggestTransfers(nets).map((transfer) => ({
+        from: membersById.get(transfer.fromMemberId)!,
+        to: membersById.get(transfer.toMemberId)!,
+        amount: money(transfer.amount),
+      })),
     };
   }
+
+  async getPaymentComparison(
+    year: number,
+    month: number,
+    currency: CurrencyCode = getReportingCurrency(),
+    options: ComparisonOptions = {}
+  ): Promise<PaymentComparison> {
+    const mode = options.mode ?? 'months';
+    const count = options.periods ?? DEFAULT_COMPARISON_PERIODS;
+    if (!Number.isInteger(count) || count < 2 || count > MAX_COMPARISON_PERIODS) {
+      throw new Error(`Compare between 2 and ${MAX_COMPARISON_PERIODS} periods`);
+    }
+
+    const periods = getComparisonPeriods(year, month, count, mode);
+    const [payments, convert] = await Promise.all([
+      Promise.all(periods.map((period) => this.getPaymentsByMonth(period.year, period.month))),
+      this.exchangeRateService.getConverter(),
+    ]);
+    return buildPaymentComparison(
+      periods.map((period, index) => ({ ...period, payments: payments[index] })),
+      currency,
+      convert,
+      mode
+    );
+  }
 }
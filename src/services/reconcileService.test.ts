@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Bill, Payment, PaymentTransaction } from "@prisma/client";
+import { ReconcileService } from "./reconcileService.js";
+import { getPrismaClient } from "./database.js";
+import { getPaidAmount } from "../utils/balance.js";
+import { DEFAULT_MATCH_RULE, ReconcileMatch } from "../utils/reconcile.js";
+import { money } from "../utils/money.js";
+
+// In-memory stand-in for the few Prisma calls applyMatch makes
+vi.mock("./database.js", () => {
+  const state = {
+    bill: null as unknown as Bill,
+    payment: null as unknown as Payment,
+    transactions: [] as PaymentTransaction[],
+  };
+  const withRelations = () => ({
+    ...state.payment,
+    bill: state.bill,
+    transactions: [...state.transactions].sort((a, b) => a.date.getTime() - b.date.getTime()),
+  });
+  const client = {
+    state,
+    $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(client),
+    payment: {
+      findUnique: async () => withRelations(),
+      update: async ({ data }: { data: Partial<Payment> }) => {
+        state.payment = { ...state.payment, ...data };
+        return state.payment;
+      },
+    },
+    paymentTransaction: {
+      create: async ({ data }: { data: Partial<PaymentTransaction> }) => {
+        const transaction = { id: `t${state.transactions.length + 1}`, ...data };
+        state.transactions.push(transaction as PaymentTransaction);
+        return transaction;
+      },
+    },
+    billMatchRule: {
+      findUnique: async () => null,
+      upsert: async () => ({}),
+    },
+  };
+  return { getPrismaClient: () => client };
+});
+
+const fake = getPrismaClient() as unknown as {
+  state: { bill: Bill; payment: Payment; transactions: PaymentTransaction[] };
+};
+
+describe("ReconcileService.applyMatch", () => {
+  const debitDate = new Date(2026, 9, 6);
+
+  beforeEach(() => {
+    fake.state.bill = {
+      id: "b1",
+      name: "Electricity",
+      businessDayPolicy: "NONE",
+    } as Bill;
+    fake.state.payment = {
+      id: "p1",
+      billId: "b1",
+      amount: 10000,
+      currency: "EUR",
+      dueDate: new Date(2026, 9, 5),
+      isEstimated: true,
+      status: "PENDING",
+      paidDate: null,
+    } as Payment;
+    fake.state.transactions = [];
+  });
+
+  const matchFor = (bankAmount: number): ReconcileMatch => ({
+    transaction: {
+      line: 2,
+      date: debitDate,
+      amount: money(bankAmount, "EUR"),
+      description: "ELECTRICITY CO DIRECT DEBIT",
+      reference: "FIT-1",
+    },
+    candidate: {
+      paymentId: "p1",
+      billId: "b1",
+      billName: "Electricity",
+      outstanding: money(10000, "EUR"),
+      dueDate: new Date(2026, 9, 5),
+      rule: DEFAULT_MATCH_RULE,
+    },
+    score: 0.9,
+    reasons: [],
+  });
+
+  it("should settle the payment when the debit is above the balance", async () => {
+    const payment = await new ReconcileService().applyMatch(matchFor(10500));
+
+    expect(payment.status).toBe("PAID");
+    expect(payment.amount).toBe(10500);
+    expect(getPaidAmount(fake.state.transactions)).toBe(10500);
+    expect(payment.paidDate).toEqual(debitDate);
+  });
+
+  it("should settle the payment when the debit is below the balance", async () => {
+    const payment = await new ReconcileService().applyMatch(matchFor(9500));
+
+    expect(payment.status).toBe("PAID");
+    expect(payment.amount).toBe(9500);
+    expect(getPaidAmount(fake.state.transactions)).toBe(9500);
+    expect(payment.paidDate).toEqual(debitDate);
+  });
+
+  it("should keep earlier partial payments when settling the rest", async () => {
+    fake.state.transactions = [
+      { id: "t0", paymentId: "p1", amount: 4000, date: new Date(2026, 9, 1) } as PaymentTransaction,
+    ];
+
+    const payment = await new ReconcileService().applyMatch(matchFor(5800));
+
+    expect(payment.status).toBe("PAID");
+    expect(payment.amount).toBe(9800);
+    expect(getPaidAmount(fake.state.transactions)).toBe(9800);
+    expect(payment.paidDate).toEqual(debitDate);
+  });
+});
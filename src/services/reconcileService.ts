@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs';
+import { Payment } from '@prisma/client';
+import { getPrismaClient } from './database.js';
+import { PaymentService } from './paymentService.js';
+import { BankTransaction, parseBankStatement } from '../utils/bankStatement.js';
+import { getOutstandingAmount } from '../utils/balance.js';
+import {
+  DEFAULT_MATCH_RULE,
+  MatchCandidate,
+  ReconcileMatch,
+  learnKeywords,
+  matchTransactions,
+} from '../utils/reconcile.js';
+import { CurrencyCode, DEFAULT_CURRENCY, money } from '../utils/money.js';
+
+export interface ReconcileOptions {
+  currency?: CurrencyCode; // Currency of CSV statements, OFX files declare their own
+  amountTolerance?: number; // Overrides the saved rules for this run
+  dateWindow?: number;
+}
+
+export interface ReconcilePreview {
+  transactions: BankTransaction[];
+  matches: ReconcileMatch[];
+  alreadyRecorded: number; // Transactions whose reference is already on a payment
+}
+
+export class ReconcileService {
+  private prisma = getPrismaClient();
+  private paymentService = new PaymentService();
+
+  async previewStatement(path: string, options: ReconcileOptions = {}): Promise<ReconcilePreview> {
+    let statement: BankTransaction[];
+    try {
+      statement = parseBankStatement(readFileSync(path, 'utf-8'), options.currency ?? DEFAULT_CURRENCY);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read statement "${path}": ${message}`);
+    }
+
+    // Importing the same statement twice must not pay a bill twice
+    const references = statement.flatMap((transaction) =>
+      transaction.reference ? [transaction.reference] : []
+    );
+    const recorded = await this.prisma.paymentTransaction.findMany({
+      where: { reference: { in: references } },
+      select: { reference: true },
+    });
+    const recordedReferences = new Set(recorded.map((transaction) => transaction.reference));
+    const transactions = statement.filter(
+      (transaction) => !transaction.reference || !recordedReferences.has(transaction.reference)
+    );
+
+    const matches = matchTransactions(transactions, await this.getCandidates(options));
+    return { transactions, matches, alreadyRecorded: statement.length - transactions.length };
+  }
+
+  private async getCandidates(options: ReconcileOptions): Promise<MatchCandidate[]> {
+    const payments = await this.prisma.payment.findMany({
+      where: { status: { in: ['PENDING', 'PARTIALLY_PAID', 'OVERDUE'] } },
+      include: { bill: { include: { matchRule: true } }, transactions: true },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return payments.map((payment) => {
+      const rule = payment.bill.matchRule ?? DEFAULT_MATCH_RULE;
+      return {
+        paymentId: payment.id,
+        billId: payment.billId,
+        billName: payment.bill.name,
+        outstanding: money(
+          getOutstandingAmount(payment.amount, payment.transactions),
+          payment.currency
+        ),
+        dueDate: payment.dueDate,
+        rule: {
+          keywords: rule.keywords,
+          amountTolerance: options.amountTolerance ?? rule.amountTolerance,
+          dateWindow: options.dateWindow ?? rule.dateWindow,
+        },
+      };
+    });
+  }
+
+  /**
+   * Records the statement transaction on the matched payment and teaches the
+   * bill rule its description, in one transaction. The bank amount is within
+   * the rule tolerance of the outstanding balance, so it replaces that balance
+   * and the payment ends paid in full.
+   */
+  async applyMatch(match: ReconcileMatch): Promise<Payment> {
+    const { transaction, candidate } = match;
+    return this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: candidate.paymentId },
+        include: { transactions: true },
+      });
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+
+      // The statement confirms the real amount, like entering it by hand
+      const outstanding = getOutstandingAmount(payment.amount, payment.transactions);
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          amount: payment.amount - outstanding + transaction.amount.amount,
+          isEstimated: false,
+        },
+      });
+
+      await tx.paymentTransaction.create({
+        data: {
+          paymentId: payment.id,
+          amount: transaction.amount.amount,
+          date: transaction.date,
+          method: 'BANK_TRANSFER',
+          reference: transaction.reference,
+        },
+      });
+
+      const rule = await tx.billMatchRule.findUnique({ where: { billId: payment.billId } });
+      const keywords = learnKeywords(rule?.keywords ?? [], transaction.description);
+      await tx.billMatchRule.upsert({
+        where: { billId: payment.billId },
+        create: { billId: payment.billId, keywords },
+        update: { keywords },
+      });
+
+      return this.paymentService.syncPaymentStatus(payment.id, tx);
+    });
+  }
+}
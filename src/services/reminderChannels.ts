@@ -0,0 +1,141 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { SmtpClient, SmtpConfig } from './smtpClient.js';
+import { ReminderMessage, toReminderPayload } from '../utils/reminders.js';
+
+const execFileAsync = promisify(execFile);
+
+// A way to deliver reminders; send() throws when the reminder did not go out
+export interface ReminderChannel {
+  name: string;
+  send(message: ReminderMessage): Promise<void>;
+}
+
+// Builds a channel from its environment settings, throwing when they are incomplete
+export type ReminderChannelFactory = (env: NodeJS.ProcessEnv) => ReminderChannel;
+
+// Desktop notification through notify-send or another command taking a title and a body
+export class DesktopChannel implements ReminderChannel {
+  name = 'desktop';
+
+  constructor(private command: string = 'notify-send') {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    await execFileAsync(this.command, [message.subject, message.text], { timeout: 10 * 1000 });
+  }
+}
+
+export class EmailChannel implements ReminderChannel {
+  name = 'email';
+  private client: SmtpClient;
+
+  constructor(
+    config: SmtpConfig,
+    private from: string,
+    private to: string[]
+  ) {
+    this.client = new SmtpClient(config);
+  }
+
+  async send(message: ReminderMessage): Promise<void> {
+    await this.client.send({
+      from: this.from,
+      to: this.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+// POSTs the reminder as JSON; any answer but 2xx counts as not delivered
+export class WebhookChannel implements ReminderChannel {
+  name = 'webhook';
+
+  constructor(
+    private url: string,
+    private token?: string
+  ) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(toReminderPayload(message)),
+      signal: AbortSignal.timeout(10 * 1000),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+const requireSetting = (env: NodeJS.ProcessEnv, name: string, channel: string): string => {
+  const value = env[name]?.trim();
+  if (!value) {
+    throw new Error(`Set ${name} to use the ${channel} reminder channel`);
+  }
+  return value;
+};
+
+const channelFactories = new Map<string, ReminderChannelFactory>([
+  ['desktop', (env) => new DesktopChannel(env.REMINDER_NOTIFY_COMMAND?.trim() || undefined)],
+  [
+    'email',
+    (env) => {
+      const port = Number(env.SMTP_PORT?.trim() || 587);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error('SMTP_PORT must be a whole number between 1 and 65535');
+      }
+      const config: SmtpConfig = {
+        host: requireSetting(env, 'SMTP_HOST', 'email'),
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE.trim() === 'true' : port === 465,
+        user: env.SMTP_USER?.trim() || undefined,
+        password: env.SMTP_PASSWORD,
+      };
+      const to = requireSetting(env, 'REMINDER_EMAIL_TO', 'email')
+        .split(',')
+        .map((address) => address.trim())
+        .filter((address) => address !== '');
+      return new EmailChannel(config, requireSetting(env, 'REMINDER_EMAIL_FROM', 'email'), to);
+    },
+  ],
+  [
+    'webhook',
+    (env) =>
+      new WebhookChannel(
+        requireSetting(env, 'REMINDER_WEBHOOK_URL', 'webhook'),
+        env.REMINDER_WEBHOOK_TOKEN?.trim() || undefined
+      ),
+  ],
+]);
+
+// Adds a channel that REMINDER_CHANNELS and --channels can then name
+export const registerReminderChannel = (name: string, factory: ReminderChannelFactory): void => {
+  if (channelFactories.has(name)) {
+    throw new Error(`Reminder channel "${name}" is already registered`);
+  }
+  channelFactories.set(name, factory);
+};
+
+export const getReminderChannelNames = (): string[] => [...channelFactories.keys()];
+
+// Channels named in a comma-separated list such as REMINDER_CHANNELS="desktop,email"
+export const createReminderChannels = (
+  names: string,
+  env: NodeJS.ProcessEnv = process.env
+): ReminderChannel[] =>
+  [...new Set(names.split(',').map((name) => name.trim().toLowerCase()))]
+    .filter((name) => name !== '')
+    .map((name) => {
+      const factory = channelFactories.get(name);
+      if (!factory) {
+        throw new Error(
+          `Unknown reminder channel "${name}". Available: ${getReminderChannelNames().join(', ')}`
+        );
+      }
+      return factory(env);
+    });
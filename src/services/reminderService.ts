@@ -0,0 +1,127 @@
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from './database.js';
+import { ReminderChannel } from './reminderChannels.js';
+import { getOutstandingAmount } from '../utils/balance.js';
+import { money } from '../utils/money.js';
+import {
+  DueReminder,
+  MAX_REMINDER_DAYS,
+  buildReminderMessage,
+  getDaysUntil,
+  getReminderThreshold,
+} from '../utils/reminders.js';
+
+export interface PendingReminder extends DueReminder {
+  channels: string[]; // Channels that have not sent this reminder yet
+}
+
+export interface ReminderResult {
+  reminder: DueReminder;
+  channel: string;
+  error?: string;
+}
+
+export class ReminderService {
+  private prisma = getPrismaClient();
+
+  // Unpaid payments of active bills that reached a reminder threshold not yet sent everywhere
+  async getDueReminders(
+    channelNames: string[],
+    today: Date = new Date()
+  ): Promise<PendingReminder[]> {
+    const horizon = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() + MAX_REMINDER_DAYS + 1
+    );
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        status: { in: ['PENDING', 'PARTIALLY_PAID', 'OVERDUE'] },
+        dueDate: { lt: horizon },
+        bill: { active: true },
+      },
+      include: { bill: true, transactions: true, reminders: true },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return payments.flatMap((payment) => {
+      const threshold = getReminderThreshold(payment.bill.reminderDays, payment.dueDate, today);
+      if (!threshold) {
+        return [];
+      }
+      const sent = payment.reminders
+        .filter((reminder) => reminder.threshold === threshold)
+        .map((reminder) => reminder.channel);
+      const channels = channelNames.filter((name) => !sent.includes(name));
+      if (channels.length === 0) {
+        return [];
+      }
+      return [
+        {
+          paymentId: payment.id,
+          bill: payment.bill.name,
+          billType: payment.bill.type,
+          outstanding: money(
+            getOutstandingAmount(payment.amount, payment.transactions),
+            payment.currency
+          ),
+          dueDate: payment.dueDate,
+          daysUntilDue: getDaysUntil(payment.dueDate, today),
+          threshold,
+          channels,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Sends every due reminder through the channels that have not sent it yet.
+   * Each send is recorded before it starts, so a reminder that another run
+   * is already sending is skipped, and the record is removed again when the
+   * channel fails so the next run retries it.
+   */
+  async sendReminders(
+    channels: ReminderChannel[],
+    today: Date = new Date(),
+    onResult?: (result: ReminderResult) => void
+  ): Promise<ReminderResult[]> {
+    const results: ReminderResult[] = [];
+    const due = await this.getDueReminders(channels.map((channel) => channel.name), today);
+
+    for (const { channels: pending, ...reminder } of due) {
+      const message = buildReminderMessage(reminder);
+      for (const channel of channels.filter((candidate) => pending.includes(candidate.name))) {
+        const record = await this.claim(reminder, channel.name);
+        if (!record) {
+          continue;
+        }
+
+        const result: ReminderResult = { reminder, channel: channel.name };
+        try {
+          await channel.send(message);
+        } catch (error) {
+          await this.prisma.reminder.delete({ where: { id: record.id } });
+          result.error = error instanceof Error ? error.message : String(error);
+        }
+        results.push(result);
+        onResult?.(result);
+      }
+    }
+
+    return results;
+  }
+
+  private async claim(reminder: DueReminder, channel: string): Promise<{ id: string } | null> {
+    try {
+      return await this.prisma.reminder.create({
+        data: { paymentId: reminder.paymentId, threshold: reminder.threshold, channel },
+        select: { id: true },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { getPrismaClient } from './database.js';
+import { PaymentService } from './paymentService.js';
+import { ReminderChannel } from './reminderChannels.js';
+import { ReminderService } from './reminderService.js';
+import { formatMonth } from '../utils/formatters.js';
+import { JobSchedule, TimeOfDay, getDueRuns, getNextRun } from '../utils/schedule.js';
+
+export interface ScheduledJob {
+  name: string;
+  schedule: JobSchedule;
+  // 'all' replays every missed run, 'latest' only the most recent one
+  catchUp: 'all' | 'latest';
+  // Returns a line for the daemon log
+  run: (scheduledAt: Date) => Promise<string>;
+}
+
+export interface JobRunResult {
+  job: string;
+  scheduledAt: Date;
+  message?: string;
+  error?: string;
+}
+
+export interface JobStatus {
+  name: string;
+  schedule: JobSchedule;
+  lastRunAt: Date | null;
+  lastError: string | null;
+  nextRunAt: Date;
+}
+
+// A failed job is retried on a later check, not on every one
+export const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+export class SchedulerService {
+  private prisma = getPrismaClient();
+  private jobs = new Map<string, ScheduledJob>();
+  private retryAt = new Map<string, number>();
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job "${job.name}" is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  getJobs(): ScheduledJob[] {
+    return [...this.jobs.values()];
+  }
+
+  async getStatus(now: Date = new Date()): Promise<JobStatus[]> {
+    const runs = await this.prisma.jobRun.findMany();
+    return this.getJobs().map((job) => {
+      const run = runs.find((candidate) => candidate.name === job.name);
+      const lastRunAt = run?.lastRunAt ?? null;
+      const dueRuns = getDueRuns(job.schedule, lastRunAt, now);
+      return {
+        name: job.name,
+        schedule: job.schedule,
+        lastRunAt,
+        lastError: run?.lastError ?? null,
+        nextRunAt: dueRuns.length > 0 ? now : getNextRun(job.schedule, now),
+      };
+    });
+  }
+
+  /**
+   * Runs every job with runs due since its last recorded one, in registration
+   * order. Each success is recorded before the next run starts, so a crash
+   * midway resumes where it stopped; a failure skips the job's later runs
+   * until the retry delay has passed.
+   */
+  async runDueJobs(
+    now: Date = new Date(),
+    onResult?: (result: JobRunResult) => void
+  ): Promise<JobRunResult[]> {
+    const results: JobRunResult[] = [];
+    const report = (result: JobRunResult): void => {
+      results.push(result);
+      onResult?.(result);
+    };
+
+    for (const job of this.jobs.values()) {
+      if ((this.retryAt.get(job.name) ?? 0) > now.getTime()) {
+        continue;
+      }
+
+      const record = await this.prisma.jobRun.findUnique({ where: { name: job.name } });
+      const dueRuns = getDueRuns(job.schedule, record?.lastRunAt ?? null, now);
+      const runs = job.catchUp === 'latest' ? dueRuns.slice(-1) : dueRuns;
+
+      for (const scheduledAt of runs) {
+        try {
+          const message = await job.run(scheduledAt);
+          await this.recordRun(job.name, { lastRunAt: scheduledAt, lastError: null });
+          this.retryAt.delete(job.name);
+          report({ job: job.name, scheduledAt, message });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await this.recordRun(job.name, { lastError: message });
+          this.retryAt.set(job.name, now.getTime() + RETRY_DELAY_MS);
+          report({ job: job.name, scheduledAt, error: message });
+          break;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async recordRun(
+    name: string,
+    data: { lastRunAt?: Date; lastError: string | null }
+  ): Promise<void> {
+    await this.prisma.jobRun.upsert({
+      where: { name },
+      create: { name, ...data },
+      update: data,
+    });
+  }
+}
+
+export interface DefaultJobOptions {
+  generateDay: number; // Day of the month when next month's payments are generated
+  time: TimeOfDay; // When every job runs
+  reminderChannels?: ReminderChannel[]; // Reminders are only sent when channels are given
+}
+
+// The jobs every daemon runs; other jobs can be registered next to them
+export const createDefaultJobs = (options: DefaultJobOptions): ScheduledJob[] => {
+  const paymentService = new PaymentService();
+  const jobs: ScheduledJob[] = [
+    {
+      name: 'generate-payments',
+      schedule: { kind: 'monthly', day: options.generateDay, ...options.time },
+      catchUp: 'all',
+      run: async (scheduledAt) => {
+        const month = new Date(scheduledAt.getFullYear(), scheduledAt.getMonth() + 1, 1);
+        const payments = await paymentService.generateMonthlyPayments(
+          month.getFullYear(),
+          month.getMonth() + 1
+        );
+        return `Generated ${payments.length} payment(s) for ${formatMonth(month)}`;
+      },
+    },
+    {
+      name: 'update-overdue',
+      schedule: { kind: 'daily', ...options.time },
+      catchUp: 'latest',
+      run: async () => {
+        const count = await paymentService.updateOverduePayments();
+        return `Marked ${count} payment(s) as overdue`;
+      },
+    },
+  ];
+
+  const channels = options.reminderChannels ?? [];
+  if (channels.length > 0) {
+    const reminderService = new ReminderService();
+    jobs.push({
+      name: 'send-reminders',
+      schedule: { kind: 'daily', ...options.time },
+      catchUp: 'latest',
+      run: async () => {
+        const results = await reminderService.sendReminders(channels);
+        const failed = results.filter((result) => result.error);
+        if (failed.length > 0) {
+          // Failing the run retries the failed sends; the sent ones are recorded
+          throw new Error(
+            `${failed.length} of ${results.length} reminder(s) failed: ` +
+              failed.map((result) => `${result.channel}: ${result.error}`).join('; ')
+          );
+        }
+        return `Sent ${results.length} reminder(s)`;
+      },
+    });
+  }
+  return jobs;
+};
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import net from 'net';
+import { hostname } from 'os';
+import tls from 'tls';
+import {
+  EmailMessage,
+  SmtpReply,
+  buildEmailData,
+  extractAddress,
+  takeSmtpReply,
+} from '../utils/smtp.js';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+// One SMTP session: replies are read in order as commands are sent
+class SmtpSession {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach();
+  }
+
+  private attach(): void {
+    this.socket.setEncoding('utf-8');
+    this.socket.setTimeout(TIMEOUT_MS, () =>
+      this.socket.destroy(new Error('SMTP server did not answer in time'))
+    );
+    this.socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      try {
+        for (let taken = takeSmtpReply(this.buffer); taken; taken = takeSmtpReply(this.buffer)) {
+          this.buffer = taken.rest;
+          this.replies.push(taken.reply);
+        }
+      } catch (error) {
+        this.socket.destroy(error as Error);
+        return;
+      }
+      this.deliver();
+    });
+    this.socket.on('error', (error) => this.fail(error));
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private deliver(): void {
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  async read(expected: number[]): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      if (this.replies.length > 0) {
+        resolve(this.replies.shift()!);
+      } else if (this.failure) {
+        reject(this.failure);
+      } else {
+        this.waiting = { resolve, reject };
+      }
+    });
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP server answered ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach();
+  }
+
+  get isSecure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+export class SmtpClient {
+  constructor(private config: SmtpConfig) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.config;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: Omit<EmailMessage, 'date' | 'messageId'>): Promise<void> {
+    const session = new SmtpSession(await this.connect());
+    try {
+      await session.read([220]);
+      const hello = await session.command(`EHLO ${hostname()}`, [250]);
+
+      const extensions = hello.lines.map((line) => line.toUpperCase());
+      if (!session.isSecure && extensions.includes('STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        await session.startTls(this.config.host);
+        await session.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (this.config.user) {
+        if (!session.isSecure) {
+          throw new Error('SMTP server offers no TLS, refusing to send the password in clear text');
+        }
+        const credentials = `\u0000${this.config.user}\u0000${this.config.password ?? ''}`;
+        await session.command(`AUTH PLAIN ${Buffer.from(credentials).toString('base64')}`, [235]);
+      }
+
+      const from = extractAddress(message.from);
+      await session.command(`MAIL FROM:<${from}>`, [250]);
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await session.command('DATA', [354]);
+      const data = buildEmailData({
+        ...message,
+        date: new Date(),
+        messageId: `${randomUUID()}@${from.split('@')[1]}`,
+      });
+      await session.command(data, [250]);
+      await session.command('QUIT', [221]);
+    } finally {
+      session.close();
+    }
+  }
+}
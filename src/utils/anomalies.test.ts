@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ANOMALY_THRESHOLDS,
+  describeAnomaly,
+  detectAnomaly,
+  getAnomalyWindowStart,
+  median,
+  parseAnomalyThresholds,
+} from "./anomalies.js";
+import { money } from "./money.js";
+
+const history = (...amounts: number[]) =>
+  amounts.map((amount, index) => ({ amount, dueDate: new Date(2026, index, 10) }));
+
+const water = { percent: 40, deviations: 3 };
+
+describe("median", () => {
+  it("should take the middle value, or the mean of the two middle ones", () => {
+    expect(median([30, 10, 20])).toBe(20);
+    expect(median([40, 10, 30, 20])).toBe(25);
+  });
+});
+
+describe("parseAnomalyThresholds", () => {
+  it("should keep the defaults without overrides", () => {
+    expect(parseAnomalyThresholds("")).toEqual(DEFAULT_ANOMALY_THRESHOLDS);
+  });
+
+  it("should override the percentage and optionally the deviations", () => {
+    const thresholds = parseAnomalyThresholds("water=30, GAS=60/2.5");
+    expect(thresholds.WATER).toEqual({ percent: 30, deviations: 3 });
+    expect(thresholds.GAS).toEqual({ percent: 60, deviations: 2.5 });
+    expect(thresholds.RENT).toEqual(DEFAULT_ANOMALY_THRESHOLDS.RENT);
+  });
+
+  it("should reject unknown bill types and invalid numbers", () => {
+    expect(() => parseAnomalyThresholds("POOL=30")).toThrow('Unknown bill type "POOL"');
+    expect(() => parseAnomalyThresholds("WATER")).toThrow('Invalid anomaly threshold "WATER"');
+    expect(() => parseAnomalyThresholds("WATER=-5")).toThrow("Invalid anomaly threshold");
+    expect(() => parseAnomalyThresholds("WATER=30/x")).toThrow("Invalid anomaly threshold");
+  });
+});
+
+describe("getAnomalyWindowStart", () => {
+  it("should go back six months", () => {
+    expect(getAnomalyWindowStart(new Date(2026, 2, 15))).toEqual(new Date(2025, 8, 15));
+  });
+});
+
+describe("detectAnomaly", () => {
+  const usual = history(40000, 42000, 38000, 41000, 39000, 40000);
+
+  it("should flag an amount far from the median", () => {
+    const anomaly = detectAnomaly(money(74000), usual, water);
+    expect(anomaly).toMatchObject({
+      median: money(40000),
+      change: money(34000),
+      percentageChange: 85,
+      historySize: 6,
+    });
+    expect(anomaly?.deviations).toBeGreaterThan(3);
+  });
+
+  it("should flag drops as well as increases", () => {
+    expect(detectAnomaly(money(10000), usual, water)?.percentageChange).toBe(-75);
+  });
+
+  it("should leave usual amounts alone", () => {
+    expect(detectAnomaly(money(45000), usual, water)).toBeNull();
+  });
+
+  it("should not flag bills that always vary that much", () => {
+    const varying = history(20000, 60000, 25000, 70000, 30000, 65000);
+    expect(detectAnomaly(money(90000), varying, water)).toBeNull();
+  });
+
+  it("should flag any large change of an amount that never changed", () => {
+    const fixed = history(1000000, 1000000, 1000000);
+    const anomaly = detectAnomaly(money(1200000), fixed, DEFAULT_ANOMALY_THRESHOLDS.RENT);
+    expect(anomaly?.deviations).toBeNull();
+    expect(detectAnomaly(money(1050000), fixed, DEFAULT_ANOMALY_THRESHOLDS.RENT)).toBeNull();
+  });
+
+  it("should need a few amounts of history", () => {
+    expect(detectAnomaly(money(90000), history(40000, 40000), water)).toBeNull();
+  });
+});
+
+describe("describeAnomaly", () => {
+  it("should explain the change against the median", () => {
+    const anomaly = detectAnomaly(money(74000), history(40000, 40000, 40000), water)!;
+    expect(describeAnomaly(anomaly)).toMatch(/^\+85,0% vs 6-month median \(\$\s40\.000\)$/);
+  });
+});
@@ -0,0 +1,139 @@
+import { BillType } from '@prisma/client';
+import { PaidHistoryEntry } from './estimation.js';
+import { formatCurrency, formatPercentage } from './formatters.js';
+import { Money, money, roundMinorUnits } from './money.js';
+
+// Unusual payment amounts compared with the recent history of their bill
+
+export const ANOMALY_WINDOW_MONTHS = 6;
+export const MIN_ANOMALY_HISTORY = 3; // Fewer amounts than this are not a history
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+/**
+ * An amount is unusual when it differs from the median by at least `percent`
+ * and by at least `deviations` robust standard deviations. The second check
+ * keeps bills that always vary a lot from being flagged every month.
+ */
+export interface AnomalyThreshold {
+  percent: number;
+  deviations: number;
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: Record<BillType, AnomalyThreshold> = {
+  RENT: { percent: 10, deviations: 3 },
+  ELECTRICITY: { percent: 40, deviations: 3 },
+  WATER: { percent: 40, deviations: 3 },
+  GAS: { percent: 50, deviations: 3 },
+  INTERNET: { percent: 20, deviations: 3 },
+  PHONE: { percent: 30, deviations: 3 },
+  OTHER: { percent: 50, deviations: 3 },
+};
+
+export interface AmountAnomaly {
+  amount: Money;
+  median: Money; // Of the bill's amounts in the window, in the same currency
+  change: Money;
+  percentageChange: number;
+  deviations: number | null; // Null when every amount in the history was the same
+  historySize: number;
+}
+
+const parseThresholdNumber = (value: string, entry: string): number => {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number <= 0) {
+    throw new Error(
+      `Invalid anomaly threshold "${entry}", use TYPE=percent or TYPE=percent/deviations`
+    );
+  }
+  return number;
+};
+
+/**
+ * "WATER=30, GAS=60/2.5" overrides the percentage, and optionally the
+ * deviations, of the given bill types; the others keep their defaults.
+ */
+export const parseAnomalyThresholds = (value: string): Record<BillType, AnomalyThreshold> => {
+  const thresholds = { ...DEFAULT_ANOMALY_THRESHOLDS };
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .forEach((entry) => {
+      const [type, setting = ''] = entry.split('=').map((part) => part.trim());
+      const billType = type.toUpperCase();
+      if (!Object.values(BillType).includes(billType as BillType)) {
+        throw new Error(`Unknown bill type "${type}" in anomaly thresholds`);
+      }
+      const [percent, deviations] = setting.split('/');
+      const current = thresholds[billType as BillType];
+      thresholds[billType as BillType] = {
+        percent: parseThresholdNumber(percent, entry),
+        deviations:
+          deviations !== undefined ? parseThresholdNumber(deviations, entry) : current.deviations,
+      };
+    });
+  return thresholds;
+};
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// History starts this many months before the due date
+export const getAnomalyWindowStart = (dueDate: Date): Date =>
+  new Date(dueDate.getFullYear(), dueDate.getMonth() - ANOMALY_WINDOW_MONTHS, dueDate.getDate());
+
+/**
+ * Compares an amount with the history of its bill, which should only hold
+ * confirmed amounts in the same currency due within the window before it.
+ * Returns null for usual amounts and for bills without enough history.
+ */
+export const detectAnomaly = (
+  amount: Money,
+  history: PaidHistoryEntry[],
+  threshold: AnomalyThreshold
+): AmountAnomaly | null => {
+  if (history.length < MIN_ANOMALY_HISTORY) {
+    return null;
+  }
+
+  const amounts = history.map((entry) => entry.amount);
+  const middle = median(amounts);
+  if (middle <= 0) {
+    return null;
+  }
+  const difference = amount.amount - middle;
+  const spread = median(amounts.map((value) => Math.abs(value - middle))) * MAD_SCALE;
+  const percentageChange = (difference / middle) * 100;
+  const deviations = spread > 0 ? Math.abs(difference) / spread : null;
+
+  const isUnusual =
+    Math.abs(percentageChange) >= threshold.percent &&
+    (deviations === null || deviations >= threshold.deviations);
+  if (!isUnusual) {
+    return null;
+  }
+
+  const medianAmount = roundMinorUnits(middle, amount.currency);
+  return {
+    amount,
+    median: money(medianAmount, amount.currency),
+    change: money(amount.amount - medianAmount, amount.currency),
+    percentageChange,
+    deviations,
+    historySize: history.length,
+  };
+};
+
+// "+85,0% vs 6-month median ($ 40.000)"
+export const describeAnomaly = (anomaly: AmountAnomaly): string => {
+  const sign = anomaly.percentageChange > 0 ? '+' : '';
+  return (
+    `${sign}${formatPercentage(anomaly.percentageChange)} vs ${ANOMALY_WINDOW_MONTHS}-month ` +
+    `median (${formatCurrency(anomaly.median)})`
+  );
+};
@@ -0,0 +1,253 @@
+import { describe, it, expect } from "vitest";
+import {
+  ApiError,
+  decodePathParams,
+  getDashboardHosts,
+  getFeedToken,
+  isAllowedHost,
+  isValidDashboardKey,
+  isValidFeedToken,
+  isValidToken,
+  paginate,
+  parseComparisonQuery,
+  parseCreateBillBody,
+  parseMonthQuery,
+  parsePaging,
+  parseTransactionBody,
+  parseUpdateBillBody,
+  parseUpdatePaymentBody,
+  toErrorBody,
+} from "./api.js";
+
+const query = (value: string) => new URLSearchParams(value);
+
+const captureError = (action: () => unknown): ApiError => {
+  try {
+    action();
+  } catch (error) {
+    return error as ApiError;
+  }
+  throw new Error("Expected an ApiError");
+};
+
+describe("isValidToken", () => {
+  it("should accept the bearer token only", () => {
+    expect(isValidToken("secret", "Bearer secret")).toBe(true);
+    expect(isValidToken("secret", "bearer  secret ")).toBe(true);
+    expect(isValidToken("secret", "Bearer secret2")).toBe(false);
+    expect(isValidToken("secret", "secret")).toBe(false);
+    expect(isValidToken("secret", undefined)).toBe(false);
+  });
+});
+
+describe("feed tokens", () => {
+  it("should derive a stable token that differs from the API token", () => {
+    expect(getFeedToken("secret")).toBe(getFeedToken("secret"));
+    expect(getFeedToken("secret")).not.toBe(getFeedToken("other"));
+    expect(getFeedToken("secret")).not.toContain("secret");
+  });
+
+  it("should accept the feed token only", () => {
+    expect(isValidFeedToken("secret", getFeedToken("secret"))).toBe(true);
+    expect(isValidFeedToken("secret", "secret")).toBe(false);
+    expect(isValidFeedToken("secret", null)).toBe(false);
+  });
+});
+
+describe("dashboard access", () => {
+  it("should need the key of the printed URL", () => {
+    expect(isValidDashboardKey("k1", "k1")).toBe(true);
+    expect(isValidDashboardKey("k1", "k2")).toBe(false);
+    expect(isValidDashboardKey("k1", null)).toBe(false);
+  });
+
+  it("should answer localhost and the listening address only", () => {
+    const hosts = getDashboardHosts("127.0.0.1", ["192.168.1.20"]);
+    expect(isAllowedHost("localhost:3001", hosts)).toBe(true);
+    expect(isAllowedHost("[::1]:3001", hosts)).toBe(true);
+    expect(isAllowedHost("127.0.0.1", hosts)).toBe(true);
+    expect(isAllowedHost("192.168.1.20:3001", hosts)).toBe(false);
+    expect(isAllowedHost("attacker.example:3001", hosts)).toBe(false);
+    expect(isAllowedHost(undefined, hosts)).toBe(false);
+  });
+
+  it("should answer every address of the machine on all interfaces", () => {
+    const hosts = getDashboardHosts("0.0.0.0", ["127.0.0.1", "192.168.1.20", "fe80::1"]);
+    expect(isAllowedHost("192.168.1.20:3001", hosts)).toBe(true);
+    expect(isAllowedHost("[FE80::1]:3001", hosts)).toBe(true);
+    expect(isAllowedHost("house.example:3001", hosts)).toBe(false);
+  });
+});
+
+describe("decodePathParams", () => {
+  it("should decode escapes and reject malformed ones with a 400", () => {
+    expect(decodePathParams(["Agua%20y%20luz"])).toEqual(["Agua y luz"]);
+    const error = captureError(() => decodePathParams(["%E0%A4%A"]));
+    expect(error.status).toBe(400);
+    expect(error.code).toBe("invalid_path");
+  });
+});
+
+describe("paging", () => {
+  it("should default to the first page", () => {
+    expect(parsePaging(query(""))).toEqual({ limit: 50, offset: 0 });
+  });
+
+  it("should reject limits outside 1 to 200", () => {
+    expect(() => parsePaging(query("limit=500"))).toThrow(/between 1 and 200/);
+    expect(() => parsePaging(query("offset=-1"))).toThrow(/offset/);
+    expect(() => parsePaging(query("limit="))).toThrow(/limit/);
+  });
+
+  it("should slice the items and report the total", () => {
+    expect(paginate([1, 2, 3, 4, 5], { limit: 2, offset: 3 })).toEqual({
+      data: [4, 5],
+      paging: { limit: 2, offset: 3, total: 5 },
+    });
+  });
+});
+
+describe("parseMonthQuery", () => {
+  it("should default to the current month", () => {
+    expect(parseMonthQuery(query(""), new Date(2026, 9, 19))).toEqual({ year: 2026, month: 10 });
+  });
+
+  it("should reject months outside YYYY-MM", () => {
+    const error = captureError(() => parseMonthQuery(query("month=2026-13")));
+    expect(error.status).toBe(400);
+    expect(error.code).toBe("invalid_query");
+  });
+});
+
+describe("parseComparisonQuery", () => {
+  it("should default to three consecutive months", () => {
+    expect(parseComparisonQuery(query(""))).toEqual({ periods: 3, mode: "months" });
+    expect(parseComparisonQuery(query("months=6&mode=year-over-year"))).toEqual({
+      periods: 6,
+      mode: "year-over-year",
+    });
+  });
+
+  it("should reject unknown modes and period counts out of range", () => {
+    expect(captureError(() => parseComparisonQuery(query("mode=weeks"))).status).toBe(400);
+    expect(() => parseComparisonQuery(query("months=1"))).toThrow(/between 2 and 24/);
+    expect(() => parseComparisonQuery(query("months=25"))).toThrow(/between 2 and 24/);
+  });
+});
+
+describe("parseCreateBillBody", () => {
+  it("should apply the bill defaults", () => {
+    expect(
+      parseCreateBillBody({
+        name: " Rent ",
+        type: "RENT",
+        amount: { amount: 1500000, currency: "cop" },
+        dueDay: 5,
+      })
+    ).toMatchObject({
+      name: "Rent",
+      type: "RENT",
+      amount: { amount: 1500000, currency: "COP" },
+      dueDay: 5,
+      dueDayRule: "DAY_OF_MONTH",
+      frequency: "MONTHLY",
+      monthOfYear: undefined,
+    });
+  });
+
+  it("should take the due day of weekly bills from the anchor date", () => {
+    const bill = parseCreateBillBody({
+      name: "Cleaning",
+      type: "OTHER",
+      amount: { amount: 80000, currency: "COP" },
+      frequency: "WEEKLY",
+      anchorDate: "2026-10-07",
+    });
+    expect(bill.dueDay).toBe(7);
+    expect(bill.anchorDate).toEqual(new Date(2026, 9, 7));
+  });
+
+  it("should list every invalid field", () => {
+    const error = captureError(() =>
+      parseCreateBillBody({ name: "Rent", type: "HOUSE", amount: { amount: 12.5, currency: "USD" } })
+    );
+    expect(toErrorBody(error)).toEqual({
+      error: {
+        code: "validation_failed",
+        message: "Request body is invalid",
+        details: [
+          { field: "type", message: "must be one of RENT, ELECTRICITY, WATER, GAS, INTERNET, PHONE, OTHER" },
+          { field: "amount", message: "must be { amount, currency } with a whole amount greater than 0" },
+          { field: "dueDay", message: "is required" },
+        ],
+      },
+    });
+  });
+
+  it("should reject bodies that are not objects", () => {
+    expect(captureError(() => parseCreateBillBody([])).details?.[0]).toEqual({
+      field: "",
+      message: "Body must be a JSON object",
+    });
+  });
+});
+
+describe("parseUpdateBillBody", () => {
+  it("should keep only the given fields and clear nulls", () => {
+    expect(parseUpdateBillBody({ active: false, anchorDate: null })).toEqual({
+      active: false,
+      anchorDate: null,
+    });
+  });
+
+  it("should reject empty updates", () => {
+    expect(() => parseUpdateBillBody({})).toThrow("Request body has no fields to update");
+  });
+
+  it("should sort reminder days and reject invalid ones", () => {
+    expect(parseUpdateBillBody({ reminderDays: [1, 7, 1] })).toEqual({ reminderDays: [7, 1] });
+    expect(parseUpdateBillBody({ reminderDays: [] })).toEqual({ reminderDays: [] });
+    expect(captureError(() => parseUpdateBillBody({ reminderDays: [90] })).details).toEqual([
+      { field: "reminderDays", message: "must be a list of whole numbers between 0 and 60" },
+    ]);
+  });
+});
+
+describe("parseUpdatePaymentBody", () => {
+  it("should accept pending and overdue", () => {
+    expect(parseUpdatePaymentBody({ status: "OVERDUE" })).toEqual({ status: "OVERDUE" });
+  });
+
+  it("should point paid statuses to the transaction endpoints", () => {
+    const error = captureError(() => parseUpdatePaymentBody({ status: "PAID" }));
+    expect(error.status).toBe(400);
+    expect(error.details).toEqual([
+      {
+        field: "status",
+        message:
+          "must be PENDING or OVERDUE; record payments with POST /api/payments/{id}/transactions " +
+          "or POST /api/payments/{id}/mark-paid",
+      },
+    ]);
+    expect(() => parseUpdatePaymentBody({ status: "PARTIALLY_PAID" })).toThrow(ApiError);
+  });
+});
+
+describe("parseTransactionBody", () => {
+  it("should default the date to today", () => {
+    const today = new Date(2026, 9, 19);
+    expect(parseTransactionBody({ amount: { amount: 5000, currency: "USD" }, method: "CARD" }, today)).toEqual({
+      amount: { amount: 5000, currency: "USD" },
+      date: today,
+      method: "CARD",
+      reference: undefined,
+      paidById: undefined,
+    });
+  });
+
+  it("should reject unsupported currencies", () => {
+    expect(
+      captureError(() => parseTransactionBody({ amount: { amount: 5000, currency: "GBP" } })).details
+    ).toEqual([{ field: "amount", message: 'Unsupported currency "GBP". Supported: COP, USD, EUR' }]);
+  });
+});
@@ -0,0 +1,452 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import {
+  BillType,
+  BusinessDayPolicy,
+  DueDayRule,
+  EstimationMode,
+  PaymentMethod,
+  PaymentStatus,
+  RecurrenceFrequency,
+} from '@prisma/client';
+import { CreateBillInput, UpdateBillInput } from '../services/billService.js';
+import {
+  ComparisonOptions,
+  CreatePaymentInput,
+  RecordTransactionInput,
+  UpdatePaymentInput,
+} from '../services/paymentService.js';
+import { parseDateKey } from './holidays.js';
+import { Money, getCurrencyRule } from './money.js';
+import { MAX_REMINDER_DAYS } from './reminders.js';
+import { DEFAULT_COMPARISON_PERIODS, MAX_COMPARISON_PERIODS } from './report.js';
+
+export interface ApiIssue {
+  field: string;
+  message: string;
+}
+
+// Every failed request answers with { error: { code, message, details? } }
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: ApiIssue[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const toErrorBody = (error: ApiError): Record<string, unknown> => ({
+  error: {
+    code: error.code,
+    message: error.message,
+    ...(error.details ? { details: error.details } : {}),
+  },
+});
+
+// Hashing first gives both buffers the same length, which timingSafeEqual needs
+const tokensMatch = (expected: string, given: string): boolean => {
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(expected), digest(given));
+};
+
+export const isValidToken = (expected: string, header: string | undefined): boolean => {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? tokensMatch(expected, match[1].trim()) : false;
+};
+
+/**
+ * Calendar apps cannot send headers, so the feed URL carries its own token.
+ * It is derived from the API token, so a leaked feed URL only exposes the
+ * read-only feed.
+ */
+export const getFeedToken = (apiToken: string): string =>
+  createHmac('sha256', apiToken).update('calendar-feed').digest('hex');
+
+export const isValidFeedToken = (apiToken: string, given: string | null): boolean =>
+  given !== null && tokensMatch(getFeedToken(apiToken), given);
+
+/**
+ * The dashboard page embeds its session token, so it is only served with the
+ * key of the URL the `dashboard` command prints, and only under host names
+ * that cannot be pointed at another site's page (DNS rebinding).
+ */
+export const isValidDashboardKey = (expected: string, given: string | null): boolean =>
+  given !== null && tokensMatch(expected, given);
+
+// localhost and the listening address; on all interfaces, every address of the machine
+export const getDashboardHosts = (boundHost: string, interfaceAddresses: string[]): string[] => {
+  const everyInterface = boundHost === '0.0.0.0' || boundHost === '::';
+  return ['localhost', '127.0.0.1', '::1', ...(everyInterface ? interfaceAddresses : [boundHost])]
+    .map((host) => host.toLowerCase());
+};
+
+// Host headers are "name", "name:port" or "[v6 address]:port"
+export const isAllowedHost = (header: string | undefined, allowed: string[]): boolean => {
+  const match = header?.trim().toLowerCase().match(/^(?:\[([^\]]+)\]|([^:]+))(?::\d+)?$/);
+  return match ? allowed.includes(match[1] ?? match[2]) : false;
+};
+
+// Path segments captured by a route; a malformed escape like %E0 is a bad request
+export const decodePathParams = (params: string[]): string[] =>
+  params.map((param) => {
+    try {
+      return decodeURIComponent(param);
+    } catch {
+      throw new ApiError(400, 'invalid_path', `Malformed escape in path segment "${param}"`);
+    }
+  });
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface Paging {
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> {
+  data: T[];
+  paging: Paging & { total: number };
+}
+
+const parseQueryInteger = (
+  query: URLSearchParams,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number
+): number => {
+  const value = query.get(name);
+  if (value === null) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isInteger(number) || number < min || number > max) {
+    throw new ApiError(
+      400,
+      'invalid_query',
+      `"${name}" must be a whole number between ${min} and ${max}`
+    );
+  }
+  return number;
+};
+
+export const parsePaging = (query: URLSearchParams): Paging => ({
+  limit: parseQueryInteger(query, 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+  offset: parseQueryInteger(query, 'offset', 0, 0, Number.MAX_SAFE_INTEGER),
+});
+
+export const paginate = <T>(items: T[], paging: Paging): Page<T> => ({
+  data: items.slice(paging.offset, paging.offset + paging.limit),
+  paging: { ...paging, total: items.length },
+});
+
+export const parseMonthQuery = (
+  query: URLSearchParams,
+  now: Date = new Date()
+): { year: number; month: number } => {
+  const value = query.get('month');
+  if (value === null) {
+    return { year: now.getFullYear(), month: now.getMonth() + 1 };
+  }
+  const match = value.match(/^(\d{4})-(\d{2})$/);
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new ApiError(400, 'invalid_query', '"month" must be YYYY-MM');
+  }
+  return { year: Number(match[1]), month };
+};
+
+// ?months=6 for six months, with &mode=year-over-year for six years of the same month
+export const parseComparisonQuery = (query: URLSearchParams): ComparisonOptions => {
+  const mode = query.get('mode') ?? 'months';
+  if (mode !== 'months' && mode !== 'year-over-year') {
+    throw new ApiError(400, 'invalid_query', '"mode" must be months or year-over-year');
+  }
+  return {
+    periods: parseQueryInteger(
+      query,
+      'months',
+      DEFAULT_COMPARISON_PERIODS,
+      2,
+      MAX_COMPARISON_PERIODS
+    ),
+    mode,
+  };
+};
+
+export const parseEnumQuery = <T extends string>(
+  query: URLSearchParams,
+  name: string,
+  allowed: Record<string, T>
+): T | undefined => {
+  const value = query.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  const normalized = value.toUpperCase() as T;
+  if (!Object.values(allowed).includes(normalized)) {
+    throw new ApiError(
+      400,
+      'invalid_query',
+      `"${name}" must be one of ${Object.values(allowed).join(', ')}`
+    );
+  }
+  return normalized;
+};
+
+/**
+ * Reads typed fields from a JSON body and collects every problem, so one
+ * response lists all invalid fields. Absent fields read as undefined unless
+ * required; call done() to throw the collected problems.
+ */
+const readBody = (body: unknown) => {
+  const issues: ApiIssue[] = [];
+  const values = (body && typeof body === 'object' && !Array.isArray(body) ? body : {}) as Record<
+    string,
+    unknown
+  >;
+  if (values !== body) {
+    issues.push({ field: '', message: 'Body must be a JSON object' });
+  }
+
+  const fail = (field: string, message: string): undefined => {
+    issues.push({ field, message });
+    return undefined;
+  };
+
+  const read = <T>(
+    field: string,
+    required: boolean,
+    parse: (value: unknown) => T | undefined
+  ): T | undefined => {
+    const value = values[field];
+    if (value === undefined || value === null) {
+      return required ? fail(field, 'is required') : undefined;
+    }
+    return parse(value);
+  };
+
+  return {
+    // Checks that span fields, or that the field readers cannot express
+    invalid: (field: string, message: string): void => {
+      fail(field, message);
+    },
+
+    // Optional fields sent as null are cleared
+    isNull: (field: string): boolean => values[field] === null,
+
+    string: (field: string, required = false): string | undefined =>
+      read(field, required, (value) =>
+        typeof value === 'string' && value.trim() !== ''
+          ? value.trim()
+          : fail(field, 'must be a non-empty string')
+      ),
+
+    integer: (field: string, min: number, max: number, required = false): number | undefined =>
+      read(field, required, (value) =>
+        Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+          ? (value as number)
+          : fail(field, `must be a whole number between ${min} and ${max}`)
+      ),
+
+    // Distinct whole numbers, largest first
+    integerList: (field: string, min: number, max: number): number[] | undefined =>
+      read(field, false, (value) =>
+        Array.isArray(value) &&
+        value.every((item) => Number.isInteger(item) && item >= min && item <= max)
+          ? [...new Set(value as number[])].sort((a, b) => b - a)
+          : fail(field, `must be a list of whole numbers between ${min} and ${max}`)
+      ),
+
+    boolean: (field: string): boolean | undefined =>
+      read(field, false, (value) =>
+        typeof value === 'boolean' ? value : fail(field, 'must be true or false')
+      ),
+
+    enumValue: <T extends string>(
+      field: string,
+      allowed: Record<string, T>,
+      required = false
+    ): T | undefined =>
+      read(field, required, (value) =>
+        Object.values(allowed).includes(value as T)
+          ? (value as T)
+          : fail(field, `must be one of ${Object.values(allowed).join(', ')}`)
+      ),
+
+    date: (field: string, required = false): Date | undefined =>
+      read(field, required, (value) =>
+        (typeof value === 'string' ? parseDateKey(value) : null) ??
+        fail(field, 'must be a date in YYYY-MM-DD format')
+      ),
+
+    // Money objects as in responses: { amount: minor units, currency }
+    money: (field: string, required = false): Money | undefined =>
+      read(field, required, (value) => {
+        const { amount, currency } = value as Partial<Money>;
+        if (!Number.isInteger(amount) || (amount as number) <= 0 || typeof currency !== 'string') {
+          return fail(field, 'must be { amount, currency } with a whole amount greater than 0');
+        }
+        try {
+          return { amount: amount as number, currency: getCurrencyRule(currency).code };
+        } catch (error) {
+          return fail(field, error instanceof Error ? error.message : String(error));
+        }
+      }),
+
+    done: (): void => {
+      if (issues.length > 0) {
+        throw new ApiError(400, 'validation_failed', 'Request body is invalid', issues);
+      }
+    },
+  };
+};
+
+// Same rules as the add bill prompts and the CSV import
+export const parseCreateBillBody = (body: unknown): CreateBillInput => {
+  const fields = readBody(body);
+  const name = fields.string('name', true);
+  const type = fields.enumValue('type', BillType, true);
+  const amount = fields.money('amount', true);
+  const frequency = fields.enumValue('frequency', RecurrenceFrequency) ?? 'MONTHLY';
+  const dueDayRule = fields.enumValue('dueDayRule', DueDayRule) ?? 'DAY_OF_MONTH';
+  const anchorDate = fields.date('anchorDate', frequency === 'WEEKLY');
+
+  let dueDay: number | undefined;
+  if (frequency === 'WEEKLY') {
+    dueDay = anchorDate?.getDate();
+  } else if (dueDayRule === 'LAST_DAY') {
+    dueDay = 31;
+  } else {
+    dueDay = fields.integer('dueDay', 1, dueDayRule === 'NTH_BUSINESS_DAY' ? 23 : 31, true);
+  }
+
+  const input = {
+    name,
+    type,
+    amount,
+    dueDay,
+    dueDayRule,
+    businessDayPolicy: fields.enumValue('businessDayPolicy', BusinessDayPolicy),
+    frequency,
+    interval: fields.integer('interval', 1, 120),
+    anchorDate,
+    monthOfYear:
+      frequency === 'YEARLY'
+        ? (fields.integer('monthOfYear', 1, 12) ?? (anchorDate ?? new Date()).getMonth() + 1)
+        : undefined,
+    estimationMode: fields.enumValue('estimationMode', EstimationMode),
+    estimationWindow: fields.integer('estimationWindow', 1, 24),
+    reminderDays: fields.integerList('reminderDays', 0, MAX_REMINDER_DAYS),
+    description: fields.string('description'),
+  };
+  fields.done();
+  return input as CreateBillInput;
+};
+
+// Only the given fields change; null clears the optional dates
+export const parseUpdateBillBody = (body: unknown): UpdateBillInput => {
+  const fields = readBody(body);
+  const input: UpdateBillInput = {
+    name: fields.string('name'),
+    type: fields.enumValue('type', BillType),
+    amount: fields.money('amount'),
+    dueDay: fields.integer('dueDay', 1, 31),
+    dueDayRule: fields.enumValue('dueDayRule', DueDayRule),
+    businessDayPolicy: fields.enumValue('businessDayPolicy', BusinessDayPolicy),
+    frequency: fields.enumValue('frequency', RecurrenceFrequency),
+    interval: fields.integer('interval', 1, 120),
+    anchorDate: fields.date('anchorDate'),
+    monthOfYear: fields.integer('monthOfYear', 1, 12),
+    estimationMode: fields.enumValue('estimationMode', EstimationMode),
+    estimationWindow: fields.integer('estimationWindow', 1, 24),
+    reminderDays: fields.integerList('reminderDays', 0, MAX_REMINDER_DAYS),
+    description: fields.string('description'),
+    active: fields.boolean('active'),
+  };
+  if (fields.isNull('anchorDate')) {
+    input.anchorDate = null;
+  }
+  if (fields.isNull('monthOfYear')) {
+    input.monthOfYear = null;
+  }
+  fields.done();
+
+  const changes = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as UpdateBillInput;
+  if (Object.keys(changes).length === 0) {
+    throw new ApiError(400, 'validation_failed', 'Request body has no fields to update');
+  }
+  return changes;
+};
+
+export const parseCreatePaymentBody = (body: unknown): CreatePaymentInput => {
+  const fields = readBody(body);
+  const input = {
+    billId: fields.string('billId', true),
+    amount: fields.money('amount', true),
+    dueDate: fields.date('dueDate', true),
+    notes: fields.string('notes'),
+    isEstimated: fields.boolean('isEstimated'),
+  };
+  fields.done();
+  return input as CreatePaymentInput;
+};
+
+// Paid and partially paid follow from the recorded transactions, so only these can be set
+const SETTABLE_PAYMENT_STATUSES: PaymentStatus[] = ['PENDING', 'OVERDUE'];
+
+export const parseUpdatePaymentBody = (body: unknown): UpdatePaymentInput => {
+  const fields = readBody(body);
+  const input: UpdatePaymentInput = {
+    amount: fields.money('amount'),
+    status: fields.enumValue('status', PaymentStatus),
+    paidDate: fields.date('paidDate'),
+    notes: fields.string('notes'),
+  };
+  if (input.status && !SETTABLE_PAYMENT_STATUSES.includes(input.status)) {
+    fields.invalid(
+      'status',
+      'must be PENDING or OVERDUE; record payments with POST /api/payments/{id}/transactions ' +
+        'or POST /api/payments/{id}/mark-paid'
+    );
+  }
+  fields.done();
+
+  const changes = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as UpdatePaymentInput;
+  if (Object.keys(changes).length === 0) {
+    throw new ApiError(400, 'validation_failed', 'Request body has no fields to update');
+  }
+  return changes;
+};
+
+// The date defaults to today, like the record transaction prompt
+export const parseTransactionBody = (
+  body: unknown,
+  today: Date = new Date()
+): RecordTransactionInput => {
+  const fields = readBody(body);
+  const input = {
+    amount: fields.money('amount', true),
+    date: fields.date('date') ?? today,
+    method: fields.enumValue('method', PaymentMethod),
+    reference: fields.string('reference'),
+    paidById: fields.string('paidById'),
+  };
+  fields.done();
+  return input as RecordTransactionInput;
+};
+
+export const parseMarkPaidBody = (body: unknown): { paidDate?: Date; paidById?: string } => {
+  const fields = readBody(body ?? {});
+  const input = { paidDate: fields.date('paidDate'), paidById: fields.string('paidById') };
+  fields.done();
+  return input;
+};
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import {
+  BackupData,
+  createBackupDocument,
+  serializeBackup,
+  parseBackup,
+  countBackupRecords,
+  toBackupRows,
+} from "./backup.js";
+
+const SCHEMA = "20261019170000_multi_currency";
+const created = new Date("2026-10-01T12:00:00.000Z");
+
+const data = (): BackupData => ({
+  members: [
+    { id: "m1", name: "Ana", joinedAt: created, leftAt: null, createdAt: created, updatedAt: created },
+  ],
+  bills: [
+    {
+      id: "b1",
+      name: "Rent",
+      type: "RENT",
+      amount: 1500000,
+      currency: "COP",
+      dueDay: 5,
+      dueDayRule: "DAY_OF_MONTH",
+      businessDayPolicy: "NONE",
+      frequency: "MONTHLY",
+      interval: 1,
+      anchorDate: null,
+      monthOfYear: null,
+      estimationMode: "FIXED",
+      estimationWindow: 3,
+      splitMode: "PERCENTAGE",
+      reminderDays: [5, 1],
+      description: "Flat, 2nd floor",
+      active: true,
+      createdAt: created,
+      updatedAt: created,
+      shares: [
+        { id: "s1", billId: "b1", memberId: "m1", percentage: 100, fixedAmount: null, excluded: false },
+      ],
+      matchRule: {
+        id: "r1",
+        billId: "b1",
+        keywords: ["arriendo", "123456789"],
+        amountTolerance: 0.1,
+        dateWindow: 10,
+        createdAt: created,
+        updatedAt: created,
+      },
+    },
+  ],
+  payments: [
+    {
+      id: "p1",
+      billId: "b1",
+      amount: 1500000,
+      currency: "COP",
+      status: "PAID",
+      dueDate: new Date("2026-10-05T05:00:00.000Z"),
+      paidDate: new Date("2026-10-04T05:00:00.000Z"),
+      notes: null,
+      isEstimated: false,
+      createdAt: created,
+      updatedAt: created,
+      transactions: [
+        {
+          id: "t1",
+          paymentId: "p1",
+          amount: 1500000,
+          date: new Date("2026-10-04T05:00:00.000Z"),
+          method: "BANK_TRANSFER",
+          reference: null,
+          paidById: "m1",
+          createdAt: created,
+          updatedAt: created,
+        },
+      ],
+      reminders: [
+        {
+          id: "n1",
+          paymentId: "p1",
+          threshold: "5d",
+          channel: "email",
+          sentAt: new Date("2026-09-30T11:00:00.000Z"),
+        },
+      ],
+    },
+  ],
+  settlements: [],
+  exchangeRates: [
+    {
+      id: "r1",
+      date: new Date("2026-10-01T05:00:00.000Z"),
+      baseCurrency: "USD",
+      quoteCurrency: "COP",
+      rate: 3950.25,
+      createdAt: created,
+      updatedAt: created,
+    },
+  ],
+  jobRuns: [
+    {
+      name: "send-reminders",
+      lastRunAt: new Date("2026-10-01T11:00:00.000Z"),
+      lastError: null,
+      updatedAt: created,
+    },
+  ],
+});
+
+const serialized = () => serializeBackup(createBackupDocument(data(), SCHEMA, created));
+
+describe("backup documents", () => {
+  it("should round trip with dates restored", () => {
+    const document = parseBackup(serialized(), SCHEMA);
+    expect(document.createdAt).toEqual(created);
+    expect(document.schemaVersion).toBe(SCHEMA);
+    expect(document.data).toEqual(data());
+  });
+
+  it("should use the same checksum for the same data", () => {
+    const first = createBackupDocument(data(), SCHEMA);
+    const second = createBackupDocument(data(), SCHEMA);
+    expect(first.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.checksum).toBe(second.checksum);
+  });
+
+  it("should reject modified files", () => {
+    const tampered = serialized().replace('"amount": 1500000', '"amount": 1');
+    expect(() => parseBackup(tampered, SCHEMA)).toThrow(/checksum/);
+  });
+
+  it("should reject other schema versions and formats", () => {
+    expect(() => parseBackup(serialized(), "20261019180000_next")).toThrow(/schema/);
+    expect(() => parseBackup('{"format":"other"}', SCHEMA)).toThrow(/not a house-duties backup/);
+    expect(() => parseBackup(serialized().replace('"version": 2', '"version": 1'), SCHEMA)).toThrow(
+      /Unsupported backup version 1/
+    );
+    expect(() => parseBackup("{", SCHEMA)).toThrow(/not valid JSON/);
+  });
+
+  it("should reject documents missing collections", () => {
+    const document = JSON.parse(serialized());
+    delete document.data.settlements;
+    expect(() => parseBackup(JSON.stringify(document), SCHEMA)).toThrow(/missing settlements/);
+  });
+
+  it("should count records including nested ones", () => {
+    expect(countBackupRecords(data())).toEqual({
+      members: 1,
+      bills: 1,
+      shares: 1,
+      matchRules: 1,
+      payments: 1,
+      transactions: 1,
+      reminders: 1,
+      settlements: 0,
+      exchangeRates: 1,
+      jobRuns: 1,
+    });
+  });
+
+  it("should restore sent reminders and job runs", () => {
+    const rows = toBackupRows(parseBackup(serialized(), SCHEMA).data);
+    expect(rows.reminders).toEqual(data().payments[0].reminders);
+    expect(rows.reminders[0].sentAt).toBeInstanceOf(Date);
+    expect(rows.jobRuns).toEqual(data().jobRuns);
+    expect(rows.payments[0]).not.toHaveProperty("reminders");
+    expect(rows.payments[0]).not.toHaveProperty("transactions");
+  });
+
+  it("should reject payments without their reminders", () => {
+    const document = JSON.parse(serialized());
+    delete document.data.payments[0].reminders;
+    expect(() => parseBackup(JSON.stringify(document), SCHEMA)).toThrow(/related records/);
+  });
+});
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import {
+  Bill,
+  BillMatchRule,
+  BillShare,
+  ExchangeRate,
+  JobRun,
+  Member,
+  Payment,
+  PaymentTransaction,
+  Reminder,
+  Settlement,
+} from '@prisma/client';
+
+export const BACKUP_FORMAT = 'house-duties-backup';
+export const BACKUP_VERSION = 2;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupData {
+  members: Member[];
+  bills: Array<Bill & { shares: BillShare[]; matchRule: BillMatchRule | null }>;
+  payments: Array<Payment & { transactions: PaymentTransaction[]; reminders: Reminder[] }>;
+  settlements: Settlement[];
+  exchangeRates: ExchangeRate[];
+  jobRuns: JobRun[]; // Keeps the daemon from catching up runs or resending reminders
+}
+
+// The backup flattened into the rows of each table, in an order that satisfies foreign keys
+export interface BackupRows {
+  members: Member[];
+  exchangeRates: ExchangeRate[];
+  bills: Bill[];
+  shares: BillShare[];
+  matchRules: BillMatchRule[];
+  payments: Payment[];
+  transactions: PaymentTransaction[];
+  reminders: Reminder[];
+  settlements: Settlement[];
+  jobRuns: JobRun[];
+}
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Layout of this document
+  schemaVersion: string; // Latest database migration when the backup was made
+  createdAt: Date;
+  checksum: string; // SHA-256 of the serialized data
+  data: BackupData;
+}
+
+const DATA_KEYS: Array<keyof BackupData> = [
+  'members',
+  'bills',
+  'payments',
+  'settlements',
+  'exchangeRates',
+  'jobRuns',
+];
+
+// Fields read back as dates, every other value keeps its JSON type
+const DATE_FIELDS = new Set([
+  'anchorDate',
+  'createdAt',
+  'date',
+  'dueDate',
+  'joinedAt',
+  'lastRunAt',
+  'leftAt',
+  'paidDate',
+  'sentAt',
+  'updatedAt',
+]);
+
+export const computeChecksum = (data: BackupData): string =>
+  createHash('sha256').update(JSON.stringify(data)).digest('hex');
+
+export const createBackupDocument = (
+  data: BackupData,
+  schemaVersion: string,
+  createdAt: Date = new Date()
+): BackupDocument => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion,
+  createdAt,
+  checksum: computeChecksum(data),
+  data,
+});
+
+export const serializeBackup = (document: BackupDocument): string =>
+  JSON.stringify(document, null, 2) + '\n';
+
+/**
+ * Parses and verifies a backup. Files from another schema version are
+ * rejected instead of migrated, and the checksum catches edited or
+ * truncated files before anything is written.
+ */
+export const parseBackup = (content: string, schemaVersion: string): BackupDocument => {
+  let document: BackupDocument;
+  try {
+    document = JSON.parse(content, (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Backup is not valid JSON: ${message}`);
+  }
+
+  if (!document || typeof document !== 'object' || document.format !== BACKUP_FORMAT) {
+    throw new Error('File is not a house-duties backup');
+  }
+  if (document.version !== BACKUP_VERSION) {
+    throw new Error(
+      `Unsupported backup version ${document.version}, expected ${BACKUP_VERSION}`
+    );
+  }
+  if (document.schemaVersion !== schemaVersion) {
+    throw new Error(
+      `Backup was made with schema ${document.schemaVersion}, the database is at ${schemaVersion}`
+    );
+  }
+
+  const data = document.data;
+  const missing = DATA_KEYS.filter((key) => !Array.isArray(data?.[key]));
+  if (missing.length > 0) {
+    throw new Error(`Backup is missing ${missing.join(', ')}`);
+  }
+  if (
+    !data.bills.every((bill) => Array.isArray(bill.shares) && bill.matchRule !== undefined) ||
+    !data.payments.every(
+      (payment) => Array.isArray(payment.transactions) && Array.isArray(payment.reminders)
+    )
+  ) {
+    throw new Error('Backup bills and payments must include their related records');
+  }
+  if (computeChecksum(data) !== document.checksum) {
+    throw new Error('Backup checksum does not match, the file was modified or is incomplete');
+  }
+
+  return document;
+};
+
+export const toBackupRows = (data: BackupData): BackupRows => ({
+  members: data.members,
+  exchangeRates: data.exchangeRates,
+  bills: data.bills.map(({ shares: _shares, matchRule: _matchRule, ...bill }) => bill),
+  shares: data.bills.flatMap((bill) => bill.shares),
+  matchRules: data.bills.flatMap((bill) => (bill.matchRule ? [bill.matchRule] : [])),
+  payments: data.payments.map(
+    ({ transactions: _transactions, reminders: _reminders, ...payment }) => payment
+  ),
+  transactions: data.payments.flatMap((payment) => payment.transactions),
+  reminders: data.payments.flatMap((payment) => payment.reminders),
+  settlements: data.settlements,
+  jobRuns: data.jobRuns,
+});
+
+export const countBackupRecords = (data: BackupData): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(toBackupRows(data)).map(([records, rows]) => [records, rows.length])
+  );
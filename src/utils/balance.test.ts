@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { PaymentStatus } from "@prisma/client";
+import {
+  getPaidAmount,
+  getOutstandingAmount,
+  getLastTransactionDate,
+  isOverdue,
+  resolvePaymentStatus,
+} from "./balance.js";
+
+const transaction = (amount: number, date: string) => ({
+  amount,
+  date: new Date(date),
+});
+
+describe("getPaidAmount", () => {
+  it("should return 0 when there are no transactions", () => {
+    expect(getPaidAmount([])).toBe(0);
+  });
+
+  it("should add up every transaction", () => {
+    const transactions = [
+      transaction(600000, "2024-03-01"),
+      transaction(400000, "2024-03-10"),
+    ];
+    expect(getPaidAmount(transactions)).toBe(1000000);
+  });
+});
+
+describe("getOutstandingAmount", () => {
+  it("should return the full amount when nothing was paid", () => {
+    expect(getOutstandingAmount(1500000, [])).toBe(1500000);
+  });
+
+  it("should subtract partial transactions", () => {
+    const transactions = [transaction(500000, "2024-03-01")];
+    expect(getOutstandingAmount(1500000, transactions)).toBe(1000000);
+  });
+
+  it("should never return a negative balance", () => {
+    const transactions = [transaction(2000, "2024-03-01")];
+    expect(getOutstandingAmount(1500, transactions)).toBe(0);
+  });
+
+  it("should settle exactly with minor unit amounts", () => {
+    // 0.10 + 0.20 USD in cents, which would leave a leftover as floats
+    const transactions = [
+      transaction(10, "2024-03-01"),
+      transaction(20, "2024-03-02"),
+    ];
+    expect(getOutstandingAmount(30, transactions)).toBe(0);
+    expect(getOutstandingAmount(31, transactions)).toBe(1);
+  });
+});
+
+describe("getLastTransactionDate", () => {
+  it("should return null without transactions", () => {
+    expect(getLastTransactionDate([])).toBeNull();
+  });
+
+  it("should return the most recent date regardless of order", () => {
+    const transactions = [
+      transaction(100, "2024-03-15"),
+      transaction(100, "2024-03-20"),
+      transaction(100, "2024-03-01"),
+    ];
+    expect(getLastTransactionDate(transactions)).toEqual(new Date("2024-03-20"));
+  });
+});
+
+describe("resolvePaymentStatus", () => {
+  const now = new Date("2024-03-15T12:00:00Z");
+
+  it("should be PAID when the transactions cover the amount", () => {
+    const transactions = [
+      transaction(700, "2024-03-01"),
+      transaction(300, "2024-03-05"),
+    ];
+    expect(resolvePaymentStatus(1000, transactions, new Date("2024-03-10"), now)).toBe("PAID");
+  });
+
+  it("should be PARTIALLY_PAID when some balance remains", () => {
+    const transactions = [transaction(300, "2024-03-01")];
+    expect(resolvePaymentStatus(1000, transactions, new Date("2024-03-20"), now)).toBe(
+      "PARTIALLY_PAID"
+    );
+  });
+
+  it("should be OVERDUE when some balance remains after the due date", () => {
+    const transactions = [transaction(300, "2024-03-01")];
+    expect(resolvePaymentStatus(1000, transactions, new Date("2024-03-10"), now)).toBe(
+      "OVERDUE"
+    );
+  });
+
+  it("should be PENDING without transactions before the due date", () => {
+    expect(resolvePaymentStatus(1000, [], new Date("2024-03-20"), now)).toBe("PENDING");
+  });
+
+  it("should be OVERDUE without transactions after the due date", () => {
+    expect(resolvePaymentStatus(1000, [], new Date("2024-03-10"), now)).toBe("OVERDUE");
+  });
+});
+
+describe("isOverdue", () => {
+  const now = new Date("2024-03-15T12:00:00Z");
+  const due = (status: PaymentStatus, dueDate: string) => ({ status, dueDate: new Date(dueDate) });
+
+  it("should count partially paid payments past their due date", () => {
+    expect(isOverdue(due("PARTIALLY_PAID", "2024-03-10"), now)).toBe(true);
+    expect(isOverdue(due("PARTIALLY_PAID", "2024-03-20"), now)).toBe(false);
+    expect(isOverdue(due("OVERDUE", "2024-03-10"), now)).toBe(true);
+  });
+
+  it("should leave pending payments to the overdue job", () => {
+    expect(isOverdue(due("PENDING", "2024-03-10"), now)).toBe(false);
+  });
+});
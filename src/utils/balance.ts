@@ -0,0 +1,50 @@
+import { Payment, PaymentStatus, PaymentTransaction } from '@prisma/client';
+
+// Amounts are integer minor units, so sums and differences are exact
+type TransactionLike = Pick<PaymentTransaction, 'amount' | 'date'>;
+
+export const getPaidAmount = (transactions: TransactionLike[]): number => {
+  return transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+};
+
+export const getOutstandingAmount = (
+  amount: number,
+  transactions: TransactionLike[]
+): number => {
+  return Math.max(amount - getPaidAmount(transactions), 0);
+};
+
+export const getLastTransactionDate = (transactions: TransactionLike[]): Date | null => {
+  if (transactions.length === 0) {
+    return null;
+  }
+
+  return transactions.reduce(
+    (latest, transaction) => (transaction.date > latest ? transaction.date : latest),
+    transactions[0].date
+  );
+};
+
+export const resolvePaymentStatus = (
+  amount: number,
+  transactions: TransactionLike[],
+  dueDate: Date,
+  now: Date = new Date()
+): PaymentStatus => {
+  const paid = getPaidAmount(transactions);
+
+  if (paid > 0 && getOutstandingAmount(amount, transactions) === 0) {
+    return 'PAID';
+  }
+  if (dueDate < now) {
+    return 'OVERDUE';
+  }
+  return paid > 0 ? 'PARTIALLY_PAID' : 'PENDING';
+};
+
+// A balance left after the due date is overdue, also when part of it was paid
+export const isOverdue = (
+  payment: Pick<Payment, 'status' | 'dueDate'>,
+  now: Date = new Date()
+): boolean =>
+  payment.status === 'OVERDUE' || (payment.status === 'PARTIALLY_PAID' && payment.dueDate < now);
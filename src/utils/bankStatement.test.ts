@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseStatementAmount,
+  parseStatementDate,
+  parseBankCsv,
+  parseOfx,
+  parseBankStatement,
+} from "./bankStatement.js";
+
+describe("parseStatementAmount", () => {
+  it("should read the common number formats", () => {
+    expect(parseStatementAmount("-150000")).toBe(-150000);
+    expect(parseStatementAmount("1.500.000,50")).toBe(1500000.5);
+    expect(parseStatementAmount("1,500,000.50")).toBe(1500000.5);
+    expect(parseStatementAmount("$ -85.000")).toBe(-85000);
+    expect(parseStatementAmount("(12,34)")).toBe(-12.34);
+    expect(parseStatementAmount("12.5")).toBe(12.5);
+  });
+
+  it("should return null without digits", () => {
+    expect(parseStatementAmount("")).toBeNull();
+    expect(parseStatementAmount("n/a")).toBeNull();
+  });
+});
+
+describe("parseStatementDate", () => {
+  it("should read ISO, compact and day-first dates", () => {
+    expect(parseStatementDate("2026-10-05")).toEqual(new Date(2026, 9, 5));
+    expect(parseStatementDate("20261005120000[-5:COT]")).toEqual(new Date(2026, 9, 5));
+    expect(parseStatementDate("5/10/2026")).toEqual(new Date(2026, 9, 5));
+  });
+
+  it("should reject invalid dates", () => {
+    expect(parseStatementDate("31/02/2026")).toBeNull();
+    expect(parseStatementDate("yesterday")).toBeNull();
+  });
+});
+
+describe("parseBankCsv", () => {
+  it("should keep debits of a signed amount column", () => {
+    const transactions = parseBankCsv(
+      "Fecha,Descripción,Valor,Referencia\n05/10/2026,PAGO PSE EPM 123456,-85.000,A1\n06/10/2026,NOMINA,3.000.000,A2\n",
+      "COP"
+    );
+    expect(transactions).toEqual([
+      {
+        line: 2,
+        date: new Date(2026, 9, 5),
+        amount: { amount: 85000, currency: "COP" },
+        description: "PAGO PSE EPM 123456",
+        reference: "A1",
+      },
+    ]);
+  });
+
+  it("should read semicolon files with a debit column", () => {
+    const transactions = parseBankCsv(
+      "Date;Details;Debit;Credit\n2026-10-01;Hosting;12,50;\n2026-10-02;Refund;;5,00\n",
+      "USD"
+    );
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0].amount).toEqual({ amount: 1250, currency: "USD" });
+    expect(transactions[0].reference).toBeUndefined();
+  });
+
+  it("should require the date, description and amount columns", () => {
+    expect(() => parseBankCsv("Date,Amount\n2026-10-01,-5\n", "COP")).toThrow(/description/);
+    expect(() => parseBankCsv("Date,Memo\n2026-10-01,x\n", "COP")).toThrow(/amount/);
+  });
+
+  it("should report the line of invalid dates", () => {
+    expect(() => parseBankCsv("Date,Memo,Amount\nsoon,x,-5\n", "COP")).toThrow(/Line 2/);
+  });
+});
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20261005
+<TRNAMT>-42.10
+<FITID>F100
+<NAME>CITY WATER
+<MEMO>Account 778899
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20261006
+<TRNAMT>100.00
+<FITID>F101
+<NAME>SALARY
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+describe("parseOfx", () => {
+  it("should read debits of SGML statements in the declared currency", () => {
+    expect(parseOfx(OFX, "COP")).toEqual([
+      {
+        line: 8,
+        date: new Date(2026, 9, 5),
+        amount: { amount: 4210, currency: "USD" },
+        description: "CITY WATER Account 778899",
+        reference: "F100",
+      },
+    ]);
+  });
+
+  it("should read XML statements", () => {
+    const xml =
+      "<OFX><BANKTRANLIST><STMTTRN><DTPOSTED>20261005</DTPOSTED><TRNAMT>-5000</TRNAMT>" +
+      "<FITID>X1</FITID><NAME>GAS</NAME></STMTTRN></BANKTRANLIST></OFX>";
+    const [transaction] = parseOfx(xml, "COP");
+    expect(transaction.amount).toEqual({ amount: 5000, currency: "COP" });
+    expect(transaction.description).toBe("GAS");
+    expect(transaction.reference).toBe("X1");
+  });
+});
+
+describe("parseBankStatement", () => {
+  it("should detect OFX by its content", () => {
+    expect(parseBankStatement(OFX, "COP")[0].reference).toBe("F100");
+    expect(parseBankStatement("Date,Memo,Amount\n2026-10-01,x,-5\n", "COP")).toHaveLength(1);
+  });
+});
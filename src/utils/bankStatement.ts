@@ -0,0 +1,189 @@
+import { parseCsvRows } from './csv.js';
+import { parseDateKey } from './holidays.js';
+import { CurrencyCode, Money, fromMajorUnits, getCurrencyRule } from './money.js';
+
+// A debit on the statement; credits are left out since bills are paid out
+export interface BankTransaction {
+  line: number; // Line in the file, for messages
+  date: Date;
+  amount: Money; // Positive amount that left the account
+  description: string;
+  reference?: string; // Bank id of the transaction (FITID in OFX)
+}
+
+// Accepted header names per field, compared without accents and case
+const CSV_HEADERS = {
+  date: ['date', 'fecha', 'posted date', 'transaction date', 'booking date', 'fecha transaccion'],
+  description: ['description', 'descripcion', 'details', 'memo', 'concepto', 'payee', 'detalle'],
+  amount: ['amount', 'valor', 'monto', 'importe'],
+  debit: ['debit', 'debito', 'withdrawal', 'cargo', 'retiro'],
+  reference: ['reference', 'referencia', 'ref', 'transaction id', 'id', 'documento'],
+};
+
+// Lowercase without accents, so "Débito" matches "debito"
+export const normalizeText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Parses amounts as banks print them: `-150000`, `1.500.000,00`,
+ * `1,500,000.00` or `(150,000)`. When only one separator is used, it is a
+ * thousands separator if exactly three digits follow it.
+ */
+export const parseStatementAmount = (value: string): number | null => {
+  let text = value.replace(/[^\d.,()-]/g, '');
+  const negative = text.includes('-') || /^\(.*\)$/.test(text);
+  text = text.replace(/[()-]/g, '');
+  if (!/\d/.test(text)) {
+    return null;
+  }
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  let decimalSeparator: string | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalSeparator = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = text.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    decimalSeparator = isThousands ? null : separator;
+  }
+
+  const [whole, fraction = ''] = decimalSeparator
+    ? [
+        text.slice(0, text.lastIndexOf(decimalSeparator)),
+        text.slice(text.lastIndexOf(decimalSeparator) + 1),
+      ]
+    : [text];
+  const amount = Number(`${whole.replace(/[.,]/g, '') || '0'}.${fraction || '0'}`);
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  return negative ? -amount : amount;
+};
+
+// YYYY-MM-DD, YYYYMMDD or DD/MM/YYYY (day first, as Colombian banks print it)
+export const parseStatementDate = (value: string): Date | null => {
+  const text = value.trim();
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) {
+    return parseDateKey(`${compact[1]}-${compact[2]}-${compact[3]}`);
+  }
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return parseDateKey(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`);
+  }
+  return parseDateKey(text.slice(0, 10));
+};
+
+const findColumn = (header: string[], names: string[]): number =>
+  header.findIndex((column) => names.includes(normalizeText(column)));
+
+/**
+ * Parses a bank CSV export. The layout is detected from the header: comma or
+ * semicolon separated, with a signed amount column or a debit column (credit
+ * columns are ignored).
+ */
+export const parseBankCsv = (content: string, currency: CurrencyCode): BankTransaction[] => {
+  const firstLine = content.split('\n', 1)[0];
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const [headerRow, ...rows] = parseCsvRows(content, delimiter);
+  if (!headerRow) {
+    throw new Error('Statement file is empty');
+  }
+
+  const header = headerRow.fields;
+  const columns = Object.fromEntries(
+    Object.entries(CSV_HEADERS).map(([field, names]) => [field, findColumn(header, names)])
+  ) as Record<keyof typeof CSV_HEADERS, number>;
+
+  if (columns.date === -1 || columns.description === -1) {
+    throw new Error('Statement CSV needs a date and a description column');
+  }
+  if (columns.amount === -1 && columns.debit === -1) {
+    throw new Error('Statement CSV needs an amount or a debit column');
+  }
+
+  const transactions: BankTransaction[] = [];
+  for (const { line, fields } of rows) {
+    const cell = (index: number): string => (index === -1 ? '' : (fields[index] ?? '').trim());
+
+    const date = parseStatementDate(cell(columns.date));
+    if (!date) {
+      throw new Error(`Line ${line}: invalid date "${cell(columns.date)}"`);
+    }
+
+    // Debits are negative in a signed amount column
+    let debit: number | null;
+    if (columns.amount !== -1) {
+      const amount = parseStatementAmount(cell(columns.amount));
+      debit = amount !== null && amount < 0 ? -amount : null;
+    } else {
+      const amount = parseStatementAmount(cell(columns.debit));
+      debit = amount !== null && amount !== 0 ? Math.abs(amount) : null;
+    }
+    if (debit === null) {
+      continue;
+    }
+
+    transactions.push({
+      line,
+      date,
+      amount: fromMajorUnits(debit, currency),
+      description: cell(columns.description),
+      reference: cell(columns.reference) || undefined,
+    });
+  }
+
+  return transactions;
+};
+
+// Value of an OFX tag; SGML files (OFX 1.x) do not close their tags
+const getOfxValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
+};
+
+export const parseOfx = (content: string, fallbackCurrency: CurrencyCode): BankTransaction[] => {
+  const currencyCode = getOfxValue(content, 'CURDEF');
+  const currency = currencyCode ? getCurrencyRule(currencyCode).code : fallbackCurrency;
+
+  const transactions: BankTransaction[] = [];
+  const blocks = content.matchAll(/<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi);
+  for (const match of blocks) {
+    const block = match[1];
+    const line = content.slice(0, match.index).split('\n').length;
+
+    const date = parseStatementDate(getOfxValue(block, 'DTPOSTED') ?? '');
+    const amount = parseStatementAmount(getOfxValue(block, 'TRNAMT') ?? '');
+    if (!date || amount === null) {
+      throw new Error(`Line ${line}: transaction without a valid DTPOSTED or TRNAMT`);
+    }
+    if (amount >= 0) {
+      continue;
+    }
+
+    const description = [getOfxValue(block, 'NAME'), getOfxValue(block, 'MEMO')]
+      .filter((value): value is string => !!value)
+      .join(' ');
+    transactions.push({
+      line,
+      date,
+      amount: fromMajorUnits(-amount, currency),
+      description,
+      reference: getOfxValue(block, 'FITID') ?? undefined,
+    });
+  }
+
+  return transactions;
+};
+
+// OFX files are recognized by their content, anything else is read as CSV
+export const parseBankStatement = (content: string, currency: CurrencyCode): BankTransaction[] => {
+  return /<OFX>/i.test(content) ? parseOfx(content, currency) : parseBankCsv(content, currency);
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  ASCII_SYMBOLS,
+  MAX_CHART_WIDTH,
+  MIN_CHART_WIDTH,
+  UNICODE_SYMBOLS,
+  getChartWidth,
+  renderBar,
+  renderSparkline,
+  splitStackedBar,
+  supportsUnicode,
+} from "./charts.js";
+
+describe("supportsUnicode", () => {
+  it("should need a UTF-8 locale", () => {
+    expect(supportsUnicode({ LANG: "es_CO.UTF-8" }, "linux")).toBe(true);
+    expect(supportsUnicode({ LC_ALL: "C.utf8", LANG: "C" }, "darwin")).toBe(true);
+    expect(supportsUnicode({ LANG: "C" }, "linux")).toBe(false);
+    expect(supportsUnicode({}, "linux")).toBe(false);
+  });
+
+  it("should fall back on the Linux console and old Windows consoles", () => {
+    expect(supportsUnicode({ LANG: "en_US.UTF-8", TERM: "linux" }, "linux")).toBe(false);
+    expect(supportsUnicode({}, "win32")).toBe(false);
+    expect(supportsUnicode({ WT_SESSION: "1" }, "win32")).toBe(true);
+  });
+});
+
+describe("getChartWidth", () => {
+  it("should fill the terminal within the chart limits", () => {
+    expect(getChartWidth(80, 30)).toBe(50);
+    expect(getChartWidth(200, 30)).toBe(MAX_CHART_WIDTH);
+    expect(getChartWidth(30, 30)).toBe(MIN_CHART_WIDTH);
+    expect(getChartWidth(undefined, 40)).toBe(40);
+  });
+});
+
+describe("renderBar", () => {
+  it("should scale the value to the width", () => {
+    expect(renderBar(50, 100, 10, ASCII_SYMBOLS)).toBe("#####");
+    expect(renderBar(100, 100, 10, ASCII_SYMBOLS)).toBe("#".repeat(10));
+    expect(renderBar(0, 100, 10, ASCII_SYMBOLS)).toBe("");
+  });
+
+  it("should draw partial cells with Unicode blocks", () => {
+    expect(renderBar(55, 100, 10, UNICODE_SYMBOLS)).toBe("█████▌");
+    expect(renderBar(55, 100, 10, ASCII_SYMBOLS)).toBe("######");
+  });
+});
+
+describe("renderSparkline", () => {
+  it("should scale values from zero to the largest one", () => {
+    expect(renderSparkline([0, 50, 100], UNICODE_SYMBOLS)).toBe("▁▅█");
+    expect(renderSparkline([0, 50, 100], ASCII_SYMBOLS)).toBe("_=#");
+  });
+
+  it("should draw the lowest level when every value is zero", () => {
+    expect(renderSparkline([0, 0], ASCII_SYMBOLS)).toBe("__");
+  });
+});
+
+describe("splitStackedBar", () => {
+  it("should split the cells in proportion to the parts", () => {
+    expect(splitStackedBar([60, 30, 10], 100, 10)).toEqual([6, 3, 1]);
+    expect(splitStackedBar([30, 10, 10], 100, 10)).toEqual([3, 1, 1]);
+  });
+
+  it("should hand out the cells lost to rounding by largest remainder", () => {
+    const sizes = splitStackedBar([1, 1, 1], 3, 10);
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBe(10);
+    expect(sizes).toEqual([4, 3, 3]);
+  });
+
+  it("should draw nothing without amounts", () => {
+    expect(splitStackedBar([0, 0, 0], 100, 10)).toEqual([0, 0, 0]);
+  });
+});
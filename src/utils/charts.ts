@@ -0,0 +1,97 @@
+// Text charts for the terminal: bars, sparklines and stacked bars
+
+export interface ChartSymbols {
+  bar: string; // Full cell of a bar
+  partials: string[]; // Eighths of a cell, smallest first; empty to round to whole cells
+  spark: string[]; // Sparkline levels, lowest first
+  stacked: string[]; // One per segment of a stacked bar
+}
+
+export const UNICODE_SYMBOLS: ChartSymbols = {
+  bar: '█',
+  partials: ['▏', '▎', '▍', '▌', '▋', '▊', '▉'],
+  spark: ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'],
+  stacked: ['█', '▓', '░'],
+};
+
+export const ASCII_SYMBOLS: ChartSymbols = {
+  bar: '#',
+  partials: [],
+  spark: ['_', '.', '-', '~', '=', '+', '*', '#'],
+  stacked: ['#', '=', '!'],
+};
+
+export const MIN_CHART_WIDTH = 10;
+export const MAX_CHART_WIDTH = 60;
+
+/**
+ * Block characters need a UTF-8 locale, and the Linux console and old
+ * Windows consoles do not draw them even then.
+ */
+export const supportsUnicode = (
+  env: NodeJS.ProcessEnv = process.env,
+  platform: string = process.platform
+): boolean => {
+  if (platform === 'win32') {
+    return Boolean(env.WT_SESSION || env.TERM_PROGRAM);
+  }
+  if (env.TERM === 'linux' || env.TERM === 'dumb') {
+    return false;
+  }
+  const locale = env.LC_ALL || env.LC_CTYPE || env.LANG || '';
+  return /utf-?8/i.test(locale);
+};
+
+// Width left for bars after the labels and values, between the chart limits
+export const getChartWidth = (columns: number | undefined, reserved: number): number =>
+  Math.min(MAX_CHART_WIDTH, Math.max(MIN_CHART_WIDTH, (columns ?? 80) - reserved));
+
+// A bar of `value` out of `max` in `width` cells, with partial cells when the symbols have them
+export const renderBar = (
+  value: number,
+  max: number,
+  width: number,
+  symbols: ChartSymbols
+): string => {
+  if (max <= 0 || value <= 0) {
+    return '';
+  }
+  const steps = symbols.partials.length + 1;
+  const units = Math.round((Math.min(value, max) / max) * width * steps);
+  const full = Math.floor(units / steps);
+  const rest = units % steps;
+  return symbols.bar.repeat(full) + (rest > 0 ? symbols.partials[rest - 1] : '');
+};
+
+// One character per value, scaled from zero to the largest value
+export const renderSparkline = (values: number[], symbols: ChartSymbols): string => {
+  const max = Math.max(0, ...values);
+  const top = symbols.spark.length - 1;
+  return values
+    .map((value) => symbols.spark[max > 0 ? Math.round((Math.max(value, 0) / max) * top) : 0])
+    .join('');
+};
+
+/**
+ * Splits a bar of `total / max * width` cells among the parts, giving the
+ * cells lost to rounding to the parts with the largest remainders. Returns
+ * the number of cells of each part.
+ */
+export const splitStackedBar = (parts: number[], max: number, width: number): number[] => {
+  const values = parts.map((part) => Math.max(part, 0));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (max <= 0 || total <= 0) {
+    return values.map(() => 0);
+  }
+
+  const cells = Math.round((Math.min(total, max) / max) * width);
+  const exact = values.map((value) => (value / total) * cells);
+  const sizes = exact.map(Math.floor);
+  const remaining = cells - sizes.reduce((sum, size) => sum + size, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, remaining)
+    .forEach(({ index }) => sizes[index]++);
+  return sizes;
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { parseCsvRows, parseCsv, toCsv } from "./csv.js";
+
+describe("parseCsvRows", () => {
+  it("should split rows and fields", () => {
+    expect(parseCsvRows("a,b\r\n1,2\n")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 2, fields: ["1", "2"] },
+    ]);
+  });
+
+  it("should handle quoted commas, quotes and line breaks", () => {
+    const rows = parseCsvRows('name,notes\n"Rent, flat","said ""hi""\nthen left"\nWater,ok\n');
+    expect(rows).toEqual([
+      { line: 1, fields: ["name", "notes"] },
+      { line: 2, fields: ["Rent, flat", 'said "hi"\nthen left'] },
+      { line: 4, fields: ["Water", "ok"] },
+    ]);
+  });
+
+  it("should skip blank lines and a byte order mark", () => {
+    expect(parseCsvRows("﻿a\n\n  \nb")).toEqual([
+      { line: 1, fields: ["a"] },
+      { line: 4, fields: ["b"] },
+    ]);
+  });
+
+  it("should reject unterminated quotes", () => {
+    expect(() => parseCsvRows('a\n"open')).toThrow(/Line 2/);
+  });
+});
+
+describe("parseCsv", () => {
+  it("should key trimmed values by the lowercase header", () => {
+    const { header, records } = parseCsv("Name, DueDay\n Rent ,5\nWater\n");
+    expect(header).toEqual(["name", "dueday"]);
+    expect(records).toEqual([
+      { line: 2, values: { name: "Rent", dueday: "5" } },
+      { line: 3, values: { name: "Water", dueday: "" } },
+    ]);
+  });
+
+  it("should reject empty files", () => {
+    expect(() => parseCsv("")).toThrow(/empty/);
+  });
+});
+
+describe("toCsv", () => {
+  it("should quote fields that need it", () => {
+    expect(toCsv(["name", "notes"], [["Rent, flat", 'a "b"\nc']])).toBe(
+      'name,notes\n"Rent, flat","a ""b""\nc"\n'
+    );
+  });
+
+  it("should round trip through parseCsv", () => {
+    const content = toCsv(["name", "notes"], [["Gas", "x,y"]]);
+    expect(parseCsv(content).records[0].values).toEqual({ name: "Gas", notes: "x,y" });
+  });
+});
@@ -0,0 +1,100 @@
+export interface CsvRecord {
+  line: number; // Line of the record in the file, for error messages
+  values: Record<string, string>;
+}
+
+/**
+ * Parses CSV text (RFC 4180): fields may be quoted, quoted fields may hold
+ * the delimiter, line breaks and doubled quotes. Blank lines are skipped. Each
+ * row keeps the line it starts on.
+ */
+export const parseCsvRows = (
+  content: string,
+  delimiter: string = ','
+): Array<{ line: number; fields: string[] }> => {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = (): void => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Line ${rowLine}: unterminated quoted field`);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Rows as records keyed by the lowercase header of the first row
+export const parseCsv = (content: string): { header: string[]; records: CsvRecord[] } => {
+  const [headerRow, ...rows] = parseCsvRows(content);
+  if (!headerRow) {
+    throw new Error('CSV file is empty');
+  }
+
+  const header = headerRow.fields.map((column) => column.trim().toLowerCase());
+  const records = rows.map((row) => ({
+    line: row.line,
+    values: Object.fromEntries(
+      header.map((column, index) => [column, (row.fields[index] ?? '').trim()])
+    ),
+  }));
+
+  return { header, records };
+};
+
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (header: string[], rows: string[][]): string => {
+  return [header, ...rows].map((row) => row.map(escapeField).join(',')).join('\n') + '\n';
+};
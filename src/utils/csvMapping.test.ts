@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { Bill } from "@prisma/client";
+import { parseCsv } from "./csv.js";
+import {
+  BILL_CSV_COLUMNS,
+  selectColumns,
+  formatCsv,
+  hasBillChanges,
+  parseBillRow,
+  parsePaymentRow,
+} from "./csvMapping.js";
+
+const row = (values: Record<string, string>) =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [key.toLowerCase(), value]));
+
+describe("selectColumns", () => {
+  it("should return every column by default", () => {
+    expect(selectColumns(BILL_CSV_COLUMNS)).toEqual(Object.keys(BILL_CSV_COLUMNS));
+  });
+
+  it("should match requested columns case-insensitively and keep their order", () => {
+    expect(selectColumns(BILL_CSV_COLUMNS, ["amount", " NAME", "dueday"])).toEqual([
+      "amount",
+      "name",
+      "dueDay",
+    ]);
+  });
+
+  it("should reject unknown columns", () => {
+    expect(() => selectColumns(BILL_CSV_COLUMNS, ["name", "color"])).toThrow(/color/);
+  });
+});
+
+describe("formatCsv", () => {
+  it("should write the selected columns", () => {
+    const columns = { name: (item: { name: string }) => item.name };
+    expect(formatCsv(columns, ["name"], [{ name: "Rent" }, { name: "Gas, house" }])).toBe(
+      'name\nRent\n"Gas, house"\n'
+    );
+  });
+});
+
+describe("parseBillRow", () => {
+  it("should apply defaults for empty optional cells", () => {
+    expect(parseBillRow(row({ name: "Rent", type: "rent", amount: "1500000", dueDay: "5" }))).toEqual({
+      name: "Rent",
+      type: "RENT",
+      amount: { amount: 1500000, currency: "COP" },
+      dueDay: 5,
+      dueDayRule: "DAY_OF_MONTH",
+      businessDayPolicy: undefined,
+      frequency: "MONTHLY",
+      interval: undefined,
+      anchorDate: undefined,
+      monthOfYear: undefined,
+      estimationMode: undefined,
+      estimationWindow: undefined,
+      description: undefined,
+    });
+  });
+
+  it("should convert major units with the currency exponent", () => {
+    const bill = parseBillRow(
+      row({ name: "Hosting", type: "OTHER", amount: "12.5", currency: "usd", dueDay: "1" })
+    );
+    expect(bill.amount).toEqual({ amount: 1250, currency: "USD" });
+  });
+
+  it("should take the due day of weekly bills from the anchor date", () => {
+    const bill = parseBillRow(
+      row({ name: "Cleaning", type: "OTHER", amount: "50000", frequency: "weekly", anchorDate: "2024-03-06" })
+    );
+    expect(bill.dueDay).toBe(6);
+    expect(bill.anchorDate).toEqual(new Date(2024, 2, 6));
+  });
+
+  it("should default the month of yearly bills to the anchor month", () => {
+    const bill = parseBillRow(
+      row({
+        name: "Insurance",
+        type: "OTHER",
+        amount: "900000",
+        dueDay: "10",
+        frequency: "YEARLY",
+        anchorDate: "2024-07-10",
+      })
+    );
+    expect(bill.monthOfYear).toBe(7);
+  });
+
+  it("should read reminder days, with none for no reminders", () => {
+    const base = { name: "Rent", type: "RENT", amount: "100", dueDay: "5" };
+    expect(parseBillRow(row({ ...base, reminderDays: "1 5" })).reminderDays).toEqual([5, 1]);
+    expect(parseBillRow(row({ ...base, reminderDays: "None" })).reminderDays).toEqual([]);
+    expect(() => parseBillRow(row({ ...base, reminderDays: "soon" }))).toThrow(
+      /"reminderDays" must be whole days between 0 and 60, or "none"/
+    );
+  });
+
+  it("should reject invalid values", () => {
+    const base = { name: "Rent", type: "RENT", amount: "100", dueDay: "5" };
+    expect(() => parseBillRow(row({ ...base, name: "" }))).toThrow('"name" is required');
+    expect(() => parseBillRow(row({ ...base, type: "FOOD" }))).toThrow(/"type" must be one of/);
+    expect(() => parseBillRow(row({ ...base, amount: "-3" }))).toThrow(/"amount"/);
+    expect(() => parseBillRow(row({ ...base, dueDay: "32" }))).toThrow(/"dueDay"/);
+    expect(() => parseBillRow(row({ ...base, dueDayRule: "NTH_BUSINESS_DAY", dueDay: "24" }))).toThrow(
+      /between 1 and 23/
+    );
+    expect(() => parseBillRow(row({ ...base, frequency: "WEEKLY" }))).toThrow(/anchorDate/);
+    expect(() => parseBillRow(row({ ...base, currency: "GBP" }))).toThrow(/Unsupported currency/);
+    expect(() => parseBillRow(row({ ...base, active: "maybe" }))).toThrow(
+      '"active" must be true or false'
+    );
+  });
+});
+
+describe("hasBillChanges", () => {
+  const created = new Date(2026, 0, 1);
+  const bill: Bill = {
+    id: "b1",
+    name: "Cleaning",
+    type: "OTHER",
+    amount: 6000,
+    currency: "USD",
+    dueDay: 14,
+    dueDayRule: "DAY_OF_MONTH",
+    businessDayPolicy: "NEXT_BUSINESS_DAY",
+    frequency: "WEEKLY",
+    interval: 2,
+    anchorDate: new Date(2026, 9, 14),
+    monthOfYear: null,
+    estimationMode: "AVERAGE",
+    estimationWindow: 4,
+    splitMode: "EQUAL",
+    reminderDays: [5, 1],
+    description: "Every other Wednesday",
+    active: true,
+    createdAt: created,
+    updatedAt: created,
+  };
+  const reimport = (bills: Bill[]) =>
+    parseCsv(formatCsv(BILL_CSV_COLUMNS, selectColumns(BILL_CSV_COLUMNS), bills)).records.map(
+      (record) => parseBillRow(record.values)
+    );
+
+  it("should report no changes for exported bills imported again", () => {
+    const monthly: Bill = { ...bill, frequency: "MONTHLY", anchorDate: null, reminderDays: [] };
+    const [weeklyRow, monthlyRow] = reimport([bill, monthly]);
+    expect(hasBillChanges(bill, weeklyRow)).toBe(false);
+    expect(hasBillChanges(monthly, monthlyRow)).toBe(false);
+  });
+
+  it("should compare reminder days item by item", () => {
+    const [row] = reimport([bill]);
+    expect(hasBillChanges({ ...bill, reminderDays: [7, 1] }, row)).toBe(true);
+    expect(hasBillChanges({ ...bill, reminderDays: [5] }, row)).toBe(true);
+  });
+
+  it("should keep inactive bills inactive", () => {
+    const inactive: Bill = { ...bill, active: false };
+    const [row] = reimport([inactive]);
+    expect(row.active).toBe(false);
+    expect(hasBillChanges(inactive, row)).toBe(false);
+    expect(hasBillChanges(bill, row)).toBe(true);
+  });
+});
+
+describe("parsePaymentRow", () => {
+  it("should parse a payment row", () => {
+    expect(
+      parsePaymentRow(
+        row({ bill: "Rent", amount: "1500000", dueDate: "2024-03-05", isEstimated: "yes", notes: "March" })
+      )
+    ).toEqual({
+      billName: "Rent",
+      amount: 1500000,
+      currency: undefined,
+      dueDate: new Date(2024, 2, 5),
+      notes: "March",
+      isEstimated: true,
+    });
+  });
+
+  it("should reject invalid dates and flags", () => {
+    const base = { bill: "Rent", amount: "10", dueDate: "2024-03-05" };
+    expect(() => parsePaymentRow(row({ ...base, dueDate: "2024-02-30" }))).toThrow(/YYYY-MM-DD/);
+    expect(() => parsePaymentRow(row({ ...base, isEstimated: "maybe" }))).toThrow(/true or false/);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  Bill,
+  BillType,
+  BusinessDayPolicy,
+  DueDayRule,
+  EstimationMode,
+  RecurrenceFrequency,
+} from '@prisma/client';
+import { CreateBillInput } from '../services/billService.js';
+import { PaymentWithBill } from '../services/paymentService.js';
+import { getOutstandingAmount, getPaidAmount } from './balance.js';
+import { toCsv } from './csv.js';
+import { parseDateKey, toDateKey } from './holidays.js';
+import { DEFAULT_CURRENCY, fromMajorUnits, getCurrencyRule, money, toMajorUnits } from './money.js';
+import { MAX_REMINDER_DAYS, parseReminderDays } from './reminders.js';
+
+// Column name to the cell value of a record; amounts are written in major units
+export type CsvColumns<T> = Record<string, (record: T) => string>;
+
+export interface PaymentCsvRow {
+  billName: string;
+  amount: number; // Major units of the bill currency
+  currency?: string;
+  dueDate: Date;
+  notes?: string;
+  isEstimated?: boolean;
+}
+
+const formatOptionalDate = (date: Date | null): string => (date ? toDateKey(date) : '');
+
+const formatAmount = (amount: number, currency: string): string =>
+  String(toMajorUnits(money(amount, currency)));
+
+export const BILL_CSV_COLUMNS: CsvColumns<Bill> = {
+  name: (bill) => bill.name,
+  type: (bill) => bill.type,
+  amount: (bill) => formatAmount(bill.amount, bill.currency),
+  currency: (bill) => bill.currency,
+  dueDay: (bill) => String(bill.dueDay),
+  dueDayRule: (bill) => bill.dueDayRule,
+  businessDayPolicy: (bill) => bill.businessDayPolicy,
+  frequency: (bill) => bill.frequency,
+  interval: (bill) => String(bill.interval),
+  anchorDate: (bill) => formatOptionalDate(bill.anchorDate),
+  monthOfYear: (bill) => (bill.monthOfYear ? String(bill.monthOfYear) : ''),
+  estimationMode: (bill) => bill.estimationMode,
+  estimationWindow: (bill) => String(bill.estimationWindow),
+  // An empty cell imports as the default lead times, so no reminders is written as "none"
+  reminderDays: (bill) => (bill.reminderDays.length > 0 ? bill.reminderDays.join(' ') : 'none'),
+  description: (bill) => bill.description ?? '',
+  active: (bill) => String(bill.active),
+};
+
+// status, paid, outstanding and paidDate are computed and ignored on import
+export const PAYMENT_CSV_COLUMNS: CsvColumns<PaymentWithBill> = {
+  bill: (payment) => payment.bill.name,
+  amount: (payment) => formatAmount(payment.amount, payment.currency),
+  currency: (payment) => payment.currency,
+  dueDate: (payment) => toDateKey(payment.dueDate),
+  status: (payment) => payment.status,
+  paid: (payment) => formatAmount(getPaidAmount(payment.transactions), payment.currency),
+  outstanding: (payment) =>
+    formatAmount(getOutstandingAmount(payment.amount, payment.transactions), payment.currency),
+  paidDate: (payment) => formatOptionalDate(payment.paidDate),
+  isEstimated: (payment) => String(payment.isEstimated),
+  notes: (payment) => payment.notes ?? '',
+};
+
+// Requested column names in order, or every column when none are requested
+export const selectColumns = <T>(columns: CsvColumns<T>, requested?: string[]): string[] => {
+  if (!requested || requested.length === 0) {
+    return Object.keys(columns);
+  }
+
+  const byLowerCase = new Map(Object.keys(columns).map((column) => [column.toLowerCase(), column]));
+  const unknown = requested.filter((column) => !byLowerCase.has(column.trim().toLowerCase()));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown column(s): ${unknown.join(', ')}. Available: ${Object.keys(columns).join(', ')}`
+    );
+  }
+  return requested.map((column) => byLowerCase.get(column.trim().toLowerCase())!);
+};
+
+export const formatCsv = <T>(columns: CsvColumns<T>, selected: string[], records: T[]): string => {
+  return toCsv(
+    selected,
+    records.map((record) => selected.map((column) => columns[column](record)))
+  );
+};
+
+// Parsed headers are lowercase, so cells are looked up case-insensitively
+const getCell = (values: Record<string, string>, column: string): string =>
+  values[column.toLowerCase()] ?? '';
+
+const requireValue = (values: Record<string, string>, column: string): string => {
+  const value = getCell(values, column);
+  if (value === '') {
+    throw new Error(`"${column}" is required`);
+  }
+  return value;
+};
+
+const parseEnum = <T extends string>(
+  value: string,
+  allowed: Record<string, T>,
+  column: string
+): T => {
+  const normalized = value.toUpperCase() as T;
+  if (!Object.values(allowed).includes(normalized)) {
+    throw new Error(`"${column}" must be one of ${Object.values(allowed).join(', ')}`);
+  }
+  return normalized;
+};
+
+const parseInteger = (value: string, column: string, min: number, max: number): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`"${column}" must be a whole number between ${min} and ${max}`);
+  }
+  return number;
+};
+
+const parseAmount = (value: string, column: string): number => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error(`"${column}" must be a number greater than 0`);
+  }
+  return amount;
+};
+
+const parseDate = (value: string, column: string): Date => {
+  const date = parseDateKey(value);
+  if (!date) {
+    throw new Error(`"${column}" must be a date in YYYY-MM-DD format`);
+  }
+  return date;
+};
+
+const parseReminderDayCell = (value: string): number[] => {
+  if (value.toLowerCase() === 'none') {
+    return [];
+  }
+  try {
+    return parseReminderDays(value);
+  } catch {
+    throw new Error(
+      `"reminderDays" must be whole days between 0 and ${MAX_REMINDER_DAYS}, or "none"`
+    );
+  }
+};
+
+const parseBoolean = (value: string, column: string): boolean => {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', '1'].includes(normalized)) {
+    return true;
+  }
+  if (['false', 'no', '0'].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`"${column}" must be true or false`);
+};
+
+/**
+ * Validates a bill row with the same rules as the add bill prompts. Empty
+ * optional cells take the bill defaults; unknown columns are ignored.
+ */
+export const parseBillRow = (values: Record<string, string>): CreateBillInput => {
+  const cell = (column: string): string => getCell(values, column);
+  const currency = getCurrencyRule(cell('currency') || DEFAULT_CURRENCY).code;
+  const frequency = cell('frequency')
+    ? parseEnum(cell('frequency'), RecurrenceFrequency, 'frequency')
+    : 'MONTHLY';
+  const dueDayRule = cell('dueDayRule')
+    ? parseEnum(cell('dueDayRule'), DueDayRule, 'dueDayRule')
+    : 'DAY_OF_MONTH';
+  const anchorDate = cell('anchorDate') ? parseDate(cell('anchorDate'), 'anchorDate') : undefined;
+
+  let dueDay: number;
+  if (frequency === 'WEEKLY') {
+    if (!anchorDate) {
+      throw new Error('Weekly bills need an "anchorDate"');
+    }
+    dueDay = anchorDate.getDate();
+  } else if (dueDayRule === 'LAST_DAY') {
+    dueDay = 31;
+  } else {
+    dueDay = parseInteger(
+      requireValue(values, 'dueDay'),
+      'dueDay',
+      1,
+      dueDayRule === 'NTH_BUSINESS_DAY' ? 23 : 31
+    );
+  }
+
+  return {
+    name: requireValue(values, 'name'),
+    type: parseEnum(requireValue(values, 'type'), BillType, 'type'),
+    amount: fromMajorUnits(parseAmount(requireValue(values, 'amount'), 'amount'), currency),
+    dueDay,
+    dueDayRule,
+    businessDayPolicy: cell('businessDayPolicy')
+      ? parseEnum(cell('businessDayPolicy'), BusinessDayPolicy, 'businessDayPolicy')
+      : undefined,
+    frequency,
+    interval: cell('interval') ? parseInteger(cell('interval'), 'interval', 1, 120) : undefined,
+    anchorDate,
+    monthOfYear:
+      frequency === 'YEARLY'
+        ? cell('monthOfYear')
+          ? parseInteger(cell('monthOfYear'), 'monthOfYear', 1, 12)
+          : (anchorDate ?? new Date()).getMonth() + 1
+        : undefined,
+    estimationMode: cell('estimationMode')
+      ? parseEnum(cell('estimationMode'), EstimationMode, 'estimationMode')
+      : undefined,
+    estimationWindow: cell('estimationWindow')
+      ? parseInteger(cell('estimationWindow'), 'estimationWindow', 1, 24)
+      : undefined,
+    reminderDays: cell('reminderDays')
+      ? parseReminderDayCell(cell('reminderDays'))
+      : undefined,
+    description: cell('description') || undefined,
+    active: cell('active') ? parseBoolean(cell('active'), 'active') : undefined,
+  };
+};
+
+// Optional fields the row leaves empty keep the bill value and are not compared
+export const hasBillChanges = (bill: Bill, input: CreateBillInput): boolean =>
+  Object.entries(input).some(([key, value]) => {
+    if (value === undefined) {
+      return false;
+    }
+    if (key === 'amount') {
+      return bill.amount !== input.amount.amount || bill.currency !== input.amount.currency;
+    }
+    const current = bill[key as keyof Bill];
+    if (value instanceof Date) {
+      return !(current instanceof Date) || current.getTime() !== value.getTime();
+    }
+    if (Array.isArray(value)) {
+      return (
+        !Array.isArray(current) ||
+        current.length !== value.length ||
+        value.some((item, index) => current[index] !== item)
+      );
+    }
+    return current !== value;
+  });
+
+// The amount stays in major units until the bill, and so its currency, is known
+export const parsePaymentRow = (values: Record<string, string>): PaymentCsvRow => {
+  const cell = (column: string): string => getCell(values, column);
+
+  return {
+    billName: requireValue(values, 'bill'),
+    amount: parseAmount(requireValue(values, 'amount'), 'amount'),
+    currency: cell('currency') ? getCurrencyRule(cell('currency')).code : undefined,
+    dueDate: parseDate(requireValue(values, 'dueDate'), 'dueDate'),
+    notes: cell('notes') || undefined,
+    isEstimated: cell('isEstimated') ? parseBoolean(cell('isEstimated'), 'isEstimated') : undefined,
+  };
+};
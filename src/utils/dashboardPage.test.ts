@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { renderDashboardPage } from "./dashboardPage.js";
+
+describe("renderDashboardPage", () => {
+  const page = renderDashboardPage({ token: "abc123", currency: "USD" });
+
+  it("should not load anything from the network", () => {
+    expect(page).not.toMatch(/https?:\/\//);
+    expect(page).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+  });
+
+  it("should embed the token, currency and currency exponents", () => {
+    const config = JSON.parse(page.match(/<script id="config" type="application\/json">(.*?)<\/script>/)![1]);
+    expect(config).toMatchObject({
+      token: "abc123",
+      currency: "USD",
+      exponents: { COP: 0, USD: 2, EUR: 2 },
+      billTypes: { RENT: "Rent", OTHER: "Other" },
+    });
+  });
+
+  it("should keep the embedded config from closing its script tag", () => {
+    const unsafe = renderDashboardPage({ token: "</script><script>alert(1)", currency: "COP" });
+    expect(unsafe).toContain('"token":"\\u003c/script>\\u003cscript>alert(1)"');
+  });
+});
@@ -0,0 +1,262 @@
+import { BillType } from '@prisma/client';
+import { formatBillType } from './formatters.js';
+import { getCurrencyRule, getSupportedCurrencies } from './money.js';
+
+export interface DashboardConfig {
+  token: string; // Session token the page sends to the API
+  currency: string; // Reporting currency selected when the page opens
+}
+
+// JSON inside <script> must not be able to close the tag
+const toScriptJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c');
+
+const STYLES = `
+  :root { --paid: #2e7d32; --pending: #f9a825; --overdue: #c62828; --partial: #1565c0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 15px/1.4 system-ui, sans-serif; color: #222; background: #f4f5f7; }
+  header { display: flex; flex-wrap: wrap; gap: 12px; align-items: center;
+    justify-content: space-between; padding: 12px 16px; background: #263238; color: #fff; }
+  header h1 { margin: 0; font-size: 20px; }
+  main { max-width: 1100px; margin: 0 auto; padding: 16px; display: grid; gap: 16px; }
+  section { background: #fff; border-radius: 8px; padding: 16px; box-shadow: 0 1px 2px #0002; }
+  h2 { margin: 0 0 12px; font-size: 17px; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(150px, 1fr)); gap: 12px; }
+  .card { padding: 12px; border-radius: 6px; background: #eceff1; }
+  .card span { display: block; font-size: 13px; color: #555; }
+  .card strong { font-size: 18px; }
+  .table { overflow-x: auto; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 8px; border-bottom: 1px solid #e0e0e0; text-align: left; white-space: nowrap; }
+  td.amount, th.amount { text-align: right; }
+  .status { padding: 2px 8px; border-radius: 10px; color: #fff; font-size: 12px; }
+  .PAID { background: var(--paid); } .PENDING { background: var(--pending); }
+  .OVERDUE { background: var(--overdue); } .PARTIALLY_PAID { background: var(--partial); }
+  .estimated { font-style: italic; color: #666; }
+  button { padding: 6px 12px; border: 0; border-radius: 4px; background: var(--paid); color: #fff;
+    cursor: pointer; font: inherit; }
+  button:disabled { opacity: 0.5; cursor: wait; }
+  .up { color: var(--overdue); } .down { color: var(--paid); } .stable { color: #777; }
+  .legend { display: flex; gap: 16px; flex-wrap: wrap; font-size: 13px; margin-top: 8px; }
+  .legend i { display: inline-block; width: 12px; height: 12px; margin-right: 4px; }
+  #message { min-height: 20px; color: var(--overdue); }
+  svg text { font-size: 12px; fill: #444; }
+`;
+
+const SCRIPT = `
+  const config = JSON.parse(document.getElementById('config').textContent);
+  const monthInput = document.getElementById('month');
+  const currencyInput = document.getElementById('currency');
+  const colors = ['#90a4ae', '#4fc3f7', '#1565c0'];
+
+  const escape = (text) => String(text).replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+  const money = (value) => {
+    const exponent = config.exponents[value.currency] ?? 2;
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency',
+      currency: value.currency,
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent,
+    }).format(value.amount / 10 ** exponent);
+  };
+  const monthLabel = (summary) =>
+    new Intl.DateTimeFormat('es-CO', { month: 'short', year: 'numeric' })
+      .format(new Date(summary.year, summary.month - 1));
+  const dateLabel = (key) =>
+    key ? new Intl.DateTimeFormat('es-CO', { day: 'numeric', month: 'short' })
+      .format(new Date(key + 'T00:00:00')) : '-';
+
+  const api = async (path, options = {}) => {
+    const response = await fetch('/api' + path, {
+      ...options,
+      headers: { Authorization: 'Bearer ' + config.token, 'Content-Type': 'application/json' },
+    });
+    const body = response.status === 204 ? null : await response.json();
+    if (!response.ok) {
+      throw new Error(body && body.error ? body.error.message : response.statusText);
+    }
+    return body;
+  };
+
+  const showMessage = (text) => { document.getElementById('message').textContent = text; };
+
+  const renderCards = (summary) => {
+    const cards = [
+      ['Total', summary.total], ['Paid', summary.paid],
+      ['Outstanding', summary.outstanding], ['Overdue', summary.overdue],
+    ];
+    document.getElementById('cards').innerHTML = cards
+      .map(([label, value]) => '<div class="card"><span>' + label + '</span><strong>' +
+        money(value) + '</strong></div>')
+      .join('');
+  };
+
+  const renderPayments = (payments) => {
+    const rows = payments.map((payment) => {
+      const amount = money(payment.amount);
+      return '<tr><td>' + escape(payment.bill) + '</td><td>' + config.billTypes[payment.billType] +
+        '</td><td class="amount' + (payment.isEstimated ? ' estimated' : '') + '">' +
+        (payment.isEstimated ? '~' + amount + ' (est.)' : amount) + '</td>' +
+        '<td class="amount">' + money(payment.outstanding) + '</td>' +
+        '<td>' + dateLabel(payment.dueDate) + '</td>' +
+        '<td><span class="status ' + payment.status + '">' +
+        payment.status.replace('_', ' ').toLowerCase() + '</span></td>' +
+        '<td>' + (payment.outstanding.amount > 0
+          ? '<button data-id="' + escape(payment.id) + '">Mark paid</button>'
+          : dateLabel(payment.paidDate)) + '</td></tr>';
+    });
+    document.getElementById('payments').innerHTML = rows.length > 0
+      ? rows.join('')
+      : '<tr><td colspan="7">No payments this month.</td></tr>';
+  };
+
+  const renderComparison = (comparison) => {
+    const head = '<tr><th>Metric</th>' + comparison.months
+      .map((month) => '<th class="amount">' + monthLabel(month) + '</th>').join('') +
+      '<th class="amount">Change</th><th class="amount">%</th></tr>';
+    const arrows = { up: '↑', down: '↓', stable: '→' };
+    const rows = comparison.metrics.map((metric) => {
+      const percentage = metric.percentageChange === null
+        ? 'N/A' : metric.percentageChange.toFixed(1) + '%';
+      return '<tr><td>' + metric.metric[0].toUpperCase() + metric.metric.slice(1) + '</td>' +
+        metric.values.map((value) => '<td class="amount">' + money(value) + '</td>').join('') +
+        '<td class="amount ' + metric.trend + '">' + arrows[metric.trend] + ' ' +
+        money(metric.change) + '</td><td class="amount">' + percentage + '</td></tr>';
+    });
+    document.getElementById('comparison').innerHTML = head + rows.join('');
+  };
+
+  // Grouped bars: one group per bill type with spending, one bar per month
+  const renderChart = (comparison) => {
+    const types = Object.keys(config.billTypes)
+      .filter((type) => comparison.months.some((month) => month.byType[type].amount > 0));
+    const chart = document.getElementById('chart');
+    if (types.length === 0) {
+      chart.innerHTML = '<p>No spending in these months.</p>';
+      return;
+    }
+
+    const max = Math.max(...types.flatMap((type) =>
+      comparison.months.map((month) => month.byType[type].amount)));
+    const bar = 18, gap = 28, top = 10, height = 180;
+    const group = comparison.months.length * bar + gap;
+    const width = Math.max(types.length * group + 20, 320);
+    const bars = types.flatMap((type, typeIndex) => comparison.months.map((month, monthIndex) => {
+      const value = month.byType[type];
+      const barHeight = max > 0 ? Math.round((value.amount / max) * height) : 0;
+      const x = 10 + typeIndex * group + monthIndex * bar;
+      return '<rect x="' + x + '" y="' + (top + height - barHeight) + '" width="' + (bar - 2) +
+        '" height="' + barHeight + '" fill="' + colors[monthIndex % colors.length] + '"><title>' +
+        config.billTypes[type] + ' ' + monthLabel(month) + ': ' + money(value) +
+        '</title></rect>';
+    }));
+    const labels = types.map((type, index) =>
+      '<text x="' + (10 + index * group + (group - gap) / 2) + '" y="' + (top + height + 18) +
+      '" text-anchor="middle">' + config.billTypes[type] + '</text>');
+    chart.innerHTML = '<svg viewBox="0 0 ' + width + ' ' + (top + height + 26) +
+      '" width="100%" role="img" aria-label="Spending per bill type">' +
+      '<line x1="0" x2="' + width + '" y1="' + (top + height) + '" y2="' + (top + height) +
+      '" stroke="#bbb"/>' + bars.join('') + labels.join('') + '</svg>' +
+      '<div class="legend">' + comparison.months.map((month, index) =>
+        '<span><i style="background:' + colors[index % colors.length] + '"></i>' +
+        monthLabel(month) + '</span>').join('') + '</div>';
+  };
+
+  const load = async () => {
+    showMessage('');
+    const query = '?month=' + monthInput.value + '&currency=' + currencyInput.value;
+    try {
+      const [summary, comparison] = await Promise.all([
+        api('/summary' + query),
+        api('/comparison' + query),
+      ]);
+      renderCards(summary);
+      renderPayments(summary.payments);
+      renderComparison(comparison);
+      renderChart(comparison);
+    } catch (error) {
+      showMessage('Could not load the dashboard: ' + error.message);
+    }
+  };
+
+  document.getElementById('payments').addEventListener('click', async (event) => {
+    const button = event.target.closest('button[data-id]');
+    if (!button) {
+      return;
+    }
+    button.disabled = true;
+    try {
+      await api('/payments/' + encodeURIComponent(button.dataset.id) + '/mark-paid', {
+        method: 'POST',
+        body: '{}',
+      });
+      await load();
+    } catch (error) {
+      button.disabled = false;
+      showMessage('Could not mark the payment as paid: ' + error.message);
+    }
+  });
+
+  const now = new Date();
+  monthInput.value = now.getFullYear() + '-' + String(now.getMonth() + 1).padStart(2, '0');
+  currencyInput.value = config.currency;
+  monthInput.addEventListener('change', load);
+  currencyInput.addEventListener('change', load);
+  load();
+`;
+
+/**
+ * The dashboard as a single HTML document: styles, script and chart drawing
+ * are inline so it works offline, and it reads everything through the API.
+ */
+export const renderDashboardPage = (config: DashboardConfig): string => {
+  const pageConfig = {
+    token: config.token,
+    currency: config.currency,
+    exponents: Object.fromEntries(
+      getSupportedCurrencies().map((code) => [code, getCurrencyRule(code).exponent])
+    ),
+    billTypes: Object.fromEntries(
+      Object.values(BillType).map((type) => [type, formatBillType(type)])
+    ),
+  };
+  const currencyOptions = getSupportedCurrencies()
+    .map((code) => `<option value="${code}">${code}</option>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>House Duties</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>House Duties</h1>
+  <div>
+    <input id="month" type="month" aria-label="Month">
+    <select id="currency" aria-label="Currency">${currencyOptions}</select>
+  </div>
+</header>
+<main>
+  <div id="message" role="alert"></div>
+  <section><h2>This month</h2><div id="cards" class="cards"></div></section>
+  <section>
+    <h2>Payments</h2>
+    <div class="table"><table>
+      <thead><tr><th>Bill</th><th>Type</th><th class="amount">Amount</th>
+        <th class="amount">Outstanding</th><th>Due</th><th>Status</th><th></th></tr></thead>
+      <tbody id="payments"></tbody>
+    </table></div>
+  </section>
+  <section><h2>Last 3 months</h2><div class="table"><table id="comparison"></table></div></section>
+  <section><h2>Spending per bill type</h2><div id="chart"></div></section>
+</main>
+<script id="config" type="application/json">${toScriptJson(pageConfig)}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+};
@@ -1,8 +1,73 @@
 import Table from 'cli-table3';
 import chalk from 'chalk';
-import { Bill, Payment } from '@prisma/client';
-import { formatCurrency, formatDate, formatBillType, formatPaymentStatus, formatPercentage } from './formatters.js';
-import { PaymentComparison, ComparisonMetric } from '../services/paymentService.js';
+import { Bill, BillType, ExchangeRate, Member } from '@prisma/client';
+import {
+  formatCurrency,
+  formatDate,
+  formatBillType,
+  formatPaymentStatus,
+  formatPercentage,
+  formatRecurrence,
+  formatDueDay,
+  formatBusinessDayPolicy,
+  formatEstimationMode,
+} from './formatters.js';
+import { Holiday } from './holidays.js';
+import { getPaidAmount, getOutstandingAmount } from './balance.js';
+import { Money, addMoney, money, moneyOf, zeroMoney } from './money.js';
+import {
+  PaymentComparison,
+  ComparisonMetric,
+  PaymentWithBill,
+  PaymentsSummary,
+  MonthSummary,
+  HouseholdBalances,
+  PaymentAnomaly,
+} from '../services/paymentService.js';
+import { CsvImportReport } from '../services/csvService.js';
+import { PendingReminder } from '../services/reminderService.js';
+import { ReconcileMatch } from './reconcile.js';
+import { YearReport } from './report.js';
+import { CashFlowForecast } from './forecast.js';
+import { formatReminderDays } from './reminders.js';
+import { ANOMALY_WINDOW_MONTHS, describeAnomaly } from './anomalies.js';
+import {
+  ASCII_SYMBOLS,
+  ChartSymbols,
+  UNICODE_SYMBOLS,
+  getChartWidth,
+  renderBar,
+  renderSparkline,
+  splitStackedBar,
+  supportsUnicode,
+} from './charts.js';
+import { UsageError } from './prompt.js';
+import { View, csvOutput, isMachineOutput } from './output.js';
+import { BILL_CSV_COLUMNS, PAYMENT_CSV_COLUMNS } from './csvMapping.js';
+import {
+  ANOMALY_CSV_COLUMNS,
+  BALANCE_CSV_COLUMNS,
+  BILL_YEAR_CSV_COLUMNS,
+  EXCHANGE_RATE_CSV_COLUMNS,
+  FORECAST_CSV_COLUMNS,
+  HOLIDAY_CSV_COLUMNS,
+  MEMBER_CSV_COLUMNS,
+  MONTH_SUMMARY_CSV_COLUMNS,
+  MonthReportRecord,
+  REMINDER_CSV_COLUMNS,
+  toAnomalyRecord,
+  toBalancesRecord,
+  toBillRecord,
+  toExchangeRateRecord,
+  toForecastRecord,
+  toHolidayRecord,
+  toMemberRecord,
+  toMonthSummaryRecord,
+  toPaymentComparisonRecord,
+  toPaymentRecord,
+  toReminderRecord,
+  toYearReportRecord,
+} from './outputRecords.js';
 
 export const displayBills = (bills: Bill[]): void => {
   if (bills.length === 0) {
@@ -15,7 +80,10 @@ export const displayBills = (bills: Bill[]): void => {
       chalk.cyan('Name'),
       chalk.cyan('Type'),
       chalk.cyan('Amount'),
+      chalk.cyan('Estimation'),
+      chalk.cyan('Recurrence'),
       chalk.cyan('Due Day'),
+      chalk.cyan('Reminders'),
       chalk.cyan('Status'),
     ],
     style: {
@@ -28,8 +96,13 @@ export const displayBills = (bills: Bill[]): void => {
     table.push([
       bill.name,
       formatBillType(bill.type),
-      formatCurrency(bill.amount),
-      bill.dueDay.toString(),
+      formatCurrency(moneyOf(bill)),
+      formatEstimationMode(bill),
+      formatRecurrence(bill),
+      bill.businessDayPolicy === 'NONE'
+        ? formatDueDay(bill)
+        : `${formatDueDay(bill)} (${formatBusinessDayPolicy(bill.businessDayPolicy).toLowerCase()})`,
+      formatReminderDays(bill.reminderDays),
       bill.active ? chalk.green('Active') : chalk.red('Inactive'),
     ]);
   });
@@ -37,8 +110,12 @@ export const displayBills = (bills: Bill[]): void => {
   console.log('\n' + table.toString());
 };
 
+// With `convert`, foreign amounts also show their value in the reporting currency
+// Unusual amounts are marked in the table and explained below it
 export const displayPayments = (
-  payments: (Payment & { bill: Bill })[]
+  payments: PaymentWithBill[],
+  convert?: (value: Money, date: Date) => Money,
+  anomalies: PaymentAnomaly[] = []
 ): void => {
   if (payments.length === 0) {
     console.log(chalk.yellow('\nNo payments found.'));
@@ -49,6 +126,8 @@ export const displayPayments = (
     head: [
       chalk.cyan('Bill'),
       chalk.cyan('Amount'),
+      chalk.cyan('Paid'),
+      chalk.cyan('Outstanding'),
       chalk.cyan('Due Date'),
       chalk.cyan('Status'),
       chalk.cyan('Paid Date'),
@@ -59,10 +138,26 @@ export const displayPayments = (
     },
   });
 
+  const anomalousIds = new Set(anomalies.map((anomaly) => anomaly.payment.id));
   payments.forEach((payment) => {
+    const original = moneyOf(payment);
+    const converted = convert?.(original, payment.dueDate);
+    const amount =
+      converted && converted.currency !== original.currency
+        ? `${formatCurrency(original)} ≈ ${formatCurrency(converted)}`
+        : formatCurrency(original);
+
     table.push([
       payment.bill.name,
-      formatCurrency(payment.amount),
+      payment.isEstimated
+        ? chalk.italic(`~${amount} (est.)`)
+        : anomalousIds.has(payment.id)
+          ? chalk.red(`${amount} ⚠`)
+          : amount,
+      formatCurrency(money(getPaidAmount(payment.transactions), payment.currency)),
+      formatCurrency(
+        money(getOutstandingAmount(payment.amount, payment.transactions), payment.currency)
+      ),
       formatDate(payment.dueDate),
       formatPaymentStatus(payment.status),
       payment.paidDate ? formatDate(payment.paidDate) : '-',
@@ -70,58 +165,522 @@ export const displayPayments = (
   });
 
   console.log('\n' + table.toString());
+  anomalies
+    .filter((anomaly) => payments.includes(anomaly.payment))
+    .forEach((anomaly) => {
+      console.log(
+        chalk.red(`⚠ ${anomaly.payment.bill.name}`) +
+          ` (${formatDate(anomaly.payment.dueDate)}): ${describeAnomaly(anomaly)}`
+      );
+    });
 };
 
-export const displaySummary = (
-  total: number,
-  paid: number,
-  pending: number,
-  overdue: number
-): void => {
-  console.log(chalk.bold('\n=== Monthly Summary ==='));
-  console.log(`Total Amount: ${chalk.cyan(formatCurrency(total))}`);
-  console.log(`Paid: ${chalk.green(formatCurrency(paid))}`);
-  console.log(`Pending: ${chalk.yellow(formatCurrency(pending))}`);
-  console.log(`Overdue: ${chalk.red(formatCurrency(overdue))}`);
+const formatOriginalTotals = (totals: Money[]): string => totals.map(formatCurrency).join(' + ');
+
+// Summaries in a single currency other than the reporting one still list it
+const hasForeignTotals = (summary: PaymentsSummary): boolean =>
+  summary.originalTotals.some((total) => total.currency !== summary.currency);
+
+export const displaySummary = (summary: PaymentsSummary): void => {
+  console.log(chalk.bold(`\n=== Monthly Summary (${summary.currency}) ===`));
+  console.log(`Total Amount: ${chalk.cyan(formatCurrency(summary.total))}`);
+  if (hasForeignTotals(summary)) {
+    console.log(chalk.gray(`  Original: ${formatOriginalTotals(summary.originalTotals)}`));
+  }
+  console.log(`  Confirmed: ${formatCurrency(summary.confirmed)}`);
+  console.log(`  Estimated: ${chalk.italic(formatCurrency(summary.estimated))}`);
+  console.log(`Paid: ${chalk.green(formatCurrency(summary.paid))}`);
+  console.log(`Outstanding: ${chalk.magenta(formatCurrency(summary.outstanding))}`);
+  console.log(`  Pending: ${chalk.yellow(formatCurrency(summary.pending))}`);
+  console.log(`  Overdue: ${chalk.red(formatCurrency(summary.overdue))}`);
 };
 
-export const displaySuccess = (message: string): void => {
-  console.log(chalk.green(`\n✓ ${message}`));
+export const displayHolidays = (calendarName: string, year: number, holidays: Holiday[]): void => {
+  console.log(chalk.bold(`\n=== Holidays ${year} (${calendarName}) ===`));
+
+  if (holidays.length === 0) {
+    console.log(chalk.yellow('\nNo holidays found.'));
+    return;
+  }
+
+  const table = new Table({
+    head: [chalk.cyan('Date'), chalk.cyan('Weekday'), chalk.cyan('Holiday')],
+    style: {
+      head: [],
+      border: ['grey'],
+    },
+  });
+
+  holidays.forEach((holiday) => {
+    table.push([
+      formatDate(holiday.date),
+      new Intl.DateTimeFormat('es-CO', { weekday: 'long' }).format(holiday.date),
+      holiday.name,
+    ]);
+  });
+
+  console.log('\n' + table.toString());
 };
 
-export const displayError = (message: string): void => {
-  console.log(chalk.red(`\n✗ ${message}`));
+export const displayExchangeRates = (rates: ExchangeRate[]): void => {
+  if (rates.length === 0) {
+    console.log(chalk.yellow('\nNo exchange rates found.'));
+    return;
+  }
+
+  const table = new Table({
+    head: [chalk.cyan('Date'), chalk.cyan('Pair'), chalk.cyan('Rate')],
+    style: {
+      head: [],
+      border: ['grey'],
+    },
+  });
+
+  rates.forEach((rate) => {
+    table.push([
+      formatDate(rate.date),
+      `${rate.baseCurrency}/${rate.quoteCurrency}`,
+      `1 ${rate.baseCurrency} = ${rate.rate} ${rate.quoteCurrency}`,
+    ]);
+  });
+
+  console.log('\n' + table.toString());
 };
 
-export const displayInfo = (message: string): void => {
-  console.log(chalk.blue(`\nℹ ${message}`));
+export const displayDueReminders = (reminders: PendingReminder[]): void => {
+  if (reminders.length === 0) {
+    console.log(chalk.yellow('\nNo reminders are due.'));
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.cyan('Bill'),
+      chalk.cyan('Outstanding'),
+      chalk.cyan('Due Date'),
+      chalk.cyan('Reminder'),
+      chalk.cyan('Channels'),
+    ],
+    style: {
+      head: [],
+      border: ['grey'],
+    },
+  });
+
+  reminders.forEach((reminder) => {
+    table.push([
+      reminder.bill,
+      formatCurrency(reminder.outstanding),
+      formatDate(reminder.dueDate),
+      reminder.daysUntilDue < 0
+        ? chalk.red('Overdue')
+        : `${reminder.threshold.replace('d', '')} day(s) before`,
+      reminder.channels.join(', '),
+    ]);
+  });
+
+  console.log('\n' + table.toString());
 };
 
-export const displayWarning = (message: string): void => {
-  console.log(chalk.yellow(`\n⚠ ${message}`));
+const getShare = (value: Money, total: Money): number | null =>
+  total.amount > 0 ? (value.amount / total.amount) * 100 : null;
+
+export const displayYearReport = (report: YearReport): void => {
+  const { summary, onTime } = report;
+  console.log(chalk.bold(`\n=== Annual Report ${report.year} (${report.currency}) ===`));
+  if (summary.total.amount === 0) {
+    console.log(chalk.yellow('\nNo payments found.'));
+    return;
+  }
+
+  console.log(`Total Amount: ${chalk.cyan(formatCurrency(summary.total))}`);
+  if (hasForeignTotals(summary)) {
+    console.log(chalk.gray(`  Original: ${formatOriginalTotals(summary.originalTotals)}`));
+  }
+  console.log(`Paid: ${chalk.green(formatCurrency(summary.paid))}`);
+  console.log(`Outstanding: ${chalk.magenta(formatCurrency(summary.outstanding))}`);
+  console.log(`Average per Month: ${formatCurrency(report.averageMonthly)}`);
+  if (report.mostExpensiveMonth) {
+    const { monthLabel, total } = report.mostExpensiveMonth;
+    console.log(`Most Expensive Month: ${monthLabel} (${formatCurrency(total)})`);
+  }
+  console.log(
+    `Paid on Time: ${formatPercentage(onTime.rate)}` +
+      chalk.gray(` (${onTime.onTime} on time, ${onTime.late} late or unpaid)`)
+  );
+
+  const style = { head: [], border: ['grey'] };
+  const types = Object.values(BillType).filter((type) => summary.byType[type].amount > 0);
+
+  const typeTable = new Table({
+    head: [chalk.cyan('Type'), chalk.cyan('Total'), chalk.cyan('Share')],
+    style,
+  });
+  types.forEach((type) => {
+    const total = summary.byType[type];
+    typeTable.push([
+      formatBillType(type),
+      formatCurrency(total),
+      formatPercentage(getShare(total, summary.total)),
+    ]);
+  });
+  console.log(chalk.bold('\nBy Type'));
+  console.log(typeTable.toString());
+
+  const billTable = new Table({
+    head: [chalk.cyan('Bill'), chalk.cyan('Type'), chalk.cyan('Total'), chalk.cyan('Share')],
+    style,
+  });
+  report.bills.forEach((bill) => {
+    billTable.push([
+      bill.bill,
+      formatBillType(bill.type),
+      formatCurrency(bill.total),
+      formatPercentage(getShare(bill.total, summary.total)),
+    ]);
+  });
+  console.log(chalk.bold('\nBy Bill'));
+  console.log(billTable.toString());
+
+  const monthTable = new Table({
+    head: [
+      chalk.cyan('Month'),
+      ...types.map((type) => chalk.cyan(formatBillType(type))),
+      chalk.cyan('Total'),
+    ],
+    style,
+  });
+  const shortMonth = new Intl.DateTimeFormat('es-CO', { month: 'short' });
+  report.months.forEach((month) => {
+    monthTable.push([
+      shortMonth.format(new Date(month.year, month.month - 1)),
+      ...types.map((type) => formatCurrency(month.byType[type])),
+      chalk.bold(formatCurrency(month.total)),
+    ]);
+  });
+  console.log(chalk.bold('\nBy Month'));
+  console.log(monthTable.toString());
 };
 
-export const displayPaymentComparison = (comparison: PaymentComparison): void => {
-  const { months, metrics } = comparison;
+export const displayForecast = (forecast: CashFlowForecast): void => {
+  const { months } = forecast;
+  console.log(chalk.bold(`\n=== Cash-Flow Forecast (Next ${months.length} Months) ===`));
+  console.log(chalk.gray(`Amounts in ${forecast.currency}`));
+
+  const carriedOverCount = forecast.carriedOverItems.length;
+  if (carriedOverCount > 0) {
+    console.log(
+      `Carried Over: ${chalk.red(formatCurrency(forecast.carriedOver))}` +
+        chalk.gray(` (${carriedOverCount} unpaid payment(s) due before ${months[0].monthLabel})`)
+    );
+  }
+
+  const style = { head: [], border: ['grey'] };
+  const monthTable = new Table({
+    head: [
+      chalk.cyan('Month'),
+      chalk.cyan('Payments'),
+      chalk.cyan('Due'),
+      chalk.cyan('Estimated'),
+      chalk.cyan('Cumulative'),
+    ],
+    style,
+  });
+  months.forEach((month) => {
+    monthTable.push([
+      month.monthLabel,
+      month.items.length,
+      formatCurrency(month.total),
+      month.estimated.amount > 0 ? chalk.yellow(formatCurrency(month.estimated)) : '-',
+      chalk.bold(formatCurrency(month.cumulative)),
+    ]);
+  });
+  console.log('\n' + monthTable.toString());
+  console.log(`Total to Set Aside: ${chalk.cyan(formatCurrency(forecast.total))}`);
+
+  if (forecast.largestDueDates.length > 0) {
+    const dueDateTable = new Table({
+      head: [chalk.cyan('Due Date'), chalk.cyan('Bills'), chalk.cyan('Amount')],
+      style,
+    });
+    forecast.largestDueDates.forEach((dueDate) => {
+      dueDateTable.push([
+        formatDate(dueDate.date),
+        dueDate.items.map((item) => item.bill).join(', '),
+        formatCurrency(dueDate.total),
+      ]);
+    });
+    console.log(chalk.bold('\nLargest Due Dates'));
+    console.log(dueDateTable.toString());
+  }
+
+  console.log(chalk.gray('\nEstimated amounts come from the payment history of each bill.'));
+};
+
+export const displayAnomalies = (anomalies: PaymentAnomaly[]): void => {
+  if (anomalies.length === 0) {
+    console.log(chalk.green('\nNo unusual payment amounts found.'));
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.cyan('Bill'),
+      chalk.cyan('Type'),
+      chalk.cyan('Due Date'),
+      chalk.cyan('Amount'),
+      chalk.cyan('Why'),
+      chalk.cyan('History'),
+    ],
+    style: { head: [], border: ['grey'] },
+  });
+  anomalies.forEach((anomaly) => {
+    table.push([
+      anomaly.payment.bill.name,
+      formatBillType(anomaly.payment.bill.type),
+      formatDate(anomaly.payment.dueDate),
+      chalk.red(formatCurrency(anomaly.amount)),
+      describeAnomaly(anomaly),
+      chalk.gray(
+        `${anomaly.historySize} payments, ` +
+          (anomaly.deviations !== null
+            ? `${anomaly.deviations.toFixed(1)} deviations`
+            : 'always the same amount')
+      ),
+    ]);
+  });
+
+  console.log('\n' + table.toString());
+  console.log(chalk.gray(`Compared with the last ${ANOMALY_WINDOW_MONTHS} months of each bill`));
+};
+
+export const displayImportReport = (report: CsvImportReport): void => {
+  const actionLabels = {
+    create: chalk.green('Create'),
+    update: chalk.blue('Update'),
+    skip: chalk.gray('Unchanged'),
+  };
+
+  if (report.rows.length > 0) {
+    const table = new Table({
+      head: [chalk.cyan('Line'), chalk.cyan('Row'), chalk.cyan('Action')],
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+    });
+    report.rows.forEach((row) => {
+      table.push([row.line, row.label, actionLabels[row.action]]);
+    });
+    console.log('\n' + table.toString());
+  }
+
+  report.errors.forEach((error) => {
+    console.log(chalk.red(`  Line ${error.line}: ${error.message}`));
+  });
+
+  const count = (action: string): number =>
+    report.rows.filter((row) => row.action === action).length;
+  const totals = `${count('create')} new, ${count('update')} updated, ${count('skip')} unchanged`;
+
+  if (report.errors.length > 0) {
+    // Scripts see a failed import in the exit code, like any failed command
+    process.exitCode = 1;
+    console.log(chalk.red(`\n✗ ${report.errors.length} invalid row(s), nothing was imported`));
+  } else if (report.dryRun) {
+    console.log(chalk.blue(`\nℹ Dry run: ${totals}. Nothing was written`));
+  } else {
+    console.log(chalk.green(`\n✓ Imported: ${totals}`));
+  }
+};
+
+export const displayReconcileMatches = (matches: ReconcileMatch[]): void => {
+  if (matches.length === 0) {
+    console.log(chalk.yellow('\nNo statement transactions match an open payment.'));
+    return;
+  }
 
-  // Build table headers
   const table = new Table({
     head: [
-      chalk.cyan('Metric'),
-      chalk.cyan(months[0].monthLabel),
-      chalk.cyan(months[1].monthLabel),
-      chalk.cyan(months[2].monthLabel),
-      chalk.cyan('Change'),
-      chalk.cyan('% Change'),
-      chalk.cyan('Trend'),
+      chalk.cyan('Line'),
+      chalk.cyan('Date'),
+      chalk.cyan('Description'),
+      chalk.cyan('Amount'),
+      chalk.cyan('Payment'),
+      chalk.cyan('Score'),
+      chalk.cyan('Why'),
     ],
     style: {
       head: [],
       border: ['grey'],
     },
-    colWidths: [12, 16, 16, 16, 14, 12, 8],
   });
 
+  matches.forEach(({ transaction, candidate, score, reasons }) => {
+    table.push([
+      transaction.line,
+      formatDate(transaction.date),
+      transaction.description,
+      formatCurrency(transaction.amount),
+      `${candidate.billName} (${formatDate(candidate.dueDate)})`,
+      formatPercentage(score * 100),
+      reasons.join(', '),
+    ]);
+  });
+
+  console.log('\n' + table.toString());
+};
+
+export const displayBackupContents = (counts: Record<string, number>): void => {
+  const table = new Table({
+    head: [chalk.cyan('Records'), chalk.cyan('Count')],
+    style: {
+      head: [],
+      border: ['grey'],
+    },
+  });
+  Object.entries(counts).forEach(([records, count]) => {
+    table.push([records, count]);
+  });
+  console.log('\n' + table.toString());
+};
+
+export const displayMembers = (members: Member[]): void => {
+  if (members.length === 0) {
+    console.log(chalk.yellow('\nNo members found.'));
+    return;
+  }
+
+  const table = new Table({
+    head: [chalk.cyan('Name'), chalk.cyan('Joined'), chalk.cyan('Left'), chalk.cyan('Status')],
+    style: {
+      head: [],
+      border: ['grey'],
+    },
+  });
+
+  members.forEach((member) => {
+    table.push([
+      member.name,
+      formatDate(member.joinedAt),
+      member.leftAt ? formatDate(member.leftAt) : '-',
+      member.leftAt ? chalk.red('Moved out') : chalk.green('Living here'),
+    ]);
+  });
+
+  console.log('\n' + table.toString());
+};
+
+export const displayBalances = (householdBalances: HouseholdBalances): void => {
+  const { balances, transfers } = householdBalances;
+
+  if (balances.length === 0) {
+    console.log(chalk.yellow('\nNo members found.'));
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.cyan('Member'),
+      chalk.cyan('Paid'),
+      chalk.cyan('Share'),
+      chalk.cyan('Balance'),
+    ],
+    style: {
+      head: [],
+      border: ['grey'],
+    },
+  });
+
+  balances.forEach((balance) => {
+    const formattedNet = formatCurrency(Math.abs(balance.net));
+    let net = chalk.gray(formatCurrency(0));
+    if (balance.net > 0) {
+      net = chalk.green(`+${formattedNet} (is owed)`);
+    } else if (balance.net < 0) {
+      net = chalk.red(`-${formattedNet} (owes)`);
+    }
+
+    table.push([balance.member.name, formatCurrency(balance.paid), formatCurrency(balance.owed), net]);
+  });
+
+  console.log(chalk.bold('\n=== Household Balances ==='));
+  console.log('\n' + table.toString());
+
+  if (transfers.length === 0) {
+    console.log(chalk.green('\nEverybody is settled up.'));
+    return;
+  }
+
+  console.log(chalk.bold('\nSuggested transfers to settle up:'));
+  transfers.forEach((transfer) => {
+    console.log(
+      `  ${transfer.from.name} → ${transfer.to.name}: ${chalk.cyan(formatCurrency(transfer.amount))}`
+    );
+  });
+};
+
+// Machine-readable output owns stdout, messages go to stderr instead
+const printMessage = (message: string): void => {
+  if (isMachineOutput()) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+};
+
+export const displaySuccess = (message: string): void => {
+  printMessage(chalk.green(`\n✓ ${message}`));
+};
+
+export const displayError = (message: string): void => {
+  printMessage(chalk.red(`\n✗ ${message}`));
+};
+
+// Usage errors only need their message; the exit code tells scripts it failed
+export const displayCommandError = (message: string, error: unknown): void => {
+  process.exitCode = 1;
+  if (error instanceof UsageError) {
+    displayError(`${message}: ${error.message}`);
+    return;
+  }
+  displayError(message);
+  console.error(error);
+};
+
+export const displayInfo = (message: string): void => {
+  printMessage(chalk.blue(`\nℹ ${message}`));
+};
+
+export const displayWarning = (message: string): void => {
+  printMessage(chalk.yellow(`\n⚠ ${message}`));
+};
+
+// Up to three months fit with their full names; longer comparisons use short ones
+const formatPeriod = (month: MonthSummary, comparison: PaymentComparison): string => {
+  if (comparison.mode === 'year-over-year') {
+    return String(month.year);
+  }
+  if (comparison.months.length <= 3) {
+    return month.monthLabel;
+  }
+  return new Intl.DateTimeFormat('es-CO', { month: 'short', year: '2-digit' }).format(
+    new Date(month.year, month.month - 1)
+  );
+};
+
+export const displayPaymentComparison = (comparison: PaymentComparison): void => {
+  const { months, metrics } = comparison;
+
+  const head = [
+    ...months.map((month) => chalk.cyan(formatPeriod(month, comparison))),
+    chalk.cyan('Change'),
+    chalk.cyan('% Change'),
+    chalk.cyan('Trend'),
+  ];
+  const style = { head: [], border: ['grey'] };
+  const table = new Table({ head: [chalk.cyan('Metric'), ...head], style });
+
   // Helper function to format trend indicator
   const formatTrend = (trend: 'up' | 'down' | 'stable'): string => {
     if (trend === 'up') return chalk.red('↑');
@@ -131,21 +690,21 @@ export const displayPaymentComparison = (comparison: PaymentComparison): void =>
 
   // Helper function to format change with color
   const formatChange = (
-    change: number,
+    change: Money,
     trend: 'up' | 'down' | 'stable',
     isBadMetric: boolean
   ): string => {
     if (trend === 'stable') {
-      return chalk.gray(formatCurrency(0));
+      return chalk.gray(formatCurrency(zeroMoney(change.currency)));
     }
 
-    const formatted = formatCurrency(Math.abs(change));
-    const sign = change >= 0 ? '+' : '-';
+    const formatted = formatCurrency(money(Math.abs(change.amount), change.currency));
+    const sign = change.amount >= 0 ? '+' : '-';
 
     // For pending/overdue, decrease is good (green), increase is bad (red)
     // For total/paid, increase can be neutral (cyan)
     if (isBadMetric) {
-      return change > 0 ? chalk.red(`${sign}${formatted}`) : chalk.green(`${sign}${formatted}`);
+      return change.amount > 0 ? chalk.red(`${sign}${formatted}`) : chalk.green(`${sign}${formatted}`);
     } else {
       return chalk.cyan(`${sign}${formatted}`);
     }
@@ -177,34 +736,275 @@ export const displayPaymentComparison = (comparison: PaymentComparison): void =>
     }
   };
 
-  // Add rows for each metric
-  const addMetricRow = (
-    metric: ComparisonMetric,
-    isBadMetric: boolean = false
-  ): void => {
-    table.push([
-      metric.metricName,
-      formatCurrency(metric.values[0]),
-      formatCurrency(metric.values[1]),
-      formatCurrency(metric.values[2]),
-      formatChange(metric.change, metric.trend, isBadMetric),
-      formatPercentageChange(metric.percentageChange, metric.trend, isBadMetric),
-      formatTrend(metric.trend),
-    ]);
-  };
+  // One value per period, then the change between the last two
+  const metricRow = (metric: ComparisonMetric, isBadMetric: boolean = false): string[] => [
+    metric.metricName,
+    ...metric.values.map(formatCurrency),
+    formatChange(metric.change, metric.trend, isBadMetric),
+    formatPercentageChange(metric.percentageChange, metric.trend, isBadMetric),
+    formatTrend(metric.trend),
+  ];
 
-  addMetricRow(metrics.total, false);
-  addMetricRow(metrics.paid, false);
-  addMetricRow(metrics.pending, true);
-  addMetricRow(metrics.overdue, true);
+  table.push(metricRow(metrics.total, false));
+  table.push(metricRow(metrics.paid, false));
+  table.push(metricRow(metrics.pending, true));
+  table.push(metricRow(metrics.overdue, true));
 
-  console.log(chalk.bold('\n=== Payment Comparison (Last 3 Months) ==='));
+  const monthName = new Intl.DateTimeFormat('es-CO', { month: 'long' }).format(
+    new Date(months[0].year, months[0].month - 1)
+  );
+  const title =
+    comparison.mode === 'year-over-year'
+      ? `${monthName}, Last ${months.length} Years`
+      : `Last ${months.length} Months`;
+  console.log(chalk.bold(`\n=== Payment Comparison (${title}) ===`));
+  console.log(chalk.gray(`Amounts in ${months[0].currency}`));
   console.log('\n' + table.toString());
 
+  if (comparison.bills.length > 0) {
+    const billTable = new Table({ head: [chalk.cyan('Bill'), ...head], style });
+    comparison.bills.forEach((bill) => billTable.push(metricRow(bill)));
+    console.log(chalk.bold('\nBy Bill'));
+    console.log(billTable.toString());
+  }
+
+  const foreignMonths = months.filter(hasForeignTotals);
+  if (foreignMonths.length > 0) {
+    console.log(chalk.gray('\nOriginal amounts:'));
+    foreignMonths.forEach((month) => {
+      console.log(chalk.gray(`  ${month.monthLabel}: ${formatOriginalTotals(month.originalTotals)}`));
+    });
+  }
+
   // Add legend
   console.log(chalk.gray('\nLegend:'));
   console.log(chalk.gray('  ↑ = Increase  ↓ = Decrease  → = No change'));
+  console.log(chalk.gray('  Change = last period against the one before'));
   console.log(chalk.green('  Green') + chalk.gray(' = Favorable change'));
   console.log(chalk.red('  Red') + chalk.gray(' = Unfavorable change'));
   console.log(chalk.cyan('  Cyan') + chalk.gray(' = Neutral change'));
 };
+
+export interface ChartOptions {
+  ascii?: boolean; // Plain ASCII even when the terminal supports Unicode
+  columns?: number; // Terminal width, from stdout unless given
+}
+
+const truncateLabel = (label: string, width: number): string =>
+  label.length > width ? `${label.slice(0, width - 1)}…` : label;
+
+const MAX_LABEL_WIDTH = 20;
+
+// Label, bar and value per row, with the bars filling what the terminal has left
+const displayBarChart = (
+  rows: Array<{ label: string; value: Money }>,
+  symbols: ChartSymbols,
+  columns: number | undefined
+): void => {
+  const labels = rows.map((row) => truncateLabel(row.label, MAX_LABEL_WIDTH));
+  const values = rows.map((row) => formatCurrency(row.value));
+  const labelWidth = Math.max(...labels.map((label) => label.length));
+  const valueWidth = Math.max(...values.map((value) => value.length));
+  const width = getChartWidth(columns, labelWidth + valueWidth + 5);
+  const max = Math.max(...rows.map((row) => row.value.amount));
+
+  rows.forEach((row, index) => {
+    const bar = renderBar(row.value.amount, max, width, symbols);
+    console.log(
+      `${labels[index].padEnd(labelWidth)}  ${chalk.cyan(bar.padEnd(width))}  ` +
+        values[index].padStart(valueWidth)
+    );
+  });
+};
+
+/**
+ * Charts of a comparison: totals per bill type, a sparkline per bill and
+ * the paid, pending and overdue part of every month. Falls back to ASCII
+ * when the terminal cannot draw block characters.
+ */
+export const displayTrends = (comparison: PaymentComparison, options: ChartOptions = {}): void => {
+  const symbols = options.ascii || !supportsUnicode() ? ASCII_SYMBOLS : UNICODE_SYMBOLS;
+  const columns = options.columns ?? process.stdout.columns;
+  const { months } = comparison;
+  const currency = months[0].currency;
+  const first = months[0];
+  const last = months[months.length - 1];
+
+  console.log(chalk.bold(`\n=== Spending Trends (Last ${months.length} Months) ===`));
+  console.log(chalk.gray(`Amounts in ${currency}, ${first.monthLabel} to ${last.monthLabel}`));
+  if (months.every((month) => month.total.amount === 0)) {
+    console.log(chalk.yellow('\nNo payments found.'));
+    return;
+  }
+
+  const typeRows = Object.values(BillType)
+    .map((type) => ({
+      label: formatBillType(type),
+      value: months.reduce(
+        (total, month) => addMoney(total, month.byType[type]),
+        zeroMoney(currency)
+      ),
+    }))
+    .filter((row) => row.value.amount > 0)
+    .sort((a, b) => b.value.amount - a.value.amount);
+  console.log(chalk.bold('\nBy Type'));
+  displayBarChart(typeRows, symbols, columns);
+
+  if (comparison.bills.length > 0) {
+    const labels = comparison.bills.map((bill) => truncateLabel(bill.metricName, MAX_LABEL_WIDTH));
+    const labelWidth = Math.max(...labels.map((label) => label.length));
+    console.log(chalk.bold('\nBy Bill'));
+    comparison.bills.forEach((bill, index) => {
+      const sparkline = renderSparkline(
+        bill.values.map((value) => value.amount),
+        symbols
+      );
+      const { percentageChange } = bill;
+      const sign = percentageChange !== null && percentageChange > 0 ? '+' : '';
+      const change =
+        percentageChange !== null
+          ? chalk.gray(` (${sign}${formatPercentage(percentageChange)})`)
+          : '';
+      console.log(
+        `${labels[index].padEnd(labelWidth)}  ${chalk.cyan(sparkline)}  ` +
+          formatCurrency(bill.values[bill.values.length - 1]) +
+          change
+      );
+    });
+  }
+
+  const [paidSymbol, pendingSymbol, overdueSymbol] = symbols.stacked;
+  const shortMonth = new Intl.DateTimeFormat('es-CO', { month: 'short', year: '2-digit' });
+  const monthLabels = months.map((month) =>
+    shortMonth.format(new Date(month.year, month.month - 1))
+  );
+  const totals = months.map((month) => formatCurrency(month.total));
+  const labelWidth = Math.max(...monthLabels.map((label) => label.length));
+  const totalWidth = Math.max(...totals.map((total) => total.length));
+  const width = getChartWidth(columns, labelWidth + totalWidth + 5);
+  const max = Math.max(...months.map((month) => month.total.amount));
+
+  console.log(chalk.bold('\nPaid, Pending and Overdue'));
+  months.forEach((month, index) => {
+    const [paid, pending, overdue] = splitStackedBar(
+      [month.paid.amount, month.pending.amount, month.overdue.amount],
+      max,
+      width
+    );
+    const bar =
+      chalk.green(paidSymbol.repeat(paid)) +
+      chalk.yellow(pendingSymbol.repeat(pending)) +
+      chalk.red(overdueSymbol.repeat(overdue)) +
+      ' '.repeat(width - paid - pending - overdue);
+    console.log(
+      `${monthLabels[index].padEnd(labelWidth)}  ${bar}  ${totals[index].padStart(totalWidth)}`
+    );
+  });
+  console.log(
+    '\n' +
+      chalk.green(`${paidSymbol} Paid`) +
+      '  ' +
+      chalk.yellow(`${pendingSymbol} Pending`) +
+      '  ' +
+      chalk.red(`${overdueSymbol} Overdue`)
+  );
+};
+
+// Views of the list, summary and comparison commands, printed with render()
+export const billsView: View<Bill[]> = {
+  table: displayBills,
+  json: (bills) => bills.map(toBillRecord),
+  csv: (bills) => csvOutput(BILL_CSV_COLUMNS, bills),
+};
+
+export const paymentsView = (
+  title: string,
+  anomalies: PaymentAnomaly[] = []
+): View<PaymentWithBill[]> => ({
+  table: (payments) => {
+    console.log(`\n${title}`);
+    displayPayments(payments, undefined, anomalies);
+  },
+  json: (payments) => payments.map(toPaymentRecord),
+  csv: (payments) => csvOutput(PAYMENT_CSV_COLUMNS, payments),
+});
+
+export interface MonthReport {
+  summary: MonthSummary;
+  payments: PaymentWithBill[];
+  convert?: (value: Money, date: Date) => Money;
+  anomalies?: PaymentAnomaly[];
+}
+
+export const monthReportView: View<MonthReport> = {
+  table: ({ summary, payments, convert, anomalies }) => {
+    console.log(`\n${summary.monthLabel}`);
+    displayPayments(payments, convert, anomalies);
+    displaySummary(summary);
+  },
+  json: ({ summary, payments }): MonthReportRecord => ({
+    ...toMonthSummaryRecord(summary),
+    payments: payments.map(toPaymentRecord),
+  }),
+  csv: ({ summary }) => csvOutput(MONTH_SUMMARY_CSV_COLUMNS, [toMonthSummaryRecord(summary)]),
+};
+
+export const paymentComparisonView: View<PaymentComparison> = {
+  table: displayPaymentComparison,
+  json: toPaymentComparisonRecord,
+  csv: (comparison) =>
+    csvOutput(MONTH_SUMMARY_CSV_COLUMNS, comparison.months.map(toMonthSummaryRecord)),
+};
+
+export const membersView: View<Member[]> = {
+  table: displayMembers,
+  json: (members) => members.map(toMemberRecord),
+  csv: (members) => csvOutput(MEMBER_CSV_COLUMNS, members.map(toMemberRecord)),
+};
+
+export const balancesView: View<HouseholdBalances> = {
+  table: displayBalances,
+  json: toBalancesRecord,
+  csv: (balances) => csvOutput(BALANCE_CSV_COLUMNS, toBalancesRecord(balances).balances),
+};
+
+export const holidaysView = (calendarName: string, year: number): View<Holiday[]> => ({
+  table: (holidays) => displayHolidays(calendarName, year, holidays),
+  json: (holidays) => holidays.map(toHolidayRecord),
+  csv: (holidays) => csvOutput(HOLIDAY_CSV_COLUMNS, holidays.map(toHolidayRecord)),
+});
+
+export const exchangeRatesView: View<ExchangeRate[]> = {
+  table: displayExchangeRates,
+  json: (rates) => rates.map(toExchangeRateRecord),
+  csv: (rates) => csvOutput(EXCHANGE_RATE_CSV_COLUMNS, rates.map(toExchangeRateRecord)),
+};
+
+export const yearReportView: View<YearReport> = {
+  table: displayYearReport,
+  json: toYearReportRecord,
+  csv: (report) => csvOutput(BILL_YEAR_CSV_COLUMNS, toYearReportRecord(report).bills),
+};
+
+export const forecastView: View<CashFlowForecast> = {
+  table: displayForecast,
+  json: toForecastRecord,
+  csv: (forecast) => csvOutput(FORECAST_CSV_COLUMNS, toForecastRecord(forecast).months),
+};
+
+export const trendsView = (options: ChartOptions = {}): View<PaymentComparison> => ({
+  ...paymentComparisonView,
+  table: (comparison) => displayTrends(comparison, options),
+});
+
+export const anomaliesView: View<PaymentAnomaly[]> = {
+  table: displayAnomalies,
+  json: (anomalies) => anomalies.map(toAnomalyRecord),
+  csv: (anomalies) => csvOutput(ANOMALY_CSV_COLUMNS, anomalies.map(toAnomalyRecord)),
+};
+
+export const dueRemindersView: View<PendingReminder[]> = {
+  table: displayDueReminders,
+  json: (reminders) => reminders.map(toReminderRecord),
+  csv: (reminders) => csvOutput(REMINDER_CSV_COLUMNS, reminders.map(toReminderRecord)),
+};
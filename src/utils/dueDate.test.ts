@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { resolveDueDate, adjustToBusinessDay, getDaysInMonth, isWeekend } from "./dueDate.js";
+import { colombianCalendar, isHoliday } from "./holidays.js";
+
+const isColombianBusinessDay = (date: Date) =>
+  !isWeekend(date) && !isHoliday(date, colombianCalendar);
+
+describe("getDaysInMonth", () => {
+  it("should handle 30 and 31 day months", () => {
+    expect(getDaysInMonth(2024, 1)).toBe(31);
+    expect(getDaysInMonth(2024, 4)).toBe(30);
+  });
+
+  it("should handle February in leap and common years", () => {
+    expect(getDaysInMonth(2024, 2)).toBe(29);
+    expect(getDaysInMonth(2025, 2)).toBe(28);
+  });
+});
+
+describe("isWeekend", () => {
+  it("should detect Saturdays and Sundays", () => {
+    expect(isWeekend(new Date(2024, 2, 2))).toBe(true);
+    expect(isWeekend(new Date(2024, 2, 3))).toBe(true);
+    expect(isWeekend(new Date(2024, 2, 4))).toBe(false);
+  });
+});
+
+describe("resolveDueDate", () => {
+  describe("DAY_OF_MONTH", () => {
+    it("should use the configured day", () => {
+      expect(resolveDueDate({ dueDay: 15, dueDayRule: "DAY_OF_MONTH" }, 2024, 3)).toEqual(
+        new Date(2024, 2, 15)
+      );
+    });
+
+    it("should clamp to the last day of short months", () => {
+      expect(resolveDueDate({ dueDay: 31, dueDayRule: "DAY_OF_MONTH" }, 2025, 2)).toEqual(
+        new Date(2025, 1, 28)
+      );
+      expect(resolveDueDate({ dueDay: 31, dueDayRule: "DAY_OF_MONTH" }, 2024, 4)).toEqual(
+        new Date(2024, 3, 30)
+      );
+    });
+  });
+
+  describe("LAST_DAY", () => {
+    it("should always use the last calendar day", () => {
+      expect(resolveDueDate({ dueDay: 31, dueDayRule: "LAST_DAY" }, 2024, 2)).toEqual(
+        new Date(2024, 1, 29)
+      );
+      expect(resolveDueDate({ dueDay: 31, dueDayRule: "LAST_DAY" }, 2024, 12)).toEqual(
+        new Date(2024, 11, 31)
+      );
+    });
+  });
+
+  describe("NTH_BUSINESS_DAY", () => {
+    it("should skip weekends", () => {
+      // 2024-06-01 is a Saturday, so the first business day is Monday the 3rd
+      expect(resolveDueDate({ dueDay: 1, dueDayRule: "NTH_BUSINESS_DAY" }, 2024, 6)).toEqual(
+        new Date(2024, 5, 3)
+      );
+      expect(resolveDueDate({ dueDay: 5, dueDayRule: "NTH_BUSINESS_DAY" }, 2024, 6)).toEqual(
+        new Date(2024, 5, 7)
+      );
+    });
+
+    it("should skip holidays when a business day predicate is given", () => {
+      // 2024-01-01 is a holiday, so the first business day is the 2nd
+      expect(
+        resolveDueDate({ dueDay: 1, dueDayRule: "NTH_BUSINESS_DAY" }, 2024, 1, isColombianBusinessDay)
+      ).toEqual(new Date(2024, 0, 2));
+    });
+
+    it("should fall back to the last business day when N is too large", () => {
+      // 2024-06-30 is a Sunday, the last business day is Friday the 28th
+      expect(resolveDueDate({ dueDay: 23, dueDayRule: "NTH_BUSINESS_DAY" }, 2024, 6)).toEqual(
+        new Date(2024, 5, 28)
+      );
+    });
+  });
+});
+
+describe("adjustToBusinessDay", () => {
+  it("should leave dates untouched with the NONE policy", () => {
+    const saturday = new Date(2024, 5, 1);
+    expect(adjustToBusinessDay(saturday, "NONE", isColombianBusinessDay)).toEqual(saturday);
+  });
+
+  it("should leave business days untouched", () => {
+    const tuesday = new Date(2024, 5, 4);
+    expect(adjustToBusinessDay(tuesday, "NEXT_BUSINESS_DAY", isColombianBusinessDay)).toEqual(
+      tuesday
+    );
+  });
+
+  it("should move weekends to the next business day", () => {
+    // 2024-06-15 is a Saturday, Monday the 17th is a regular business day
+    expect(
+      adjustToBusinessDay(new Date(2024, 5, 15), "NEXT_BUSINESS_DAY", isColombianBusinessDay)
+    ).toEqual(new Date(2024, 5, 17));
+  });
+
+  it("should skip Emiliani Monday holidays", () => {
+    // Saturday 2024-08-17, Monday the 19th is La Asunción
+    expect(
+      adjustToBusinessDay(new Date(2024, 7, 17), "NEXT_BUSINESS_DAY", isColombianBusinessDay)
+    ).toEqual(new Date(2024, 7, 20));
+  });
+
+  it("should skip Holy Week when moving backwards", () => {
+    // 2024-03-29 is Good Friday, the 28th is Holy Thursday
+    expect(
+      adjustToBusinessDay(new Date(2024, 2, 29), "PREVIOUS_BUSINESS_DAY", isColombianBusinessDay)
+    ).toEqual(new Date(2024, 2, 27));
+  });
+
+  it("should stay in the same month at month end", () => {
+    // 2024-08-31 is a Saturday; the next business day is in September
+    expect(
+      adjustToBusinessDay(new Date(2024, 7, 31), "NEXT_BUSINESS_DAY", isColombianBusinessDay)
+    ).toEqual(new Date(2024, 7, 30));
+  });
+
+  it("should stay in the same month at month start", () => {
+    // 2024-06-01 is a Saturday; the previous business day is in May and
+    // Monday the 3rd is Corpus Christi
+    expect(
+      adjustToBusinessDay(new Date(2024, 5, 1), "PREVIOUS_BUSINESS_DAY", isColombianBusinessDay)
+    ).toEqual(new Date(2024, 5, 4));
+  });
+});
@@ -0,0 +1,98 @@
+import { Bill, BusinessDayPolicy } from '@prisma/client';
+
+export type DueDayConfig = Pick<Bill, 'dueDay' | 'dueDayRule'>;
+
+export type BusinessDayPredicate = (date: Date) => boolean;
+
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(year, month, 0).getDate();
+};
+
+export const isWeekend = (date: Date): boolean => {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+};
+
+const isWeekday: BusinessDayPredicate = (date) => !isWeekend(date);
+
+const getNthBusinessDay = (
+  year: number,
+  month: number,
+  n: number,
+  isBusinessDay: BusinessDayPredicate
+): Date => {
+  const daysInMonth = getDaysInMonth(year, month);
+  let lastBusinessDay = new Date(year, month - 1, daysInMonth);
+  let count = 0;
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(year, month - 1, day);
+    if (!isBusinessDay(date)) {
+      continue;
+    }
+    count++;
+    lastBusinessDay = date;
+    if (count === n) {
+      return date;
+    }
+  }
+
+  // Months with fewer business days than requested use the last one
+  return lastBusinessDay;
+};
+
+export const resolveDueDate = (
+  config: DueDayConfig,
+  year: number,
+  month: number,
+  isBusinessDay: BusinessDayPredicate = isWeekday
+): Date => {
+  const daysInMonth = getDaysInMonth(year, month);
+
+  switch (config.dueDayRule) {
+    case 'LAST_DAY':
+      return new Date(year, month - 1, daysInMonth);
+    case 'NTH_BUSINESS_DAY':
+      return getNthBusinessDay(year, month, Math.max(config.dueDay, 1), isBusinessDay);
+    case 'DAY_OF_MONTH':
+      // Day 31 in February must stay in February, not roll into March
+      return new Date(year, month - 1, Math.min(config.dueDay, daysInMonth));
+  }
+};
+
+const shiftToBusinessDay = (
+  date: Date,
+  step: 1 | -1,
+  isBusinessDay: BusinessDayPredicate
+): Date => {
+  let shifted = date;
+  while (!isBusinessDay(shifted)) {
+    shifted = new Date(shifted.getFullYear(), shifted.getMonth(), shifted.getDate() + step);
+  }
+  return shifted;
+};
+
+/**
+ * Moves a due date off weekends and holidays. The shift never leaves the
+ * month: when the next business day falls in the following month the
+ * previous one is used instead (and vice versa), so every payment stays
+ * in the month it belongs to.
+ */
+export const adjustToBusinessDay = (
+  date: Date,
+  policy: BusinessDayPolicy,
+  isBusinessDay: BusinessDayPredicate = isWeekday
+): Date => {
+  if (policy === 'NONE' || isBusinessDay(date)) {
+    return date;
+  }
+
+  const step = policy === 'NEXT_BUSINESS_DAY' ? 1 : -1;
+  const shifted = shiftToBusinessDay(date, step, isBusinessDay);
+  if (shifted.getMonth() === date.getMonth()) {
+    return shifted;
+  }
+
+  const fallback = shiftToBusinessDay(date, step === 1 ? -1 : 1, isBusinessDay);
+  return fallback.getMonth() === date.getMonth() ? fallback : date;
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { estimateAmount, EstimationConfig } from "./estimation.js";
+
+const entry = (amount: number, year: number, month: number) => ({
+  amount,
+  dueDate: new Date(year, month - 1, 10),
+});
+
+const config = (overrides: Partial<EstimationConfig>): EstimationConfig => ({
+  amount: 100000,
+  currency: "COP",
+  estimationMode: "FIXED",
+  estimationWindow: 3,
+  ...overrides,
+});
+
+const history = [
+  entry(120000, 2024, 1),
+  entry(90000, 2024, 2),
+  entry(150000, 2024, 3),
+  entry(180000, 2024, 4),
+];
+
+describe("estimateAmount", () => {
+  describe("FIXED", () => {
+    it("should always return the bill amount", () => {
+      expect(estimateAmount(config({}), history, 2024, 5)).toBe(100000);
+    });
+  });
+
+  describe("AVERAGE", () => {
+    it("should average the most recent N payments", () => {
+      const result = estimateAmount(config({ estimationMode: "AVERAGE" }), history, 2024, 5);
+      expect(result).toBe(140000);
+    });
+
+    it("should use the available payments when history is shorter than N", () => {
+      const result = estimateAmount(
+        config({ estimationMode: "AVERAGE", estimationWindow: 6 }),
+        history.slice(0, 2),
+        2024,
+        3
+      );
+      expect(result).toBe(105000);
+    });
+
+    it("should fall back to the bill amount without history", () => {
+      expect(estimateAmount(config({ estimationMode: "AVERAGE" }), [], 2024, 5)).toBe(100000);
+    });
+
+    it("should not depend on the order of the history", () => {
+      const result = estimateAmount(
+        config({ estimationMode: "AVERAGE" }),
+        [...history].reverse(),
+        2024,
+        5
+      );
+      expect(result).toBe(140000);
+    });
+  });
+
+  describe("WEIGHTED_TREND", () => {
+    it("should weigh recent payments more", () => {
+      // (180000 * 3 + 150000 * 2 + 90000 * 1) / 6
+      const result = estimateAmount(
+        config({ estimationMode: "WEIGHTED_TREND" }),
+        history,
+        2024,
+        5
+      );
+      expect(result).toBe(155000);
+    });
+
+    it("should fall back to the bill amount without history", () => {
+      expect(estimateAmount(config({ estimationMode: "WEIGHTED_TREND" }), [], 2024, 5)).toBe(
+        100000
+      );
+    });
+  });
+
+  describe("SAME_MONTH_LAST_YEAR", () => {
+    it("should use the payment of the same month one year earlier", () => {
+      const result = estimateAmount(
+        config({ estimationMode: "SAME_MONTH_LAST_YEAR" }),
+        history,
+        2025,
+        3
+      );
+      expect(result).toBe(150000);
+    });
+
+    it("should fall back to the bill amount when that month is missing", () => {
+      const result = estimateAmount(
+        config({ estimationMode: "SAME_MONTH_LAST_YEAR" }),
+        history,
+        2025,
+        8
+      );
+      expect(result).toBe(100000);
+    });
+  });
+
+  it("should round estimates to whole minor units", () => {
+    const result = estimateAmount(
+      config({ estimationMode: "AVERAGE" }),
+      [entry(1000, 2024, 1), entry(1000, 2024, 2), entry(1001, 2024, 3)],
+      2024,
+      4
+    );
+    expect(result).toBe(1000);
+  });
+
+  it("should round half to even for dollars", () => {
+    const result = estimateAmount(
+      config({ estimationMode: "AVERAGE", currency: "USD" }),
+      [entry(1000, 2024, 1), entry(1001, 2024, 2)],
+      2024,
+      3
+    );
+    expect(result).toBe(1000);
+  });
+
+  it("should round half up for pesos", () => {
+    const result = estimateAmount(
+      config({ estimationMode: "AVERAGE" }),
+      [entry(1000, 2024, 1), entry(1001, 2024, 2)],
+      2024,
+      3
+    );
+    expect(result).toBe(1001);
+  });
+});
@@ -0,0 +1,65 @@
+import { Bill, Payment } from '@prisma/client';
+import { roundMinorUnits } from './money.js';
+
+export type EstimationConfig = Pick<
+  Bill,
+  'amount' | 'currency' | 'estimationMode' | 'estimationWindow'
+>;
+
+export type PaidHistoryEntry = Pick<Payment, 'amount' | 'dueDate'>;
+
+
+const getRecent = (history: PaidHistoryEntry[], count: number): PaidHistoryEntry[] =>
+  [...history]
+    .sort((a, b) => b.dueDate.getTime() - a.dueDate.getTime())
+    .slice(0, Math.max(count, 1));
+
+const average = (entries: PaidHistoryEntry[]): number =>
+  entries.reduce((sum, entry) => sum + entry.amount, 0) / entries.length;
+
+// Most recent payment weighs N, the oldest one weighs 1
+const weightedAverage = (entries: PaidHistoryEntry[]): number => {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  entries.forEach((entry, index) => {
+    const weight = entries.length - index;
+    weightedSum += entry.amount * weight;
+    totalWeight += weight;
+  });
+  return weightedSum / totalWeight;
+};
+
+/**
+ * Estimates the amount of a bill for the given month from its paid history.
+ * Falls back to the bill amount when there is no usable history. Only
+ * payments due before the target month, in the bill's currency, should be
+ * passed in. Averages are rounded with the rules of the bill's currency.
+ */
+export const estimateAmount = (
+  config: EstimationConfig,
+  history: PaidHistoryEntry[],
+  year: number,
+  month: number
+): number => {
+  const roundAmount = (value: number): number => roundMinorUnits(value, config.currency);
+
+  switch (config.estimationMode) {
+    case 'FIXED':
+      return config.amount;
+    case 'AVERAGE': {
+      const recent = getRecent(history, config.estimationWindow);
+      return recent.length > 0 ? roundAmount(average(recent)) : config.amount;
+    }
+    case 'WEIGHTED_TREND': {
+      const recent = getRecent(history, config.estimationWindow);
+      return recent.length > 0 ? roundAmount(weightedAverage(recent)) : config.amount;
+    }
+    case 'SAME_MONTH_LAST_YEAR': {
+      const lastYear = history.filter(
+        (entry) =>
+          entry.dueDate.getFullYear() === year - 1 && entry.dueDate.getMonth() === month - 1
+      );
+      return lastYear.length > 0 ? roundAmount(average(lastYear)) : config.amount;
+    }
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseExchangeRatesCsv,
+  findExchangeRate,
+  convertMoney,
+  createCurrencyConverter,
+} from "./exchange.js";
+import { money } from "./money.js";
+
+const rate = (date: string, baseCurrency: string, quoteCurrency: string, value: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return { date: new Date(year, month - 1, day), baseCurrency, quoteCurrency, rate: value };
+};
+
+describe("parseExchangeRatesCsv", () => {
+  it("should parse rates after the header", () => {
+    const rates = parseExchangeRatesCsv(
+      "date,base,quote,rate\n2024-03-01,usd,COP,3950.25\r\n\n2024-03-02,EUR,COP,4300\n"
+    );
+    expect(rates).toEqual([
+      rate("2024-03-01", "USD", "COP", 3950.25),
+      rate("2024-03-02", "EUR", "COP", 4300),
+    ]);
+  });
+
+  it("should require the header", () => {
+    expect(() => parseExchangeRatesCsv("2024-03-01,USD,COP,3950")).toThrow(/header/);
+  });
+
+  it("should report the line of invalid rows", () => {
+    expect(() => parseExchangeRatesCsv("date,base,quote,rate\n2024-03-01,USD,COP,-1")).toThrow(
+      /Line 2: rate must be a positive number/
+    );
+    expect(() => parseExchangeRatesCsv("date,base,quote,rate\n03/01/2024,USD,COP,1")).toThrow(
+      /Line 2: invalid date/
+    );
+    expect(() => parseExchangeRatesCsv("date,base,quote,rate\n2024-03-01,XYZ,COP,1")).toThrow(
+      /Line 2: Unsupported currency/
+    );
+  });
+});
+
+describe("findExchangeRate", () => {
+  const rates = [
+    rate("2024-01-01", "USD", "COP", 3900),
+    rate("2024-02-01", "USD", "COP", 4000),
+    rate("2024-02-01", "EUR", "COP", 4400),
+  ];
+
+  it("should return 1 for the same currency", () => {
+    expect(findExchangeRate([], "COP", "COP", new Date())).toBe(1);
+  });
+
+  it("should use the latest rate on or before the date", () => {
+    expect(findExchangeRate(rates, "USD", "COP", new Date(2024, 0, 20))).toBe(3900);
+    expect(findExchangeRate(rates, "USD", "COP", new Date(2024, 1, 1))).toBe(4000);
+  });
+
+  it("should fall back to the oldest rate for earlier dates", () => {
+    expect(findExchangeRate(rates, "USD", "COP", new Date(2023, 5, 1))).toBe(3900);
+  });
+
+  it("should invert rates", () => {
+    expect(findExchangeRate(rates, "COP", "USD", new Date(2024, 1, 15))).toBe(1 / 4000);
+  });
+
+  it("should convert through the default currency", () => {
+    expect(findExchangeRate(rates, "USD", "EUR", new Date(2024, 1, 15))).toBeCloseTo(4000 / 4400);
+  });
+
+  it("should fail without a rate", () => {
+    expect(() => findExchangeRate([], "USD", "COP", new Date())).toThrow(/No exchange rate/);
+  });
+});
+
+describe("convertMoney", () => {
+  it("should convert between minor units of both currencies", () => {
+    // USD 10.50 at 3950.25 COP is 41477.625 pesos
+    expect(convertMoney(money(1050, "USD"), "COP", 3950.25)).toEqual(money(41478, "COP"));
+  });
+
+  it("should round with the rule of the target currency", () => {
+    // 41478 pesos / 4000 is USD 10.3695
+    expect(convertMoney(money(41478, "COP"), "USD", 1 / 4000)).toEqual(money(1037, "USD"));
+  });
+
+  it("should keep amounts already in the target currency", () => {
+    expect(convertMoney(money(100, "COP"), "COP", 2)).toEqual(money(100, "COP"));
+  });
+});
+
+describe("createCurrencyConverter", () => {
+  it("should convert with the rate of the given date", () => {
+    const convert = createCurrencyConverter([
+      rate("2024-01-01", "USD", "COP", 3900),
+      rate("2024-02-01", "USD", "COP", 4000),
+    ]);
+    expect(convert(money(100, "USD"), "COP", new Date(2024, 0, 15))).toEqual(money(3900, "COP"));
+    expect(convert(money(100, "USD"), "COP", new Date(2024, 1, 15))).toEqual(money(4000, "COP"));
+  });
+});
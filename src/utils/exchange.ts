@@ -0,0 +1,125 @@
+import { CurrencyCode, DEFAULT_CURRENCY, Money, getCurrencyRule, money, roundMinorUnits } from './money.js';
+import { parseCsv } from './csv.js';
+import { parseDateKey } from './holidays.js';
+
+// One unit of baseCurrency is worth `rate` units of quoteCurrency on `date`
+export interface ExchangeRateEntry {
+  date: Date;
+  baseCurrency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+}
+
+export type CurrencyConverter = (value: Money, currency: CurrencyCode, date: Date) => Money;
+
+const CSV_HEADER = ['date', 'base', 'quote', 'rate'];
+
+/**
+ * Parses a CSV of exchange rates with the columns date (YYYY-MM-DD), base,
+ * quote and rate, e.g. `2024-03-01,USD,COP,3950.25`. The header row is
+ * required so files exported from spreadsheets are recognized.
+ */
+export const parseExchangeRatesCsv = (content: string): ExchangeRateEntry[] => {
+  const { header, records } = parseCsv(content);
+  if (header.join(',') !== CSV_HEADER.join(',')) {
+    throw new Error(`Exchange rate file must start with the header "${CSV_HEADER.join(',')}"`);
+  }
+
+  return records.map(({ line, values }) => {
+    const date = parseDateKey(values.date);
+    if (!date) {
+      throw new Error(`Line ${line}: invalid date "${values.date}", use YYYY-MM-DD`);
+    }
+    const rate = Number(values.rate);
+    if (values.rate === '' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Line ${line}: rate must be a positive number`);
+    }
+
+    try {
+      return {
+        date,
+        baseCurrency: getCurrencyRule(values.base).code,
+        quoteCurrency: getCurrencyRule(values.quote).code,
+        rate,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Line ${line}: ${message}`);
+    }
+  });
+};
+
+// Direct and inverted rates for a currency pair
+const getPairRates = (
+  rates: ExchangeRateEntry[],
+  from: CurrencyCode,
+  to: CurrencyCode
+): Array<{ date: Date; rate: number }> =>
+  rates.flatMap((entry) => {
+    if (entry.baseCurrency === from && entry.quoteCurrency === to) {
+      return [{ date: entry.date, rate: entry.rate }];
+    }
+    if (entry.baseCurrency === to && entry.quoteCurrency === from) {
+      return [{ date: entry.date, rate: 1 / entry.rate }];
+    }
+    return [];
+  });
+
+// Latest rate on or before the date, or the oldest one for earlier dates
+const pickRate = (candidates: Array<{ date: Date; rate: number }>, date: Date): number | null => {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const sorted = [...candidates].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const onOrBefore = sorted.filter((candidate) => candidate.date <= date);
+  return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1].rate : sorted[0].rate;
+};
+
+/**
+ * Finds the rate to convert between two currencies on a date. Pairs without
+ * a rate of their own are converted through the default currency, so
+ * loading USD/COP and EUR/COP is enough to convert USD to EUR.
+ */
+export const findExchangeRate = (
+  rates: ExchangeRateEntry[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: Date
+): number => {
+  if (from === to) {
+    return 1;
+  }
+
+  const direct = pickRate(getPairRates(rates, from, to), date);
+  if (direct !== null) {
+    return direct;
+  }
+
+  if (from !== DEFAULT_CURRENCY && to !== DEFAULT_CURRENCY) {
+    const toPivot = pickRate(getPairRates(rates, from, DEFAULT_CURRENCY), date);
+    const fromPivot = pickRate(getPairRates(rates, DEFAULT_CURRENCY, to), date);
+    if (toPivot !== null && fromPivot !== null) {
+      return toPivot * fromPivot;
+    }
+  }
+
+  throw new Error(`No exchange rate from ${from} to ${to}. Import one with "rates:import"`);
+};
+
+// Converts with the rounding rule of the target currency
+export const convertMoney = (value: Money, currency: CurrencyCode, rate: number): Money => {
+  const from = getCurrencyRule(value.currency);
+  const to = getCurrencyRule(currency);
+  if (from.code === to.code) {
+    return value;
+  }
+
+  const major = value.amount / 10 ** from.exponent;
+  return money(roundMinorUnits(major * rate * 10 ** to.exponent, to.code), to.code);
+};
+
+export const createCurrencyConverter = (rates: ExchangeRateEntry[]): CurrencyConverter => {
+  return (value, currency, date) =>
+    convertMoney(value, currency, findExchangeRate(rates, value.currency, currency, date));
+};
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { Bill, Payment, PaymentTransaction } from "@prisma/client";
+import { PaymentWithBill } from "../services/paymentService.js";
+import { CurrencyConverter } from "./exchange.js";
+import { buildCashFlowForecast, getForecastPeriods } from "./forecast.js";
+import { money } from "./money.js";
+
+const bill = (overrides: Partial<Bill>) =>
+  ({
+    amount: 1000000,
+    currency: "COP",
+    type: "RENT",
+    frequency: "MONTHLY",
+    estimationMode: "FIXED",
+    estimationWindow: 3,
+    ...overrides,
+  }) as Bill;
+
+const rent = bill({ id: "rent", name: "Rent" });
+const water = bill({
+  id: "water",
+  name: "Water",
+  type: "WATER",
+  amount: 80000,
+  estimationMode: "AVERAGE",
+});
+const cleaning = bill({
+  id: "cleaning",
+  name: "Cleaning",
+  type: "OTHER",
+  amount: 5000,
+  currency: "USD",
+  frequency: "WEEKLY",
+});
+
+const payment = (
+  owner: Bill,
+  overrides: Partial<Payment>,
+  transactions: Partial<PaymentTransaction>[] = []
+) =>
+  ({
+    id: `${owner.id}-${overrides.dueDate?.getMonth()}`,
+    billId: owner.id,
+    amount: owner.amount,
+    currency: owner.currency,
+    status: "PENDING",
+    isEstimated: false,
+    ...overrides,
+    bill: owner,
+    transactions,
+  }) as PaymentWithBill;
+
+// 1 USD = 4000 COP
+const convert: CurrencyConverter = (value, currency) =>
+  value.currency === currency ? value : money((value.amount / 100) * 4000, currency);
+
+// Rent and water on the 10th, cleaning every other Monday of October 2026
+const getDueDates = (owner: Bill, year: number, month: number) =>
+  owner.frequency === "WEEKLY"
+    ? month === 10
+      ? [new Date(year, 9, 5), new Date(year, 9, 19)]
+      : []
+    : [new Date(year, month - 1, 10)];
+
+describe("getForecastPeriods", () => {
+  it("should count months forward across the year boundary", () => {
+    expect(getForecastPeriods(2026, 11, 3)).toEqual([
+      { year: 2026, month: 11 },
+      { year: 2026, month: 12 },
+      { year: 2027, month: 1 },
+    ]);
+  });
+});
+
+describe("buildCashFlowForecast", () => {
+  const periods = getForecastPeriods(2026, 10, 2);
+  const forecast = buildCashFlowForecast(
+    periods,
+    [
+      { bill: rent, history: [] },
+      {
+        bill: water,
+        history: [
+          { amount: 90000, dueDate: new Date(2026, 8, 10) },
+          { amount: 60000, dueDate: new Date(2026, 7, 10) },
+        ],
+      },
+      { bill: cleaning, history: [] },
+    ],
+    [
+      // Half of September's rent is still open
+      payment(rent, { dueDate: new Date(2026, 8, 10), status: "OVERDUE" }, [
+        { amount: 500000 },
+      ]),
+      // October's rent is already paid, the first cleaning is generated
+      payment(rent, { dueDate: new Date(2026, 9, 10), status: "PAID" }, [{ amount: 1000000 }]),
+      payment(cleaning, { dueDate: new Date(2026, 9, 5) }),
+    ],
+    "COP",
+    convert,
+    getDueDates
+  );
+  const [october, november] = forecast.months;
+
+  it("should carry over unpaid balances due before the first month", () => {
+    expect(forecast.carriedOver).toEqual(money(500000));
+    expect(forecast.carriedOverItems.map((item) => item.paymentId)).toEqual(["rent-8"]);
+  });
+
+  it("should project bills without a payment and skip the ones already paid", () => {
+    expect(october.items.map((item) => [item.bill, item.paymentId])).toEqual([
+      ["Cleaning", "cleaning-9"],
+      ["Water", null],
+      ["Cleaning", null],
+    ]);
+    expect(november.items.map((item) => item.bill)).toEqual(["Rent", "Water"]);
+  });
+
+  it("should estimate amounts from the paid history", () => {
+    const projectedWater = october.items.find((item) => item.bill === "Water");
+    expect(projectedWater?.amount).toEqual(money(75000));
+    expect(projectedWater?.isEstimated).toBe(true);
+    expect(november.estimated).toEqual(money(75000));
+  });
+
+  it("should total every month and add up the cumulative amount", () => {
+    expect(october.total).toEqual(money(475000));
+    expect(october.cumulative).toEqual(money(975000));
+    expect(november.total).toEqual(money(1075000));
+    expect(november.cumulative).toEqual(money(2050000));
+    expect(forecast.total).toEqual(november.cumulative);
+  });
+
+  it("should list the largest due dates first", () => {
+    expect(forecast.largestDueDates.map((dueDate) => dueDate.total)).toEqual([
+      money(1075000),
+      money(200000),
+      money(200000),
+      money(75000),
+    ]);
+    expect(forecast.largestDueDates[0].items.map((item) => item.bill)).toEqual(["Rent", "Water"]);
+    expect(forecast.largestDueDates[1].date).toEqual(new Date(2026, 9, 5));
+  });
+});
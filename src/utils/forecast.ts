@@ -0,0 +1,193 @@
+import { Bill, BillType } from '@prisma/client';
+import { PaymentWithBill } from '../services/paymentService.js';
+import { getOutstandingAmount } from './balance.js';
+import { PaidHistoryEntry, estimateAmount } from './estimation.js';
+import { CurrencyConverter } from './exchange.js';
+import { formatMonth } from './formatters.js';
+import { toDateKey } from './holidays.js';
+import { CurrencyCode, Money, addMoney, money, zeroMoney } from './money.js';
+import { MonthPeriod } from './report.js';
+
+// Projection of what is still to pay in the coming months, for `forecast`
+
+export const DEFAULT_FORECAST_MONTHS = 6;
+export const MAX_FORECAST_MONTHS = 24;
+export const LARGEST_DUE_DATES = 5;
+
+export interface ForecastItem {
+  paymentId: string | null; // Null when the payment has not been generated yet
+  billId: string;
+  bill: string;
+  billType: BillType;
+  dueDate: Date;
+  amount: Money; // Still to pay, in the bill's currency
+  converted: Money; // In the forecast currency
+  isEstimated: boolean;
+}
+
+export interface ForecastMonth extends MonthPeriod {
+  monthLabel: string;
+  total: Money;
+  estimated: Money; // Part of the total that is estimated
+  cumulative: Money; // Carried over balance plus this month and the ones before
+  items: ForecastItem[]; // By due date
+}
+
+export interface DueDateTotal {
+  date: Date;
+  total: Money;
+  items: ForecastItem[];
+}
+
+export interface CashFlowForecast {
+  currency: CurrencyCode;
+  carriedOver: Money; // Unpaid balances due before the first month
+  carriedOverItems: ForecastItem[];
+  months: ForecastMonth[];
+  total: Money; // Carried over balance plus every month
+  largestDueDates: DueDateTotal[]; // Up to LARGEST_DUE_DATES, largest first
+}
+
+// An active bill with its paid payments, most recent first, for estimates
+export interface ForecastBill {
+  bill: Bill;
+  history: PaidHistoryEntry[];
+}
+
+// The month and the ones after it
+export const getForecastPeriods = (year: number, month: number, count: number): MonthPeriod[] =>
+  Array.from({ length: count }, (_, index) => {
+    const date = new Date(year, month - 1 + index, 1);
+    return { year: date.getFullYear(), month: date.getMonth() + 1 };
+  });
+
+const isSamePeriod = (date: Date, period: MonthPeriod): boolean =>
+  date.getFullYear() === period.year && date.getMonth() + 1 === period.month;
+
+const byDueDate = (a: ForecastItem, b: ForecastItem): number =>
+  a.dueDate.getTime() - b.dueDate.getTime() || a.bill.localeCompare(b.bill);
+
+const sumConverted = (items: ForecastItem[], currency: CurrencyCode): Money =>
+  items.reduce((total, item) => addMoney(total, item.converted), zeroMoney(currency));
+
+/**
+ * Projects the outstanding balance of existing payments plus the occurrences
+ * of active bills that have no payment yet. Occurrences are matched with
+ * payments like `generateMonthlyPayments` does: by day for weekly bills, by
+ * month for the rest. `payments` are the payments due in the forecast months
+ * and the unpaid ones due before them; `getDueDates` gives a bill's due dates
+ * in a month after business-day adjustments.
+ */
+export const buildCashFlowForecast = (
+  periods: MonthPeriod[],
+  bills: ForecastBill[],
+  payments: PaymentWithBill[],
+  currency: CurrencyCode,
+  convert: CurrencyConverter,
+  getDueDates: (bill: Bill, year: number, month: number) => Date[]
+): CashFlowForecast => {
+  const start = new Date(periods[0].year, periods[0].month - 1, 1);
+  const toItem = (
+    bill: Bill,
+    amount: Money,
+    dueDate: Date,
+    isEstimated: boolean,
+    paymentId: string | null
+  ): ForecastItem => ({
+    paymentId,
+    billId: bill.id,
+    bill: bill.name,
+    billType: bill.type,
+    dueDate,
+    amount,
+    converted: convert(amount, currency, dueDate),
+    isEstimated,
+  });
+
+  const unpaid = payments
+    .map((payment) => ({
+      payment,
+      outstanding: getOutstandingAmount(payment.amount, payment.transactions),
+    }))
+    .filter(({ outstanding }) => outstanding > 0)
+    .map(({ payment, outstanding }) =>
+      toItem(
+        payment.bill,
+        money(outstanding, payment.currency),
+        payment.dueDate,
+        payment.isEstimated,
+        payment.id
+      )
+    );
+  const carriedOverItems = unpaid.filter((item) => item.dueDate < start).sort(byDueDate);
+  const carriedOver = sumConverted(carriedOverItems, currency);
+
+  let cumulative = carriedOver;
+  const months = periods.map((period): ForecastMonth => {
+    const existing = payments.filter((payment) => isSamePeriod(payment.dueDate, period));
+    const projected = bills.flatMap(({ bill, history }) => {
+      const dueDates = getDueDates(bill, period.year, period.month).filter(
+        (dueDate) =>
+          !existing.some(
+            (payment) =>
+              payment.billId === bill.id &&
+              (bill.frequency !== 'WEEKLY' || toDateKey(payment.dueDate) === toDateKey(dueDate))
+          )
+      );
+      if (dueDates.length === 0) {
+        return [];
+      }
+      const isEstimated = bill.estimationMode !== 'FIXED';
+      const amount = money(
+        estimateAmount(bill, history, period.year, period.month),
+        bill.currency
+      );
+      return dueDates.map((dueDate) => toItem(bill, amount, dueDate, isEstimated, null));
+    });
+
+    const items = [
+      ...unpaid.filter((item) => isSamePeriod(item.dueDate, period)),
+      ...projected,
+    ].sort(byDueDate);
+    const total = sumConverted(items, currency);
+    cumulative = addMoney(cumulative, total);
+
+    return {
+      ...period,
+      monthLabel: formatMonth(new Date(period.year, period.month - 1)),
+      total,
+      estimated: sumConverted(
+        items.filter((item) => item.isEstimated),
+        currency
+      ),
+      cumulative,
+      items,
+    };
+  });
+
+  const dueDates = new Map<string, DueDateTotal>();
+  months
+    .flatMap((month) => month.items)
+    .forEach((item) => {
+      const key = toDateKey(item.dueDate);
+      const dueDate = dueDates.get(key) ?? {
+        date: item.dueDate,
+        total: zeroMoney(currency),
+        items: [],
+      };
+      dueDate.total = addMoney(dueDate.total, item.converted);
+      dueDate.items.push(item);
+      dueDates.set(key, dueDate);
+    });
+
+  return {
+    currency,
+    carriedOver,
+    carriedOverItems,
+    months,
+    total: cumulative,
+    largestDueDates: [...dueDates.values()]
+      .sort((a, b) => b.total.amount - a.total.amount || a.date.getTime() - b.date.getTime())
+      .slice(0, LARGEST_DUE_DATES),
+  };
+};
@@ -7,6 +7,9 @@ import {
   formatMonth,
   formatBillType,
   formatPaymentStatus,
+  formatRecurrence,
+  formatDueDay,
+  formatEstimationMode,
 } from "./formatters.js";
 
 describe("formatCurrency", () => {
@@ -444,6 +447,12 @@ describe("formatPaymentStatus", () => {
       const expected = chalk.red("✗ Overdue");
       expect(result).toBe(expected);
     });
+
+    it("should use chalk.blue for PARTIALLY_PAID status", () => {
+      const result = formatPaymentStatus(PaymentStatus.PARTIALLY_PAID);
+      const expected = chalk.blue("◐ Partially Paid");
+      expect(result).toBe(expected);
+    });
   });
 
   describe("visual indicators", () => {
@@ -506,3 +515,76 @@ describe("formatPaymentStatus", () => {
     });
   });
 });
+
+describe("formatRecurrence", () => {
+  it("should label single-interval frequencies", () => {
+    expect(formatRecurrence({ frequency: "WEEKLY", interval: 1, monthOfYear: null })).toBe("Weekly");
+    expect(formatRecurrence({ frequency: "MONTHLY", interval: 1, monthOfYear: null })).toBe("Monthly");
+    expect(formatRecurrence({ frequency: "YEARLY", interval: 1, monthOfYear: null })).toBe("Yearly");
+  });
+
+  it("should describe multi-interval frequencies", () => {
+    expect(formatRecurrence({ frequency: "MONTHLY", interval: 2, monthOfYear: null })).toBe(
+      "Every 2 months"
+    );
+    expect(formatRecurrence({ frequency: "WEEKLY", interval: 2, monthOfYear: null })).toBe(
+      "Every 2 weeks"
+    );
+  });
+
+  it("should include the month name for yearly bills", () => {
+    const result = formatRecurrence({ frequency: "YEARLY", interval: 1, monthOfYear: 3 });
+    expect(result).toMatch(/^Yearly \(marzo\)$/i);
+  });
+});
+
+describe("formatDueDay", () => {
+  const bill = {
+    dueDay: 15,
+    dueDayRule: "DAY_OF_MONTH" as const,
+    frequency: "MONTHLY" as const,
+    anchorDate: null,
+    createdAt: new Date(2024, 0, 1),
+  };
+
+  it("should show the plain day for day-of-month rules", () => {
+    expect(formatDueDay(bill)).toBe("15");
+  });
+
+  it("should describe last-day rules", () => {
+    expect(formatDueDay({ ...bill, dueDayRule: "LAST_DAY" })).toBe("Last day");
+  });
+
+  it("should describe business-day rules with ordinals", () => {
+    expect(formatDueDay({ ...bill, dueDayRule: "NTH_BUSINESS_DAY", dueDay: 1 })).toBe(
+      "1st business day"
+    );
+    expect(formatDueDay({ ...bill, dueDayRule: "NTH_BUSINESS_DAY", dueDay: 3 })).toBe(
+      "3rd business day"
+    );
+    expect(formatDueDay({ ...bill, dueDayRule: "NTH_BUSINESS_DAY", dueDay: 11 })).toBe(
+      "11th business day"
+    );
+  });
+
+  it("should show the weekday for weekly bills", () => {
+    // 2024-03-01 is a Friday
+    const weekly = { ...bill, frequency: "WEEKLY" as const, anchorDate: new Date(2024, 2, 1) };
+    expect(formatDueDay(weekly)).toMatch(/^viernes$/i);
+  });
+});
+
+describe("formatEstimationMode", () => {
+  it("should describe every estimation mode", () => {
+    expect(formatEstimationMode({ estimationMode: "FIXED", estimationWindow: 3 })).toBe("Fixed");
+    expect(formatEstimationMode({ estimationMode: "AVERAGE", estimationWindow: 3 })).toBe(
+      "Average of last 3"
+    );
+    expect(
+      formatEstimationMode({ estimationMode: "SAME_MONTH_LAST_YEAR", estimationWindow: 3 })
+    ).toBe("Same month last year");
+    expect(formatEstimationMode({ estimationMode: "WEIGHTED_TREND", estimationWindow: 6 })).toBe(
+      "Weighted trend of last 6"
+    );
+  });
+});
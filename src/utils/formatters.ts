@@ -1,11 +1,19 @@
 import chalk from "chalk";
-import { BillType, PaymentStatus } from "@prisma/client";
+import { Bill, BillType, BusinessDayPolicy, PaymentStatus } from "@prisma/client";
+import { DEFAULT_CURRENCY, Money, getCurrencyRule } from "./money.js";
+
+// Plain numbers are minor units of the default currency
+export const formatCurrency = (value: Money | number): string => {
+  const { amount, currency } =
+    typeof value === "number" ? { amount: value, currency: DEFAULT_CURRENCY } : value;
+  const { exponent } = getCurrencyRule(currency);
 
-export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat("es-CO", {
     style: "currency",
-    currency: "COP",
-  }).format(amount);
+    currency,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(amount / 10 ** exponent);
 };
 
 export const formatDate = (date: Date): string => {
@@ -33,11 +41,83 @@ export const formatPaymentStatus = (status: PaymentStatus): string => {
   const statusColors = {
     PAID: chalk.green("✓ Paid"),
     PENDING: chalk.yellow("○ Pending"),
+    PARTIALLY_PAID: chalk.blue("◐ Partially Paid"),
     OVERDUE: chalk.red("✗ Overdue"),
   };
   return statusColors[status];
 };
 
+export const formatRecurrence = (
+  rule: Pick<Bill, "frequency" | "interval" | "monthOfYear">
+): string => {
+  const units = { WEEKLY: "weeks", MONTHLY: "months", YEARLY: "years" };
+  const labels = { WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" };
+
+  const label =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${units[rule.frequency]}`
+      : labels[rule.frequency];
+
+  if (rule.frequency === "YEARLY" && rule.monthOfYear) {
+    const monthName = new Intl.DateTimeFormat("es-CO", { month: "long" }).format(
+      new Date(2000, rule.monthOfYear - 1, 1)
+    );
+    return `${label} (${monthName})`;
+  }
+
+  return label;
+};
+
+const formatOrdinal = (n: number): string => {
+  const suffixes: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : suffixes[n % 10] ?? "th";
+  return `${n}${suffix}`;
+};
+
+export const formatDueDay = (
+  bill: Pick<Bill, "dueDay" | "dueDayRule" | "frequency" | "anchorDate" | "createdAt">
+): string => {
+  if (bill.frequency === "WEEKLY") {
+    const weekday = new Intl.DateTimeFormat("es-CO", { weekday: "long" }).format(
+      bill.anchorDate ?? bill.createdAt
+    );
+    return weekday.charAt(0).toUpperCase() + weekday.slice(1);
+  }
+
+  switch (bill.dueDayRule) {
+    case "LAST_DAY":
+      return "Last day";
+    case "NTH_BUSINESS_DAY":
+      return `${formatOrdinal(bill.dueDay)} business day`;
+    case "DAY_OF_MONTH":
+      return bill.dueDay.toString();
+  }
+};
+
+export const formatBusinessDayPolicy = (policy: BusinessDayPolicy): string => {
+  const policyMap: Record<BusinessDayPolicy, string> = {
+    NONE: "No shift",
+    PREVIOUS_BUSINESS_DAY: "Previous business day",
+    NEXT_BUSINESS_DAY: "Next business day",
+  };
+  return policyMap[policy];
+};
+
+export const formatEstimationMode = (
+  bill: Pick<Bill, "estimationMode" | "estimationWindow">
+): string => {
+  switch (bill.estimationMode) {
+    case "FIXED":
+      return "Fixed";
+    case "AVERAGE":
+      return `Average of last ${bill.estimationWindow}`;
+    case "SAME_MONTH_LAST_YEAR":
+      return "Same month last year";
+    case "WEIGHTED_TREND":
+      return `Weighted trend of last ${bill.estimationWindow}`;
+  }
+};
+
 export const formatMonth = (date: Date): string => {
   return new Intl.DateTimeFormat("es-CO", {
     year: "numeric",
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEasterSunday,
+  moveToNextMonday,
+  getColombianHolidays,
+  colombianCalendar,
+  createFileCalendar,
+  validateHolidayFile,
+  combineCalendars,
+  isHoliday,
+  toDateKey,
+} from "./holidays.js";
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+
+describe("getEasterSunday", () => {
+  it("should compute known Easter dates", () => {
+    expect(toDateKey(getEasterSunday(2024))).toBe("2024-03-31");
+    expect(toDateKey(getEasterSunday(2025))).toBe("2025-04-20");
+    expect(toDateKey(getEasterSunday(2026))).toBe("2026-04-05");
+    expect(toDateKey(getEasterSunday(2038))).toBe("2038-04-25");
+  });
+});
+
+describe("moveToNextMonday", () => {
+  it("should keep Mondays as they are", () => {
+    expect(toDateKey(moveToNextMonday(new Date(2024, 0, 8)))).toBe("2024-01-08");
+  });
+
+  it("should move any other weekday to the following Monday", () => {
+    // 2024-01-06 is a Saturday
+    expect(toDateKey(moveToNextMonday(new Date(2024, 0, 6)))).toBe("2024-01-08");
+    // 2025-03-19 is a Wednesday
+    expect(toDateKey(moveToNextMonday(new Date(2025, 2, 19)))).toBe("2025-03-24");
+  });
+});
+
+describe("getColombianHolidays", () => {
+  it("should return the official 2024 holidays", () => {
+    expect(keys(getColombianHolidays(2024).map((h) => h.date))).toEqual([
+      "2024-01-01",
+      "2024-01-08",
+      "2024-03-25",
+      "2024-03-28",
+      "2024-03-29",
+      "2024-05-01",
+      "2024-05-13",
+      "2024-06-03",
+      "2024-06-10",
+      "2024-07-01",
+      "2024-07-20",
+      "2024-08-07",
+      "2024-08-19",
+      "2024-10-14",
+      "2024-11-04",
+      "2024-11-11",
+      "2024-12-08",
+      "2024-12-25",
+    ]);
+  });
+
+  it("should place Easter-based holidays relative to Easter", () => {
+    const holidays = getColombianHolidays(2025);
+    const byName = (name: string) =>
+      toDateKey(holidays.find((h) => h.name === name)!.date);
+
+    expect(byName("Jueves Santo")).toBe("2025-04-17");
+    expect(byName("Viernes Santo")).toBe("2025-04-18");
+    expect(byName("Ascensión del Señor")).toBe("2025-06-02");
+    expect(byName("Corpus Christi")).toBe("2025-06-23");
+    expect(byName("Sagrado Corazón de Jesús")).toBe("2025-06-30");
+  });
+
+  it("should not move fixed holidays", () => {
+    // 2025-07-20 is a Sunday and stays there
+    const holidays = getColombianHolidays(2025);
+    expect(keys(holidays.map((h) => h.date))).toContain("2025-07-20");
+  });
+});
+
+describe("createFileCalendar", () => {
+  const calendar = createFileCalendar({
+    name: "Family",
+    holidays: [
+      { name: "Nochebuena", month: 12, day: 24 },
+      { name: "Company day off", date: "2025-03-14" },
+    ],
+  });
+
+  it("should repeat month/day entries every year", () => {
+    expect(keys(calendar.getHolidays(2024).map((h) => h.date))).toEqual(["2024-12-24"]);
+  });
+
+  it("should include one-off dates only in their year", () => {
+    expect(keys(calendar.getHolidays(2025).map((h) => h.date))).toEqual([
+      "2025-12-24",
+      "2025-03-14",
+    ]);
+  });
+});
+
+describe("validateHolidayFile", () => {
+  it("should accept valid files", () => {
+    const file = { name: "Custom", holidays: [{ name: "Day off", date: "2025-01-02" }] };
+    expect(validateHolidayFile(file)).toEqual(file);
+  });
+
+  it("should reject files without a holidays array", () => {
+    expect(() => validateHolidayFile({ name: "Broken" })).toThrow(/holidays/);
+  });
+
+  it("should reject entries without a date", () => {
+    expect(() =>
+      validateHolidayFile({ name: "Broken", holidays: [{ name: "Nothing" }] })
+    ).toThrow(/Nothing/);
+  });
+
+  it("should reject malformed dates", () => {
+    expect(() =>
+      validateHolidayFile({ name: "Broken", holidays: [{ name: "Bad", date: "14/03/2025" }] })
+    ).toThrow(/YYYY-MM-DD/);
+  });
+});
+
+describe("combineCalendars", () => {
+  it("should merge calendars without duplicating dates", () => {
+    const extra = createFileCalendar({
+      name: "Extra",
+      holidays: [
+        { name: "Navidad (duplicate)", month: 12, day: 25 },
+        { name: "Nochebuena", month: 12, day: 24 },
+      ],
+    });
+    const combined = combineCalendars("Both", [colombianCalendar, extra]);
+    const december = combined
+      .getHolidays(2024)
+      .filter((h) => h.date.getMonth() === 11)
+      .map((h) => `${toDateKey(h.date)} ${h.name}`);
+
+    expect(december).toEqual([
+      "2024-12-08 Día de la Inmaculada Concepción",
+      "2024-12-24 Nochebuena",
+      "2024-12-25 Día de Navidad",
+    ]);
+  });
+});
+
+describe("isHoliday", () => {
+  it("should detect holidays regardless of time of day", () => {
+    expect(isHoliday(new Date(2024, 6, 20, 15, 30), colombianCalendar)).toBe(true);
+    expect(isHoliday(new Date(2024, 6, 21), colombianCalendar)).toBe(false);
+  });
+});
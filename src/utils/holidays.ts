@@ -0,0 +1,174 @@
+export interface Holiday {
+  date: Date;
+  name: string;
+}
+
+export interface HolidayCalendar {
+  name: string;
+  getHolidays(year: number): Holiday[];
+}
+
+// Entries of a user holiday file: either a one-off date or a yearly month/day
+export interface HolidayFileEntry {
+  name: string;
+  date?: string;
+  month?: number;
+  day?: number;
+}
+
+export interface HolidayFile {
+  name: string;
+  holidays: HolidayFileEntry[];
+}
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Local date of a YYYY-MM-DD key, or null if it is not a real date
+export const parseDateKey = (value: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return toDateKey(date) === value ? date : null;
+};
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// Ley Emiliani (Ley 51 de 1983): the holiday is observed on the following Monday
+export const moveToNextMonday = (date: Date): Date => {
+  const daysUntilMonday = (8 - date.getDay()) % 7;
+  return addDays(date, daysUntilMonday);
+};
+
+export const getColombianHolidays = (year: number): Holiday[] => {
+  const fixed = (month: number, day: number, name: string): Holiday => ({
+    date: new Date(year, month - 1, day),
+    name,
+  });
+  const emiliani = (month: number, day: number, name: string): Holiday => ({
+    date: moveToNextMonday(new Date(year, month - 1, day)),
+    name,
+  });
+
+  const easter = getEasterSunday(year);
+  const fromEaster = (days: number, name: string): Holiday => ({
+    date: addDays(easter, days),
+    name,
+  });
+
+  const holidays = [
+    fixed(1, 1, 'Año Nuevo'),
+    emiliani(1, 6, 'Día de los Reyes Magos'),
+    emiliani(3, 19, 'Día de San José'),
+    fromEaster(-3, 'Jueves Santo'),
+    fromEaster(-2, 'Viernes Santo'),
+    fixed(5, 1, 'Día del Trabajo'),
+    // Ascension, Corpus Christi and Sacred Heart already include the Monday shift
+    fromEaster(43, 'Ascensión del Señor'),
+    fromEaster(64, 'Corpus Christi'),
+    fromEaster(71, 'Sagrado Corazón de Jesús'),
+    emiliani(6, 29, 'San Pedro y San Pablo'),
+    fixed(7, 20, 'Día de la Independencia'),
+    fixed(8, 7, 'Batalla de Boyacá'),
+    emiliani(8, 15, 'La Asunción de la Virgen'),
+    emiliani(10, 12, 'Día de la Raza'),
+    emiliani(11, 1, 'Día de Todos los Santos'),
+    emiliani(11, 11, 'Independencia de Cartagena'),
+    fixed(12, 8, 'Día de la Inmaculada Concepción'),
+    fixed(12, 25, 'Día de Navidad'),
+  ];
+
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+export const colombianCalendar: HolidayCalendar = {
+  name: 'Colombia',
+  getHolidays: getColombianHolidays,
+};
+
+export const createFileCalendar = (file: HolidayFile): HolidayCalendar => ({
+  name: file.name,
+  getHolidays: (year: number): Holiday[] =>
+    file.holidays.flatMap((entry) => {
+      if (entry.date) {
+        const [entryYear, month, day] = entry.date.split('-').map(Number);
+        return entryYear === year ? [{ date: new Date(entryYear, month - 1, day), name: entry.name }] : [];
+      }
+      if (entry.month && entry.day) {
+        return [{ date: new Date(year, entry.month - 1, entry.day), name: entry.name }];
+      }
+      return [];
+    }),
+});
+
+export const validateHolidayFile = (data: unknown): HolidayFile => {
+  const file = data as Partial<HolidayFile>;
+  if (!file || typeof file.name !== 'string' || !Array.isArray(file.holidays)) {
+    throw new Error('Holiday file must have a "name" and a "holidays" array');
+  }
+
+  file.holidays.forEach((entry, index) => {
+    if (!entry || typeof entry.name !== 'string') {
+      throw new Error(`Holiday #${index + 1} is missing a name`);
+    }
+    const hasDate = typeof entry.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(entry.date);
+    const hasMonthDay =
+      Number.isInteger(entry.month) &&
+      Number.isInteger(entry.day) &&
+      entry.month! >= 1 &&
+      entry.month! <= 12 &&
+      entry.day! >= 1 &&
+      entry.day! <= 31;
+    if (!hasDate && !hasMonthDay) {
+      throw new Error(`Holiday "${entry.name}" needs a "date" (YYYY-MM-DD) or "month" and "day"`);
+    }
+  });
+
+  return file as HolidayFile;
+};
+
+export const combineCalendars = (name: string, calendars: HolidayCalendar[]): HolidayCalendar => ({
+  name,
+  getHolidays: (year: number): Holiday[] => {
+    const byDate = new Map<string, Holiday>();
+    calendars.forEach((calendar) => {
+      calendar.getHolidays(year).forEach((holiday) => {
+        const key = toDateKey(holiday.date);
+        if (!byDate.has(key)) {
+          byDate.set(key, holiday);
+        }
+      });
+    });
+    return [...byDate.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+  },
+});
+
+export const isHoliday = (date: Date, calendar: HolidayCalendar): boolean => {
+  const key = toDateKey(date);
+  return calendar.getHolidays(date.getFullYear()).some((holiday) => toDateKey(holiday.date) === key);
+};
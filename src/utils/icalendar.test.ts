@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { Bill, Payment, PaymentTransaction } from "@prisma/client";
+import { PaymentWithBill } from "../services/paymentService.js";
+import {
+  buildPaymentCalendar,
+  escapeText,
+  foldLine,
+  getAlarmTrigger,
+  getEventUid,
+} from "./icalendar.js";
+
+const bill = { id: "bill-1", name: "Rent", type: "RENT", reminderDays: [5, 1] } as Bill;
+const updatedAt = new Date(Date.UTC(2026, 9, 1, 12, 0));
+const now = new Date(Date.UTC(2026, 9, 19, 6, 30));
+
+const payment = (overrides: Partial<Payment> = {}, transactions: Partial<PaymentTransaction>[] = []) =>
+  ({
+    id: "p1",
+    billId: bill.id,
+    amount: 1500000,
+    currency: "COP",
+    dueDate: new Date(2026, 9, 5),
+    status: "PENDING",
+    paidDate: null,
+    isEstimated: false,
+    notes: null,
+    updatedAt,
+    ...overrides,
+    bill,
+    transactions,
+  }) as PaymentWithBill;
+
+// Unfolds and splits the calendar into content lines
+const contentLines = (calendar: string): string[] =>
+  calendar.replace(/\r\n /g, "").split("\r\n").slice(0, -1);
+
+describe("escapeText", () => {
+  it("should escape backslashes, separators and newlines", () => {
+    expect(escapeText("a\\b; c, d\ne")).toBe("a\\\\b\\; c\\, d\\ne");
+  });
+});
+
+describe("foldLine", () => {
+  it("should keep short lines as they are", () => {
+    expect(foldLine("SUMMARY:Rent")).toBe("SUMMARY:Rent");
+  });
+
+  it("should fold long lines at 75 octets", () => {
+    const folded = foldLine(`DESCRIPTION:${"x".repeat(200)}`);
+    const parts = folded.split("\r\n");
+    expect(parts[0]).toHaveLength(75);
+    expect(parts.slice(1).every((part) => part.startsWith(" ") && part.length <= 75)).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe(`DESCRIPTION:${"x".repeat(200)}`);
+  });
+
+  it("should not split multi-byte characters", () => {
+    const folded = foldLine(`SUMMARY:${"é".repeat(80)}`);
+    for (const part of folded.split("\r\n")) {
+      expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toContain("�");
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"é".repeat(80)}`);
+  });
+});
+
+describe("getAlarmTrigger", () => {
+  it("should go off at 09:00 the given number of days before", () => {
+    expect(getAlarmTrigger(0)).toBe("PT9H");
+    expect(getAlarmTrigger(1)).toBe("-PT15H");
+    expect(getAlarmTrigger(5)).toBe("-P4DT15H");
+  });
+});
+
+describe("buildPaymentCalendar", () => {
+  it("should wrap events in a calendar with CRLF line endings", () => {
+    const calendar = buildPaymentCalendar([], { name: "House Duties", now });
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(contentLines(calendar)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//House Duties//Bill Tracker//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:House Duties",
+      "END:VCALENDAR",
+    ]);
+  });
+
+  it("should add the refresh interval for feeds", () => {
+    const lines = contentLines(
+      buildPaymentCalendar([], { name: "House Duties", now, refreshInterval: "PT1H" })
+    );
+    expect(lines).toContain("REFRESH-INTERVAL;VALUE=DURATION:PT1H");
+    expect(lines).toContain("X-PUBLISHED-TTL:PT1H");
+  });
+
+  it("should write an all-day event per payment with its amount and status", () => {
+    const lines = contentLines(
+      buildPaymentCalendar([payment({}, [{ amount: 500000 }])], { name: "House Duties", now })
+    );
+    expect(lines).toContain("UID:payment-p1@house-duties");
+    expect(lines).toContain("DTSTAMP:20261019T063000Z");
+    expect(lines).toContain("LAST-MODIFIED:20261001T120000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261005");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261006");
+    expect(lines.find((line) => line.startsWith("SUMMARY:"))).toMatch(
+      /^SUMMARY:Rent: .*1\.500\.000 \(Pending\)$/
+    );
+    const description = lines.find((line) => line.startsWith("DESCRIPTION:Amount"));
+    expect(description).toContain("\\nOutstanding: ");
+    expect(description).toContain("1.000.000");
+    expect(lines).toContain("CATEGORIES:Rent");
+  });
+
+  it("should add an alarm per reminder day to unpaid payments", () => {
+    const lines = contentLines(buildPaymentCalendar([payment()], { name: "House Duties", now }));
+    expect(lines.filter((line) => line === "BEGIN:VALARM")).toHaveLength(2);
+    expect(lines).toContain("TRIGGER:-P4DT15H");
+    expect(lines).toContain("TRIGGER:-PT15H");
+  });
+
+  it("should leave out alarms once paid", () => {
+    const lines = contentLines(
+      buildPaymentCalendar([payment({ status: "PAID" })], { name: "House Duties", now })
+    );
+    expect(lines).not.toContain("BEGIN:VALARM");
+    expect(lines.find((line) => line.startsWith("SUMMARY:"))).toContain("(Paid)");
+  });
+
+  it("should keep the UID stable and raise the sequence when the payment changes", () => {
+    const sequence = (changed: Date) =>
+      contentLines(
+        buildPaymentCalendar([payment({ updatedAt: changed })], { name: "House Duties", now })
+      ).find((line) => line.startsWith("SEQUENCE:"));
+    const before = sequence(updatedAt);
+    const after = sequence(new Date(updatedAt.getTime() + 60_000));
+    expect(Number(after?.slice(9))).toBe(Number(before?.slice(9)) + 60);
+    expect(getEventUid("p1")).toBe("payment-p1@house-duties");
+  });
+});
@@ -0,0 +1,151 @@
+import { PaymentStatus } from '@prisma/client';
+import { PaymentWithBill } from '../services/paymentService.js';
+import { getOutstandingAmount } from './balance.js';
+import { formatBillType, formatCurrency } from './formatters.js';
+import { money, moneyOf } from './money.js';
+
+// RFC 5545 calendar of payment due dates, for `calendar:export` and the feed
+
+export interface CalendarOptions {
+  name: string; // Shown by calendar apps as the calendar title
+  now?: Date; // DTSTAMP of every event
+  refreshInterval?: string; // How often subscribers should refetch, e.g. "PT1H"
+}
+
+const PRODUCT_ID = '-//House Duties//Bill Tracker//EN';
+const UID_DOMAIN = 'house-duties';
+const ALARM_HOUR = 9; // Reminders go off at 09:00 on their day
+
+const STATUS_LABELS: Record<PaymentStatus, string> = {
+  PAID: 'Paid',
+  PENDING: 'Pending',
+  PARTIALLY_PAID: 'Partially paid',
+  OVERDUE: 'Overdue',
+};
+
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line into lines of at most 75 octets, continuing with a
+ * space. Splits fall between characters so multi-byte UTF-8 stays whole.
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const character of line) {
+    const bytes = Buffer.byteLength(character);
+    const limit = parts.length === 0 ? 75 : 74; // Continuations start with a space
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += character;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// DATE values use the local calendar day, like the due dates themselves
+const formatDateValue = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatUtcDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Alarm trigger relative to the start of the all-day event, at ALARM_HOUR
+export const getAlarmTrigger = (daysBefore: number): string => {
+  if (daysBefore === 0) {
+    return `PT${ALARM_HOUR}H`;
+  }
+  const days = daysBefore - 1;
+  const hours = 24 - ALARM_HOUR;
+  return days > 0 ? `-P${days}DT${hours}H` : `-PT${hours}H`;
+};
+
+// Seconds since 2020 grow with every change and fit the 32-bit INTEGER type
+const getSequence = (updatedAt: Date): number =>
+  Math.max(0, Math.floor((updatedAt.getTime() - Date.UTC(2020, 0, 1)) / 1000));
+
+// The payment id never changes, so re-importing updates the same event
+export const getEventUid = (paymentId: string): string => `payment-${paymentId}@${UID_DOMAIN}`;
+
+const buildEvent = (payment: PaymentWithBill, now: Date): string[] => {
+  const amount = moneyOf(payment);
+  const outstanding = money(
+    getOutstandingAmount(payment.amount, payment.transactions),
+    payment.currency
+  );
+  const status = STATUS_LABELS[payment.status];
+  const dueDate = payment.dueDate;
+  const nextDay = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate() + 1);
+
+  const description = [
+    `Amount: ${formatCurrency(amount)}${payment.isEstimated ? ' (estimated)' : ''}`,
+    `Outstanding: ${formatCurrency(outstanding)}`,
+    `Status: ${status}`,
+    ...(payment.notes ? [`Notes: ${payment.notes}`] : []),
+  ].join('\n');
+
+  // Paid payments need no reminders
+  const alarms =
+    payment.status === 'PAID'
+      ? []
+      : payment.bill.reminderDays.flatMap((days) => [
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`${payment.bill.name} is due`)}`,
+          `TRIGGER:${getAlarmTrigger(days)}`,
+          'END:VALARM',
+        ]);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(payment.id)}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(payment.updatedAt)}`,
+    `SEQUENCE:${getSequence(payment.updatedAt)}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(dueDate)}`,
+    `DTEND;VALUE=DATE:${formatDateValue(nextDay)}`,
+    `SUMMARY:${escapeText(`${payment.bill.name}: ${formatCurrency(amount)} (${status})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(formatBillType(payment.bill.type))}`,
+    'TRANSP:TRANSPARENT',
+    ...alarms,
+    'END:VEVENT',
+  ];
+};
+
+export const buildPaymentCalendar = (
+  payments: PaymentWithBill[],
+  options: CalendarOptions
+): string => {
+  const now = options.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.refreshInterval
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+          `X-PUBLISHED-TTL:${options.refreshInterval}`,
+        ]
+      : []),
+    ...payments.flatMap((payment) => buildEvent(payment, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
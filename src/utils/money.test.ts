@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  money,
+  fromMajorUnits,
+  toMajorUnits,
+  addMoney,
+  subtractMoney,
+  sumMoney,
+  multiplyMoney,
+  allocateMinorUnits,
+  roundToInteger,
+  getCurrencyRule,
+} from "./money.js";
+
+describe("getCurrencyRule", () => {
+  it("should use whole pesos for COP and cents for USD", () => {
+    expect(getCurrencyRule("COP").exponent).toBe(0);
+    expect(getCurrencyRule("usd").exponent).toBe(2);
+  });
+
+  it("should reject unknown currencies", () => {
+    expect(() => getCurrencyRule("XYZ")).toThrow(/Unsupported currency/);
+  });
+});
+
+describe("roundToInteger", () => {
+  it("should round ties away from zero with HALF_UP", () => {
+    expect(roundToInteger(2.5, "HALF_UP")).toBe(3);
+    expect(roundToInteger(3.5, "HALF_UP")).toBe(4);
+  });
+
+  it("should round ties to even with HALF_EVEN", () => {
+    expect(roundToInteger(2.5, "HALF_EVEN")).toBe(2);
+    expect(roundToInteger(3.5, "HALF_EVEN")).toBe(4);
+  });
+
+  it("should ignore binary floating point noise", () => {
+    // 1.005 * 100 is 100.49999999999999 as a float
+    expect(roundToInteger(1.005 * 100, "HALF_UP")).toBe(101);
+  });
+});
+
+describe("money", () => {
+  it("should reject fractional minor units", () => {
+    expect(() => money(10.5)).toThrow(/whole minor units/);
+  });
+
+  it("should default to COP", () => {
+    expect(money(100)).toEqual({ amount: 100, currency: "COP" });
+  });
+});
+
+describe("fromMajorUnits / toMajorUnits", () => {
+  it("should convert using the currency exponent", () => {
+    expect(fromMajorUnits(12.34, "USD")).toEqual({ amount: 1234, currency: "USD" });
+    expect(fromMajorUnits(150000.6, "COP")).toEqual({ amount: 150001, currency: "COP" });
+  });
+
+  it("should round back and forth without drift", () => {
+    expect(toMajorUnits(fromMajorUnits(0.1 + 0.2, "USD"))).toBe(0.3);
+  });
+});
+
+describe("arithmetic", () => {
+  it("should add and subtract exactly", () => {
+    const total = sumMoney([money(10, "USD"), money(20, "USD")], "USD");
+    expect(total).toEqual(money(30, "USD"));
+    expect(subtractMoney(total, money(30, "USD")).amount).toBe(0);
+  });
+
+  it("should refuse to mix currencies", () => {
+    expect(() => addMoney(money(1, "USD"), money(1, "COP"))).toThrow(/Cannot combine/);
+  });
+
+  it("should round multiplications with the currency rule", () => {
+    expect(multiplyMoney(money(5, "USD"), 0.5).amount).toBe(2);
+    expect(multiplyMoney(money(5, "COP"), 0.5).amount).toBe(3);
+  });
+});
+
+describe("allocateMinorUnits", () => {
+  it("should always add up to the amount", () => {
+    const parts = allocateMinorUnits(1000, [1, 1, 1]);
+    expect(parts).toEqual([334, 333, 333]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(1000);
+  });
+
+  it("should give leftovers to the largest remainders", () => {
+    expect(allocateMinorUnits(10, [0.3, 0.7])).toEqual([3, 7]);
+    expect(allocateMinorUnits(5, [1, 3])).toEqual([1, 4]);
+  });
+
+  it("should return zeros without weights", () => {
+    expect(allocateMinorUnits(100, [0, 0])).toEqual([0, 0]);
+  });
+});
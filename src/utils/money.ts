@@ -0,0 +1,137 @@
+export type CurrencyCode = string;
+
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN';
+
+export interface CurrencyRule {
+  code: CurrencyCode;
+  exponent: number; // Decimal places of the minor unit
+  rounding: RoundingMode;
+}
+
+// Amount is an integer number of minor units (pesos for COP, cents for USD)
+export interface Money {
+  readonly amount: number;
+  readonly currency: CurrencyCode;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'COP';
+
+const CURRENCY_RULES: Record<CurrencyCode, CurrencyRule> = {
+  // Peso cents are not in circulation, amounts are whole pesos
+  COP: { code: 'COP', exponent: 0, rounding: 'HALF_UP' },
+  USD: { code: 'USD', exponent: 2, rounding: 'HALF_EVEN' },
+  EUR: { code: 'EUR', exponent: 2, rounding: 'HALF_EVEN' },
+};
+
+export const getSupportedCurrencies = (): CurrencyCode[] => Object.keys(CURRENCY_RULES);
+
+export const getCurrencyRule = (currency: CurrencyCode): CurrencyRule => {
+  const rule = CURRENCY_RULES[currency.toUpperCase()];
+  if (!rule) {
+    throw new Error(
+      `Unsupported currency "${currency}". Supported: ${getSupportedCurrencies().join(', ')}`
+    );
+  }
+  return rule;
+};
+
+export const roundToInteger = (value: number, mode: RoundingMode): number => {
+  // Strip binary noise such as 2.4999999999 before deciding on ties
+  const cleaned = Number(value.toPrecision(12));
+  const floor = Math.floor(cleaned);
+  const fraction = cleaned - floor;
+
+  if (fraction > 0.5) {
+    return floor + 1;
+  }
+  if (fraction < 0.5) {
+    return floor;
+  }
+  if (mode === 'HALF_EVEN') {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return floor + 1;
+};
+
+export const roundMinorUnits = (value: number, currency: CurrencyCode): number => {
+  return roundToInteger(value, getCurrencyRule(currency).rounding);
+};
+
+export const money = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+  if (!Number.isSafeInteger(amount)) {
+    throw new Error(`Money amounts must be whole minor units, got ${amount}`);
+  }
+  return { amount, currency: getCurrencyRule(currency).code };
+};
+
+// Money of a record that stores its amount next to its currency, like bills and payments
+export const moneyOf = (record: { amount: number; currency: CurrencyCode }): Money =>
+  money(record.amount, record.currency);
+
+export const zeroMoney = (currency: CurrencyCode = DEFAULT_CURRENCY): Money => money(0, currency);
+
+export const fromMajorUnits = (value: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+  const rule = getCurrencyRule(currency);
+  return money(roundToInteger(value * 10 ** rule.exponent, rule.rounding), rule.code);
+};
+
+export const toMajorUnits = (value: Money): number => {
+  return value.amount / 10 ** getCurrencyRule(value.currency).exponent;
+};
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+};
+
+// Minor units to store for an amount that must be in the given currency
+export const getMinorUnits = (value: Money, currency: CurrencyCode = DEFAULT_CURRENCY): number => {
+  assertSameCurrency(value, zeroMoney(currency));
+  return value.amount;
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+};
+
+export const sumMoney = (values: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+  return values.reduce(addMoney, zeroMoney(currency));
+};
+
+export const multiplyMoney = (value: Money, factor: number): Money => {
+  return money(roundMinorUnits(value.amount * factor, value.currency), value.currency);
+};
+
+/**
+ * Splits an amount by weights without losing or creating minor units.
+ * Each part gets its rounded-down share and the leftover units go to the
+ * parts with the largest remainders (earlier parts win ties).
+ */
+export const allocateMinorUnits = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (amount * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = amount - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length) {
+    parts[byRemainder[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return parts;
+};
@@ -0,0 +1,427 @@
+import {
+  BillType,
+  BusinessDayPolicy,
+  DueDayRule,
+  EstimationMode,
+  PaymentMethod,
+  PaymentStatus,
+  RecurrenceFrequency,
+} from '@prisma/client';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './api.js';
+import { getSupportedCurrencies } from './money.js';
+import { MAX_REMINDER_DAYS } from './reminders.js';
+import { DEFAULT_COMPARISON_PERIODS, MAX_COMPARISON_PERIODS } from './report.js';
+
+// OpenAPI 3 description of the `serve` API, served at /api/openapi.json
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const enumOf = (values: Record<string, string>) => ({
+  type: 'string',
+  enum: Object.values(values),
+});
+const date = { type: 'string', format: 'date', example: '2026-10-05' };
+const nullable = (schema: object) => ({ ...schema, nullable: true });
+
+const json = (schema: object) => ({ content: { 'application/json': { schema } } });
+const ok = (description: string, schema: object) => ({ description, ...json(schema) });
+const errors = (...statuses: number[]) =>
+  Object.fromEntries(
+    statuses.map((status) => [status, { $ref: `#/components/responses/${status}` }])
+  );
+
+const idParameter = (name: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: `${name} id`,
+  schema: { type: 'string' },
+});
+const monthParameter = {
+  name: 'month',
+  in: 'query',
+  description: 'Month as YYYY-MM, defaults to the current month',
+  schema: { type: 'string', pattern: '^\\d{4}-\\d{2}$' },
+};
+const currencyParameter = {
+  name: 'currency',
+  in: 'query',
+  description: 'Reporting currency, defaults to REPORTING_CURRENCY',
+  schema: { type: 'string', enum: getSupportedCurrencies() },
+};
+const pagingParameters = [
+  {
+    name: 'limit',
+    in: 'query',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+  },
+  { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+];
+const page = (item: string) => ({
+  type: 'object',
+  required: ['data', 'paging'],
+  properties: { data: { type: 'array', items: ref(item) }, paging: ref('Paging') },
+});
+
+const billFields = {
+  name: { type: 'string' },
+  type: enumOf(BillType),
+  amount: ref('Money'),
+  frequency: enumOf(RecurrenceFrequency),
+  interval: { type: 'integer', minimum: 1, maximum: 120 },
+  anchorDate: nullable(date),
+  monthOfYear: nullable({ type: 'integer', minimum: 1, maximum: 12 }),
+  dueDay: { type: 'integer', minimum: 1, maximum: 31 },
+  dueDayRule: enumOf(DueDayRule),
+  businessDayPolicy: enumOf(BusinessDayPolicy),
+  estimationMode: enumOf(EstimationMode),
+  estimationWindow: { type: 'integer', minimum: 1, maximum: 24 },
+  reminderDays: {
+    type: 'array',
+    description: 'Days before the due date to send reminders',
+    items: { type: 'integer', minimum: 0, maximum: MAX_REMINDER_DAYS },
+  },
+  description: nullable({ type: 'string' }),
+};
+
+const summaryFields = {
+  year: { type: 'integer' },
+  month: { type: 'integer', minimum: 1, maximum: 12 },
+  currency: { type: 'string' },
+  total: ref('Money'),
+  confirmed: ref('Money'),
+  estimated: ref('Money'),
+  paid: ref('Money'),
+  outstanding: ref('Money'),
+  pending: ref('Money'),
+  overdue: ref('Money'),
+  originalTotals: { type: 'array', items: ref('Money') },
+  byType: {
+    type: 'object',
+    description: 'Total per bill type, every type included',
+    properties: Object.fromEntries(Object.values(BillType).map((type) => [type, ref('Money')])),
+  },
+};
+
+export const createOpenApiDocument = (version: string) => ({
+  openapi: '3.0.3',
+  info: {
+    title: 'House Duties API',
+    version,
+    description:
+      'Bills, payments, monthly summaries and comparisons. Amounts are Money objects in ' +
+      'minor units of their currency and dates are YYYY-MM-DD.',
+  },
+  servers: [{ url: '/api' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/bills': {
+      get: {
+        summary: 'List bills',
+        parameters: [
+          { name: 'active', in: 'query', schema: { type: 'boolean' } },
+          ...pagingParameters,
+        ],
+        responses: { 200: ok('Bills ordered by due day', page('Bill')), ...errors(400, 401) },
+      },
+      post: {
+        summary: 'Create a bill',
+        requestBody: { required: true, ...json(ref('CreateBill')) },
+        responses: { 201: ok('Created bill', ref('Bill')), ...errors(400, 401, 409) },
+      },
+    },
+    '/bills/{id}': {
+      parameters: [idParameter('Bill')],
+      get: {
+        summary: 'Get a bill',
+        responses: { 200: ok('Bill', ref('Bill')), ...errors(401, 404) },
+      },
+      patch: {
+        summary: 'Update the given fields of a bill',
+        requestBody: { required: true, ...json(ref('UpdateBill')) },
+        responses: { 200: ok('Updated bill', ref('Bill')), ...errors(400, 401, 404, 409) },
+      },
+      delete: {
+        summary: 'Delete a bill and its payments',
+        responses: { 204: { description: 'Deleted' }, ...errors(401, 404) },
+      },
+    },
+    '/payments': {
+      get: {
+        summary: 'List payments',
+        parameters: [
+          { ...monthParameter, description: 'Due month as YYYY-MM, all months when absent' },
+          { name: 'status', in: 'query', schema: enumOf(PaymentStatus) },
+          ...pagingParameters,
+        ],
+        responses: { 200: ok('Payments', page('Payment')), ...errors(400, 401) },
+      },
+      post: {
+        summary: 'Create a payment',
+        requestBody: { required: true, ...json(ref('CreatePayment')) },
+        responses: { 201: ok('Created payment', ref('Payment')), ...errors(400, 401, 404, 409) },
+      },
+    },
+    '/payments/{id}': {
+      parameters: [idParameter('Payment')],
+      get: {
+        summary: 'Get a payment',
+        responses: { 200: ok('Payment', ref('Payment')), ...errors(401, 404) },
+      },
+      patch: {
+        summary: 'Update the given fields of a payment',
+        requestBody: { required: true, ...json(ref('UpdatePayment')) },
+        responses: { 200: ok('Updated payment', ref('Payment')), ...errors(400, 401, 404, 409) },
+      },
+      delete: {
+        summary: 'Delete a payment',
+        responses: { 204: { description: 'Deleted' }, ...errors(401, 404) },
+      },
+    },
+    '/payments/{id}/transactions': {
+      parameters: [idParameter('Payment')],
+      post: {
+        summary: 'Record a full or partial transaction',
+        requestBody: { required: true, ...json(ref('RecordTransaction')) },
+        responses: { 201: ok('Updated payment', ref('Payment')), ...errors(400, 401, 404, 409) },
+      },
+    },
+    '/payments/{id}/mark-paid': {
+      parameters: [idParameter('Payment')],
+      post: {
+        summary: 'Pay the outstanding balance',
+        requestBody: { required: false, ...json(ref('MarkPaid')) },
+        responses: { 200: ok('Updated payment', ref('Payment')), ...errors(400, 401, 404, 409) },
+      },
+    },
+    '/summary': {
+      get: {
+        summary: 'Monthly summary with the payments of the month',
+        parameters: [monthParameter, currencyParameter],
+        responses: { 200: ok('Summary', ref('MonthReport')), ...errors(400, 401) },
+      },
+    },
+    '/comparison': {
+      get: {
+        summary: 'Compare a month with earlier months or with the same month of past years',
+        parameters: [
+          monthParameter,
+          currencyParameter,
+          {
+            name: 'months',
+            in: 'query',
+            description: 'Number of periods, including the given month (default: 3)',
+            schema: {
+              type: 'integer',
+              minimum: 2,
+              maximum: MAX_COMPARISON_PERIODS,
+              default: DEFAULT_COMPARISON_PERIODS,
+            },
+          },
+          {
+            name: 'mode',
+            in: 'query',
+            description: 'months compares consecutive months, year-over-year the same month',
+            schema: { type: 'string', enum: ['months', 'year-over-year'], default: 'months' },
+          },
+        ],
+        responses: { 200: ok('Comparison', ref('PaymentComparison')), ...errors(400, 401) },
+      },
+    },
+    '/calendar.ics': {
+      get: {
+        summary: 'iCalendar feed of payments due from a year ago on, for calendar apps',
+        security: [],
+        parameters: [
+          {
+            name: 'token',
+            in: 'query',
+            required: true,
+            description: 'Feed token printed by `serve`, derived from API_TOKEN',
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          200: {
+            description: 'RFC 5545 calendar with one event per payment',
+            content: { 'text/calendar': { schema: { type: 'string' } } },
+          },
+          ...errors(401),
+        },
+      },
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        security: [],
+        responses: { 200: { description: 'OpenAPI document' } },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'The API_TOKEN of the server' },
+    },
+    responses: Object.fromEntries(
+      [
+        [400, 'Invalid query or body; details lists each invalid field'],
+        [401, 'Missing or wrong token'],
+        [404, 'Not found'],
+        [409, 'The change conflicts with the current data'],
+      ].map(([status, description]) => [status, ok(description as string, ref('Error'))])
+    ),
+    schemas: {
+      Money: {
+        type: 'object',
+        required: ['amount', 'currency'],
+        properties: {
+          amount: { type: 'integer', description: 'Minor units (pesos for COP, cents for USD)' },
+          currency: { type: 'string', enum: getSupportedCurrencies() },
+        },
+      },
+      Paging: {
+        type: 'object',
+        required: ['limit', 'offset', 'total'],
+        properties: {
+          limit: { type: 'integer' },
+          offset: { type: 'integer' },
+          total: { type: 'integer' },
+        },
+      },
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: {
+              code: { type: 'string', example: 'validation_failed' },
+              message: { type: 'string' },
+              details: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { field: { type: 'string' }, message: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+      },
+      Bill: {
+        type: 'object',
+        properties: { id: { type: 'string' }, ...billFields, active: { type: 'boolean' } },
+      },
+      CreateBill: {
+        type: 'object',
+        required: ['name', 'type', 'amount'],
+        description:
+          'dueDay is required unless the bill is weekly (due on its anchorDate weekday) or ' +
+          'dueDayRule is LAST_DAY',
+        properties: billFields,
+      },
+      UpdateBill: {
+        type: 'object',
+        properties: { ...billFields, active: { type: 'boolean' } },
+      },
+      Payment: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          billId: { type: 'string' },
+          bill: { type: 'string', description: 'Bill name' },
+          billType: enumOf(BillType),
+          amount: ref('Money'),
+          paid: ref('Money'),
+          outstanding: ref('Money'),
+          dueDate: date,
+          status: enumOf(PaymentStatus),
+          paidDate: nullable(date),
+          isEstimated: { type: 'boolean' },
+          notes: nullable({ type: 'string' }),
+        },
+      },
+      CreatePayment: {
+        type: 'object',
+        required: ['billId', 'amount', 'dueDate'],
+        properties: {
+          billId: { type: 'string' },
+          amount: ref('Money'),
+          dueDate: date,
+          notes: { type: 'string' },
+          isEstimated: { type: 'boolean' },
+        },
+      },
+      UpdatePayment: {
+        type: 'object',
+        properties: {
+          amount: ref('Money'),
+          // Paid statuses come from transactions and mark-paid
+          status: { type: 'string', enum: ['PENDING', 'OVERDUE'] },
+          paidDate: date,
+          notes: { type: 'string' },
+        },
+      },
+      RecordTransaction: {
+        type: 'object',
+        required: ['amount'],
+        properties: {
+          amount: ref('Money'),
+          date: { ...date, description: 'Defaults to today' },
+          method: enumOf(PaymentMethod),
+          reference: { type: 'string' },
+          paidById: { type: 'string', description: 'Member id' },
+        },
+      },
+      MarkPaid: {
+        type: 'object',
+        properties: {
+          paidDate: { ...date, description: 'Defaults to today' },
+          paidById: { type: 'string', description: 'Member id' },
+        },
+      },
+      MonthSummary: { type: 'object', properties: summaryFields },
+      MonthReport: {
+        type: 'object',
+        properties: { ...summaryFields, payments: { type: 'array', items: ref('Payment') } },
+      },
+      PaymentComparison: {
+        type: 'object',
+        properties: {
+          currency: { type: 'string' },
+          mode: { type: 'string', enum: ['months', 'year-over-year'] },
+          months: { type: 'array', items: ref('MonthSummary'), description: 'Oldest first' },
+          metrics: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                metric: { type: 'string', enum: ['total', 'paid', 'pending', 'overdue'] },
+                values: { type: 'array', items: ref('Money') },
+                change: ref('Money'),
+                percentageChange: nullable({ type: 'number' }),
+                trend: { type: 'string', enum: ['up', 'down', 'stable'] },
+              },
+            },
+          },
+          bills: {
+            type: 'array',
+            description: 'Largest in the last period first',
+            items: {
+              type: 'object',
+              properties: {
+                billId: { type: 'string' },
+                bill: { type: 'string' },
+                billType: enumOf(BillType),
+                values: { type: 'array', items: ref('Money') },
+                change: ref('Money'),
+                percentageChange: nullable({ type: 'number' }),
+                trend: { type: 'string', enum: ['up', 'down', 'stable'] },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { View, csvOutput, formatOutput, parseOutputFormat } from "./output.js";
+
+interface Item {
+  name: string;
+  amount: number;
+}
+
+const items: Item[] = [
+  { name: "Rent", amount: 1500000 },
+  { name: "Gas, house", amount: 45000 },
+];
+
+const itemsView: View<Item[]> = {
+  table: () => undefined,
+  json: (data) => data,
+  csv: (data) =>
+    csvOutput({ name: (item: Item) => item.name, amount: (item: Item) => String(item.amount) }, data),
+};
+
+describe("parseOutputFormat", () => {
+  it("should accept the formats case-insensitively", () => {
+    expect(parseOutputFormat("JSON")).toBe("json");
+    expect(parseOutputFormat("ndjson")).toBe("ndjson");
+  });
+
+  it("should reject unknown formats", () => {
+    expect(() => parseOutputFormat("xml")).toThrow("--output must be one of: table, json, ndjson, csv");
+  });
+});
+
+describe("formatOutput", () => {
+  it("should print lists as one JSON document", () => {
+    const output = formatOutput(itemsView, items, "json");
+    expect(JSON.parse(output)).toEqual(items);
+    expect(output.endsWith("}\n]\n")).toBe(true);
+  });
+
+  it("should print one NDJSON line per record", () => {
+    expect(formatOutput(itemsView, items, "ndjson")).toBe(
+      '{"name":"Rent","amount":1500000}\n{"name":"Gas, house","amount":45000}\n'
+    );
+    expect(formatOutput(itemsView, [], "ndjson")).toBe("");
+  });
+
+  it("should print a single document as one NDJSON line", () => {
+    const documentView: View<Item> = {
+      table: () => undefined,
+      json: (item) => item,
+      csv: () => ({ header: [], rows: [] }),
+    };
+    expect(formatOutput(documentView, items[0], "ndjson")).toBe('{"name":"Rent","amount":1500000}\n');
+  });
+
+  it("should print CSV with a header even without rows", () => {
+    expect(formatOutput(itemsView, items, "csv")).toBe(
+      'name,amount\nRent,1500000\n"Gas, house",45000\n'
+    );
+    expect(formatOutput(itemsView, [], "csv")).toBe("name,amount\n");
+  });
+});
@@ -0,0 +1,77 @@
+import { toCsv } from './csv.js';
+import { CsvColumns } from './csvMapping.js';
+import { UsageError } from './prompt.js';
+
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+export interface CsvOutput {
+  header: string[];
+  rows: string[][];
+}
+
+/**
+ * One kind of command output: a table for people, and the documented JSON
+ * schema (see outputRecords.ts) plus flat CSV rows for scripts.
+ */
+export interface View<T> {
+  table: (data: T) => void;
+  json: (data: T) => unknown;
+  csv: (data: T) => CsvOutput;
+}
+
+export type Renderer = <T>(view: View<T>, data: T) => void;
+
+export const parseOutputFormat = (value: string): OutputFormat => {
+  const format = value.trim().toLowerCase() as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`--output must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+};
+
+export const csvOutput = <T>(columns: CsvColumns<T>, records: T[]): CsvOutput => {
+  const header = Object.keys(columns);
+  return { header, rows: records.map((record) => header.map((column) => columns[column](record))) };
+};
+
+// JSON prints one document; NDJSON prints one line per record of a list
+export const formatOutput = <T>(
+  view: View<T>,
+  data: T,
+  format: Exclude<OutputFormat, 'table'>
+): string => {
+  if (format === 'csv') {
+    const { header, rows } = view.csv(data);
+    return toCsv(header, rows);
+  }
+
+  const document = view.json(data);
+  if (format === 'json') {
+    return JSON.stringify(document, null, 2) + '\n';
+  }
+  const records = Array.isArray(document) ? document : [document];
+  return records.map((record) => JSON.stringify(record) + '\n').join('');
+};
+
+const renderers: Record<OutputFormat, Renderer> = {
+  table: (view, data) => view.table(data),
+  json: (view, data) => process.stdout.write(formatOutput(view, data, 'json')),
+  ndjson: (view, data) => process.stdout.write(formatOutput(view, data, 'ndjson')),
+  csv: (view, data) => process.stdout.write(formatOutput(view, data, 'csv')),
+};
+
+let outputFormat: OutputFormat = 'table';
+
+// Set once from the global --output option before a command runs
+export const setOutputFormat = (format: OutputFormat): void => {
+  outputFormat = format;
+};
+
+export const getOutputFormat = (): OutputFormat => outputFormat;
+
+// Machine formats keep stdout parseable, so messages go to stderr
+export const isMachineOutput = (): boolean => outputFormat !== 'table';
+
+export const render = <T>(view: View<T>, data: T): void => renderers[outputFormat](view, data);
@@ -0,0 +1,267 @@
+import { describe, it, expect } from "vitest";
+import { Bill, Payment, PaymentTransaction } from "@prisma/client";
+import { MonthSummary, PaymentComparison, PaymentWithBill } from "../services/paymentService.js";
+import {
+  ANOMALY_CSV_COLUMNS,
+  BILL_YEAR_CSV_COLUMNS,
+  FORECAST_CSV_COLUMNS,
+  MONTH_SUMMARY_CSV_COLUMNS,
+  toAnomalyRecord,
+  toForecastRecord,
+  toMonthSummaryRecord,
+  toPaymentComparisonRecord,
+  toPaymentRecord,
+  toYearReportRecord,
+} from "./outputRecords.js";
+import { money } from "./money.js";
+import { YearReport } from "./report.js";
+import { CashFlowForecast, ForecastItem } from "./forecast.js";
+
+const bill = { id: "bill-1", name: "Rent", type: "RENT" } as Bill;
+
+const payment = (overrides: Partial<Payment> = {}, transactions: Partial<PaymentTransaction>[] = []) =>
+  ({
+    id: "payment-1",
+    billId: bill.id,
+    amount: 1500000,
+    currency: "COP",
+    dueDate: new Date(2026, 9, 5),
+    status: "PARTIALLY_PAID",
+    paidDate: null,
+    isEstimated: false,
+    notes: null,
+    ...overrides,
+    bill,
+    transactions,
+  }) as PaymentWithBill;
+
+const summary = (month: number, total: number): MonthSummary => ({
+  year: 2026,
+  month,
+  monthLabel: `${month}/2026`,
+  currency: "COP",
+  originalTotals: [money(total)],
+  byType: {
+    RENT: money(total),
+    ELECTRICITY: money(0),
+    WATER: money(0),
+    GAS: money(0),
+    INTERNET: money(0),
+    PHONE: money(0),
+    OTHER: money(0),
+  },
+  total: money(total),
+  paid: money(total / 2),
+  outstanding: money(total / 2),
+  pending: money(total / 2),
+  overdue: money(0),
+  estimated: money(0),
+  confirmed: money(total),
+});
+
+describe("toPaymentRecord", () => {
+  it("should expose amounts as minor units and dates as date keys", () => {
+    expect(toPaymentRecord(payment({}, [{ amount: 500000 }]))).toEqual({
+      id: "payment-1",
+      billId: "bill-1",
+      bill: "Rent",
+      billType: "RENT",
+      amount: { amount: 1500000, currency: "COP" },
+      paid: { amount: 500000, currency: "COP" },
+      outstanding: { amount: 1000000, currency: "COP" },
+      dueDate: "2026-10-05",
+      status: "PARTIALLY_PAID",
+      paidDate: null,
+      isEstimated: false,
+      notes: null,
+    });
+  });
+
+  it("should format the paid date", () => {
+    const record = toPaymentRecord(
+      payment({ status: "PAID", paidDate: new Date(2026, 9, 4) }, [{ amount: 1500000 }])
+    );
+    expect(record.paidDate).toBe("2026-10-04");
+    expect(record.outstanding.amount).toBe(0);
+  });
+});
+
+describe("toMonthSummaryRecord", () => {
+  it("should drop the display label", () => {
+    const record = toMonthSummaryRecord(summary(10, 2000000));
+    expect(record).not.toHaveProperty("monthLabel");
+    expect(record).toMatchObject({ year: 2026, month: 10, currency: "COP" });
+  });
+
+  it("should write CSV amounts in major units", () => {
+    const record = toMonthSummaryRecord({ ...summary(10, 2000000), currency: "USD", total: money(12550, "USD") });
+    expect(MONTH_SUMMARY_CSV_COLUMNS.total(record)).toBe("125.5");
+  });
+});
+
+describe("toPaymentComparisonRecord", () => {
+  it("should list the metrics in a fixed order", () => {
+    const months = [summary(8, 1000000), summary(9, 1000000), summary(10, 1500000)];
+    const metric = (values: number[]) => ({
+      metricName: "",
+      values: values.map((value) => money(value)),
+      change: money(values[2] - values[1]),
+      percentageChange: values[1] === 0 ? null : ((values[2] - values[1]) / values[1]) * 100,
+      trend: values[2] > values[1] ? ("up" as const) : ("stable" as const),
+    });
+    const comparison: PaymentComparison = {
+      mode: "months",
+      months,
+      metrics: {
+        total: metric([1000000, 1000000, 1500000]),
+        paid: metric([500000, 500000, 750000]),
+        pending: metric([500000, 500000, 750000]),
+        overdue: metric([0, 0, 0]),
+      },
+      bills: [
+        {
+          ...metric([0, 1000000, 1500000]),
+          metricName: "Rent",
+          billId: "bill-1",
+          billType: "RENT",
+        },
+      ],
+    };
+
+    const record = toPaymentComparisonRecord(comparison);
+    expect(record.currency).toBe("COP");
+    expect(record.months.map((month) => month.month)).toEqual([8, 9, 10]);
+    expect(record.metrics.map((entry) => entry.metric)).toEqual(["total", "paid", "pending", "overdue"]);
+    expect(record.metrics[0]).toEqual({
+      metric: "total",
+      values: [money(1000000), money(1000000), money(1500000)],
+      change: money(500000),
+      percentageChange: 50,
+      trend: "up",
+    });
+    expect(record.metrics[3].percentageChange).toBeNull();
+    expect(record.mode).toBe("months");
+    expect(record.bills).toEqual([
+      {
+        billId: "bill-1",
+        bill: "Rent",
+        billType: "RENT",
+        values: [money(0), money(1000000), money(1500000)],
+        change: money(500000),
+        percentageChange: 50,
+        trend: "up",
+      },
+    ]);
+  });
+});
+
+describe("toYearReportRecord", () => {
+  const months = Array.from({ length: 12 }, (_, index) =>
+    summary(index + 1, index === 1 ? 2000000 : 0)
+  );
+  const report: YearReport = {
+    year: 2026,
+    currency: "COP",
+    summary: months[1],
+    months,
+    bills: [
+      {
+        billId: "bill-1",
+        bill: "Rent",
+        type: "RENT",
+        months: months.map((month) => month.total),
+        total: money(2000000),
+      },
+    ],
+    averageMonthly: money(2000000),
+    mostExpensiveMonth: months[1],
+    onTime: { onTime: 3, late: 1, rate: 75 },
+  };
+
+  it("should flatten the year totals and reference the most expensive month by number", () => {
+    const record = toYearReportRecord(report);
+    expect(record).toMatchObject({
+      year: 2026,
+      currency: "COP",
+      total: money(2000000),
+      averageMonthly: money(2000000),
+      mostExpensiveMonth: 2,
+      onTime: { onTime: 3, late: 1, rate: 75 },
+    });
+    expect(record.months).toHaveLength(12);
+    expect(record.bills[0]).toMatchObject({ bill: "Rent", billType: "RENT" });
+  });
+
+  it("should write one CSV column per month", () => {
+    const [bill] = toYearReportRecord(report).bills;
+    const columns = Object.keys(BILL_YEAR_CSV_COLUMNS);
+    expect(columns.slice(0, 4)).toEqual(["bill", "billType", "currency", "jan"]);
+    expect(columns.slice(-2)).toEqual(["dec", "total"]);
+    expect(columns).toHaveLength(16);
+    expect(BILL_YEAR_CSV_COLUMNS.feb(bill)).toBe("2000000");
+    expect(BILL_YEAR_CSV_COLUMNS.mar(bill)).toBe("0");
+  });
+});
+
+describe("toForecastRecord", () => {
+  const item: ForecastItem = {
+    paymentId: null,
+    billId: "bill-1",
+    bill: "Rent",
+    billType: "RENT",
+    dueDate: new Date(2026, 10, 5),
+    amount: money(50000, "USD"),
+    converted: money(2000000),
+    isEstimated: false,
+  };
+  const forecast: CashFlowForecast = {
+    currency: "COP",
+    carriedOver: money(0),
+    carriedOverItems: [],
+    months: [
+      {
+        year: 2026,
+        month: 11,
+        monthLabel: "noviembre de 2026",
+        total: money(2000000),
+        estimated: money(0),
+        cumulative: money(2000000),
+        items: [item],
+      },
+    ],
+    total: money(2000000),
+    largestDueDates: [{ date: item.dueDate, total: money(2000000), items: [item] }],
+  };
+
+  it("should use date keys and list the bills of each due date", () => {
+    const record = toForecastRecord(forecast);
+    expect(record.months[0].items[0]).toMatchObject({ dueDate: "2026-11-05", paymentId: null });
+    expect(record.largestDueDates).toEqual([
+      { date: "2026-11-05", total: money(2000000), bills: ["Rent"] },
+    ]);
+    expect(FORECAST_CSV_COLUMNS.cumulative(record.months[0])).toBe("2000000");
+  });
+});
+
+describe("toAnomalyRecord", () => {
+  it("should explain the anomaly and flatten it for CSV", () => {
+    const record = toAnomalyRecord({
+      payment: payment({ amount: 1800000 }),
+      amount: money(1800000),
+      median: money(1500000),
+      change: money(300000),
+      percentageChange: 20,
+      deviations: null,
+      historySize: 6,
+    });
+    expect(record).toMatchObject({
+      paymentId: "payment-1",
+      bill: "Rent",
+      dueDate: "2026-10-05",
+      deviations: null,
+    });
+    expect(record.explanation).toMatch(/^\+20,0% vs 6-month median/);
+    expect(ANOMALY_CSV_COLUMNS.median(record)).toBe("1500000");
+    expect(ANOMALY_CSV_COLUMNS.percentageChange(record)).toBe("20.0");
+  });
+});
@@ -0,0 +1,524 @@
+import {
+  Bill,
+  BillType,
+  BusinessDayPolicy,
+  DueDayRule,
+  EstimationMode,
+  ExchangeRate,
+  Member,
+  PaymentStatus,
+  RecurrenceFrequency,
+} from '@prisma/client';
+import {
+  ComparisonMetric,
+  HouseholdBalances,
+  MonthSummary,
+  PaymentAnomaly,
+  PaymentComparison,
+  PaymentWithBill,
+} from '../services/paymentService.js';
+import { PendingReminder } from '../services/reminderService.js';
+import { getOutstandingAmount, getPaidAmount } from './balance.js';
+import { CsvColumns } from './csvMapping.js';
+import { describeAnomaly } from './anomalies.js';
+import { CashFlowForecast, ForecastItem } from './forecast.js';
+import { Holiday, toDateKey } from './holidays.js';
+import { Money, money, moneyOf, toMajorUnits } from './money.js';
+import { YearReport } from './report.js';
+
+/*
+ * JSON and NDJSON output schemas. Scripts depend on these field names, so
+ * fields are only ever added: renaming or removing one is a breaking change.
+ * Amounts are Money objects in minor units of their currency and dates are
+ * YYYY-MM-DD strings in local time.
+ */
+
+export interface BillRecord {
+  id: string;
+  name: string;
+  type: BillType;
+  amount: Money;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  anchorDate: string | null;
+  monthOfYear: number | null;
+  dueDay: number;
+  dueDayRule: DueDayRule;
+  businessDayPolicy: BusinessDayPolicy;
+  estimationMode: EstimationMode;
+  estimationWindow: number;
+  reminderDays: number[];
+  description: string | null;
+  active: boolean;
+}
+
+export interface PaymentRecord {
+  id: string;
+  billId: string;
+  bill: string; // Bill name
+  billType: BillType;
+  amount: Money;
+  paid: Money; // Sum of the recorded transactions
+  outstanding: Money;
+  dueDate: string;
+  status: PaymentStatus;
+  paidDate: string | null;
+  isEstimated: boolean;
+  notes: string | null;
+}
+
+// Totals are in the reporting currency; originalTotals keep each bill currency
+export interface MonthSummaryRecord {
+  year: number;
+  month: number; // 1-12
+  currency: string;
+  total: Money;
+  confirmed: Money;
+  estimated: Money;
+  paid: Money;
+  outstanding: Money;
+  pending: Money;
+  overdue: Money;
+  originalTotals: Money[];
+  byType: Record<BillType, Money>; // Total per bill type, every type included
+}
+
+// The summary command adds the payments of the month
+export interface MonthReportRecord extends MonthSummaryRecord {
+  payments: PaymentRecord[];
+}
+
+// Change and percentageChange compare the last month with the one before it
+export interface ComparisonMetricRecord {
+  metric: 'total' | 'paid' | 'pending' | 'overdue';
+  values: Money[]; // One per month, oldest first
+  change: Money;
+  percentageChange: number | null; // Null when the previous month was zero
+  trend: 'up' | 'down' | 'stable';
+}
+
+export interface BillComparisonRecord {
+  billId: string;
+  bill: string; // Bill name
+  billType: BillType;
+  values: Money[]; // One per period, oldest first
+  change: Money;
+  percentageChange: number | null;
+  trend: 'up' | 'down' | 'stable';
+}
+
+export interface PaymentComparisonRecord {
+  currency: string;
+  mode: 'months' | 'year-over-year';
+  months: MonthSummaryRecord[]; // Oldest first
+  metrics: ComparisonMetricRecord[];
+  bills: BillComparisonRecord[];
+}
+
+export interface MemberRecord {
+  id: string;
+  name: string;
+  joinedAt: string;
+  leftAt: string | null;
+}
+
+export interface BalancesRecord {
+  balances: Array<{ memberId: string; member: string; paid: Money; owed: Money; net: Money }>;
+  transfers: Array<{ from: string; to: string; amount: Money }>; // Member names
+}
+
+export interface HolidayRecord {
+  date: string;
+  name: string;
+}
+
+export interface ExchangeRateRecord {
+  date: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number; // Units of quoteCurrency per unit of baseCurrency
+}
+
+export interface ReminderRecord {
+  paymentId: string;
+  bill: string; // Bill name
+  billType: BillType;
+  outstanding: Money;
+  dueDate: string;
+  daysUntilDue: number; // Negative once overdue
+  threshold: string; // "5d" for five days before the due date, or "overdue"
+  channels: string[]; // Channels that have not sent it yet
+}
+
+export interface AnomalyRecord {
+  paymentId: string;
+  bill: string; // Bill name
+  billType: BillType;
+  dueDate: string;
+  amount: Money;
+  median: Money; // Of the bill's confirmed amounts in the months before
+  change: Money;
+  percentageChange: number;
+  deviations: number | null; // Null when every amount in the history was the same
+  historySize: number;
+  explanation: string; // e.g. "+85,0% vs 6-month median ($ 40.000)"
+}
+
+export interface BillYearTotalRecord {
+  billId: string;
+  bill: string; // Bill name
+  billType: BillType;
+  months: Money[]; // January to December
+  total: Money;
+}
+
+// Amounts are in the reporting currency
+export interface YearReportRecord {
+  year: number;
+  currency: string;
+  total: Money;
+  confirmed: Money;
+  estimated: Money;
+  paid: Money;
+  outstanding: Money;
+  pending: Money;
+  overdue: Money;
+  originalTotals: Money[];
+  byType: Record<BillType, Money>;
+  averageMonthly: Money; // Over the months that had payments
+  mostExpensiveMonth: number | null; // 1-12, null without payments
+  onTime: { onTime: number; late: number; rate: number | null }; // Rate in percent
+  months: MonthSummaryRecord[]; // January to December
+  bills: BillYearTotalRecord[]; // Most expensive first
+}
+
+export interface ForecastItemRecord {
+  paymentId: string | null; // Null for payments not generated yet
+  billId: string;
+  bill: string; // Bill name
+  billType: BillType;
+  dueDate: string;
+  amount: Money; // Still to pay, in the bill's currency
+  converted: Money; // In the forecast currency
+  isEstimated: boolean;
+}
+
+export interface ForecastMonthRecord {
+  year: number;
+  month: number; // 1-12
+  total: Money;
+  estimated: Money;
+  cumulative: Money; // Including the carried over balance
+  items: ForecastItemRecord[];
+}
+
+// Amounts other than item amounts are in the forecast currency
+export interface ForecastRecord {
+  currency: string;
+  carriedOver: Money;
+  carriedOverItems: ForecastItemRecord[];
+  months: ForecastMonthRecord[];
+  total: Money;
+  largestDueDates: Array<{ date: string; total: Money; bills: string[] }>;
+}
+
+const toOptionalDateKey = (date: Date | null): string | null => (date ? toDateKey(date) : null);
+
+export const toBillRecord = (bill: Bill): BillRecord => ({
+  id: bill.id,
+  name: bill.name,
+  type: bill.type,
+  amount: moneyOf(bill),
+  frequency: bill.frequency,
+  interval: bill.interval,
+  anchorDate: toOptionalDateKey(bill.anchorDate),
+  monthOfYear: bill.monthOfYear,
+  dueDay: bill.dueDay,
+  dueDayRule: bill.dueDayRule,
+  businessDayPolicy: bill.businessDayPolicy,
+  estimationMode: bill.estimationMode,
+  estimationWindow: bill.estimationWindow,
+  reminderDays: bill.reminderDays,
+  description: bill.description,
+  active: bill.active,
+});
+
+export const toPaymentRecord = (payment: PaymentWithBill): PaymentRecord => ({
+  id: payment.id,
+  billId: payment.billId,
+  bill: payment.bill.name,
+  billType: payment.bill.type,
+  amount: moneyOf(payment),
+  paid: money(getPaidAmount(payment.transactions), payment.currency),
+  outstanding: money(getOutstandingAmount(payment.amount, payment.transactions), payment.currency),
+  dueDate: toDateKey(payment.dueDate),
+  status: payment.status,
+  paidDate: toOptionalDateKey(payment.paidDate),
+  isEstimated: payment.isEstimated,
+  notes: payment.notes,
+});
+
+export const toMonthSummaryRecord = (summary: MonthSummary): MonthSummaryRecord => ({
+  year: summary.year,
+  month: summary.month,
+  currency: summary.currency,
+  total: summary.total,
+  confirmed: summary.confirmed,
+  estimated: summary.estimated,
+  paid: summary.paid,
+  outstanding: summary.outstanding,
+  pending: summary.pending,
+  overdue: summary.overdue,
+  originalTotals: summary.originalTotals,
+  byType: summary.byType,
+});
+
+export const toYearReportRecord = (report: YearReport): YearReportRecord => {
+  const { summary } = report;
+  return {
+    year: report.year,
+    currency: report.currency,
+    total: summary.total,
+    confirmed: summary.confirmed,
+    estimated: summary.estimated,
+    paid: summary.paid,
+    outstanding: summary.outstanding,
+    pending: summary.pending,
+    overdue: summary.overdue,
+    originalTotals: summary.originalTotals,
+    byType: summary.byType,
+    averageMonthly: report.averageMonthly,
+    mostExpensiveMonth: report.mostExpensiveMonth?.month ?? null,
+    onTime: report.onTime,
+    months: report.months.map(toMonthSummaryRecord),
+    bills: report.bills.map((bill) => ({
+      billId: bill.billId,
+      bill: bill.bill,
+      billType: bill.type,
+      months: bill.months,
+      total: bill.total,
+    })),
+  };
+};
+
+const toMetricRecord = (
+  metric: ComparisonMetricRecord['metric'],
+  { values, change, percentageChange, trend }: ComparisonMetric
+): ComparisonMetricRecord => ({ metric, values, change, percentageChange, trend });
+
+export const toPaymentComparisonRecord = (
+  comparison: PaymentComparison
+): PaymentComparisonRecord => ({
+  currency: comparison.months[0].currency,
+  mode: comparison.mode,
+  months: comparison.months.map(toMonthSummaryRecord),
+  metrics: (['total', 'paid', 'pending', 'overdue'] as const).map((metric) =>
+    toMetricRecord(metric, comparison.metrics[metric])
+  ),
+  bills: comparison.bills.map((bill) => ({
+    billId: bill.billId,
+    bill: bill.metricName,
+    billType: bill.billType,
+    values: bill.values,
+    change: bill.change,
+    percentageChange: bill.percentageChange,
+    trend: bill.trend,
+  })),
+});
+
+export const toMemberRecord = (member: Member): MemberRecord => ({
+  id: member.id,
+  name: member.name,
+  joinedAt: toDateKey(member.joinedAt),
+  leftAt: toOptionalDateKey(member.leftAt),
+});
+
+// Balances are kept in the default currency
+export const toBalancesRecord = ({ balances, transfers }: HouseholdBalances): BalancesRecord => ({
+  balances: balances.map((balance) => ({
+    memberId: balance.member.id,
+    member: balance.member.name,
+    paid: money(balance.paid),
+    owed: money(balance.owed),
+    net: money(balance.net),
+  })),
+  transfers: transfers.map((transfer) => ({
+    from: transfer.from.name,
+    to: transfer.to.name,
+    amount: transfer.amount,
+  })),
+});
+
+export const toHolidayRecord = (holiday: Holiday): HolidayRecord => ({
+  date: toDateKey(holiday.date),
+  name: holiday.name,
+});
+
+export const toExchangeRateRecord = (rate: ExchangeRate): ExchangeRateRecord => ({
+  date: toDateKey(rate.date),
+  baseCurrency: rate.baseCurrency,
+  quoteCurrency: rate.quoteCurrency,
+  rate: rate.rate,
+});
+
+export const toAnomalyRecord = (anomaly: PaymentAnomaly): AnomalyRecord => ({
+  paymentId: anomaly.payment.id,
+  bill: anomaly.payment.bill.name,
+  billType: anomaly.payment.bill.type,
+  dueDate: toDateKey(anomaly.payment.dueDate),
+  amount: anomaly.amount,
+  median: anomaly.median,
+  change: anomaly.change,
+  percentageChange: anomaly.percentageChange,
+  deviations: anomaly.deviations,
+  historySize: anomaly.historySize,
+  explanation: describeAnomaly(anomaly),
+});
+
+export const toReminderRecord = (reminder: PendingReminder): ReminderRecord => ({
+  paymentId: reminder.paymentId,
+  bill: reminder.bill,
+  billType: reminder.billType,
+  outstanding: reminder.outstanding,
+  dueDate: toDateKey(reminder.dueDate),
+  daysUntilDue: reminder.daysUntilDue,
+  threshold: reminder.threshold,
+  channels: reminder.channels,
+});
+
+const toForecastItemRecord = (item: ForecastItem): ForecastItemRecord => ({
+  paymentId: item.paymentId,
+  billId: item.billId,
+  bill: item.bill,
+  billType: item.billType,
+  dueDate: toDateKey(item.dueDate),
+  amount: item.amount,
+  converted: item.converted,
+  isEstimated: item.isEstimated,
+});
+
+export const toForecastRecord = (forecast: CashFlowForecast): ForecastRecord => ({
+  currency: forecast.currency,
+  carriedOver: forecast.carriedOver,
+  carriedOverItems: forecast.carriedOverItems.map(toForecastItemRecord),
+  months: forecast.months.map((month) => ({
+    year: month.year,
+    month: month.month,
+    total: month.total,
+    estimated: month.estimated,
+    cumulative: month.cumulative,
+    items: month.items.map(toForecastItemRecord),
+  })),
+  total: forecast.total,
+  largestDueDates: forecast.largestDueDates.map((dueDate) => ({
+    date: toDateKey(dueDate.date),
+    total: dueDate.total,
+    bills: dueDate.items.map((item) => item.bill),
+  })),
+});
+
+// CSV output is flat: amounts in major units, one row per month, bill, member, holiday,
+// rate or reminder
+const formatMajorUnits = (value: Money): string => String(toMajorUnits(value));
+
+export const MONTH_SUMMARY_CSV_COLUMNS: CsvColumns<MonthSummaryRecord> = {
+  year: (summary) => String(summary.year),
+  month: (summary) => String(summary.month),
+  currency: (summary) => summary.currency,
+  total: (summary) => formatMajorUnits(summary.total),
+  confirmed: (summary) => formatMajorUnits(summary.confirmed),
+  estimated: (summary) => formatMajorUnits(summary.estimated),
+  paid: (summary) => formatMajorUnits(summary.paid),
+  outstanding: (summary) => formatMajorUnits(summary.outstanding),
+  pending: (summary) => formatMajorUnits(summary.pending),
+  overdue: (summary) => formatMajorUnits(summary.overdue),
+};
+
+const MONTH_KEYS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+// The year report as a bill by month matrix
+export const BILL_YEAR_CSV_COLUMNS: CsvColumns<BillYearTotalRecord> = {
+  bill: (bill) => bill.bill,
+  billType: (bill) => bill.billType,
+  currency: (bill) => bill.total.currency,
+  ...Object.fromEntries(
+    MONTH_KEYS.map((key, index) => [
+      key,
+      (bill: BillYearTotalRecord) => formatMajorUnits(bill.months[index]),
+    ])
+  ),
+  total: (bill) => formatMajorUnits(bill.total),
+};
+
+export const FORECAST_CSV_COLUMNS: CsvColumns<ForecastMonthRecord> = {
+  year: (month) => String(month.year),
+  month: (month) => String(month.month),
+  currency: (month) => month.total.currency,
+  total: (month) => formatMajorUnits(month.total),
+  estimated: (month) => formatMajorUnits(month.estimated),
+  cumulative: (month) => formatMajorUnits(month.cumulative),
+};
+
+export const ANOMALY_CSV_COLUMNS: CsvColumns<AnomalyRecord> = {
+  paymentId: (anomaly) => anomaly.paymentId,
+  bill: (anomaly) => anomaly.bill,
+  billType: (anomaly) => anomaly.billType,
+  dueDate: (anomaly) => anomaly.dueDate,
+  currency: (anomaly) => anomaly.amount.currency,
+  amount: (anomaly) => formatMajorUnits(anomaly.amount),
+  median: (anomaly) => formatMajorUnits(anomaly.median),
+  percentageChange: (anomaly) => anomaly.percentageChange.toFixed(1),
+  explanation: (anomaly) => anomaly.explanation,
+};
+
+export const MEMBER_CSV_COLUMNS: CsvColumns<MemberRecord> = {
+  name: (member) => member.name,
+  joinedAt: (member) => member.joinedAt,
+  leftAt: (member) => member.leftAt ?? '',
+};
+
+// Suggested transfers are only part of the JSON output
+export const BALANCE_CSV_COLUMNS: CsvColumns<BalancesRecord['balances'][number]> = {
+  member: (balance) => balance.member,
+  currency: (balance) => balance.net.currency,
+  paid: (balance) => formatMajorUnits(balance.paid),
+  owed: (balance) => formatMajorUnits(balance.owed),
+  net: (balance) => formatMajorUnits(balance.net),
+};
+
+export const HOLIDAY_CSV_COLUMNS: CsvColumns<HolidayRecord> = {
+  date: (holiday) => holiday.date,
+  name: (holiday) => holiday.name,
+};
+
+export const EXCHANGE_RATE_CSV_COLUMNS: CsvColumns<ExchangeRateRecord> = {
+  date: (rate) => rate.date,
+  baseCurrency: (rate) => rate.baseCurrency,
+  quoteCurrency: (rate) => rate.quoteCurrency,
+  rate: (rate) => String(rate.rate),
+};
+
+export const REMINDER_CSV_COLUMNS: CsvColumns<ReminderRecord> = {
+  paymentId: (reminder) => reminder.paymentId,
+  bill: (reminder) => reminder.bill,
+  billType: (reminder) => reminder.billType,
+  outstanding: (reminder) => formatMajorUnits(reminder.outstanding),
+  currency: (reminder) => reminder.outstanding.currency,
+  dueDate: (reminder) => reminder.dueDate,
+  daysUntilDue: (reminder) => String(reminder.daysUntilDue),
+  threshold: (reminder) => reminder.threshold,
+  channels: (reminder) => reminder.channels.join(' '),
+};
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  CursorSource,
+  buildCursorFilter,
+  buildPaymentFilter,
+  encodeCursor,
+  getPaymentOrderBy,
+} from "./paymentQuery.js";
+
+const payment = (overrides: Partial<CursorSource> = {}): CursorSource => ({
+  id: "p1",
+  dueDate: new Date(Date.UTC(2025, 4, 5, 5)),
+  paidDate: null,
+  amount: 95000,
+  bill: { name: "Internet" },
+  ...overrides,
+});
+
+describe("buildPaymentFilter", () => {
+  it("should not filter anything without options", () => {
+    expect(Object.values(buildPaymentFilter({})).every((value) => value === undefined)).toBe(true);
+  });
+
+  it("should filter by bills, types and statuses", () => {
+    expect(
+      buildPaymentFilter({ billIds: ["b1"], billTypes: ["INTERNET"], statuses: ["OVERDUE"] })
+    ).toMatchObject({
+      billId: { in: ["b1"] },
+      bill: { type: { in: ["INTERNET"] } },
+      status: { in: ["OVERDUE"] },
+    });
+  });
+
+  it("should include whole days at both ends of a date range", () => {
+    const filter = buildPaymentFilter({
+      dueFrom: new Date(2025, 0, 1),
+      dueTo: new Date(2025, 11, 31),
+      paidTo: new Date(2025, 5, 30),
+    });
+    expect(filter.dueDate).toEqual({ gte: new Date(2025, 0, 1), lt: new Date(2026, 0, 1) });
+    expect(filter.paidDate).toEqual({ gte: undefined, lt: new Date(2025, 6, 1) });
+  });
+
+  it("should reject ranges that end before they start", () => {
+    expect(() =>
+      buildPaymentFilter({ dueFrom: new Date(2025, 1, 1), dueTo: new Date(2025, 0, 1) })
+    ).toThrow("must not be after its end");
+    expect(() =>
+      buildPaymentFilter({
+        minAmount: { amount: 200, currency: "COP" },
+        maxAmount: { amount: 100, currency: "COP" },
+      })
+    ).toThrow("must not be larger than the maximum");
+  });
+
+  it("should limit amount ranges to their currency", () => {
+    expect(buildPaymentFilter({ minAmount: { amount: 1000, currency: "USD" } })).toMatchObject({
+      amount: { gte: 1000, lte: undefined },
+      currency: "USD",
+    });
+    expect(() =>
+      buildPaymentFilter({
+        minAmount: { amount: 100, currency: "USD" },
+        maxAmount: { amount: 200, currency: "COP" },
+      })
+    ).toThrow("same currency");
+  });
+
+  it("should search notes without regard to case", () => {
+    expect(buildPaymentFilter({ notes: "router" }).notes).toEqual({
+      contains: "router",
+      mode: "insensitive",
+    });
+  });
+});
+
+describe("getPaymentOrderBy", () => {
+  it("should break ties by id in the same direction", () => {
+    expect(getPaymentOrderBy("amount", "desc")).toEqual([{ amount: "desc" }, { id: "desc" }]);
+    expect(getPaymentOrderBy("bill", "asc")).toEqual([{ bill: { name: "asc" } }, { id: "asc" }]);
+  });
+
+  it("should put unpaid payments last", () => {
+    expect(getPaymentOrderBy("paidDate", "desc")[0]).toEqual({
+      paidDate: { sort: "desc", nulls: "last" },
+    });
+  });
+});
+
+describe("cursors", () => {
+  it("should continue after the sort value and id of the last payment", () => {
+    const cursor = encodeCursor(payment(), "dueDate", "asc");
+    const dueDate = new Date(Date.UTC(2025, 4, 5, 5));
+    expect(buildCursorFilter(cursor, "dueDate", "asc")).toEqual({
+      OR: [{ dueDate: { gt: dueDate } }, { AND: [{ dueDate }, { id: { gt: "p1" } }] }],
+    });
+  });
+
+  it("should compare the other way when descending", () => {
+    const cursor = encodeCursor(payment(), "bill", "desc");
+    expect(buildCursorFilter(cursor, "bill", "desc")).toEqual({
+      OR: [
+        { bill: { name: { lt: "Internet" } } },
+        { AND: [{ bill: { name: "Internet" } }, { id: { lt: "p1" } }] },
+      ],
+    });
+  });
+
+  it("should keep unpaid payments after the paid ones", () => {
+    const paidDate = new Date(Date.UTC(2025, 4, 3));
+    const paid = encodeCursor(payment({ paidDate }), "paidDate", "asc");
+    expect(buildCursorFilter(paid, "paidDate", "asc")).toEqual({
+      OR: [
+        { paidDate: { gt: paidDate } },
+        { AND: [{ paidDate }, { id: { gt: "p1" } }] },
+        { paidDate: null },
+      ],
+    });
+
+    const unpaid = encodeCursor(payment(), "paidDate", "asc");
+    expect(buildCursorFilter(unpaid, "paidDate", "asc")).toEqual({
+      AND: [{ paidDate: null }, { id: { gt: "p1" } }],
+    });
+  });
+
+  it("should reject cursors of another sort order", () => {
+    const cursor = encodeCursor(payment(), "amount", "asc");
+    expect(() => buildCursorFilter(cursor, "amount", "desc")).toThrow("different sort order");
+    expect(() => buildCursorFilter(cursor, "dueDate", "asc")).toThrow("different sort order");
+  });
+
+  it("should reject cursors that were not made by encodeCursor", () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    expect(() => buildCursorFilter("not a cursor", "dueDate", "asc")).toThrow("Invalid cursor");
+    expect(() =>
+      buildCursorFilter(encode(["amount", "asc", "ten", "p1"]), "amount", "asc")
+    ).toThrow("Invalid cursor");
+    expect(() =>
+      buildCursorFilter(encode(["dueDate", "asc", null, "p1"]), "dueDate", "asc")
+    ).toThrow("Invalid cursor");
+    expect(() =>
+      buildCursorFilter(encode(["dueDate", "asc", "someday", "p1"]), "dueDate", "asc")
+    ).toThrow("Invalid cursor");
+  });
+});
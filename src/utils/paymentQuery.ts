@@ -0,0 +1,177 @@
+import { BillType, PaymentStatus, Prisma } from '@prisma/client';
+import { Money } from './money.js';
+
+// Filters, sorting and cursor paging of PaymentService.query and `payments:search`
+
+export type PaymentSortField = 'dueDate' | 'paidDate' | 'amount' | 'bill';
+export type SortOrder = 'asc' | 'desc';
+
+export const PAYMENT_SORT_FIELDS: PaymentSortField[] = ['dueDate', 'paidDate', 'amount', 'bill'];
+export const DEFAULT_QUERY_LIMIT = 50;
+export const MAX_QUERY_LIMIT = 500;
+
+// Every filter is optional; date ranges are whole days, both ends included
+export interface PaymentQuery {
+  billIds?: string[];
+  billTypes?: BillType[];
+  statuses?: PaymentStatus[];
+  dueFrom?: Date;
+  dueTo?: Date;
+  paidFrom?: Date;
+  paidTo?: Date;
+  minAmount?: Money; // Amount bounds only match payments in their currency
+  maxAmount?: Money;
+  notes?: string; // Case-insensitive text in the notes
+  sortBy?: PaymentSortField; // dueDate unless given
+  order?: SortOrder; // asc unless given
+  limit?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
+// The fields of a payment the cursor needs to find its place again
+export interface CursorSource {
+  id: string;
+  dueDate: Date;
+  paidDate: Date | null;
+  amount: number;
+  bill: { name: string };
+}
+
+interface CursorPosition {
+  value: Date | string | number | null;
+  id: string;
+}
+
+const nextDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+const dayRange = (from?: Date, to?: Date): Prisma.DateTimeFilter | undefined => {
+  if (from && to && from > to) {
+    throw new Error('The start of a date range must not be after its end');
+  }
+  return from || to ? { gte: from, lt: to ? nextDay(to) : undefined } : undefined;
+};
+
+export const buildPaymentFilter = (query: PaymentQuery): Prisma.PaymentWhereInput => {
+  const { minAmount, maxAmount } = query;
+  if (minAmount && maxAmount) {
+    if (minAmount.currency !== maxAmount.currency) {
+      throw new Error('The minimum and maximum amount must be in the same currency');
+    }
+    if (minAmount.amount > maxAmount.amount) {
+      throw new Error('The minimum amount must not be larger than the maximum');
+    }
+  }
+
+  return {
+    billId: query.billIds?.length ? { in: query.billIds } : undefined,
+    bill: query.billTypes?.length ? { type: { in: query.billTypes } } : undefined,
+    status: query.statuses?.length ? { in: query.statuses } : undefined,
+    dueDate: dayRange(query.dueFrom, query.dueTo),
+    paidDate: dayRange(query.paidFrom, query.paidTo),
+    amount: minAmount || maxAmount ? { gte: minAmount?.amount, lte: maxAmount?.amount } : undefined,
+    currency: (minAmount ?? maxAmount)?.currency,
+    notes: query.notes ? { contains: query.notes, mode: 'insensitive' } : undefined,
+  };
+};
+
+/**
+ * Sort order with the id as tiebreaker, so every payment has one place and
+ * pages neither repeat nor skip rows. Payments without a paid date come last
+ * either way.
+ */
+export const getPaymentOrderBy = (
+  sortBy: PaymentSortField,
+  order: SortOrder
+): Prisma.PaymentOrderByWithRelationInput[] => {
+  const primary: Prisma.PaymentOrderByWithRelationInput =
+    sortBy === 'bill'
+      ? { bill: { name: order } }
+      : sortBy === 'paidDate'
+        ? { paidDate: { sort: order, nulls: 'last' } }
+        : { [sortBy]: order };
+  return [primary, { id: order }];
+};
+
+const getSortValue = (payment: CursorSource, sortBy: PaymentSortField): string | number | null => {
+  switch (sortBy) {
+    case 'dueDate':
+      return payment.dueDate.toISOString();
+    case 'paidDate':
+      return payment.paidDate?.toISOString() ?? null;
+    case 'amount':
+      return payment.amount;
+    case 'bill':
+      return payment.bill.name;
+  }
+};
+
+// The sort is part of the cursor, so it cannot be reused with another one
+export const encodeCursor = (
+  payment: CursorSource,
+  sortBy: PaymentSortField,
+  order: SortOrder
+): string =>
+  Buffer.from(JSON.stringify([sortBy, order, getSortValue(payment, sortBy), payment.id])).toString(
+    'base64url'
+  );
+
+const decodeCursor = (
+  cursor: string,
+  sortBy: PaymentSortField,
+  order: SortOrder
+): CursorPosition => {
+  let parts: unknown;
+  try {
+    parts = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!Array.isArray(parts) || parts.length !== 4 || typeof parts[3] !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+  if (parts[0] !== sortBy || parts[1] !== order) {
+    throw new Error('The cursor belongs to a different sort order');
+  }
+
+  const [, , value, id] = parts;
+  if (value === null && sortBy === 'paidDate') {
+    return { value, id };
+  }
+  if (sortBy === 'amount' ? Number.isInteger(value) : typeof value === 'string') {
+    const isDate = sortBy === 'dueDate' || sortBy === 'paidDate';
+    const date = isDate ? new Date(value) : undefined;
+    if (!date || !Number.isNaN(date.getTime())) {
+      return { value: date ?? value, id };
+    }
+  }
+  throw new Error('Invalid cursor');
+};
+
+const fieldFilter = (sortBy: PaymentSortField, condition: unknown): Prisma.PaymentWhereInput =>
+  sortBy === 'bill'
+    ? { bill: { name: condition as Prisma.StringFilter } }
+    : ({ [sortBy]: condition } as Prisma.PaymentWhereInput);
+
+// Payments that come after the cursor in the sort order
+export const buildCursorFilter = (
+  cursor: string,
+  sortBy: PaymentSortField,
+  order: SortOrder
+): Prisma.PaymentWhereInput => {
+  const { value, id } = decodeCursor(cursor, sortBy, order);
+  const compare = order === 'asc' ? 'gt' : 'lt';
+  const sameValue = { AND: [fieldFilter(sortBy, value), { id: { [compare]: id } }] };
+
+  // Only paid dates are nullable, and nulls come last
+  if (value === null) {
+    return sameValue;
+  }
+  return {
+    OR: [
+      fieldFilter(sortBy, { [compare]: value }),
+      sameValue,
+      ...(sortBy === 'paidDate' ? [{ paidDate: null }] : []),
+    ],
+  };
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPdf,
+  encodeWinAnsi,
+  fitText,
+  measureText,
+  toPdfString,
+  wrapText,
+} from "./pdf.js";
+
+describe("encodeWinAnsi", () => {
+  it("should keep Latin-1 and map the Windows extras", () => {
+    expect(encodeWinAnsi("Añó")).toEqual([0x41, 0xf1, 0xf3]);
+    expect(encodeWinAnsi("€…")).toEqual([0x80, 0x85]);
+  });
+
+  it("should replace other spaces and unsupported characters", () => {
+    expect(encodeWinAnsi("1 2")).toEqual([0x31, 0x20, 0x32]);
+    expect(encodeWinAnsi("日")).toEqual([0x3f]);
+  });
+});
+
+describe("toPdfString", () => {
+  it("should escape parentheses, backslashes and non-ASCII bytes", () => {
+    expect(toPdfString("a (b) \\ ñ")).toBe("(a \\(b\\) \\\\ \\361)");
+  });
+});
+
+describe("measureText", () => {
+  it("should add up the Helvetica widths", () => {
+    expect(measureText("Hi", 10, "regular")).toBeCloseTo(9.44);
+    expect(measureText("Hi", 10, "bold")).toBeCloseTo(10);
+    expect(measureText("é", 10, "regular")).toBe(measureText("e", 10, "regular"));
+  });
+});
+
+describe("fitText", () => {
+  it("should keep text that fits and shorten the rest with an ellipsis", () => {
+    expect(fitText("Water", 100, 10, "regular")).toBe("Water");
+    const shortened = fitText("Electricity and gas", 40, 10, "regular");
+    expect(shortened.endsWith("…")).toBe(true);
+    expect(measureText(shortened, 10, "regular")).toBeLessThanOrEqual(40);
+  });
+});
+
+describe("wrapText", () => {
+  it("should break between words", () => {
+    expect(wrapText("paid by bank transfer", 60, 10, "regular")).toEqual([
+      "paid by bank",
+      "transfer",
+    ]);
+  });
+
+  it("should break words longer than the line", () => {
+    const lines = wrapText("x".repeat(30), 50, 10, "regular");
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe("x".repeat(30));
+  });
+});
+
+describe("buildPdf", () => {
+  const pdf = buildPdf(
+    [
+      [{ kind: "text", x: 48, y: 800, size: 12, font: "bold", text: "Statement (October)" }],
+      [{ kind: "rule", x1: 48, y1: 700, x2: 547, y2: 700, width: 0.5 }],
+    ],
+    { title: "Casa", createdAt: new Date(2026, 9, 19, 14, 30) }
+  );
+  const content = pdf.toString("latin1");
+
+  it("should write a PDF with a page per entry", () => {
+    expect(content.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(content.endsWith("%%EOF\n")).toBe(true);
+    expect(content).toContain("/Count 2");
+    expect(content).toContain("/BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding");
+    expect(content).toContain("/F2 12 Tf 48 800 Td (Statement \\(October\\)) Tj");
+    expect(content).toContain("0.5 w 48 700 m 547 700 l S");
+    expect(content).toContain("/CreationDate (D:20261019143000)");
+  });
+
+  it("should point the cross-reference table at every object", () => {
+    const startxref = Number(content.match(/startxref\n(\d+)/)![1]);
+    expect(content.slice(startxref).startsWith("xref\n0 10\n")).toBe(true);
+
+    const offsets = content.slice(startxref).match(/^\d{10} 00000 n $/gm)!;
+    expect(offsets).toHaveLength(9);
+    offsets.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(content.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+  });
+
+  it("should give every content stream its length", () => {
+    const [, length, stream] = content.match(/<< \/Length (\d+) >>\nstream\n([^]*?)\nendstream/)!;
+    expect(stream.length).toBe(Number(length));
+  });
+});
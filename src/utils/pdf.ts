@@ -0,0 +1,233 @@
+// Minimal PDF 1.4 writer for text documents, using the standard Helvetica fonts
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfText {
+  kind: 'text';
+  x: number;
+  y: number; // Baseline, from the bottom of the page
+  size: number;
+  font: PdfFont;
+  text: string;
+  gray?: number; // 0 is black, 1 is white
+}
+
+export interface PdfRule {
+  kind: 'rule';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+}
+
+export type PdfPage = (PdfText | PdfRule)[];
+
+export interface PdfInfo {
+  title: string;
+  createdAt: Date;
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const FONTS: PdfFont[] = ['regular', 'bold'];
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+const BASE_FONTS: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+// Objects 1 and 2 are the catalog and the page tree, 3 and 4 the fonts; each page
+// is followed by its content stream
+const INFO_OBJECT = 5;
+const FIRST_PAGE_OBJECT = 6;
+
+// Advance widths of the characters from space to tilde, in 1/1000 of the font size
+const GLYPH_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+    556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+    611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+    667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+    222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+    556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+    611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+    667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+    278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// WinAnsiEncoding matches Latin-1 except for these characters
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‰': 0x89,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+/**
+ * Bytes of the text in WinAnsiEncoding, which the standard fonts use. Other
+ * spaces become plain spaces and characters outside the encoding become "?".
+ */
+export const encodeWinAnsi = (text: string): number[] =>
+  Array.from(text).map((char) => {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      return code;
+    }
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      return WIN_ANSI_EXTRAS[char];
+    }
+    return /\s/.test(char) ? 0x20 : 0x3f;
+  });
+
+// Accented letters are as wide as their base letter
+const getGlyphWidth = (code: number, font: PdfFont): number => {
+  const base = code >= 0xc0 ? String.fromCharCode(code).normalize('NFD').charCodeAt(0) : code;
+  return base >= 0x20 && base <= 0x7e ? GLYPH_WIDTHS[font][base - 0x20] : DEFAULT_GLYPH_WIDTH;
+};
+
+export const measureText = (text: string, size: number, font: PdfFont): number =>
+  (encodeWinAnsi(text).reduce((sum, code) => sum + getGlyphWidth(code, font), 0) * size) / 1000;
+
+// Shortens the text with an ellipsis until it fits the width
+export const fitText = (text: string, width: number, size: number, font: PdfFont): string => {
+  if (measureText(text, size, font) <= width) {
+    return text;
+  }
+  const chars = Array.from(text);
+  while (chars.length > 0 && measureText(`${chars.join('').trimEnd()}…`, size, font) > width) {
+    chars.pop();
+  }
+  return chars.length > 0 ? `${chars.join('').trimEnd()}…` : '';
+};
+
+// Breaks the text into lines that fit the width, between words where possible. Amounts
+// keep their no-break spaces.
+export const wrapText = (text: string, width: number, size: number, font: PdfFont): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text
+    .split(/[ \t\r\n]+/)
+    .filter((word) => word !== '')
+    .forEach((word) => {
+      const candidate = line === '' ? word : `${line} ${word}`;
+      if (line !== '' && measureText(candidate, size, font) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+      while (measureText(line, size, font) > width && Array.from(line).length > 1) {
+        const chars = Array.from(line);
+        let cut = chars.length - 1;
+        while (cut > 1 && measureText(chars.slice(0, cut).join(''), size, font) > width) {
+          cut--;
+        }
+        lines.push(chars.slice(0, cut).join(''));
+        line = chars.slice(cut).join('');
+      }
+    });
+  return line !== '' ? [...lines, line] : lines;
+};
+
+// Literal string with the bytes outside printable ASCII as octal escapes
+export const toPdfString = (text: string): string =>
+  '(' +
+  encodeWinAnsi(text)
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) {
+        return `\\${String.fromCharCode(code)}`;
+      }
+      return code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+    })
+    .join('') +
+  ')';
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const toContentStream = (page: PdfPage): string =>
+  page
+    .map((item) => {
+      if (item.kind === 'rule') {
+        const { x1, y1, x2, y2, width } = item;
+        return (
+          `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(y1)} m ` +
+          `${formatNumber(x2)} ${formatNumber(y2)} l S`
+        );
+      }
+      const { x, y, size, font, text, gray = 0 } = item;
+      return (
+        `BT ${formatNumber(gray)} g /${FONT_NAMES[font]} ${formatNumber(size)} Tf ` +
+        `${formatNumber(x)} ${formatNumber(y)} Td ${toPdfString(text)} Tj ET`
+      );
+    })
+    .join('\n');
+
+// "D:20261019143000"
+const toPdfDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+};
+
+/**
+ * Writes the pages as a PDF file. Content streams are left uncompressed and
+ * every byte outside the header comment is ASCII, so the offsets in the
+ * cross-reference table are string lengths.
+ */
+export const buildPdf = (pages: PdfPage[], info: PdfInfo): Buffer => {
+  const pageObjects = pages.map((_, index) => FIRST_PAGE_OBJECT + index * 2);
+  const fontRefs = FONTS.map((font, index) => `/${FONT_NAMES[font]} ${3 + index} 0 R`).join(' ');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjects.map((id) => `${id} 0 R`).join(' ')}] ` +
+      `/Count ${pages.length} >>`,
+    ...FONTS.map(
+      (font) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${BASE_FONTS[font]} ` +
+        '/Encoding /WinAnsiEncoding >>'
+    ),
+    `<< /Title ${toPdfString(info.title)} /Producer (House Duties) ` +
+      `/CreationDate (${toPdfDate(info.createdAt)}) >>`,
+    ...pages.flatMap((page, index) => {
+      const stream = toContentStream(page);
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << ${fontRefs} >> >> /Contents ${pageObjects[index] + 1} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      ];
+    }),
+  ];
+
+  // The comment with bytes above 127 tells tools the file is binary
+  let content = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, index) => {
+    const offset = content.length;
+    content += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = content.length;
+  content +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${INFO_OBJECT} 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(content, 'latin1');
+};
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  promptFor,
+  confirmAction,
+  parseChoice,
+  parseChoiceList,
+  parseDateOption,
+  UsageError,
+} from "./prompt.js";
+
+const questions = [
+  {
+    type: "input",
+    name: "name",
+    message: "Name:",
+    validate: (input: string) => input.trim() !== "" || "Name is required",
+  },
+  {
+    type: "list",
+    name: "billId",
+    message: "Bill:",
+    choices: [
+      { name: "Rent - $ 1.500.000", value: "b1", short: "Rent" },
+      { name: "Water - $ 80.000", value: "b2", short: "Water" },
+    ],
+  },
+  { type: "number", name: "dueDay", message: "Due day:", default: 5, optional: true },
+  { type: "confirm", name: "active", message: "Active?", default: true, optional: true },
+  {
+    type: "number",
+    name: "monthOfYear",
+    message: "Month:",
+    when: (answers: any) => answers.dueDay > 28,
+  },
+  { type: "input", name: "description", message: "Description (optional):", optional: true },
+];
+
+describe("promptFor without a terminal", () => {
+  let isTTY: boolean | undefined;
+
+  beforeEach(() => {
+    isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY as boolean;
+  });
+
+  it("should parse given options and fill in defaults", async () => {
+    const answers = await promptFor(
+      questions,
+      { name: "Ana", billId: "water", active: "no" },
+      { billId: "bill" }
+    );
+    expect(answers).toEqual({
+      name: "Ana",
+      billId: "b2",
+      dueDay: 5,
+      active: false,
+      description: "",
+    });
+  });
+
+  it("should fail on missing required options, naming the flag", async () => {
+    await expect(promptFor(questions, { name: "Ana" }, { billId: "bill" })).rejects.toThrow(
+      new UsageError("Missing required option --bill")
+    );
+    await expect(promptFor(questions, { name: "Ana", billId: "b1", dueDay: "30" })).rejects.toThrow(
+      "Missing required option --month-of-year"
+    );
+  });
+
+  it("should not fall back to the default of required questions", async () => {
+    const dated = [
+      { type: "input", name: "paidDate", message: "Paid date:", default: "2026-10-19" },
+    ];
+    await expect(promptFor(dated)).rejects.toThrow("Missing required option --paid-date");
+    expect(await promptFor([{ ...dated[0], optional: true }])).toEqual({ paidDate: "2026-10-19" });
+  });
+
+  it("should validate given options like typed answers", async () => {
+    await expect(promptFor(questions, { name: " " })).rejects.toThrow("--name: Name is required");
+    await expect(promptFor(questions, { name: "Ana", billId: "b1", dueDay: "x" })).rejects.toThrow(
+      "--due-day must be a number"
+    );
+    await expect(promptFor(questions, { name: "Ana", billId: "Gas" })).rejects.toThrow(
+      "--bill-id must be one of: Rent, Water"
+    );
+  });
+
+  it("should reject choices matching several options", async () => {
+    const list = [
+      {
+        type: "list",
+        name: "paymentId",
+        message: "Payment:",
+        choices: [
+          { name: "Cleaning 1", value: "p1", short: "Cleaning" },
+          { name: "Cleaning 2", value: "p2", short: "Cleaning" },
+        ],
+      },
+    ];
+    await expect(promptFor(list, { paymentId: "cleaning" })).rejects.toThrow(/matches 2 choices/);
+  });
+
+  it("should parse comma-separated checkbox options", async () => {
+    const checkbox = [
+      {
+        type: "checkbox",
+        name: "excluded",
+        message: "Excluded:",
+        choices: [
+          { name: "Ana", value: "m1" },
+          { name: "Luis", value: "m2" },
+        ],
+      },
+    ];
+    expect(await promptFor(checkbox, { excluded: "luis, ana" })).toEqual({ excluded: ["m2", "m1"] });
+    expect(await promptFor(checkbox, { excluded: "" })).toEqual({ excluded: [] });
+  });
+
+  it("should require --yes to confirm", async () => {
+    expect(await confirmAction("Delete?", true)).toBe(true);
+    await expect(confirmAction("Delete?")).rejects.toThrow(/--yes/);
+  });
+});
+
+describe("option parsers", () => {
+  it("should match choices by value or label without regard to case", () => {
+    expect(parseChoice("desc", ["asc", "desc"], "--order")).toBe("desc");
+    expect(parseChoiceList("rent, WATER", questions[1].choices!, "--bill")).toEqual(["b1", "b2"]);
+    expect(parseChoiceList("", ["asc"], "--order")).toEqual([]);
+  });
+
+  it("should name the option and the choices when nothing matches", () => {
+    expect(() => parseChoiceList("rent,gas", questions[1].choices!, "--bill")).toThrow(
+      "--bill must be one of: Rent, Water"
+    );
+  });
+
+  it("should parse date options", () => {
+    expect(parseDateOption(undefined, "from")).toBeUndefined();
+    expect(parseDateOption("2025-12-31", "to")).toEqual(new Date(2025, 11, 31));
+    expect(() => parseDateOption("31/12/2025", "to")).toThrow(
+      new UsageError("--to must be a date in YYYY-MM-DD format")
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import inquirer from 'inquirer';
+import { parseDateKey } from './holidays.js';
+
+// Wrong or missing command line options, shown without a stack trace
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Prompts need a terminal; scripts, cron jobs and piped output must pass everything as options
+export const isInteractive = (): boolean =>
+  Boolean(process.stdin.isTTY) && Boolean(process.stdout.isTTY);
+
+const toFlag = (name: string): string =>
+  `--${name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+
+const resolve = async (value: any, answers: Record<string, any>): Promise<any> =>
+  typeof value === 'function' ? value(answers) : value;
+
+export type Choice = { name?: string; value?: unknown; short?: string } | string;
+
+// Options may give a choice by value, by label or by its short label (e.g. a bill name)
+const matchChoices = (choices: Choice[], given: string, flag: string): unknown => {
+  const wanted = given.trim().toLowerCase();
+  const matches = choices.filter((choice) => {
+    if (typeof choice === 'string') {
+      return choice.toLowerCase() === wanted;
+    }
+    return [choice.value, choice.name, choice.short].some(
+      (label) => label !== undefined && String(label).toLowerCase() === wanted
+    );
+  });
+
+  if (matches.length === 0) {
+    const labels = choices.map((choice) =>
+      typeof choice === 'string' ? choice : (choice.short ?? choice.name ?? String(choice.value))
+    );
+    throw new UsageError(`${flag} must be one of: ${labels.join(', ')}`);
+  }
+  if (matches.length > 1) {
+    throw new UsageError(`${flag} "${given}" matches ${matches.length} choices, be more specific`);
+  }
+  const [match] = matches;
+  return typeof match === 'string' ? match : match.value;
+};
+
+// YYYY-MM-DD option values; `option` is the flag name without dashes
+export const parseDateOption = (value: string | undefined, option: string): Date | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = parseDateKey(value);
+  if (!date) {
+    throw new UsageError(`--${option} must be a date in YYYY-MM-DD format`);
+  }
+  return date;
+};
+
+// YYYY-MM, the format of --month options and month prompts
+export const currentMonth = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const parseMonth = (value: string): { year: number; month: number } => {
+  const match = value.match(/^(\d{4})-(\d{2})$/);
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new UsageError(`--month must be YYYY-MM, got "${value}"`);
+  }
+  return { year: Number(match[1]), month };
+};
+
+// Option values matched like list answers, for options that are never prompted for
+export const parseChoice = (given: string, choices: Choice[], flag: string): unknown =>
+  matchChoices(choices, given, flag);
+
+// Comma-separated, e.g. --status pending,overdue
+export const parseChoiceList = (given: string, choices: Choice[], flag: string): unknown[] =>
+  given
+    .split(',')
+    .filter((value) => value.trim() !== '')
+    .map((value) => matchChoices(choices, value, flag));
+
+const parseGiven = async (
+  question: any,
+  given: unknown,
+  flag: string,
+  answers: Record<string, any>
+): Promise<unknown> => {
+  switch (question.type) {
+    case 'number': {
+      const value = Number(given);
+      if (given === '' || !Number.isFinite(value)) {
+        throw new UsageError(`${flag} must be a number`);
+      }
+      return value;
+    }
+    case 'confirm': {
+      if (typeof given === 'boolean') {
+        return given;
+      }
+      const text = String(given).toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(text)) {
+        return true;
+      }
+      if (['false', 'no', 'n', '0'].includes(text)) {
+        return false;
+      }
+      throw new UsageError(`${flag} must be true or false`);
+    }
+    case 'list':
+      return matchChoices(await resolve(question.choices, answers), String(given), flag);
+    case 'checkbox': {
+      const values = Array.isArray(given) ? given : String(given).split(',');
+      const choices = await resolve(question.choices, answers);
+      return values
+        .map((value) => String(value))
+        .filter((value) => value.trim() !== '')
+        .map((value) => matchChoices(choices, value, flag));
+    }
+    default:
+      return String(given);
+  }
+};
+
+/**
+ * Asks the questions whose answers were not given as command line options.
+ * Given answers go through the same validation as typed ones. Without a
+ * terminal, missing answers fail with a UsageError naming the option to pass,
+ * unless the question is marked `optional` (its option help states the
+ * default); those take the question default, or an empty string.
+ *
+ * `given` is keyed by question name; `flags` names the option of a question
+ * when it is not the kebab-case question name (e.g. billId from --bill).
+ */
+export const promptFor = async (
+  questions: any[],
+  given: Record<string, unknown> = {},
+  flags: Record<string, string> = {}
+): Promise<Record<string, any>> => {
+  const answers: Record<string, any> = {};
+
+  for (const question of questions) {
+    const name: string = question.name;
+    const flag = flags[name] ? `--${flags[name]}` : toFlag(name);
+    if (!(await resolve(question.when ?? true, answers))) {
+      continue;
+    }
+
+    let value: unknown;
+    if (given[name] !== undefined) {
+      value = await parseGiven(question, given[name], flag, answers);
+    } else if (isInteractive()) {
+      Object.assign(answers, await inquirer.prompt([question], answers));
+      continue;
+    } else {
+      if (!question.optional) {
+        throw new UsageError(`Missing required option ${flag}`);
+      }
+      value = (await resolve(question.default, answers)) ?? '';
+    }
+
+    const valid = question.validate ? await question.validate(value, answers) : true;
+    if (valid !== true) {
+      throw new UsageError(`${flag}: ${typeof valid === 'string' ? valid : 'invalid value'}`);
+    }
+    answers[name] = value;
+  }
+
+  return answers;
+};
+
+// Destructive commands ask first, or need --yes without a terminal
+export const confirmAction = async (message: string, yes?: boolean): Promise<boolean> => {
+  if (yes) {
+    return true;
+  }
+  if (!isInteractive()) {
+    throw new UsageError('Pass --yes to confirm without a terminal');
+  }
+
+  const { confirm } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message,
+      default: false,
+    },
+  ]);
+  return confirm;
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MATCH_RULE,
+  MatchCandidate,
+  extractKeywords,
+  learnKeywords,
+  scoreMatch,
+  matchTransactions,
+} from "./reconcile.js";
+import { BankTransaction } from "./bankStatement.js";
+import { money } from "./money.js";
+
+const transaction = (
+  line: number,
+  day: number,
+  amount: number,
+  description: string
+): BankTransaction => ({
+  line,
+  date: new Date(2026, 9, day),
+  amount: money(amount),
+  description,
+});
+
+const candidate = (
+  paymentId: string,
+  billName: string,
+  amount: number,
+  day: number,
+  keywords: string[] = []
+): MatchCandidate => ({
+  paymentId,
+  billId: `bill-${paymentId}`,
+  billName,
+  outstanding: money(amount),
+  dueDate: new Date(2026, 9, day),
+  rule: { ...DEFAULT_MATCH_RULE, keywords },
+});
+
+describe("extractKeywords", () => {
+  it("should keep words and long numbers without accents or banking words", () => {
+    expect(extractKeywords("PAGO PSE Energía EPM Ref 123456 04")).toEqual([
+      "energia",
+      "epm",
+      "123456",
+    ]);
+  });
+});
+
+describe("learnKeywords", () => {
+  it("should add new keywords and move seen ones to the end", () => {
+    expect(learnKeywords(["epm", "agua"], "PAGO EPM 998877")).toEqual(["agua", "epm", "998877"]);
+  });
+
+  it("should keep the 20 most recent keywords", () => {
+    const keywords = Array.from({ length: 20 }, (_, index) => `word${String.fromCharCode(97 + index)}`);
+    const learned = learnKeywords(keywords, "newword");
+    expect(learned).toHaveLength(20);
+    expect(learned[0]).toBe("wordb");
+    expect(learned[19]).toBe("newword");
+  });
+});
+
+describe("scoreMatch", () => {
+  it("should score exact amounts on the due date with keywords highest", () => {
+    const result = scoreMatch(transaction(1, 5, 85000, "PSE EPM Energia"), candidate("p1", "Energia", 85000, 5));
+    expect(result).toEqual({
+      score: 0.85,
+      reasons: ["exact amount", "on the due date", "keywords: energia"],
+    });
+  });
+
+  it("should use learned keywords", () => {
+    const result = scoreMatch(
+      transaction(1, 5, 85000, "PSE EPM 123456"),
+      candidate("p1", "Electricity", 85000, 5, ["epm", "123456"])
+    );
+    expect(result?.score).toBe(1);
+  });
+
+  it("should reject amounts outside the tolerance and dates outside the window", () => {
+    expect(scoreMatch(transaction(1, 5, 95000, "x"), candidate("p1", "Water", 85000, 5))).toBeNull();
+    expect(scoreMatch(transaction(1, 20, 85000, "x"), candidate("p1", "Water", 85000, 5))).toBeNull();
+  });
+
+  it("should reject other currencies", () => {
+    const usd = { ...transaction(1, 5, 8500, "x"), amount: money(8500, "USD") };
+    expect(scoreMatch(usd, candidate("p1", "Water", 8500, 5))).toBeNull();
+  });
+
+  it("should explain close matches", () => {
+    const result = scoreMatch(transaction(1, 3, 88000, "x"), candidate("p1", "Water", 85000, 5));
+    expect(result?.reasons).toEqual(["amount off by 3.5%", "2 day(s) before due"]);
+  });
+});
+
+describe("matchTransactions", () => {
+  it("should pair each transaction with at most one payment, best score first", () => {
+    const water = candidate("water", "Water", 60000, 5);
+    const gas = candidate("gas", "Gas", 60000, 8);
+    const matches = matchTransactions(
+      [transaction(1, 8, 60000, "VANTI GAS"), transaction(2, 5, 60000, "AGUAS"), transaction(3, 5, 1000, "x")],
+      [water, gas]
+    );
+
+    expect(matches.map((match) => [match.transaction.line, match.candidate.paymentId])).toEqual([
+      [1, "gas"],
+      [2, "water"],
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { BillMatchRule } from '@prisma/client';
+import { BankTransaction, normalizeText } from './bankStatement.js';
+import { Money } from './money.js';
+
+export type MatchRuleConfig = Pick<BillMatchRule, 'keywords' | 'amountTolerance' | 'dateWindow'>;
+
+export const DEFAULT_MATCH_RULE: MatchRuleConfig = {
+  keywords: [],
+  amountTolerance: 0.1,
+  dateWindow: 10,
+};
+
+// Learned keywords per bill, the oldest are dropped first
+const MAX_KEYWORDS = 20;
+
+// Words banks put in most descriptions, useless to tell bills apart
+const STOP_WORDS = new Set([
+  'ach',
+  'and',
+  'abono',
+  'cargo',
+  'compra',
+  'con',
+  'credito',
+  'debit',
+  'debito',
+  'del',
+  'for',
+  'las',
+  'los',
+  'pago',
+  'pagos',
+  'para',
+  'payment',
+  'por',
+  'pos',
+  'pse',
+  'purchase',
+  'ref',
+  'referencia',
+  'the',
+  'transfer',
+  'transferencia',
+]);
+
+export interface MatchCandidate {
+  paymentId: string;
+  billId: string;
+  billName: string;
+  outstanding: Money;
+  dueDate: Date;
+  rule: MatchRuleConfig;
+}
+
+export interface ReconcileMatch {
+  transaction: BankTransaction;
+  candidate: MatchCandidate;
+  score: number; // 0 to 1
+  reasons: string[];
+}
+
+/**
+ * Splits a description into keywords: words of three or more letters and
+ * numbers of five or more digits (contract and account numbers), without
+ * accents, case or common banking words.
+ */
+export const extractKeywords = (text: string): string[] => {
+  const tokens = normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((token) =>
+      /^\d+$/.test(token) ? token.length >= 5 : token.length >= 3 && !STOP_WORDS.has(token)
+    );
+  return [...new Set(tokens)];
+};
+
+// Keywords of a confirmed match move to the end of the rule, the first ones are the stalest
+export const learnKeywords = (keywords: string[], description: string): string[] => {
+  const seen = extractKeywords(description);
+  return [...keywords.filter((keyword) => !seen.includes(keyword)), ...seen].slice(-MAX_KEYWORDS);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+/**
+ * Scores a bank transaction against an open payment, or returns null when the
+ * amount is outside the tolerance or the date outside the window. The amount
+ * weighs most; keywords from the bill name or the learned rule come next.
+ */
+export const scoreMatch = (
+  transaction: BankTransaction,
+  candidate: MatchCandidate
+): Omit<ReconcileMatch, 'transaction' | 'candidate'> | null => {
+  const { outstanding, rule } = candidate;
+  if (transaction.amount.currency !== outstanding.currency || outstanding.amount <= 0) {
+    return null;
+  }
+
+  const difference = Math.abs(transaction.amount.amount - outstanding.amount);
+  const allowed = outstanding.amount * rule.amountTolerance;
+  if (difference > allowed) {
+    return null;
+  }
+
+  const days = daysBetween(candidate.dueDate, transaction.date);
+  if (Math.abs(days) > rule.dateWindow) {
+    return null;
+  }
+
+  const text = extractKeywords(`${transaction.description} ${transaction.reference ?? ''}`);
+  const keywords = new Set([...extractKeywords(candidate.billName), ...rule.keywords]);
+  const hits = text.filter((token) => keywords.has(token));
+
+  const amountScore = allowed === 0 ? 1 : 1 - difference / allowed;
+  const dateScore = 1 - Math.abs(days) / (rule.dateWindow + 1);
+  const keywordScore = Math.min(hits.length, 2) / 2;
+
+  const reasons = [
+    difference === 0
+      ? 'exact amount'
+      : `amount off by ${((difference / outstanding.amount) * 100).toFixed(1)}%`,
+    days === 0 ? 'on the due date' : `${Math.abs(days)} day(s) ${days < 0 ? 'before' : 'after'} due`,
+  ];
+  if (hits.length > 0) {
+    reasons.push(`keywords: ${hits.join(', ')}`);
+  }
+
+  return {
+    score: Math.round((amountScore * 0.5 + dateScore * 0.2 + keywordScore * 0.3) * 100) / 100,
+    reasons,
+  };
+};
+
+/**
+ * Pairs transactions with payments one to one, best scores first, so a
+ * transaction that fits two payments goes to the one it fits best.
+ */
+export const matchTransactions = (
+  transactions: BankTransaction[],
+  candidates: MatchCandidate[]
+): ReconcileMatch[] => {
+  const scored: ReconcileMatch[] = transactions.flatMap((transaction) =>
+    candidates.flatMap((candidate) => {
+      const result = scoreMatch(transaction, candidate);
+      return result ? [{ transaction, candidate, ...result }] : [];
+    })
+  );
+  scored.sort((a, b) => b.score - a.score);
+
+  const usedTransactions = new Set<BankTransaction>();
+  const usedPayments = new Set<string>();
+  const matches: ReconcileMatch[] = [];
+  for (const match of scored) {
+    if (usedTransactions.has(match.transaction) || usedPayments.has(match.candidate.paymentId)) {
+      continue;
+    }
+    usedTransactions.add(match.transaction);
+    usedPayments.add(match.candidate.paymentId);
+    matches.push(match);
+  }
+
+  return matches.sort((a, b) => a.transaction.line - b.transaction.line);
+};
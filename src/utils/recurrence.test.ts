@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { isDueInMonth, getOccurrences, RecurrenceRule } from "./recurrence.js";
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: "MONTHLY",
+  interval: 1,
+  anchorDate: null,
+  monthOfYear: null,
+  dueDay: 10,
+  dueDayRule: "DAY_OF_MONTH",
+  createdAt: new Date(2024, 0, 5),
+  ...overrides,
+});
+
+describe("isDueInMonth", () => {
+  describe("monthly bills", () => {
+    it("should be due every month with interval 1", () => {
+      const monthly = rule({});
+      for (let month = 1; month <= 12; month++) {
+        expect(isDueInMonth(monthly, 2024, month)).toBe(true);
+      }
+    });
+
+    it("should skip off months for bimonthly bills", () => {
+      const bimonthly = rule({ interval: 2, anchorDate: new Date(2024, 0, 15) });
+      expect(isDueInMonth(bimonthly, 2024, 1)).toBe(true);
+      expect(isDueInMonth(bimonthly, 2024, 2)).toBe(false);
+      expect(isDueInMonth(bimonthly, 2024, 3)).toBe(true);
+      expect(isDueInMonth(bimonthly, 2024, 12)).toBe(false);
+      expect(isDueInMonth(bimonthly, 2025, 1)).toBe(true);
+    });
+
+    it("should follow the cycle before the anchor date", () => {
+      const bimonthly = rule({ interval: 2, anchorDate: new Date(2024, 2, 1) });
+      expect(isDueInMonth(bimonthly, 2024, 1)).toBe(true);
+      expect(isDueInMonth(bimonthly, 2023, 12)).toBe(false);
+    });
+
+    it("should fall back to the creation date without an anchor", () => {
+      const bimonthly = rule({ interval: 2, createdAt: new Date(2024, 1, 20) });
+      expect(isDueInMonth(bimonthly, 2024, 2)).toBe(true);
+      expect(isDueInMonth(bimonthly, 2024, 3)).toBe(false);
+    });
+  });
+
+  describe("yearly bills", () => {
+    it("should only be due in the configured month", () => {
+      const yearly = rule({ frequency: "YEARLY", monthOfYear: 4 });
+      expect(isDueInMonth(yearly, 2024, 4)).toBe(true);
+      expect(isDueInMonth(yearly, 2024, 3)).toBe(false);
+      expect(isDueInMonth(yearly, 2025, 4)).toBe(true);
+    });
+
+    it("should use the anchor month when no month of year is set", () => {
+      const yearly = rule({ frequency: "YEARLY", anchorDate: new Date(2023, 6, 1) });
+      expect(isDueInMonth(yearly, 2024, 7)).toBe(true);
+      expect(isDueInMonth(yearly, 2024, 6)).toBe(false);
+    });
+
+    it("should honor multi-year intervals", () => {
+      const everyTwoYears = rule({
+        frequency: "YEARLY",
+        interval: 2,
+        anchorDate: new Date(2024, 4, 1),
+        monthOfYear: 5,
+      });
+      expect(isDueInMonth(everyTwoYears, 2024, 5)).toBe(true);
+      expect(isDueInMonth(everyTwoYears, 2025, 5)).toBe(false);
+      expect(isDueInMonth(everyTwoYears, 2026, 5)).toBe(true);
+    });
+  });
+});
+
+describe("getOccurrences", () => {
+  it("should return the due day for monthly bills", () => {
+    expect(getOccurrences(rule({ dueDay: 15 }), 2024, 3)).toEqual([new Date(2024, 2, 15)]);
+  });
+
+  it("should keep day 31 inside short months", () => {
+    expect(getOccurrences(rule({ dueDay: 31 }), 2024, 2)).toEqual([new Date(2024, 1, 29)]);
+  });
+
+  it("should return nothing in off months", () => {
+    const bimonthly = rule({ interval: 2, anchorDate: new Date(2024, 0, 1) });
+    expect(getOccurrences(bimonthly, 2024, 2)).toEqual([]);
+  });
+
+  it("should return every matching weekday for weekly bills", () => {
+    // 2024-03-01 is a Friday
+    const weekly = rule({ frequency: "WEEKLY", anchorDate: new Date(2024, 2, 1) });
+    expect(getOccurrences(weekly, 2024, 3).map((d) => d.getDate())).toEqual([1, 8, 15, 22, 29]);
+  });
+
+  it("should continue the weekly cycle into later months", () => {
+    const weekly = rule({ frequency: "WEEKLY", anchorDate: new Date(2024, 2, 1) });
+    expect(getOccurrences(weekly, 2024, 4).map((d) => d.getDate())).toEqual([5, 12, 19, 26]);
+  });
+
+  it("should honor biweekly intervals", () => {
+    const biweekly = rule({
+      frequency: "WEEKLY",
+      interval: 2,
+      anchorDate: new Date(2024, 2, 1),
+    });
+    expect(getOccurrences(biweekly, 2024, 3).map((d) => d.getDate())).toEqual([1, 15, 29]);
+    expect(getOccurrences(biweekly, 2024, 4).map((d) => d.getDate())).toEqual([12, 26]);
+  });
+});
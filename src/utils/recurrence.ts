@@ -0,0 +1,73 @@
+import { Bill } from '@prisma/client';
+import { resolveDueDate, getDaysInMonth, BusinessDayPredicate } from './dueDate.js';
+
+export type RecurrenceRule = Pick<
+  Bill,
+  'frequency' | 'interval' | 'anchorDate' | 'monthOfYear' | 'dueDay' | 'dueDayRule' | 'createdAt'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Positive modulo, so occurrences before the anchor follow the same cycle
+const mod = (value: number, divisor: number): number =>
+  ((value % divisor) + divisor) % divisor;
+
+const getAnchor = (rule: RecurrenceRule): Date => {
+  const anchor = rule.anchorDate ?? rule.createdAt;
+  return new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+};
+
+// Whole days between two local dates, ignoring daylight saving shifts
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+      Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+      DAY_MS
+  );
+
+export const isDueInMonth = (rule: RecurrenceRule, year: number, month: number): boolean => {
+  const anchor = getAnchor(rule);
+  const interval = Math.max(rule.interval, 1);
+
+  switch (rule.frequency) {
+    case 'WEEKLY':
+      return getOccurrences(rule, year, month).length > 0;
+    case 'MONTHLY': {
+      const monthsFromAnchor =
+        (year - anchor.getFullYear()) * 12 + (month - 1 - anchor.getMonth());
+      return mod(monthsFromAnchor, interval) === 0;
+    }
+    case 'YEARLY': {
+      const dueMonth = rule.monthOfYear ?? anchor.getMonth() + 1;
+      return month === dueMonth && mod(year - anchor.getFullYear(), interval) === 0;
+    }
+  }
+};
+
+export const getOccurrences = (
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  isBusinessDay?: BusinessDayPredicate
+): Date[] => {
+  if (rule.frequency !== 'WEEKLY') {
+    return isDueInMonth(rule, year, month)
+      ? [resolveDueDate(rule, year, month, isBusinessDay)]
+      : [];
+  }
+
+  const anchor = getAnchor(rule);
+  const step = Math.max(rule.interval, 1) * 7;
+  const monthStart = new Date(year, month - 1, 1);
+  const daysInMonth = getDaysInMonth(year, month);
+
+  // First day in the month that falls on the weekly cycle
+  const offset = mod(daysBetween(anchor, monthStart), step);
+  const firstDay = offset === 0 ? 1 : 1 + step - offset;
+
+  const dates: Date[] = [];
+  for (let day = firstDay; day <= daysInMonth; day += step) {
+    dates.push(new Date(year, month - 1, day));
+  }
+  return dates;
+};
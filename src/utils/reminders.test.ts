@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  DueReminder,
+  buildReminderMessage,
+  formatReminderDays,
+  getDaysUntil,
+  getReminderThreshold,
+  parseReminderDays,
+  toReminderPayload,
+} from "./reminders.js";
+
+const reminder = (overrides: Partial<DueReminder> = {}): DueReminder => ({
+  paymentId: "p1",
+  bill: "Energy",
+  billType: "ELECTRICITY",
+  outstanding: { amount: 120000, currency: "COP" },
+  dueDate: new Date(2026, 9, 20),
+  daysUntilDue: 1,
+  threshold: "1d",
+  ...overrides,
+});
+
+describe("parseReminderDays", () => {
+  it("should parse comma or space separated days, largest first", () => {
+    expect(parseReminderDays("1, 5")).toEqual([5, 1]);
+    expect(parseReminderDays("7 3 0")).toEqual([7, 3, 0]);
+    expect(parseReminderDays("5,5,1")).toEqual([5, 1]);
+  });
+
+  it("should read an empty value as no reminders", () => {
+    expect(parseReminderDays("")).toEqual([]);
+    expect(parseReminderDays("  ")).toEqual([]);
+  });
+
+  it("should reject days that are not whole or out of range", () => {
+    expect(() => parseReminderDays("1.5")).toThrow('Invalid reminder day "1.5"');
+    expect(() => parseReminderDays("-1")).toThrow("Invalid reminder day");
+    expect(() => parseReminderDays("61")).toThrow("between 0 and 60");
+    expect(() => parseReminderDays("soon")).toThrow("Invalid reminder day");
+  });
+});
+
+describe("formatReminderDays", () => {
+  it("should list the lead times", () => {
+    expect(formatReminderDays([5, 1])).toBe("5, 1 day(s) before");
+    expect(formatReminderDays([])).toBe("None");
+  });
+});
+
+describe("getDaysUntil", () => {
+  it("should count calendar days regardless of the time of day", () => {
+    expect(getDaysUntil(new Date(2026, 9, 20), new Date(2026, 9, 19, 23, 59))).toBe(1);
+    expect(getDaysUntil(new Date(2026, 9, 19), new Date(2026, 9, 19, 8))).toBe(0);
+    expect(getDaysUntil(new Date(2026, 9, 15), new Date(2026, 9, 19))).toBe(-4);
+  });
+
+  it("should not be thrown off by daylight saving changes", () => {
+    expect(getDaysUntil(new Date(2026, 3, 1), new Date(2026, 2, 1))).toBe(31);
+  });
+});
+
+describe("getReminderThreshold", () => {
+  const today = new Date(2026, 9, 19, 6, 0);
+  const dueIn = (days: number) => new Date(2026, 9, 19 + days);
+
+  it("should return nothing before the first lead time", () => {
+    expect(getReminderThreshold([5, 1], dueIn(6), today)).toBeNull();
+  });
+
+  it("should return the closest lead time that has been reached", () => {
+    expect(getReminderThreshold([5, 1], dueIn(5), today)).toBe("5d");
+    expect(getReminderThreshold([5, 1], dueIn(3), today)).toBe("5d");
+    expect(getReminderThreshold([5, 1], dueIn(1), today)).toBe("1d");
+    expect(getReminderThreshold([5, 1], dueIn(0), today)).toBe("1d");
+  });
+
+  it("should skip lead times that were missed", () => {
+    expect(getReminderThreshold([7, 3], dueIn(2), today)).toBe("3d");
+  });
+
+  it("should return overdue after the due date, even without lead times", () => {
+    expect(getReminderThreshold([5, 1], dueIn(-1), today)).toBe("overdue");
+    expect(getReminderThreshold([], dueIn(-10), today)).toBe("overdue");
+    expect(getReminderThreshold([], dueIn(0), today)).toBeNull();
+  });
+});
+
+describe("buildReminderMessage", () => {
+  it("should describe how far away the due date is", () => {
+    expect(buildReminderMessage(reminder()).subject).toBe("Energy is due tomorrow");
+    expect(buildReminderMessage(reminder({ daysUntilDue: 5 })).subject).toBe(
+      "Energy is due in 5 days"
+    );
+    expect(buildReminderMessage(reminder({ daysUntilDue: 0 })).subject).toBe("Energy is due today");
+    expect(buildReminderMessage(reminder({ daysUntilDue: -3 })).subject).toBe(
+      "Energy is overdue by 3 day(s)"
+    );
+  });
+
+  it("should include the bill type, outstanding amount and due date", () => {
+    const { text } = buildReminderMessage(reminder());
+    expect(text).toContain("Energy (Electricity) is due tomorrow.");
+    expect(text).toContain("Outstanding: $");
+    expect(text).toContain("120.000");
+    expect(text).toContain("Due date:");
+  });
+});
+
+describe("toReminderPayload", () => {
+  it("should send the reminder facts with a date key", () => {
+    const payload = toReminderPayload(buildReminderMessage(reminder()));
+    expect(payload).toMatchObject({
+      subject: "Energy is due tomorrow",
+      paymentId: "p1",
+      bill: "Energy",
+      billType: "ELECTRICITY",
+      outstanding: { amount: 120000, currency: "COP" },
+      dueDate: "2026-10-20",
+      daysUntilDue: 1,
+      threshold: "1d",
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { BillType } from '@prisma/client';
+import { formatBillType, formatCurrency, formatDate } from './formatters.js';
+import { toDateKey } from './holidays.js';
+import { Money } from './money.js';
+
+export const DEFAULT_REMINDER_DAYS = [5, 1];
+export const MAX_REMINDER_DAYS = 60;
+export const OVERDUE_THRESHOLD = 'overdue';
+
+// A payment that should be reminded about now
+export interface DueReminder {
+  paymentId: string;
+  bill: string;
+  billType: BillType;
+  outstanding: Money;
+  dueDate: Date;
+  daysUntilDue: number; // Negative once overdue
+  threshold: string; // "5d" or OVERDUE_THRESHOLD
+}
+
+// What every channel delivers: a subject line, plain text and the facts for webhooks
+export interface ReminderMessage {
+  subject: string;
+  text: string;
+  reminder: DueReminder;
+}
+
+// "5, 1" or "5 1" to whole days before the due date, largest first; empty for no reminders
+export const parseReminderDays = (value: string): number[] => {
+  const parts = value.split(/[\s,]+/).filter((part) => part !== '');
+  const days = parts.map((part) => {
+    const day = Number(part);
+    if (!Number.isInteger(day) || day < 0 || day > MAX_REMINDER_DAYS) {
+      throw new Error(
+        `Invalid reminder day "${part}", use whole days between 0 and ${MAX_REMINDER_DAYS}`
+      );
+    }
+    return day;
+  });
+  return [...new Set(days)].sort((a, b) => b - a);
+};
+
+export const formatReminderDays = (days: number[]): string =>
+  days.length === 0 ? 'None' : `${days.join(', ')} day(s) before`;
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const getDaysUntil = (dueDate: Date, today: Date): number =>
+  Math.round((startOfDay(dueDate).getTime() - startOfDay(today).getTime()) / 86_400_000);
+
+/**
+ * The reminder a payment is due for today: the closest lead time not yet
+ * passed, or the overdue reminder after the due date. Larger lead times
+ * that were missed are skipped rather than sent late.
+ */
+export const getReminderThreshold = (
+  reminderDays: number[],
+  dueDate: Date,
+  today: Date
+): string | null => {
+  const daysUntilDue = getDaysUntil(dueDate, today);
+  if (daysUntilDue < 0) {
+    return OVERDUE_THRESHOLD;
+  }
+  const leadTimes = reminderDays.filter((days) => days >= daysUntilDue);
+  return leadTimes.length > 0 ? `${Math.min(...leadTimes)}d` : null;
+};
+
+const describeDue = (daysUntilDue: number): string => {
+  if (daysUntilDue < 0) {
+    return `is overdue by ${-daysUntilDue} day(s)`;
+  }
+  if (daysUntilDue === 0) {
+    return 'is due today';
+  }
+  return daysUntilDue === 1 ? 'is due tomorrow' : `is due in ${daysUntilDue} days`;
+};
+
+export const buildReminderMessage = (reminder: DueReminder): ReminderMessage => {
+  const due = describeDue(reminder.daysUntilDue);
+  return {
+    subject: `${reminder.bill} ${due}`,
+    text: [
+      `${reminder.bill} (${formatBillType(reminder.billType)}) ${due}.`,
+      `Outstanding: ${formatCurrency(reminder.outstanding)}`,
+      `Due date: ${formatDate(reminder.dueDate)}`,
+    ].join('\n'),
+    reminder,
+  };
+};
+
+// Body of webhook requests
+export const toReminderPayload = (message: ReminderMessage): Record<string, unknown> => ({
+  subject: message.subject,
+  text: message.text,
+  paymentId: message.reminder.paymentId,
+  bill: message.reminder.bill,
+  billType: message.reminder.billType,
+  outstanding: message.reminder.outstanding,
+  dueDate: toDateKey(message.reminder.dueDate),
+  daysUntilDue: message.reminder.daysUntilDue,
+  threshold: message.reminder.threshold,
+});
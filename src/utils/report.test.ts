@@ -0,0 +1,244 @@
+import { describe, it, expect } from "vitest";
+import { Bill, Payment, PaymentTransaction } from "@prisma/client";
+import { PaymentWithBill } from "../services/paymentService.js";
+import { CurrencyConverter } from "./exchange.js";
+import {
+  buildPaymentComparison,
+  buildYearReport,
+  createComparisonMetric,
+  getComparisonPeriods,
+  getOnTimeStats,
+  summarizePayments,
+} from "./report.js";
+import { money } from "./money.js";
+
+const rent = { id: "rent", name: "Rent", type: "RENT" } as Bill;
+const internet = { id: "internet", name: "Internet", type: "INTERNET" } as Bill;
+
+const payment = (
+  bill: Bill,
+  overrides: Partial<Payment> = {},
+  transactions: Partial<PaymentTransaction>[] = []
+) =>
+  ({
+    id: `${bill.id}-${String(overrides.dueDate)}`,
+    billId: bill.id,
+    amount: 1000000,
+    currency: "COP",
+    dueDate: new Date(2025, 0, 5),
+    status: "PENDING",
+    paidDate: null,
+    isEstimated: false,
+    notes: null,
+    ...overrides,
+    bill,
+    transactions,
+  }) as PaymentWithBill;
+
+const paid = (bill: Bill, dueDate: Date, paidDate: Date, amount = 1000000) =>
+  payment(bill, { amount, dueDate, paidDate, status: "PAID" }, [{ amount, date: paidDate }]);
+
+// 1 USD = 4000 COP
+const convert: CurrencyConverter = (value, currency) =>
+  value.currency === currency ? value : money((value.amount / 100) * 4000, currency);
+const asDue = (payment: PaymentWithBill) => payment.dueDate;
+
+describe("summarizePayments", () => {
+  it("should convert amounts and split the outstanding balance by status", () => {
+    const summary = summarizePayments(
+      [
+        paid(rent, new Date(2025, 0, 5), new Date(2025, 0, 4)),
+        payment(internet, { amount: 2500, currency: "USD", status: "OVERDUE" }),
+        payment(internet, { amount: 50000, isEstimated: true }),
+      ],
+      "COP",
+      convert
+    );
+    expect(summary.total).toEqual(money(1150000));
+    expect(summary.paid).toEqual(money(1000000));
+    expect(summary.overdue).toEqual(money(100000));
+    expect(summary.pending).toEqual(money(50000));
+    expect(summary.estimated).toEqual(money(50000));
+    expect(summary.byType.INTERNET).toEqual(money(150000));
+    expect(summary.originalTotals).toEqual([money(1050000), money(2500, "USD")]);
+  });
+
+  it("should count the balance of partially paid payments past their due date as overdue", () => {
+    const partial = (dueDate: Date) =>
+      payment(rent, { dueDate, status: "PARTIALLY_PAID" }, [
+        { amount: 400000, date: new Date(2025, 0, 2) },
+      ]);
+    const summary = summarizePayments(
+      [partial(new Date(2025, 0, 5)), partial(new Date(2025, 1, 5))],
+      "COP",
+      convert,
+      new Date(2025, 0, 20)
+    );
+    expect(summary.paid).toEqual(money(800000));
+    expect(summary.overdue).toEqual(money(600000));
+    expect(summary.pending).toEqual(money(600000));
+  });
+});
+
+describe("getOnTimeStats", () => {
+  const now = new Date(2025, 5, 15);
+
+  it("should count payments paid in full by the due date as on time", () => {
+    const stats = getOnTimeStats(
+      [
+        paid(rent, new Date(2025, 0, 5), new Date(2025, 0, 5, 18)),
+        paid(rent, new Date(2025, 1, 5), new Date(2025, 1, 8)),
+        payment(rent, { dueDate: new Date(2025, 2, 5), status: "OVERDUE" }),
+      ],
+      asDue,
+      now
+    );
+    expect(stats).toEqual({ onTime: 1, late: 2, rate: (1 / 3) * 100 });
+  });
+
+  it("should leave out unpaid payments that are not due yet", () => {
+    const stats = getOnTimeStats(
+      [
+        payment(rent, { dueDate: new Date(2025, 5, 20) }),
+        paid(rent, new Date(2025, 6, 5), new Date(2025, 5, 10)),
+      ],
+      asDue,
+      now
+    );
+    expect(stats).toEqual({ onTime: 1, late: 0, rate: 100 });
+    expect(getOnTimeStats([], asDue, now).rate).toBeNull();
+  });
+
+  it("should count partially paid payments past their due date as late", () => {
+    const partial = payment(rent, { dueDate: new Date(2025, 0, 5) }, [
+      { amount: 400000, date: new Date(2025, 0, 2) },
+    ]);
+    expect(getOnTimeStats([partial], asDue, now)).toMatchObject({ onTime: 0, late: 1 });
+  });
+
+  it("should use the adjusted due date", () => {
+    const late = paid(rent, new Date(2025, 0, 4), new Date(2025, 0, 6));
+    const nextMonday = () => new Date(2025, 0, 6);
+    expect(getOnTimeStats([late], nextMonday, now).onTime).toBe(1);
+  });
+});
+
+describe("buildYearReport", () => {
+  const payments = [
+    paid(rent, new Date(2025, 0, 5), new Date(2025, 0, 3)),
+    paid(rent, new Date(2025, 1, 5), new Date(2025, 1, 3), 1200000),
+    paid(internet, new Date(2025, 1, 10), new Date(2025, 1, 12), 100000),
+    payment(internet, { amount: 2500, currency: "USD", dueDate: new Date(2025, 2, 10) }),
+  ];
+  const report = buildYearReport(2025, payments, "COP", convert, asDue, new Date(2025, 5, 1));
+
+  it("should summarize every month of the year", () => {
+    expect(report.months).toHaveLength(12);
+    expect(report.months.map((month) => month.total.amount).slice(0, 4)).toEqual([
+      1000000, 1300000, 100000, 0,
+    ]);
+    expect(report.months[1]).toMatchObject({ year: 2025, month: 2 });
+    expect(report.summary.total).toEqual(money(2400000));
+  });
+
+  it("should total each bill per month, most expensive first", () => {
+    expect(report.bills.map((bill) => [bill.bill, bill.total.amount])).toEqual([
+      ["Rent", 2200000],
+      ["Internet", 200000],
+    ]);
+    expect(report.bills[1].months.slice(0, 3)).toEqual([money(0), money(100000), money(100000)]);
+  });
+
+  it("should average over the months with payments and find the most expensive one", () => {
+    expect(report.averageMonthly).toEqual(money(800000));
+    expect(report.mostExpensiveMonth?.month).toBe(2);
+  });
+
+  it("should include the on-time rate", () => {
+    expect(report.onTime).toEqual({ onTime: 2, late: 2, rate: 50 });
+  });
+
+  it("should handle a year without payments", () => {
+    const empty = buildYearReport(2024, [], "COP", convert, asDue);
+    expect(empty.averageMonthly).toEqual(money(0));
+    expect(empty.mostExpensiveMonth).toBeNull();
+    expect(empty.bills).toEqual([]);
+    expect(empty.onTime.rate).toBeNull();
+  });
+});
+
+describe("getComparisonPeriods", () => {
+  it("should count months back across the year boundary, oldest first", () => {
+    expect(getComparisonPeriods(2026, 2, 4, "months")).toEqual([
+      { year: 2025, month: 11 },
+      { year: 2025, month: 12 },
+      { year: 2026, month: 1 },
+      { year: 2026, month: 2 },
+    ]);
+  });
+
+  it("should keep the month and count years back year over year", () => {
+    expect(getComparisonPeriods(2026, 10, 3, "year-over-year")).toEqual([
+      { year: 2024, month: 10 },
+      { year: 2025, month: 10 },
+      { year: 2026, month: 10 },
+    ]);
+  });
+});
+
+describe("createComparisonMetric", () => {
+  it("should compare the last value with the one before", () => {
+    const values = [money(100), money(400), money(200), money(300)];
+    const metric = createComparisonMetric("Total", values);
+    expect(metric.values).toHaveLength(4);
+    expect(metric.change).toEqual(money(100));
+    expect(metric.percentageChange).toBe(50);
+    expect(metric.trend).toBe("up");
+  });
+
+  it("should leave the percentage out when the previous value was zero", () => {
+    const metric = createComparisonMetric("Overdue", [money(0), money(0)]);
+    expect(metric.percentageChange).toBeNull();
+    expect(metric.trend).toBe("stable");
+    expect(createComparisonMetric("Paid", [money(0), money(500)]).percentageChange).toBeNull();
+  });
+});
+
+describe("buildPaymentComparison", () => {
+  const comparison = buildPaymentComparison(
+    [
+      { year: 2025, month: 1, payments: [payment(rent), payment(internet, { amount: 80000 })] },
+      {
+        year: 2025,
+        month: 2,
+        payments: [
+          payment(rent, { dueDate: new Date(2025, 1, 5), amount: 1100000 }),
+          payment(internet, { dueDate: new Date(2025, 1, 5), amount: 3000, currency: "USD" }),
+        ],
+      },
+      { year: 2025, month: 3, payments: [payment(internet, { dueDate: new Date(2025, 2, 5) })] },
+    ],
+    "COP",
+    convert,
+    "months"
+  );
+
+  it("should summarize every period", () => {
+    expect(comparison.mode).toBe("months");
+    expect(comparison.months.map((month) => month.month)).toEqual([1, 2, 3]);
+    expect(comparison.metrics.total.values).toEqual([
+      money(1080000),
+      money(1220000),
+      money(1000000),
+    ]);
+    expect(comparison.metrics.total.trend).toBe("down");
+  });
+
+  it("should compare every bill across the periods, largest last period first", () => {
+    expect(comparison.bills.map((bill) => bill.metricName)).toEqual(["Internet", "Rent"]);
+    expect(comparison.bills[0].values).toEqual([money(80000), money(120000), money(1000000)]);
+    expect(comparison.bills[1].values).toEqual([money(1000000), money(1100000), money(0)]);
+    expect(comparison.bills[1].trend).toBe("down");
+    expect(comparison.bills[1].billType).toBe("RENT");
+  });
+});
@@ -0,0 +1,304 @@
+import { BillType } from '@prisma/client';
+import {
+  BillComparison,
+  ComparisonMetric,
+  ComparisonMode,
+  MonthSummary,
+  PaymentComparison,
+  PaymentWithBill,
+  PaymentsSummary,
+} from '../services/paymentService.js';
+import {
+  getLastTransactionDate,
+  getOutstandingAmount,
+  getPaidAmount,
+  isOverdue,
+} from './balance.js';
+import { CurrencyConverter } from './exchange.js';
+import { formatMonth } from './formatters.js';
+import { toDateKey } from './holidays.js';
+import {
+  CurrencyCode,
+  Money,
+  addMoney,
+  money,
+  moneyOf,
+  multiplyMoney,
+  subtractMoney,
+  zeroMoney,
+} from './money.js';
+
+export const DEFAULT_COMPARISON_PERIODS = 3;
+export const MAX_COMPARISON_PERIODS = 24;
+
+export interface MonthPeriod {
+  year: number;
+  month: number; // 1-12
+}
+
+export interface BillYearTotal {
+  billId: string;
+  bill: string;
+  type: BillType;
+  months: Money[]; // January to December
+  total: Money;
+}
+
+export interface OnTimeStats {
+  onTime: number; // Paid in full by the due date
+  late: number; // Paid after the due date, or still unpaid past it
+  rate: number | null; // Percentage on time, null until a payment was due
+}
+
+export interface YearReport {
+  year: number;
+  currency: CurrencyCode;
+  summary: PaymentsSummary;
+  months: MonthSummary[]; // January to December
+  bills: BillYearTotal[]; // Most expensive first
+  averageMonthly: Money; // Over the months that had payments
+  mostExpensiveMonth: MonthSummary | null;
+  onTime: OnTimeStats;
+}
+
+/**
+ * Totals of payments in the reporting currency, at the rate of each due date.
+ * Paid and outstanding come from the recorded transactions; the remaining
+ * balance is overdue for overdue payments and partially paid ones past their
+ * due date, and pending otherwise.
+ */
+export const summarizePayments = (
+  payments: PaymentWithBill[],
+  currency: CurrencyCode,
+  convert: CurrencyConverter,
+  now: Date = new Date()
+): PaymentsSummary => {
+  const summary: PaymentsSummary = {
+    currency,
+    originalTotals: [],
+    total: zeroMoney(currency),
+    paid: zeroMoney(currency),
+    outstanding: zeroMoney(currency),
+    pending: zeroMoney(currency),
+    overdue: zeroMoney(currency),
+    estimated: zeroMoney(currency),
+    confirmed: zeroMoney(currency),
+    byType: Object.fromEntries(
+      Object.values(BillType).map((type) => [type, zeroMoney(currency)])
+    ) as Record<BillType, Money>,
+  };
+  const originalTotals = new Map<CurrencyCode, Money>();
+
+  payments.forEach((payment) => {
+    const toReporting = (amount: number): Money =>
+      convert(money(amount, payment.currency), currency, payment.dueDate);
+    const amount = toReporting(payment.amount);
+    const outstanding = toReporting(getOutstandingAmount(payment.amount, payment.transactions));
+
+    originalTotals.set(
+      payment.currency,
+      addMoney(
+        originalTotals.get(payment.currency) ?? zeroMoney(payment.currency),
+        money(payment.amount, payment.currency)
+      )
+    );
+
+    summary.total = addMoney(summary.total, amount);
+    summary.byType[payment.bill.type] = addMoney(summary.byType[payment.bill.type], amount);
+    if (payment.isEstimated) {
+      summary.estimated = addMoney(summary.estimated, amount);
+    } else {
+      summary.confirmed = addMoney(summary.confirmed, amount);
+    }
+    summary.paid = addMoney(summary.paid, toReporting(getPaidAmount(payment.transactions)));
+    summary.outstanding = addMoney(summary.outstanding, outstanding);
+    if (isOverdue(payment, now)) {
+      summary.overdue = addMoney(summary.overdue, outstanding);
+    } else {
+      summary.pending = addMoney(summary.pending, outstanding);
+    }
+  });
+
+  summary.originalTotals = [...originalTotals.values()].sort((a, b) =>
+    a.currency.localeCompare(b.currency)
+  );
+  return summary;
+};
+
+/**
+ * Payments count once their due date has passed, or earlier when already
+ * paid. Dates are compared by calendar day; `getDueDate` gives the due date
+ * after weekend and holiday adjustments.
+ */
+export const getOnTimeStats = (
+  payments: PaymentWithBill[],
+  getDueDate: (payment: PaymentWithBill) => Date,
+  now: Date
+): OnTimeStats => {
+  let onTime = 0;
+  let late = 0;
+  const today = toDateKey(now);
+
+  payments.forEach((payment) => {
+    const dueDay = toDateKey(getDueDate(payment));
+    const paidInFull =
+      getPaidAmount(payment.transactions) > 0 &&
+      getOutstandingAmount(payment.amount, payment.transactions) === 0;
+    const paidDate = payment.paidDate ?? getLastTransactionDate(payment.transactions);
+
+    if (paidInFull && paidDate && toDateKey(paidDate) <= dueDay) {
+      onTime++;
+    } else if (dueDay < today) {
+      late++;
+    }
+  });
+
+  const counted = onTime + late;
+  return { onTime, late, rate: counted > 0 ? (onTime / counted) * 100 : null };
+};
+
+const toMonthSummary = (
+  year: number,
+  month: number,
+  summary: PaymentsSummary
+): MonthSummary => ({
+  ...summary,
+  year,
+  month,
+  monthLabel: formatMonth(new Date(year, month - 1)),
+});
+
+// `payments` are the payments due in `year`
+export const buildYearReport = (
+  year: number,
+  payments: PaymentWithBill[],
+  currency: CurrencyCode,
+  convert: CurrencyConverter,
+  getDueDate: (payment: PaymentWithBill) => Date,
+  now: Date = new Date()
+): YearReport => {
+  const byMonth: PaymentWithBill[][] = Array.from({ length: 12 }, () => []);
+  payments.forEach((payment) => byMonth[payment.dueDate.getMonth()].push(payment));
+  const months = byMonth.map((monthPayments, index) =>
+    toMonthSummary(year, index + 1, summarizePayments(monthPayments, currency, convert))
+  );
+
+  const bills = new Map<string, BillYearTotal>();
+  payments.forEach((payment) => {
+    const total = bills.get(payment.billId) ?? {
+      billId: payment.billId,
+      bill: payment.bill.name,
+      type: payment.bill.type,
+      months: Array.from({ length: 12 }, () => zeroMoney(currency)),
+      total: zeroMoney(currency),
+    };
+    const amount = convert(moneyOf(payment), currency, payment.dueDate);
+    const month = payment.dueDate.getMonth();
+    total.months[month] = addMoney(total.months[month], amount);
+    total.total = addMoney(total.total, amount);
+    bills.set(payment.billId, total);
+  });
+
+  const summary = summarizePayments(payments, currency, convert);
+  const monthsWithPayments = byMonth.filter((monthPayments) => monthPayments.length > 0).length;
+  const mostExpensiveMonth = months.reduce<MonthSummary | null>(
+    (most, month) =>
+      month.total.amount > 0 && (!most || month.total.amount > most.total.amount) ? month : most,
+    null
+  );
+
+  return {
+    year,
+    currency,
+    summary,
+    months,
+    bills: [...bills.values()].sort(
+      (a, b) => b.total.amount - a.total.amount || a.bill.localeCompare(b.bill)
+    ),
+    averageMonthly:
+      monthsWithPayments > 0
+        ? multiplyMoney(summary.total, 1 / monthsWithPayments)
+        : zeroMoney(currency),
+    mostExpensiveMonth,
+    onTime: getOnTimeStats(payments, getDueDate, now),
+  };
+};
+
+// The month and the ones before it, oldest first
+export const getComparisonPeriods = (
+  year: number,
+  month: number,
+  count: number,
+  mode: ComparisonMode
+): MonthPeriod[] =>
+  Array.from({ length: count }, (_, index) => {
+    const back = count - 1 - index;
+    if (mode === 'year-over-year') {
+      return { year: year - back, month };
+    }
+    const date = new Date(year, month - 1 - back, 1);
+    return { year: date.getFullYear(), month: date.getMonth() + 1 };
+  });
+
+// Amounts are exact, so any difference counts as a trend
+export const createComparisonMetric = (metricName: string, values: Money[]): ComparisonMetric => {
+  const currentValue = values[values.length - 1];
+  const previousValue = values[values.length - 2] ?? currentValue;
+  const change = subtractMoney(currentValue, previousValue);
+
+  return {
+    metricName,
+    values,
+    change,
+    percentageChange:
+      previousValue.amount !== 0 ? (change.amount / previousValue.amount) * 100 : null,
+    trend: change.amount === 0 ? 'stable' : change.amount > 0 ? 'up' : 'down',
+  };
+};
+
+// Bills are listed when they had a payment in any period, largest last period first
+export const buildPaymentComparison = (
+  periods: Array<MonthPeriod & { payments: PaymentWithBill[] }>,
+  currency: CurrencyCode,
+  convert: CurrencyConverter,
+  mode: ComparisonMode
+): PaymentComparison => {
+  const months = periods.map(({ year, month, payments }) =>
+    toMonthSummary(year, month, summarizePayments(payments, currency, convert))
+  );
+
+  const bills = new Map<string, { bill: PaymentWithBill['bill']; values: Money[] }>();
+  periods.forEach(({ payments }, index) => {
+    payments.forEach((payment) => {
+      const entry = bills.get(payment.billId) ?? {
+        bill: payment.bill,
+        values: periods.map(() => zeroMoney(currency)),
+      };
+      const amount = convert(moneyOf(payment), currency, payment.dueDate);
+      entry.values[index] = addMoney(entry.values[index], amount);
+      bills.set(payment.billId, entry);
+    });
+  });
+  const billComparisons: BillComparison[] = [...bills.values()].map(({ bill, values }) => ({
+    ...createComparisonMetric(bill.name, values),
+    billId: bill.id,
+    billType: bill.type,
+  }));
+  const last = periods.length - 1;
+  billComparisons.sort(
+    (a, b) =>
+      b.values[last].amount - a.values[last].amount || a.metricName.localeCompare(b.metricName)
+  );
+
+  return {
+    mode,
+    months,
+    metrics: {
+      total: createComparisonMetric('Total', months.map((summary) => summary.total)),
+      paid: createComparisonMetric('Paid', months.map((summary) => summary.paid)),
+      pending: createComparisonMetric('Pending', months.map((summary) => summary.pending)),
+      overdue: createComparisonMetric('Overdue', months.map((summary) => summary.overdue)),
+    },
+    bills: billComparisons,
+  };
+};
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  JobSchedule,
+  MAX_CATCH_UP_RUNS,
+  describeSchedule,
+  getDueRuns,
+  getNextRun,
+  getPreviousRun,
+  parseTimeOfDay,
+  runLoop,
+} from "./schedule.js";
+
+const daily: JobSchedule = { kind: "daily", hour: 6, minute: 30 };
+const monthly = (day: number): JobSchedule => ({ kind: "monthly", day, hour: 6, minute: 0 });
+
+describe("parseTimeOfDay", () => {
+  it("should parse 24-hour times", () => {
+    expect(parseTimeOfDay("06:30")).toEqual({ hour: 6, minute: 30 });
+    expect(parseTimeOfDay("7:05")).toEqual({ hour: 7, minute: 5 });
+    expect(parseTimeOfDay(" 23:59 ")).toEqual({ hour: 23, minute: 59 });
+  });
+
+  it("should reject invalid times", () => {
+    expect(() => parseTimeOfDay("24:00")).toThrow("Invalid time");
+    expect(() => parseTimeOfDay("12:60")).toThrow("Invalid time");
+    expect(() => parseTimeOfDay("6am")).toThrow("Invalid time");
+  });
+});
+
+describe("describeSchedule", () => {
+  it("should describe daily and monthly schedules", () => {
+    expect(describeSchedule(daily)).toBe("daily at 06:30");
+    expect(describeSchedule(monthly(25))).toBe("monthly on day 25 at 06:00");
+  });
+});
+
+describe("getNextRun", () => {
+  it("should return today's run when it is still ahead", () => {
+    expect(getNextRun(daily, new Date(2026, 9, 19, 5, 0))).toEqual(new Date(2026, 9, 19, 6, 30));
+  });
+
+  it("should move to tomorrow once today's run has passed", () => {
+    expect(getNextRun(daily, new Date(2026, 9, 19, 6, 30))).toEqual(new Date(2026, 9, 20, 6, 30));
+    expect(getNextRun(daily, new Date(2026, 11, 31, 8, 0))).toEqual(new Date(2027, 0, 1, 6, 30));
+  });
+
+  it("should find the monthly run in this or the next month", () => {
+    expect(getNextRun(monthly(25), new Date(2026, 9, 19))).toEqual(new Date(2026, 9, 25, 6, 0));
+    expect(getNextRun(monthly(25), new Date(2026, 9, 25, 6, 0))).toEqual(
+      new Date(2026, 10, 25, 6, 0)
+    );
+  });
+
+  it("should run on the last day of months shorter than the scheduled day", () => {
+    expect(getNextRun(monthly(31), new Date(2026, 1, 1))).toEqual(new Date(2026, 1, 28, 6, 0));
+    expect(getNextRun(monthly(31), new Date(2026, 1, 28, 7, 0))).toEqual(
+      new Date(2026, 2, 31, 6, 0)
+    );
+  });
+});
+
+describe("getPreviousRun", () => {
+  it("should return the latest run at or before now", () => {
+    expect(getPreviousRun(daily, new Date(2026, 9, 19, 6, 30))).toEqual(
+      new Date(2026, 9, 19, 6, 30)
+    );
+    expect(getPreviousRun(daily, new Date(2026, 9, 19, 6, 0))).toEqual(
+      new Date(2026, 9, 18, 6, 30)
+    );
+    expect(getPreviousRun(monthly(25), new Date(2026, 9, 19))).toEqual(
+      new Date(2026, 8, 25, 6, 0)
+    );
+    expect(getPreviousRun(monthly(31), new Date(2026, 2, 15))).toEqual(
+      new Date(2026, 1, 28, 6, 0)
+    );
+  });
+});
+
+describe("getDueRuns", () => {
+  it("should run a job that never ran once for its latest run", () => {
+    expect(getDueRuns(monthly(25), null, new Date(2026, 9, 19))).toEqual([
+      new Date(2026, 8, 25, 6, 0),
+    ]);
+  });
+
+  it("should return nothing when the last run is current", () => {
+    expect(getDueRuns(daily, new Date(2026, 9, 19, 6, 30), new Date(2026, 9, 19, 20, 0))).toEqual(
+      []
+    );
+  });
+
+  it("should return every missed run oldest first", () => {
+    const runs = getDueRuns(monthly(25), new Date(2026, 6, 25, 6, 0), new Date(2026, 9, 26));
+    expect(runs).toEqual([
+      new Date(2026, 7, 25, 6, 0),
+      new Date(2026, 8, 25, 6, 0),
+      new Date(2026, 9, 25, 6, 0),
+    ]);
+  });
+
+  it("should keep only the latest runs after a long outage", () => {
+    const runs = getDueRuns(daily, new Date(2025, 0, 1, 6, 30), new Date(2026, 9, 19, 12, 0));
+    expect(runs).toHaveLength(MAX_CATCH_UP_RUNS);
+    expect(runs[runs.length - 1]).toEqual(new Date(2026, 9, 19, 6, 30));
+    expect(getDueRuns(daily, new Date(2026, 9, 1, 6, 30), new Date(2026, 9, 19, 12, 0), 2)).toEqual(
+      [new Date(2026, 9, 18, 6, 30), new Date(2026, 9, 19, 6, 30)]
+    );
+  });
+});
+
+describe("runLoop", () => {
+  it("should keep looping after a failing tick", async () => {
+    let ticks = 0;
+    const errors: unknown[] = [];
+    await runLoop(
+      async () => {
+        ticks++;
+        if (ticks === 1) {
+          throw new Error("Can't reach database server");
+        }
+      },
+      (error) => errors.push(error),
+      { isStopped: () => ticks === 3, wait: async () => {} }
+    );
+    expect(ticks).toBe(3);
+    expect(errors).toEqual([new Error("Can't reach database server")]);
+  });
+});
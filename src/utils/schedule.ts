@@ -0,0 +1,116 @@
+// Local wall-clock schedules for the daemon jobs
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+// Monthly days past the end of a short month run on its last day
+export type JobSchedule =
+  | ({ kind: 'daily' } & TimeOfDay)
+  | ({ kind: 'monthly'; day: number } & TimeOfDay);
+
+// Upper bound on replayed runs, so a daemon that was off for years does not flood the log
+export const MAX_CATCH_UP_RUNS = 12;
+
+export const parseTimeOfDay = (value: string): TimeOfDay => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  const hour = match ? Number(match[1]) : -1;
+  const minute = match ? Number(match[2]) : -1;
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    throw new Error(`Invalid time "${value}", use HH:MM in 24-hour format`);
+  }
+  return { hour, minute };
+};
+
+export const formatTimeOfDay = ({ hour, minute }: TimeOfDay): string =>
+  `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+export const describeSchedule = (schedule: JobSchedule): string =>
+  schedule.kind === 'daily'
+    ? `daily at ${formatTimeOfDay(schedule)}`
+    : `monthly on day ${schedule.day} at ${formatTimeOfDay(schedule)}`;
+
+const runOnDay = (schedule: JobSchedule, year: number, monthIndex: number, day: number): Date =>
+  new Date(year, monthIndex, day, schedule.hour, schedule.minute);
+
+const runInMonth = (schedule: JobSchedule, year: number, monthIndex: number): Date => {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+  const day = schedule.kind === 'monthly' ? Math.min(schedule.day, lastDay) : 1;
+  return runOnDay(schedule, year, monthIndex, day);
+};
+
+// First scheduled run strictly after `after`
+export const getNextRun = (schedule: JobSchedule, after: Date): Date => {
+  const year = after.getFullYear();
+  const monthIndex = after.getMonth();
+  if (schedule.kind === 'daily') {
+    const today = runOnDay(schedule, year, monthIndex, after.getDate());
+    return today > after ? today : runOnDay(schedule, year, monthIndex, after.getDate() + 1);
+  }
+  const thisMonth = runInMonth(schedule, year, monthIndex);
+  return thisMonth > after ? thisMonth : runInMonth(schedule, year, monthIndex + 1);
+};
+
+// Latest scheduled run at or before `now`
+export const getPreviousRun = (schedule: JobSchedule, now: Date): Date => {
+  const year = now.getFullYear();
+  const monthIndex = now.getMonth();
+  if (schedule.kind === 'daily') {
+    const today = runOnDay(schedule, year, monthIndex, now.getDate());
+    return today <= now ? today : runOnDay(schedule, year, monthIndex, now.getDate() - 1);
+  }
+  const thisMonth = runInMonth(schedule, year, monthIndex);
+  return thisMonth <= now ? thisMonth : runInMonth(schedule, year, monthIndex - 1);
+};
+
+/**
+ * Scheduled runs that are due since the last completed one, oldest first and
+ * at most `limit` of them. A job that never ran is due for its latest run.
+ */
+export const getDueRuns = (
+  schedule: JobSchedule,
+  lastRunAt: Date | null,
+  now: Date,
+  limit: number = MAX_CATCH_UP_RUNS
+): Date[] => {
+  if (!lastRunAt) {
+    return [getPreviousRun(schedule, now)];
+  }
+
+  const runs: Date[] = [];
+  for (let run = getNextRun(schedule, lastRunAt); run <= now; run = getNextRun(schedule, run)) {
+    runs.push(run);
+    if (runs.length > limit) {
+      runs.shift();
+    }
+  }
+  return runs;
+};
+
+export interface LoopControl {
+  isStopped: () => boolean;
+  wait: () => Promise<void>; // Until the next tick, or until stopped
+}
+
+/**
+ * Runs `tick` until stopped, waiting between ticks. A failing tick goes to
+ * `onError` and the loop carries on, so a database outage does not end the
+ * daemon.
+ */
+export const runLoop = async (
+  tick: () => Promise<unknown>,
+  onError: (error: unknown) => void,
+  control: LoopControl
+): Promise<void> => {
+  while (!control.isStopped()) {
+    try {
+      await tick();
+    } catch (error) {
+      onError(error);
+    }
+    if (!control.isStopped()) {
+      await control.wait();
+    }
+  }
+};
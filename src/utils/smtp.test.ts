@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import net, { AddressInfo } from "net";
+import { SmtpClient } from "../services/smtpClient.js";
+import { buildEmailData, encodeHeader, extractAddress, takeSmtpReply } from "./smtp.js";
+
+describe("takeSmtpReply", () => {
+  it("should wait for a complete line", () => {
+    expect(takeSmtpReply("")).toBeNull();
+    expect(takeSmtpReply("220 mail.example")).toBeNull();
+  });
+
+  it("should take a single line reply and keep the rest", () => {
+    expect(takeSmtpReply("220 ready\r\n250 next")).toEqual({
+      reply: { code: 220, lines: ["ready"] },
+      rest: "250 next",
+    });
+  });
+
+  it("should collect multiline replies up to the last line", () => {
+    expect(takeSmtpReply("250-mail.example\r\n250-STARTTLS\r\n")).toBeNull();
+    expect(takeSmtpReply("250-mail.example\r\n250-STARTTLS\r\n250 AUTH PLAIN\r\n")).toEqual({
+      reply: { code: 250, lines: ["mail.example", "STARTTLS", "AUTH PLAIN"] },
+      rest: "",
+    });
+  });
+
+  it("should accept a bare code", () => {
+    expect(takeSmtpReply("250\r\n")?.reply).toEqual({ code: 250, lines: [""] });
+  });
+
+  it("should reject text that is not a reply", () => {
+    expect(() => takeSmtpReply("hello\r\n")).toThrow('Invalid SMTP reply "hello"');
+  });
+});
+
+describe("extractAddress", () => {
+  it("should return bare addresses as they are", () => {
+    expect(extractAddress(" bills@example.com ")).toBe("bills@example.com");
+  });
+
+  it("should take the address out of a display name", () => {
+    expect(extractAddress("House Duties <bills@example.com>")).toBe("bills@example.com");
+  });
+
+  it("should reject invalid addresses", () => {
+    expect(() => extractAddress("bills")).toThrow('Invalid email address "bills"');
+    expect(() => extractAddress("a b@example.com")).toThrow("Invalid email address");
+  });
+});
+
+describe("encodeHeader", () => {
+  it("should keep ASCII text and encode anything else", () => {
+    expect(encodeHeader("Rent is due")).toBe("Rent is due");
+    const encoded = Buffer.from("Energía").toString("base64");
+    expect(encodeHeader("Energía")).toBe(`=?UTF-8?B?${encoded}?=`);
+  });
+});
+
+describe("buildEmailData", () => {
+  const data = buildEmailData({
+    from: "House Duties <bills@example.com>",
+    to: ["ana@example.com", "luis@example.com"],
+    subject: "Rent is due tomorrow",
+    text: "Line one\nLine two",
+    date: new Date(Date.UTC(2026, 9, 19, 6, 0)),
+    messageId: "abc@example.com",
+  });
+  const [headers, body] = data.split("\r\n\r\n");
+
+  it("should write the headers", () => {
+    expect(headers.split("\r\n")).toEqual([
+      "From: House Duties <bills@example.com>",
+      "To: ana@example.com, luis@example.com",
+      "Subject: Rent is due tomorrow",
+      "Date: Mon, 19 Oct 2026 06:00:00 +0000",
+      "Message-ID: <abc@example.com>",
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+    ]);
+  });
+
+  it("should encode the body with CRLF line endings and end with the dot line", () => {
+    const lines = body.split("\r\n");
+    expect(lines[lines.length - 1]).toBe(".");
+    expect(Buffer.from(lines.slice(0, -1).join(""), "base64").toString()).toBe(
+      "Line one\r\nLine two"
+    );
+  });
+
+  it("should wrap base64 lines at 76 characters", () => {
+    const long = buildEmailData({
+      from: "bills@example.com",
+      to: ["ana@example.com"],
+      subject: "Long",
+      text: "x".repeat(200),
+      date: new Date(),
+      messageId: "id@example.com",
+    });
+    const lines = long.split("\r\n\r\n")[1].split("\r\n");
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+  });
+});
+
+// Plain SMTP server on an ephemeral port that accepts everything and records the session
+const startSmtpStandIn = async () => {
+  const session = { commands: [] as string[], data: "" };
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.setEncoding("utf-8");
+    socket.write("220 stand-in ready\r\n");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      for (let end = buffer.indexOf("\r\n"); end >= 0; end = buffer.indexOf("\r\n")) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            session.data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        session.commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          socket.write("250-stand-in\r\n250 8BITMIME\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 end with a dot\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    session,
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe("SmtpClient", () => {
+  const message = {
+    from: "House Duties <bills@example.com>",
+    to: ["ana@example.com", "Luis <luis@example.com>"],
+    subject: "Rent is due tomorrow",
+    text: "Rent: $ 1.500.000",
+  };
+
+  it("should greet, name the sender and recipients and send the message", async () => {
+    const standIn = await startSmtpStandIn();
+    try {
+      await new SmtpClient({ host: "127.0.0.1", port: standIn.port, secure: false }).send(message);
+    } finally {
+      await standIn.close();
+    }
+
+    const { commands, data } = standIn.session;
+    expect(commands[0]).toMatch(/^EHLO \S+$/);
+    expect(commands.slice(1)).toEqual([
+      "MAIL FROM:<bills@example.com>",
+      "RCPT TO:<ana@example.com>",
+      "RCPT TO:<luis@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+
+    const [headers, body] = data.split("\r\n\r\n");
+    expect(headers).toContain("Subject: Rent is due tomorrow\r\n");
+    expect(headers).toContain("To: ana@example.com, Luis <luis@example.com>\r\n");
+    expect(headers).toMatch(/Message-ID: <[0-9a-f-]+@example\.com>/);
+    expect(Buffer.from(body.replace(/\r\n/g, ""), "base64").toString()).toBe("Rent: $ 1.500.000");
+  });
+
+  it("should not send a password to a server without TLS", async () => {
+    const standIn = await startSmtpStandIn();
+    const client = new SmtpClient({
+      host: "127.0.0.1",
+      port: standIn.port,
+      secure: false,
+      user: "bills",
+      password: "secret",
+    });
+    try {
+      await expect(client.send(message)).rejects.toThrow(/refusing to send the password/);
+    } finally {
+      await standIn.close();
+    }
+    expect(standIn.session.commands.some((command) => command.startsWith("AUTH"))).toBe(false);
+  });
+});
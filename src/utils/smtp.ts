@@ -0,0 +1,77 @@
+// Pure parts of the SMTP client used for reminder emails (RFC 5321 and 5322)
+
+export interface SmtpReply {
+  code: number;
+  lines: string[]; // Text after the code on each line
+}
+
+export interface EmailMessage {
+  from: string; // "bills@example.com" or "House Duties <bills@example.com>"
+  to: string[];
+  subject: string;
+  text: string;
+  date: Date;
+  messageId: string;
+}
+
+/**
+ * Takes the first complete reply off the front of the received text. Multiline
+ * replies use "250-" on every line but the last, which uses "250 ". Returns
+ * null until a complete reply has arrived.
+ */
+export const takeSmtpReply = (buffer: string): { reply: SmtpReply; rest: string } | null => {
+  const lines: string[] = [];
+  let offset = 0;
+  for (;;) {
+    const end = buffer.indexOf('\r\n', offset);
+    if (end === -1) {
+      return null;
+    }
+    const line = buffer.slice(offset, end);
+    offset = end + 2;
+    const match = line.match(/^(\d{3})([ -]?)(.*)$/);
+    if (!match) {
+      throw new Error(`Invalid SMTP reply "${line}"`);
+    }
+    lines.push(match[3]);
+    if (match[2] !== '-') {
+      return { reply: { code: Number(match[1]), lines }, rest: buffer.slice(offset) };
+    }
+  }
+};
+
+// The bare address for MAIL FROM and RCPT TO
+export const extractAddress = (value: string): string => {
+  const match = value.match(/<([^<>]+)>\s*$/);
+  const address = (match ? match[1] : value).trim();
+  if (!/^[^\s@<>]+@[^\s@<>]+$/.test(address)) {
+    throw new Error(`Invalid email address "${value}"`);
+  }
+  return address;
+};
+
+// Non-ASCII header text as RFC 2047 encoded words
+export const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+/**
+ * The message as sent after DATA: CRLF line endings, a base64 UTF-8 body and
+ * the final "." line, without its CRLF. Base64 lines never start with a dot,
+ * so no dot-stuffing is needed.
+ */
+export const buildEmailData = (message: EmailMessage): string => {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64');
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${message.date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${message.messageId}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? []),
+    '.',
+  ].join('\r\n');
+};
@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateSplit,
+  calculateMemberNets,
+  suggestTransfers,
+  isMemberOfHousehold,
+} from "./split.js";
+
+const rule = (memberId: string, value: number | null, excluded = false) => ({
+  memberId,
+  percentage: value,
+  fixedAmount: value,
+  excluded,
+});
+
+describe("isMemberOfHousehold", () => {
+  const member = {
+    id: "ana",
+    joinedAt: new Date(2024, 0, 1),
+    leftAt: new Date(2024, 5, 1),
+  };
+
+  it("should include dates while the member lived there", () => {
+    expect(isMemberOfHousehold(member, new Date(2024, 2, 1))).toBe(true);
+  });
+
+  it("should exclude dates before joining or after leaving", () => {
+    expect(isMemberOfHousehold(member, new Date(2023, 11, 31))).toBe(false);
+    expect(isMemberOfHousehold(member, new Date(2024, 5, 2))).toBe(false);
+  });
+
+  it("should include members that have not left", () => {
+    expect(isMemberOfHousehold({ ...member, leftAt: null }, new Date(2030, 0, 1))).toBe(true);
+  });
+});
+
+describe("calculateSplit", () => {
+  const household = ["ana", "ben", "caro"];
+
+  describe("EQUAL", () => {
+    it("should split among every household member", () => {
+      expect(calculateSplit(300, "EQUAL", [], household)).toEqual({ ana: 100, ben: 100, caro: 100 });
+    });
+
+    it("should leave out excluded members", () => {
+      expect(calculateSplit(300, "EQUAL", [rule("caro", null, true)], household)).toEqual({
+        ana: 150,
+        ben: 150,
+      });
+    });
+
+    it("should give leftover minor units to the first members", () => {
+      expect(calculateSplit(100, "EQUAL", [], household)).toEqual({ ana: 34, ben: 33, caro: 33 });
+      expect(calculateSplit(101, "EQUAL", [], household)).toEqual({ ana: 34, ben: 34, caro: 33 });
+    });
+  });
+
+  describe("PERCENTAGE", () => {
+    it("should split by percentage", () => {
+      const rules = [rule("ana", 50), rule("ben", 30), rule("caro", 20)];
+      expect(calculateSplit(1000, "PERCENTAGE", rules, household)).toEqual({
+        ana: 500,
+        ben: 300,
+        caro: 200,
+      });
+    });
+
+    it("should normalize percentages that do not add up to 100", () => {
+      const rules = [rule("ana", 1), rule("ben", 1)];
+      expect(calculateSplit(1000, "PERCENTAGE", rules, household)).toEqual({ ana: 500, ben: 500 });
+    });
+
+    it("should never lose minor units", () => {
+      const rules = [rule("ana", 33.3), rule("ben", 33.3), rule("caro", 33.4)];
+      const result = calculateSplit(1001, "PERCENTAGE", rules, household);
+      expect(Object.values(result).reduce((sum, share) => sum + share, 0)).toBe(1001);
+    });
+
+    it("should return no split without percentages", () => {
+      expect(calculateSplit(1000, "PERCENTAGE", [], household)).toEqual({});
+    });
+  });
+
+  describe("FIXED", () => {
+    it("should charge fixed amounts and split the rest equally", () => {
+      const rules = [rule("ana", 400)];
+      expect(calculateSplit(1000, "FIXED", rules, household)).toEqual({
+        ana: 400,
+        ben: 300,
+        caro: 300,
+      });
+    });
+
+    it("should respect exclusions for the remainder", () => {
+      const rules = [rule("ana", 400), rule("caro", null, true)];
+      expect(calculateSplit(1000, "FIXED", rules, household)).toEqual({ ana: 400, ben: 600 });
+    });
+
+    it("should cap fixed amounts at the payment amount", () => {
+      const rules = [rule("ana", 800), rule("ben", 800)];
+      expect(calculateSplit(1000, "FIXED", rules, ["ana", "ben"])).toEqual({ ana: 800, ben: 200 });
+    });
+
+    it("should share the remainder among fixed members when nobody else takes part", () => {
+      const rules = [rule("ana", 100), rule("ben", 100)];
+      expect(calculateSplit(400, "FIXED", rules, ["ana", "ben"])).toEqual({ ana: 200, ben: 200 });
+    });
+  });
+});
+
+describe("calculateMemberNets", () => {
+  it("should credit the payer and charge every share", () => {
+    const nets = calculateMemberNets(
+      ["ana", "ben"],
+      [
+        {
+          amount: 1000,
+          shares: { ana: 500, ben: 500 },
+          transactions: [{ amount: 1000, paidById: "ana" }],
+        },
+      ],
+      []
+    );
+    expect(nets).toEqual([
+      { memberId: "ana", paid: 1000, owed: 500, net: 500 },
+      { memberId: "ben", paid: 0, owed: 500, net: -500 },
+    ]);
+  });
+
+  it("should only count money that was actually paid", () => {
+    const nets = calculateMemberNets(
+      ["ana", "ben"],
+      [
+        {
+          amount: 1000,
+          shares: { ana: 500, ben: 500 },
+          transactions: [{ amount: 400, paidById: "ana" }],
+        },
+      ],
+      []
+    );
+    expect(nets.map((n) => n.net)).toEqual([200, -200]);
+  });
+
+  it("should ignore transactions without a payer", () => {
+    const nets = calculateMemberNets(
+      ["ana", "ben"],
+      [
+        {
+          amount: 1000,
+          shares: { ana: 500, ben: 500 },
+          transactions: [{ amount: 1000, paidById: null }],
+        },
+      ],
+      []
+    );
+    expect(nets.map((n) => n.net)).toEqual([0, 0]);
+  });
+
+  it("should keep nets balanced when shares do not divide evenly", () => {
+    const nets = calculateMemberNets(
+      ["ana", "ben", "caro"],
+      [
+        {
+          amount: 100,
+          shares: { ana: 34, ben: 33, caro: 33 },
+          transactions: [
+            { amount: 50, paidById: "ana" },
+            { amount: 50, paidById: "ben" },
+          ],
+        },
+      ],
+      []
+    );
+    expect(nets.reduce((sum, n) => sum + n.net, 0)).toBe(0);
+    expect(nets.every((n) => Number.isInteger(n.owed))).toBe(true);
+  });
+
+  it("should apply settlements", () => {
+    const nets = calculateMemberNets(
+      ["ana", "ben"],
+      [
+        {
+          amount: 1000,
+          shares: { ana: 500, ben: 500 },
+          transactions: [{ amount: 1000, paidById: "ana" }],
+        },
+      ],
+      [{ fromMemberId: "ben", toMemberId: "ana", amount: 500 }]
+    );
+    expect(nets.map((n) => n.net)).toEqual([0, 0]);
+  });
+});
+
+describe("suggestTransfers", () => {
+  const net = (memberId: string, value: number) => ({
+    memberId,
+    paid: 0,
+    owed: 0,
+    net: value,
+  });
+
+  it("should return nothing when everybody is even", () => {
+    expect(suggestTransfers([net("ana", 0), net("ben", 0)])).toEqual([]);
+  });
+
+  it("should settle a single debt directly", () => {
+    expect(suggestTransfers([net("ana", 500), net("ben", -500)])).toEqual([
+      { fromMemberId: "ben", toMemberId: "ana", amount: 500 },
+    ]);
+  });
+
+  it("should use fewer transfers than members", () => {
+    const transfers = suggestTransfers([
+      net("ana", 600),
+      net("ben", -200),
+      net("caro", -400),
+      net("dani", 0),
+    ]);
+    expect(transfers).toEqual([
+      { fromMemberId: "caro", toMemberId: "ana", amount: 400 },
+      { fromMemberId: "ben", toMemberId: "ana", amount: 200 },
+    ]);
+  });
+
+  it("should settle every balance", () => {
+    const nets = [net("ana", 35050), net("ben", 10000), net("caro", -20025), net("dani", -25025)];
+    const transfers = suggestTransfers(nets);
+    const totals = new Map(nets.map((n) => [n.memberId, n.net]));
+    transfers.forEach((t) => {
+      totals.set(t.fromMemberId, totals.get(t.fromMemberId)! + t.amount);
+      totals.set(t.toMemberId, totals.get(t.toMemberId)! - t.amount);
+    });
+    [...totals.values()].forEach((value) => expect(value).toBe(0));
+    expect(transfers.length).toBeLessThanOrEqual(3);
+  });
+});
@@ -0,0 +1,200 @@
+import { BillShare, Member, SplitMode } from '@prisma/client';
+import { allocateMinorUnits } from './money.js';
+
+export type ShareRule = Pick<BillShare, 'memberId' | 'percentage' | 'fixedAmount' | 'excluded'>;
+
+export type HouseholdMember = Pick<Member, 'id' | 'joinedAt' | 'leftAt'>;
+
+// Amount owed per member id, in minor units
+export type SplitResult = Record<string, number>;
+
+export interface SplitPayment {
+  amount: number;
+  shares: SplitResult;
+  transactions: Array<{ amount: number; paidById: string | null }>;
+}
+
+export interface SettlementEntry {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+}
+
+export interface MemberNet {
+  memberId: string;
+  paid: number;
+  owed: number;
+  net: number; // Positive: the household owes this member
+}
+
+export interface Transfer {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+}
+
+export const isMemberOfHousehold = (member: HouseholdMember, date: Date): boolean => {
+  return member.joinedAt <= date && (!member.leftAt || member.leftAt > date);
+};
+
+const toSplitResult = (memberIds: string[], parts: number[]): SplitResult =>
+  Object.fromEntries(memberIds.map((memberId, index) => [memberId, parts[index]]));
+
+// Splits an amount equally; leftover minor units go to the first members
+const splitEqually = (amount: number, memberIds: string[]): SplitResult => {
+  return toSplitResult(
+    memberIds,
+    allocateMinorUnits(amount, memberIds.map(() => 1))
+  );
+};
+
+/**
+ * Works out how much each member owes of an amount. Equal splits use every
+ * household member that is not excluded; percentage splits use the members
+ * with a percentage (normalized if they do not add up to 100); fixed splits
+ * charge the fixed amounts and split the rest equally among the remaining
+ * members, or among the fixed members if nobody else takes part.
+ */
+export const calculateSplit = (
+  amount: number,
+  mode: SplitMode,
+  rules: ShareRule[],
+  householdMemberIds: string[]
+): SplitResult => {
+  const excluded = new Set(rules.filter((rule) => rule.excluded).map((rule) => rule.memberId));
+
+  switch (mode) {
+    case 'EQUAL':
+      return splitEqually(
+        amount,
+        householdMemberIds.filter((memberId) => !excluded.has(memberId))
+      );
+    case 'PERCENTAGE': {
+      const weighted = rules.filter((rule) => !rule.excluded && (rule.percentage ?? 0) > 0);
+      return toSplitResult(
+        weighted.map((rule) => rule.memberId),
+        allocateMinorUnits(
+          amount,
+          weighted.map((rule) => rule.percentage!)
+        )
+      );
+    }
+    case 'FIXED': {
+      const fixedRules = rules.filter((rule) => !rule.excluded && rule.fixedAmount !== null);
+      const result: SplitResult = {};
+      let remaining = amount;
+
+      fixedRules.forEach((rule) => {
+        const share = Math.min(rule.fixedAmount!, Math.max(remaining, 0));
+        result[rule.memberId] = share;
+        remaining -= share;
+      });
+
+      if (remaining <= 0) {
+        return result;
+      }
+
+      const fixedIds = new Set(fixedRules.map((rule) => rule.memberId));
+      const others = householdMemberIds.filter(
+        (memberId) => !excluded.has(memberId) && !fixedIds.has(memberId)
+      );
+      const remainder = splitEqually(remaining, others.length > 0 ? others : [...fixedIds]);
+      Object.entries(remainder).forEach(([memberId, share]) => {
+        result[memberId] = (result[memberId] ?? 0) + share;
+      });
+      return result;
+    }
+  }
+};
+
+/**
+ * Net position of every member. Each transaction credits the member who
+ * paid it and charges the split members in proportion to their share, so
+ * only money that was actually paid creates debts. Transactions without a
+ * payer are left out. Settlements move money from one member to another.
+ * Every transaction is allocated in whole minor units, so the nets of all
+ * members always add up to zero.
+ */
+export const calculateMemberNets = (
+  memberIds: string[],
+  payments: SplitPayment[],
+  settlements: SettlementEntry[]
+): MemberNet[] => {
+  const nets = new Map<string, MemberNet>(
+    memberIds.map((memberId) => [memberId, { memberId, paid: 0, owed: 0, net: 0 }])
+  );
+  const get = (memberId: string): MemberNet => {
+    if (!nets.has(memberId)) {
+      nets.set(memberId, { memberId, paid: 0, owed: 0, net: 0 });
+    }
+    return nets.get(memberId)!;
+  };
+
+  payments.forEach((payment) => {
+    const shares = Object.entries(payment.shares).filter(([, share]) => share > 0);
+    if (shares.length === 0) {
+      return;
+    }
+
+    payment.transactions.forEach((transaction) => {
+      if (!transaction.paidById) {
+        return;
+      }
+      get(transaction.paidById).paid += transaction.amount;
+      const parts = allocateMinorUnits(
+        transaction.amount,
+        shares.map(([, share]) => share)
+      );
+      shares.forEach(([memberId], index) => {
+        get(memberId).owed += parts[index];
+      });
+    });
+  });
+
+  settlements.forEach((settlement) => {
+    get(settlement.fromMemberId).paid += settlement.amount;
+    get(settlement.toMemberId).owed += settlement.amount;
+  });
+
+  return [...nets.values()].map((entry) => ({
+    ...entry,
+    net: entry.paid - entry.owed,
+  }));
+};
+
+/**
+ * Suggests transfers that settle every balance. The largest debtor pays the
+ * largest creditor until one of them is even, which needs at most one
+ * transfer less than the number of members with a balance.
+ */
+export const suggestTransfers = (nets: MemberNet[]): Transfer[] => {
+  const creditors = nets
+    .filter((entry) => entry.net > 0)
+    .map((entry) => ({ memberId: entry.memberId, amount: entry.net }));
+  const debtors = nets
+    .filter((entry) => entry.net < 0)
+    .map((entry) => ({ memberId: entry.memberId, amount: -entry.net }));
+
+  const transfers: Transfer[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = Math.min(creditor.amount, debtor.amount);
+    transfers.push({ fromMemberId: debtor.memberId, toMemberId: creditor.memberId, amount });
+
+    creditor.amount -= amount;
+    debtor.amount -= amount;
+    if (creditor.amount === 0) {
+      creditors.shift();
+    }
+    if (debtor.amount === 0) {
+      debtors.shift();
+    }
+  }
+
+  return transfers;
+};
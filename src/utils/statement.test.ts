@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { Bill, Payment, PaymentTransaction } from "@prisma/client";
+import { PaymentWithBill } from "../services/paymentService.js";
+import { CurrencyConverter } from "./exchange.js";
+import { summarizePayments } from "./report.js";
+import {
+  DEFAULT_PDF_TEMPLATE,
+  buildStatement,
+  escapeHtml,
+  fillTemplate,
+  getStatementMembers,
+  layoutStatementPdf,
+  renderStatementHtml,
+  renderStatementPdf,
+} from "./statement.js";
+
+const payment = (
+  bill: Partial<Bill>,
+  overrides: Partial<Payment>,
+  transactions: Partial<PaymentTransaction>[] = []
+) =>
+  ({
+    amount: 100000,
+    currency: "COP",
+    status: "PENDING",
+    dueDate: new Date(2026, 9, 10),
+    paidDate: null,
+    notes: null,
+    isEstimated: false,
+    ...overrides,
+    bill: { name: "Rent", type: "RENT", ...bill },
+    transactions,
+  }) as PaymentWithBill;
+
+const convert: CurrencyConverter = (value) => value;
+
+const payments = [
+  payment({ name: "Rent" }, { amount: 1000000, status: "PAID", paidDate: new Date(2026, 9, 3) }, [
+    { amount: 1000000, date: new Date(2026, 9, 3) },
+  ]),
+  payment(
+    { name: "Water & <sewage>", type: "WATER" },
+    { amount: 80000, status: "PARTIALLY_PAID", notes: "Meter read on the 2nd" },
+    [{ amount: 30000, date: new Date(2026, 9, 12) }]
+  ),
+  payment({ name: "Gas", type: "GAS" }, { amount: 40000, isEstimated: true }),
+];
+
+const statement = buildStatement(
+  2026,
+  10,
+  payments,
+  summarizePayments(payments, "COP", convert),
+  { name: "Casa Chapinero", address: "Calle 60 #5-20", members: ["Ana", "Luis"] },
+  new Date(2026, 10, 1)
+);
+
+describe("getStatementMembers", () => {
+  it("should keep the members who lived there during the month", () => {
+    const members = [
+      { name: "Ana", joinedAt: new Date(2025, 0, 1), leftAt: null },
+      { name: "Luis", joinedAt: new Date(2026, 9, 20), leftAt: null },
+      { name: "Eva", joinedAt: new Date(2025, 0, 1), leftAt: new Date(2026, 9, 5) },
+      { name: "Juan", joinedAt: new Date(2025, 0, 1), leftAt: new Date(2026, 8, 30) },
+      { name: "Sara", joinedAt: new Date(2026, 10, 1), leftAt: null },
+    ];
+    expect(getStatementMembers(members, 2026, 10)).toEqual(["Ana", "Luis", "Eva"]);
+  });
+});
+
+describe("buildStatement", () => {
+  it("should take the paid amount and date from the transactions", () => {
+    const water = statement.rows[1];
+    expect(water.paid.amount).toBe(30000);
+    expect(water.outstanding.amount).toBe(50000);
+    expect(water.paidDate).toEqual(new Date(2026, 9, 12));
+    expect(statement.rows[0].paidDate).toEqual(new Date(2026, 9, 3));
+    expect(statement.rows[2].paidDate).toBeNull();
+  });
+});
+
+describe("fillTemplate", () => {
+  it("should replace placeholders and reject unknown ones", () => {
+    expect(fillTemplate("{{a}} and {{ b }}", { a: "1", b: "2" })).toBe("1 and 2");
+    expect(() => fillTemplate("{{total}} {{tip}}", { total: "1" })).toThrow(
+      "Unknown placeholder {{tip}} in the statement template"
+    );
+  });
+});
+
+describe("renderStatementHtml", () => {
+  const html = renderStatementHtml(statement);
+
+  it("should include the household header, rows, notes and totals", () => {
+    expect(html).toContain("<h1>Casa Chapinero</h1>");
+    expect(html).toContain("Members: Ana, Luis");
+    expect(html).toContain("Meter read on the 2nd");
+    expect(html).toContain("Partially paid");
+    expect(html).toContain('<span class="estimated">(estimated)</span>');
+    expect(html).toMatch(/<th>Outstanding<\/th><td class="amount">\$\s90\.000<\/td>/);
+    expect(html).not.toContain("{{");
+  });
+
+  it("should escape values", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&#60;a href=&#34;x&#34;&#62;&#39;&#38;&#39;&#60;/a&#62;"
+    );
+    expect(html).toContain("Water &#38; &#60;sewage&#62;");
+  });
+
+  it("should not load anything from the network", () => {
+    expect(html).not.toMatch(/https?:\/\//);
+  });
+
+  it("should use a custom template", () => {
+    const custom = renderStatementHtml(statement, "<p>{{household}}: {{paid}}</p>\n{{rows}}");
+    expect(custom).toMatch(/^<p>Casa Chapinero: \$\s1\.030\.000<\/p>\n {4}<tr class="PAID">/);
+  });
+});
+
+describe("layoutStatementPdf", () => {
+  const texts = (template?: string) =>
+    layoutStatementPdf(statement, template)
+      .flat()
+      .flatMap((item) => (item.kind === "text" ? [item.text] : []));
+
+  it("should lay out the header, table, notes and totals", () => {
+    const lines = texts();
+    expect(lines).toContain("Casa Chapinero");
+    expect(lines).toContain("Members: Ana, Luis");
+    expect(lines).toContain("Gas (est.)");
+    expect(lines).toContain("Meter read on the 2nd");
+    expect(lines.some((line) => /^Total: \$\s1\.120\.000$/.test(line))).toBe(true);
+    expect(lines).toContain("Page 1 of 1");
+  });
+
+  it("should leave out lines whose placeholders are all empty", () => {
+    const noAddress = { ...statement, household: { ...statement.household, address: null } };
+    const lines = layoutStatementPdf(noAddress)
+      .flat()
+      .flatMap((item) => (item.kind === "text" ? [item.text] : []));
+    expect(lines).not.toContain("");
+    expect(lines).toContain("Members: Ana, Luis");
+  });
+
+  it("should continue long statements on new pages with the table header", () => {
+    const many = { ...statement, rows: Array(80).fill(statement.rows[1]) };
+    const pages = layoutStatementPdf(many);
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach((page, index) => {
+      const lines = page.flatMap((item) => (item.kind === "text" ? [item.text] : []));
+      expect(lines).toContain("Bill");
+      expect(lines).toContain(`Page ${index + 1} of ${pages.length}`);
+    });
+  });
+
+  it("should need {{rows}} on a line of its own", () => {
+    expect(() => texts("Payments: {{rows}}")).toThrow("{{rows}} must be on a line of its own");
+    expect(texts(DEFAULT_PDF_TEMPLATE.replace("# ", "## "))).toContain("Casa Chapinero");
+  });
+});
+
+describe("renderStatementPdf", () => {
+  it("should write a PDF titled after the household and month", () => {
+    const pdf = renderStatementPdf(statement).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/Title (Casa Chapinero - octubre de 2026)");
+  });
+});
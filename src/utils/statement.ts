@@ -0,0 +1,417 @@
+import { BillType, Member, PaymentStatus } from '@prisma/client';
+import { PaymentWithBill, PaymentsSummary } from '../services/paymentService.js';
+import { getLastTransactionDate, getOutstandingAmount, getPaidAmount } from './balance.js';
+import { formatBillType, formatCurrency, formatDate, formatMonth } from './formatters.js';
+import { Money, money } from './money.js';
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PdfFont,
+  PdfPage,
+  buildPdf,
+  fitText,
+  measureText,
+  wrapText,
+} from './pdf.js';
+
+// Printable monthly statement for `report:statement`, rendered as HTML or PDF from a template
+
+export type StatementFormat = 'html' | 'pdf';
+
+export const STATEMENT_FORMATS: StatementFormat[] = ['html', 'pdf'];
+
+export interface StatementHousehold {
+  name: string;
+  address: string | null;
+  members: string[]; // Names of the members who lived there during the month
+}
+
+export interface StatementRow {
+  bill: string;
+  billType: BillType;
+  dueDate: Date;
+  amount: Money;
+  paid: Money;
+  outstanding: Money;
+  paidDate: Date | null; // Of the last transaction while not fully paid
+  status: PaymentStatus;
+  isEstimated: boolean;
+  notes: string | null;
+}
+
+export interface Statement {
+  year: number;
+  month: number;
+  household: StatementHousehold;
+  rows: StatementRow[]; // In the currency of each payment
+  summary: PaymentsSummary; // In the reporting currency
+  generatedAt: Date;
+}
+
+const STATUS_LABELS: Record<PaymentStatus, string> = {
+  PAID: 'Paid',
+  PENDING: 'Pending',
+  PARTIALLY_PAID: 'Partially paid',
+  OVERDUE: 'Overdue',
+};
+
+export const getStatementMembers = (
+  members: Pick<Member, 'name' | 'joinedAt' | 'leftAt'>[],
+  year: number,
+  month: number
+): string[] => {
+  const start = new Date(year, month - 1, 1);
+  const end = new Date(year, month, 1);
+  return members
+    .filter((member) => member.joinedAt < end && (!member.leftAt || member.leftAt > start))
+    .map((member) => member.name);
+};
+
+export const buildStatement = (
+  year: number,
+  month: number,
+  payments: PaymentWithBill[],
+  summary: PaymentsSummary,
+  household: StatementHousehold,
+  generatedAt: Date = new Date()
+): Statement => ({
+  year,
+  month,
+  household,
+  rows: payments.map((payment) => ({
+    bill: payment.bill.name,
+    billType: payment.bill.type,
+    dueDate: payment.dueDate,
+    amount: money(payment.amount, payment.currency),
+    paid: money(getPaidAmount(payment.transactions), payment.currency),
+    outstanding: money(
+      getOutstandingAmount(payment.amount, payment.transactions),
+      payment.currency
+    ),
+    paidDate: payment.paidDate ?? getLastTransactionDate(payment.transactions),
+    status: payment.status,
+    isEstimated: payment.isEstimated,
+    notes: payment.notes,
+  })),
+  summary,
+  generatedAt,
+});
+
+// Text of every placeholder except {{rows}}, which each format draws itself
+export const getStatementValues = (statement: Statement): Record<string, string> => {
+  const { household, summary } = statement;
+  return {
+    household: household.name,
+    address: household.address ?? '',
+    members: household.members.join(', '),
+    month: formatMonth(new Date(statement.year, statement.month - 1)),
+    period: `${statement.year}-${String(statement.month).padStart(2, '0')}`,
+    generated: formatDate(statement.generatedAt),
+    currency: summary.currency,
+    payments: String(statement.rows.length),
+    total: formatCurrency(summary.total),
+    paid: formatCurrency(summary.paid),
+    outstanding: formatCurrency(summary.outstanding),
+    pending: formatCurrency(summary.pending),
+    overdue: formatCurrency(summary.overdue),
+    estimated: formatCurrency(summary.estimated),
+  };
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const ROWS_PLACEHOLDER = /\{\{\s*rows\s*\}\}/;
+
+// Replaces every {{name}}; unknown names are mistakes in a custom template
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (values[name] === undefined) {
+      throw new Error(`Unknown placeholder ${placeholder} in the statement template`);
+    }
+    return values[name];
+  });
+
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+export const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>{{household}} - {{month}}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { max-width: 190mm; margin: 0 auto; font: 11px/1.4 system-ui, sans-serif; color: #222; }
+  header { padding-bottom: 8px; margin-bottom: 16px; border-bottom: 2px solid #263238; }
+  h1 { margin: 0; font-size: 20px; }
+  h2 { margin: 16px 0 8px; font-size: 15px; }
+  .muted { color: #666; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 5px 6px; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+  thead th { border-bottom: 1px solid #263238; }
+  tr { break-inside: avoid; }
+  .amount { text-align: right; white-space: nowrap; }
+  .notes { white-space: pre-wrap; color: #555; }
+  .estimated { font-style: italic; color: #666; }
+  .totals { width: auto; margin: 16px 0 0 auto; }
+  .totals th { padding-right: 24px; }
+  footer { margin-top: 24px; font-size: 10px; color: #666; }
+</style>
+</head>
+<body>
+<header>
+  <h1>{{household}}</h1>
+  <div class="muted">{{address}}</div>
+  <div class="muted">Members: {{members}}</div>
+</header>
+<h2>Statement for {{month}}</h2>
+<table>
+  <thead>
+    <tr>
+      <th>Bill</th><th>Type</th><th>Due</th><th class="amount">Amount</th>
+      <th class="amount">Paid</th><th>Paid on</th><th>Status</th><th>Notes</th>
+    </tr>
+  </thead>
+  <tbody>
+{{rows}}
+  </tbody>
+</table>
+<table class="totals">
+  <tr><th>Total</th><td class="amount">{{total}}</td></tr>
+  <tr><th>Paid</th><td class="amount">{{paid}}</td></tr>
+  <tr><th>Outstanding</th><td class="amount">{{outstanding}}</td></tr>
+  <tr><th>Pending</th><td class="amount">{{pending}}</td></tr>
+  <tr><th>Overdue</th><td class="amount">{{overdue}}</td></tr>
+</table>
+<footer>{{payments}} payment(s), totals in {{currency}}. Generated on {{generated}}.</footer>
+</body>
+</html>
+`;
+
+const renderHtmlRow = (row: StatementRow): string => {
+  const bill = row.isEstimated
+    ? `${escapeHtml(row.bill)} <span class="estimated">(estimated)</span>`
+    : escapeHtml(row.bill);
+  const cells = [
+    `<td>${bill}</td>`,
+    `<td>${formatBillType(row.billType)}</td>`,
+    `<td>${formatDate(row.dueDate)}</td>`,
+    `<td class="amount">${formatCurrency(row.amount)}</td>`,
+    `<td class="amount">${formatCurrency(row.paid)}</td>`,
+    `<td>${row.paidDate ? formatDate(row.paidDate) : '-'}</td>`,
+    `<td>${STATUS_LABELS[row.status]}</td>`,
+    `<td class="notes">${escapeHtml(row.notes ?? '')}</td>`,
+  ];
+  return `    <tr class="${row.status}">${cells.join('')}</tr>`;
+};
+
+// Every value is escaped; {{rows}} is the table body
+export const renderStatementHtml = (
+  statement: Statement,
+  template: string = DEFAULT_HTML_TEMPLATE
+): string => {
+  const values = Object.fromEntries(
+    Object.entries(getStatementValues(statement)).map(([name, value]) => [name, escapeHtml(value)])
+  );
+  const rows =
+    statement.rows.length > 0
+      ? statement.rows.map(renderHtmlRow).join('\n')
+      : '    <tr><td colspan="8" class="muted">No payments this month.</td></tr>';
+  return fillTemplate(template, { ...values, rows });
+};
+
+/**
+ * One line per paragraph: "# " starts a title, "## " a heading, "---" is a
+ * rule and {{rows}} on a line of its own is the payments table. Lines whose
+ * placeholders are all empty are left out.
+ */
+export const DEFAULT_PDF_TEMPLATE = `# {{household}}
+{{address}}
+Members: {{members}}
+---
+## Statement for {{month}}
+
+{{rows}}
+
+Total: {{total}}
+Paid: {{paid}}
+Outstanding: {{outstanding}} (pending {{pending}}, overdue {{overdue}})
+
+{{payments}} payment(s), totals in {{currency}}. Generated on {{generated}}.
+`;
+
+const MARGIN = 48;
+const FOOTER_Y = 30;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CELL_GAP = 8;
+const TABLE_SIZE = 8.5;
+const NOTES_SIZE = 7.5;
+const LINE_HEIGHT = 1.4; // Times the font size
+
+const LINE_STYLES: { prefix: string; size: number; font: PdfFont }[] = [
+  { prefix: '# ', size: 18, font: 'bold' },
+  { prefix: '## ', size: 12, font: 'bold' },
+  { prefix: '', size: 10, font: 'regular' },
+];
+
+interface TableColumn {
+  title: string;
+  width: number;
+  align: 'left' | 'right';
+  value: (row: StatementRow) => string;
+}
+
+const TABLE_COLUMNS: TableColumn[] = [
+  {
+    title: 'Bill',
+    width: 108,
+    align: 'left',
+    value: (row) => (row.isEstimated ? `${row.bill} (est.)` : row.bill),
+  },
+  { title: 'Due', width: 84, align: 'left', value: (row) => formatDate(row.dueDate) },
+  { title: 'Amount', width: 72, align: 'right', value: (row) => formatCurrency(row.amount) },
+  { title: 'Paid', width: 72, align: 'right', value: (row) => formatCurrency(row.paid) },
+  {
+    title: 'Paid on',
+    width: 84,
+    align: 'left',
+    value: (row) => (row.paidDate ? formatDate(row.paidDate) : '-'),
+  },
+  {
+    title: 'Status',
+    width: CONTENT_WIDTH - 420, // The rest of the line
+    align: 'left',
+    value: (row) => STATUS_LABELS[row.status],
+  },
+];
+
+// Lays the filled template out on A4 pages, with the table header repeated on every page
+export const layoutStatementPdf = (
+  statement: Statement,
+  template: string = DEFAULT_PDF_TEMPLATE
+): PdfPage[] => {
+  const values = getStatementValues(statement);
+  const pages: PdfPage[] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const hasRoom = (height: number) => y - height >= FOOTER_Y + 2 * CELL_GAP;
+  const addText = (text: string, x: number, size: number, font: PdfFont, gray?: number) =>
+    pages[pages.length - 1].push({ kind: 'text', x, y, size, font, text, gray });
+  const addRule = (width: number) =>
+    pages[pages.length - 1].push({
+      kind: 'rule',
+      x1: MARGIN,
+      y1: y,
+      x2: PAGE_WIDTH - MARGIN,
+      y2: y,
+      width,
+    });
+
+  const addCells = (texts: string[], font: PdfFont) => {
+    let x = MARGIN;
+    TABLE_COLUMNS.forEach((column, index) => {
+      const text = fitText(texts[index], column.width - CELL_GAP, TABLE_SIZE, font);
+      const offset =
+        column.align === 'right'
+          ? column.width - CELL_GAP - measureText(text, TABLE_SIZE, font)
+          : 0;
+      addText(text, x + offset, TABLE_SIZE, font);
+      x += column.width;
+    });
+  };
+  const addTableHeader = () => {
+    y -= TABLE_SIZE * LINE_HEIGHT;
+    addCells(TABLE_COLUMNS.map((column) => column.title), 'bold');
+    y -= TABLE_SIZE * 0.5;
+    addRule(0.75);
+  };
+
+  const addTable = () => {
+    if (!hasRoom(TABLE_SIZE * LINE_HEIGHT * 3)) {
+      newPage();
+    }
+    addTableHeader();
+    if (statement.rows.length === 0) {
+      y -= TABLE_SIZE * LINE_HEIGHT * 1.5;
+      addText('No payments this month.', MARGIN, TABLE_SIZE, 'regular', 0.4);
+    }
+    statement.rows.forEach((row) => {
+      const notes = row.notes
+        ? wrapText(row.notes, CONTENT_WIDTH - CELL_GAP * 2, NOTES_SIZE, 'regular')
+        : [];
+      const height = TABLE_SIZE * LINE_HEIGHT * 1.5 + notes.length * NOTES_SIZE * LINE_HEIGHT;
+      if (!hasRoom(height)) {
+        newPage();
+        addTableHeader();
+      }
+      y -= TABLE_SIZE * LINE_HEIGHT * 1.5;
+      addCells(TABLE_COLUMNS.map((column) => column.value(row)), 'regular');
+      notes.forEach((line) => {
+        y -= NOTES_SIZE * LINE_HEIGHT;
+        addText(line, MARGIN + CELL_GAP * 2, NOTES_SIZE, 'regular', 0.4);
+      });
+      y -= TABLE_SIZE * 0.5;
+      addRule(0.25);
+    });
+  };
+
+  template.split(/\r?\n/).forEach((line) => {
+    if (ROWS_PLACEHOLDER.test(line)) {
+      if (line.trim().replace(/\s+/g, '') !== '{{rows}}') {
+        throw new Error('{{rows}} must be on a line of its own in a PDF statement template');
+      }
+      addTable();
+      return;
+    }
+    if (line.trim() === '') {
+      y -= 6;
+      return;
+    }
+    if (line.trim() === '---') {
+      y -= 6;
+      addRule(1);
+      y -= 6;
+      return;
+    }
+
+    const names = Array.from(line.matchAll(PLACEHOLDER), (match) => match[1]);
+    if (names.length > 0 && names.every((name) => values[name] === '')) {
+      return;
+    }
+    const style = LINE_STYLES.find((candidate) => line.startsWith(candidate.prefix))!;
+    const text = fillTemplate(line.slice(style.prefix.length), values);
+    wrapText(text, CONTENT_WIDTH, style.size, style.font).forEach((part) => {
+      const height = style.size * LINE_HEIGHT;
+      if (!hasRoom(height)) {
+        newPage();
+      }
+      y -= height;
+      addText(part, MARGIN, style.size, style.font);
+    });
+  });
+
+  const footer = `${values.household} - ${values.month}`;
+  pages.forEach((page, index) => {
+    const number = `Page ${index + 1} of ${pages.length}`;
+    const numberX = PAGE_WIDTH - MARGIN - measureText(number, 8, 'regular');
+    page.push(
+      { kind: 'text', x: MARGIN, y: FOOTER_Y, size: 8, font: 'regular', text: footer, gray: 0.4 },
+      { kind: 'text', x: numberX, y: FOOTER_Y, size: 8, font: 'regular', text: number, gray: 0.4 }
+    );
+  });
+  return pages;
+};
+
+export const renderStatementPdf = (
+  statement: Statement,
+  template: string = DEFAULT_PDF_TEMPLATE
+): Buffer => {
+  const values = getStatementValues(statement);
+  return buildPdf(layoutStatementPdf(statement, template), {
+    title: `${values.household} - ${values.month}`,
+    createdAt: statement.generatedAt,
+  });
+};